@@ -19,11 +19,13 @@ module.exports = {
     "^(.*)\\.js$": "$1"
   },
   transform: {
-    '^.+\\.tsx?$': ['ts-jest', {
+    '^.+\\.[tj]sx?$': ['ts-jest', {
       useESM: true,
       tsconfig: 'tsconfig.test.json'
     }],
   },
+  // pixelmatch ships ES modules only
+  transformIgnorePatterns: ['/node_modules/(?!pixelmatch/)'],
   extensionsToTreatAsEsm: ['.ts'],
   moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json', 'node'],
 };
@@ -0,0 +1,91 @@
+import type http from 'http';
+import { AddressInfo } from 'net';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { startHttpServer } from '../httpServer.js';
+
+function createServer() {
+  return new Server({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+}
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'jest', version: '0.0.0' } },
+};
+
+describe('startHttpServer', () => {
+  let server: http.Server | undefined;
+  let baseUrl: string;
+
+  async function start(authToken?: string) {
+    server = await startHttpServer(createServer, { port: 0, authToken });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  function post(body: string, headers: Record<string, string> = {}) {
+    return fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+      body,
+    });
+  }
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    if (server) {
+      server.closeAllConnections();
+      await new Promise(resolve => server!.close(resolve));
+      server = undefined;
+    }
+    jest.restoreAllMocks();
+  });
+
+  test('refuses to listen beyond loopback without a bearer token', async () => {
+    await expect(startHttpServer(createServer, { port: 0, host: '0.0.0.0' })).rejects.toThrow(/MCP_AUTH_TOKEN/);
+  });
+
+  test('listens on loopback by default', async () => {
+    await start();
+
+    expect((server!.address() as AddressInfo).address).toBe('127.0.0.1');
+  });
+
+  test('requires the bearer token on MCP endpoints but not on the health check', async () => {
+    await start('s3cret');
+
+    const missing = await post(JSON.stringify(INITIALIZE));
+    const wrong = await post(JSON.stringify(INITIALIZE), { Authorization: 'Bearer s3cre' });
+    const health = await fetch(`${baseUrl}/health`);
+
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+    expect(wrong.status).toBe(401);
+    expect(health.status).toBe(200);
+    expect(await health.json()).toMatchObject({ status: 'ok', sessions: 0 });
+  });
+
+  test('starts a session for an authorized initialize request', async () => {
+    await start('s3cret');
+
+    const response = await post(JSON.stringify(INITIALIZE), { Authorization: 'Bearer s3cret' });
+    await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('mcp-session-id')).toBeTruthy();
+  });
+
+  test('rejects oversized and malformed bodies', async () => {
+    await start();
+
+    const oversized = await post(JSON.stringify({ ...INITIALIZE, padding: 'x'.repeat(5 * 1024 * 1024) }));
+    const malformed = await post('{"jsonrpc":');
+
+    expect(oversized.status).toBe(400);
+    expect(await oversized.json()).toMatchObject({ error: { message: expect.stringContaining('exceeds') } });
+    expect(malformed.status).toBe(400);
+  });
+});
@@ -0,0 +1,62 @@
+import type { BrowserSession } from '../sessionManager.js';
+import { sessionManager } from '../sessionManager.js';
+import { handleToolCall } from '../toolHandler.js';
+
+/**
+ * Session whose page records the URLs it navigates to
+ */
+function fakeSession(id: string, consoleLog: string[] = []) {
+  const visited: string[] = [];
+  const page = {
+    isClosed: () => false,
+    url: () => visited[visited.length - 1] ?? 'about:blank',
+    goto: jest.fn(async (url: string) => { visited.push(url); }),
+  };
+  const session = {
+    id,
+    browser: { isConnected: () => true },
+    page,
+    browserType: 'chromium',
+    consoleLog,
+    screenshots: new Map(),
+    responsePromises: new Map(),
+    routes: new Map(),
+  } as unknown as BrowserSession;
+  return { session, visited };
+}
+
+describe('handleToolCall', () => {
+  const a = fakeSession('a', ['[log] from a']);
+  const b = fakeSession('b', ['[error] from b']);
+  const sessions = new Map([['a', a.session], ['b', b.session]]);
+
+  beforeEach(() => {
+    jest.spyOn(sessionManager, 'getActiveSessionId').mockReturnValue('a');
+    jest.spyOn(sessionManager, 'getSession').mockImplementation(id => sessions.get(id ?? 'a') ?? null);
+    jest.spyOn(sessionManager, 'ensureSession').mockImplementation(async id => sessions.get(id ?? 'a')!);
+    jest.spyOn(sessionManager, 'markBusy').mockReturnValue(() => {});
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  test('runs a browser tool against the session named by sessionId', async () => {
+    const response = await handleToolCall('playwright_navigate', { url: 'https://shop.test/cart', sessionId: 'b' }, undefined);
+
+    expect(response.isError).toBe(false);
+    expect(b.visited).toEqual(['https://shop.test/cart']);
+    expect(a.visited).toEqual([]);
+    expect(sessionManager.ensureSession).toHaveBeenCalledWith('b', expect.anything(), undefined);
+  });
+
+  test('falls back to the active session without a sessionId', async () => {
+    await handleToolCall('playwright_navigate', { url: 'https://shop.test/' }, undefined);
+
+    expect(a.visited).toContain('https://shop.test/');
+  });
+
+  test('reads the console log of the targeted session', async () => {
+    const response = await handleToolCall('playwright_console_logs', { sessionId: 'b' }, undefined);
+
+    expect(response.structuredContent).toEqual({ count: 1, logs: ['[error] from b'] });
+  });
+});
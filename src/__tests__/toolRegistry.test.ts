@@ -0,0 +1,46 @@
+import { createToolDefinitions } from '../tools.js';
+import { ToolRegistry, toolRegistry } from '../toolRegistry.js';
+import { ToolHandler, createSuccessResponse } from '../tools/common/types.js';
+
+class EchoTool implements ToolHandler {
+  constructor(public server: any) {}
+
+  async execute() {
+    return createSuccessResponse('echo');
+  }
+}
+
+describe('ToolRegistry', () => {
+  const registry = new ToolRegistry({ echo: server => new EchoTool(server) });
+
+  test('has a handler for every advertised tool', () => {
+    const definitions = createToolDefinitions();
+
+    expect(() => toolRegistry.validate(definitions)).not.toThrow();
+    expect(toolRegistry.getToolNames().sort()).toEqual(definitions.map(tool => tool.name).sort());
+  });
+
+  test('lists advertised tools without a handler', () => {
+    expect(() => registry.validate(createToolDefinitions().slice(0, 1))).toThrow(/No handler registered for tool\(s\): /);
+  });
+
+  test('binds handlers to the server of each client', () => {
+    const first = {};
+    const second = {};
+
+    const handler = registry.getHandler<EchoTool>('echo', first);
+
+    expect(handler?.server).toBe(first);
+    expect(registry.getHandler('echo', first)).toBe(handler);
+    expect(registry.getHandler<EchoTool>('echo', second)?.server).toBe(second);
+  });
+
+  test('shares handlers between calls without a server', () => {
+    expect(registry.getHandler('echo')).toBe(registry.getHandler('echo', undefined));
+  });
+
+  test('returns undefined for an unknown tool', () => {
+    expect(registry.getHandler('missing', {})).toBeUndefined();
+    expect(registry.has('toString')).toBe(false);
+  });
+});
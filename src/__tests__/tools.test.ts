@@ -0,0 +1,47 @@
+import Ajv from 'ajv';
+import { createToolDefinitions } from '../tools.js';
+import { createSuccessResponse } from '../tools/common/types.js';
+import { ListSessionsTool } from '../tools/session/index.js';
+import { ListDevicesTool } from '../tools/browser/crossBrowser.js';
+
+describe('createToolDefinitions', () => {
+  const definitions = createToolDefinitions();
+  const ajv = new Ajv({ allErrors: true, strict: false });
+
+  function validatorFor(name: string) {
+    const definition = definitions.find(tool => tool.name === name);
+    return ajv.compile(definition!.outputSchema!);
+  }
+
+  test('declares a compilable object outputSchema for every tool', () => {
+    const invalid = definitions.filter(tool => {
+      if (tool.outputSchema?.type !== 'object') {
+        return true;
+      }
+      try {
+        ajv.compile(tool.outputSchema);
+        return false;
+      } catch {
+        return true;
+      }
+    });
+
+    expect(invalid.map(tool => tool.name)).toEqual([]);
+  });
+
+  test('the message of a tool without a result of its own matches its schema', () => {
+    const validate = validatorFor('playwright_click');
+
+    expect(validate(createSuccessResponse('Clicked element: #submit').structuredContent)).toBe(true);
+    expect(validate({ clicked: '#submit' })).toBe(false);
+  });
+
+  test('tool results match their declared schema', async () => {
+    const sessions = await new ListSessionsTool().execute({}, {});
+    const devices = await new ListDevicesTool({}).execute({ filter: 'pixel' }, {});
+
+    expect(validatorFor('list_browser_sessions')(sessions.structuredContent)).toBe(true);
+    expect(validatorFor('playwright_list_devices')(devices.structuredContent)).toBe(true);
+    expect((devices.structuredContent!.devices as unknown[]).length).toBeGreaterThan(0);
+  });
+});
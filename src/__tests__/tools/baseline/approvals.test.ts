@@ -0,0 +1,52 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ApplyVisualApprovalsTool } from '../../../tools/baseline/index.js';
+import { VisualApprovalManifest } from '../../../utils/visualReport.js';
+
+describe('ApplyVisualApprovalsTool', () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'visual-approvals-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  function writeFile(name: string, content: string): string {
+    const filePath = path.join(rootDir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  test('copies approved current images over their baselines and leaves rejected ones', async () => {
+    const decidedAt = '2026-10-19T10:00:00.000Z';
+    const manifest: VisualApprovalManifest = {
+      report: 'Nightly',
+      generatedAt: decidedAt,
+      approver: 'qa',
+      approvals: [
+        { name: 'home', decision: 'approved', baselinePath: writeFile('home.png', 'old home'), currentPath: writeFile('home-current.png', 'new home'), decidedAt },
+        { name: 'cart', decision: 'rejected', baselinePath: writeFile('cart.png', 'old cart'), currentPath: writeFile('cart-current.png', 'new cart'), decidedAt },
+        { name: 'search', decision: 'approved', baselinePath: writeFile('search.png', 'old search'), currentPath: path.join(rootDir, 'gone.png'), decidedAt },
+      ],
+    };
+
+    const response = await new ApplyVisualApprovalsTool().execute({ manifestPath: writeFile('approvals.json', JSON.stringify(manifest)) }, {});
+
+    expect(response.isError).toBe(false);
+    expect(response.structuredContent).toEqual({ applied: 2, total: 3 });
+    expect(fs.readFileSync(path.join(rootDir, 'home.png'), 'utf-8')).toBe('new home');
+    expect(fs.readFileSync(path.join(rootDir, 'cart.png'), 'utf-8')).toBe('old cart');
+    expect(fs.readFileSync(path.join(rootDir, 'search.png'), 'utf-8')).toBe('old search');
+    expect(response.content.map(item => item.text).join('\n')).toContain('search: skipped (current image not found)');
+  });
+
+  test('rejects a file that is not an approval manifest', async () => {
+    const response = await new ApplyVisualApprovalsTool().execute({ manifestPath: writeFile('other.json', '{"entries":[]}') }, {});
+
+    expect(response.isError).toBe(true);
+  });
+});
@@ -0,0 +1,56 @@
+import { chromium, firefox, webkit } from 'playwright';
+import { RunAcrossBrowsersTool } from '../../../tools/browser/crossBrowser.js';
+import { resourceManager } from '../../../utils/resourceManager.js';
+
+describe('RunAcrossBrowsersTool', () => {
+  const config = resourceManager.getConfig();
+  let running = 0;
+  let mostRunning = 0;
+
+  function fakeLaunch() {
+    running++;
+    mostRunning = Math.max(mostRunning, running);
+    const page = {
+      goto: async () => new Promise(resolve => setTimeout(resolve, 20)),
+      title: async () => 'Shop',
+      close: async () => {},
+    };
+    return Promise.resolve({ newPage: async () => page, close: async () => { running--; } } as any);
+  }
+
+  beforeEach(() => {
+    running = 0;
+    mostRunning = 0;
+    for (const browserType of [chromium, firefox, webkit]) {
+      jest.spyOn(browserType, 'launch').mockImplementation(fakeLaunch);
+    }
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    resourceManager.updateConfig(config);
+  });
+
+  test('launches one browser at a time when only one browser slot is free', async () => {
+    resourceManager.updateConfig({ maxConcurrentBrowsers: 1 });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await new RunAcrossBrowsersTool({}).execute({ url: 'https://shop.test/', action: 'title' }, { admission: { clientId: 'client-a' } } as any);
+
+    expect(response.isError).toBe(false);
+    expect(mostRunning).toBe(1);
+    expect(resourceManager.getResourceUsage().activeBrowsers).toBe(0);
+    expect(resourceManager.getUserSessionCount('client-a')).toBe(0);
+  });
+
+  test('releases the browser slot when a launch fails', async () => {
+    jest.spyOn(firefox, 'launch').mockRejectedValue(new Error('Executable doesn\'t exist'));
+
+    const response = await new RunAcrossBrowsersTool({}).execute({ url: 'https://shop.test/', browsers: ['chromium', 'firefox'] }, { admission: { clientId: 'client-a' } } as any);
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('✗ FIREFOX: Error: Executable doesn\'t exist');
+    expect(resourceManager.getResourceUsage().activeBrowsers).toBe(0);
+    expect(resourceManager.getUserSessionCount('client-a')).toBe(0);
+  });
+});
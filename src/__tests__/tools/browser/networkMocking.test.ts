@@ -0,0 +1,41 @@
+import { MockRouteTool } from '../../../tools/browser/networkMocking.js';
+
+function fakeRoute(method: string) {
+  return {
+    request: () => ({ method: () => method }),
+    fallback: jest.fn().mockResolvedValue(undefined),
+    fulfill: jest.fn().mockResolvedValue(undefined),
+  };
+}
+
+describe('MockRouteTool', () => {
+  test('counts only requests of the filtered method toward times', async () => {
+    let handler: (route: any) => Promise<void>;
+    const page = {
+      isClosed: () => false,
+      route: jest.fn(async (_url: unknown, routeHandler: typeof handler) => { handler = routeHandler; }),
+      unroute: jest.fn().mockResolvedValue(undefined),
+    };
+    const session = { routes: new Map() };
+    const context = { page, session } as any;
+
+    const response = await new MockRouteTool({}).execute({ url: '**/api', method: 'post', times: 1, json: {} }, context);
+    expect(response.isError).toBe(false);
+    expect(page.route).toHaveBeenCalledWith('**/api', expect.any(Function));
+
+    const get = fakeRoute('GET');
+    await handler!(get);
+    expect(get.fallback).toHaveBeenCalled();
+    expect(get.fulfill).not.toHaveBeenCalled();
+
+    const post = fakeRoute('POST');
+    await handler!(post);
+    expect(post.fulfill).toHaveBeenCalled();
+    expect(page.unroute).toHaveBeenCalledWith('**/api', handler!);
+
+    const secondPost = fakeRoute('POST');
+    await handler!(secondPost);
+    expect(secondPost.fallback).toHaveBeenCalled();
+    expect(session.routes.get('route-1').hits).toBe(1);
+  });
+});
@@ -0,0 +1,83 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PNG } from 'pngjs';
+import type { ToolContext } from '../../../tools/common/types.js';
+import { VisualCompareTool } from '../../../tools/browser/visualTesting.js';
+
+/**
+ * Page whose elements render as solid squares of the shade set for their selector
+ */
+function fakePage(shades: Record<string, number>) {
+  const screenshot = jest.fn(async (selector: string, options: { path: string }) => {
+    const png = new PNG({ width: 16, height: 16 });
+    png.data.fill(shades[selector]);
+    fs.writeFileSync(options.path, PNG.sync.write(png));
+  });
+  const page = {
+    isClosed: () => false,
+    url: () => 'https://shop.test/',
+    locator: (selector: string) => ({
+      selector,
+      screenshot: (options: { path: string }) => screenshot(selector, options),
+    }),
+  };
+  return { page, screenshot };
+}
+
+describe('VisualCompareTool components', () => {
+  let rootDir: string;
+  const regions = [{ selector: '#site-header', name: 'header' }, { selector: 'button.add-to-cart' }];
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'components-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  async function compare(shades: Record<string, number>, args: Record<string, unknown> = {}) {
+    const { page, screenshot } = fakePage(shades);
+    const context = { page } as unknown as ToolContext;
+    const response = await new VisualCompareTool({}).execute({ baseline: path.join(rootDir, 'product.png'), regions, ...args }, context);
+    return { response, screenshot };
+  }
+
+  test('keeps a baseline per element and reports each element', async () => {
+    await compare({ '#site-header': 10, 'button.add-to-cart': 200 });
+
+    const { response } = await compare({ '#site-header': 10, 'button.add-to-cart': 90 });
+
+    expect(fs.existsSync(path.join(rootDir, 'product-header.png'))).toBe(true);
+    expect(fs.existsSync(path.join(rootDir, 'product-button-add-to-cart.png'))).toBe(true);
+    expect(response.isError).toBe(true);
+    expect(response.structuredContent).toMatchObject({
+      passed: false,
+      components: [
+        { name: 'header', selector: '#site-header', passed: true },
+        { name: 'button-add-to-cart', selector: 'button.add-to-cart', passed: false, diffPercentage: 100 },
+      ],
+    });
+    expect(response.content[0].text).toContain('(1/2 passed)');
+  });
+
+  test('masks selectors and freezes animations unless told not to', async () => {
+    const frozen = await compare({}, { mask: ['.price'] });
+    const live = await compare({}, { freezeAnimations: false });
+
+    const frozenOptions = frozen.screenshot.mock.calls[0][1] as Record<string, any>;
+    const liveOptions = live.screenshot.mock.calls[0][1] as Record<string, any>;
+    expect(frozenOptions).toMatchObject({ animations: 'disabled', caret: 'hide', style: expect.stringContaining('animation-play-state: paused') });
+    expect(frozenOptions.mask.map((locator: { selector: string }) => locator.selector)).toEqual(['.price']);
+    expect(liveOptions).not.toHaveProperty('animations');
+    expect(liveOptions).not.toHaveProperty('mask');
+  });
+
+  test('rejects regions that resolve to the same component name', async () => {
+    const { response } = await compare({}, { regions: [{ selector: '#cart' }, { selector: '.x', name: 'cart' }] });
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain("Duplicate component name 'cart'");
+  });
+});
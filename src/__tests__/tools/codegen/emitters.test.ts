@@ -0,0 +1,68 @@
+import { PlaywrightGenerator } from '../../../tools/codegen/generator.js';
+import { CodegenSession } from '../../../tools/codegen/types.js';
+
+const LOGIN: CodegenSession = {
+  id: 'session-1234',
+  startTime: Date.UTC(2026, 0, 1),
+  actions: [
+    ['playwright_navigate', { url: 'https://shop.test/login' }],
+    ['playwright_fill', { selector: '#email', value: 'qa@shop.test' }],
+    ['playwright_click', { selector: '[data-testid="sign-in"]' }],
+    ['playwright_assert_text_content', { selector: '.welcome-banner', expectedText: 'Welcome' }],
+  ].map(([toolName, parameters]) => ({ toolName: toolName as string, parameters: parameters as Record<string, unknown>, timestamp: 0 })),
+};
+
+async function generate(language: 'python' | 'java', template: 'plain' | 'pom') {
+  return new PlaywrightGenerator({ language, template, outputPath: '/tmp/generated' }).generateTest(LOGIN);
+}
+
+function file(result: { files?: Array<{ path: string; content: string }> }, name: string) {
+  return result.files?.find(entry => entry.path.endsWith(name))?.content;
+}
+
+describe('Python emitter', () => {
+  test('plain template emits a pytest function using the page fixture', async () => {
+    const result = await generate('python', 'plain');
+
+    expect(result.filePath).toBe('/tmp/generated/test_mcp_session1.py');
+    expect(result.testCode).toContain('from playwright.sync_api import Page, expect');
+    expect(result.testCode).toContain('def test_mcp_2026_01_01(page: Page) -> None:');
+    expect(result.testCode).toContain('    page.fill("#email", "qa@shop.test")');
+    expect(result.testCode).toContain('    expect(page.locator(".welcome-banner")).to_contain_text("Welcome")');
+  });
+
+  test('pom template goes through a page object with optimized locators', async () => {
+    const result = await generate('python', 'pom');
+    const pageObject = file(result, 'pages/app_page.py');
+
+    expect(result.testCode).toContain('from pages.app_page import AppPage');
+    expect(result.testCode).toContain('    app.click_element(app.sign_in)');
+    expect(result.testCode).toContain('    expect(app.welcome_banner_element).to_contain_text("Welcome")');
+    expect(pageObject).toContain('    def sign_in(self) -> Locator:');
+    expect(pageObject).toContain('        return self.page.get_by_test_id("sign-in")');
+    expect(file(result, 'pytest.ini')).toContain('[pytest]');
+  });
+});
+
+describe('Java emitter', () => {
+  test('plain template emits a JUnit 5 class', async () => {
+    const result = await generate('java', 'plain');
+
+    expect(result.filePath).toBe('/tmp/generated/Mcpsession1Test.java');
+    expect(result.testCode).toContain('public class Mcpsession1Test {');
+    expect(result.testCode).toContain('    @Test\n    void mcp20260101() {');
+    expect(result.testCode).toContain('        page.navigate("https://shop.test/login");');
+    expect(result.testCode).toContain('        assertThat(page.locator(".welcome-banner")).containsText("Welcome");');
+    expect(result.files).toBeUndefined();
+  });
+
+  test('pom template goes through a page object with optimized locators', async () => {
+    const result = await generate('java', 'pom');
+    const pageObject = file(result, 'pages/AppPage.java');
+
+    expect(result.testCode).toContain('import pages.AppPage;');
+    expect(result.testCode).toContain('        app.clickElement(app.signIn());');
+    expect(pageObject).toContain('package pages;');
+    expect(pageObject).toContain('    public Locator signIn() {\n        return page.getByTestId("sign-in");');
+  });
+});
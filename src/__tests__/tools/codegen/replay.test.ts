@@ -0,0 +1,36 @@
+import { handleToolCall } from '../../../toolHandler.js';
+import { ActionRecorder } from '../../../tools/codegen/recorder.js';
+import { ReplayCodegenSessionTool } from '../../../tools/codegen/replay.js';
+import { createSuccessResponse } from '../../../tools/common/types.js';
+
+jest.mock('../../../toolHandler.js', () => ({
+  handleToolCall: jest.fn(),
+  ensureBrowser: jest.fn(),
+}));
+
+const mockHandleToolCall = handleToolCall as jest.MockedFunction<typeof handleToolCall>;
+
+describe('ReplayCodegenSessionTool', () => {
+  test('reports the screenshot the failed call captured instead of taking another', async () => {
+    const sessionId = ActionRecorder.getInstance().importSession([
+      { toolName: 'playwright_navigate', parameters: { url: 'https://shop.test/' }, timestamp: 1 },
+      { toolName: 'playwright_click', parameters: { selector: '#checkout' }, timestamp: 2 },
+    ], undefined, false);
+    mockHandleToolCall
+      .mockResolvedValueOnce(createSuccessResponse('Navigated to https://shop.test/'))
+      .mockResolvedValueOnce({
+        content: [{ type: 'text', text: 'Element not found: #checkout' }],
+        isError: true,
+        _meta: { error: { code: 'SELECTOR_NOT_FOUND', screenshot: 'failure://playwright_click-1.png', screenshotPath: 'test-results/failures/playwright_click-1.png' } },
+      });
+
+    const response = await new ReplayCodegenSessionTool().execute({ sessionId }, {});
+
+    expect(response.isError).toBe(true);
+    expect(response.structuredContent).toMatchObject({
+      passed: false,
+      steps: [{ step: 1, passed: true }, { step: 2, passed: false, screenshot: 'failure://playwright_click-1.png' }],
+    });
+    expect((response.structuredContent!.steps as Array<Record<string, unknown>>)[0].screenshot).toBeUndefined();
+  });
+});
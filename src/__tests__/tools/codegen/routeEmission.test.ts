@@ -0,0 +1,50 @@
+import { PlaywrightGenerator } from '../../../tools/codegen/generator.js';
+import { CodegenSession } from '../../../tools/codegen/types.js';
+
+function session(actions: Array<[string, Record<string, unknown>]>): CodegenSession {
+  return {
+    id: 'session-1234',
+    startTime: Date.UTC(2026, 0, 1),
+    actions: actions.map(([toolName, parameters]) => ({ toolName, parameters, timestamp: 0 })),
+  };
+}
+
+async function generate(language: 'typescript' | 'python' | 'java', actions: Array<[string, Record<string, unknown>]>) {
+  return new PlaywrightGenerator({ language, template: 'plain', outputPath: '/tmp/generated' }).generateTest(session(actions));
+}
+
+const MOCK: [string, Record<string, unknown>] = ['playwright_mock_route', { url: '**/api/orders', method: 'post', times: 1, json: { ok: true } }];
+
+describe('route emission', () => {
+  test('Python output routes mocks through a handler that counts only matching methods', async () => {
+    const result = await generate('python', [MOCK, ['playwright_remove_route', { id: 'route-1' }]]);
+    expect(result.testCode).toContain('route_hits_1 = [0]');
+    expect(result.testCode).toContain('if route.request.method != "POST" or route_hits_1[0] >= 1:');
+    expect(result.testCode).toContain('route.fulfill(status=200, content_type="application/json", body="{\\"ok\\":true}")');
+    expect(result.testCode).toContain('page.route("**/api/orders", handle_route_1)');
+    expect(result.testCode).toContain('page.unroute("**/api/orders")');
+    expect(result.skippedSteps).toBeUndefined();
+  });
+
+  test('Java output routes mocks through a lambda', async () => {
+    const result = await generate('java', [
+      ['playwright_abort_route', { url: 'ads\\.example', regex: true, times: 2 }],
+    ]);
+    expect(result.testCode).toContain('page.route(Pattern.compile("ads\\\\.example"), route -> {');
+    expect(result.testCode).toContain('route.abort("failed");');
+    expect(result.testCode).toContain('}, new Page.RouteOptions().setTimes(2));');
+  });
+
+  test('TypeScript output counts method-filtered hits itself', async () => {
+    const result = await generate('typescript', [MOCK]);
+    expect(result.testCode).toContain('let routeHits1 = 0;');
+    expect(result.testCode).toContain("if (route.request().method() !== 'POST' || routeHits1 >= 1) return route.fallback();");
+    expect(result.testCode).not.toContain('{ times: 1 }');
+  });
+
+  test('unsupported steps are commented in the output and reported', async () => {
+    const result = await generate('python', [['playwright_start_coverage', {}]]);
+    expect(result.testCode).toContain('# Not generated: playwright_start_coverage has no Python equivalent');
+    expect(result.skippedSteps).toEqual(['playwright_start_coverage']);
+  });
+});
@@ -0,0 +1,57 @@
+import { SpecImporter } from '../../../tools/codegen/specImporter.js';
+
+function importTest(body: string) {
+  return new SpecImporter(`import { test, expect } from '@playwright/test';
+
+test('sample', async ({ page }) => {
+${body}
+});
+`).parse();
+}
+
+describe('SpecImporter', () => {
+  test('records navigation and drag with literal arguments', () => {
+    const result = importTest(`
+  await page.goto('https://example.com');
+  await page.dragAndDrop('#a', '#b');
+`);
+    expect(result.actions.map(action => [action.toolName, action.parameters])).toEqual([
+      ['playwright_navigate', { url: 'https://example.com', waitUntil: undefined }],
+      ['playwright_drag', { sourceSelector: '#a', targetSelector: '#b' }],
+    ]);
+    expect(result.skipped).toEqual([]);
+  });
+
+  test('skips navigation and drag with non-literal arguments', () => {
+    const result = importTest(`
+  await page.goto(baseUrl);
+  await page.dragAndDrop(source, '#b');
+`);
+    expect(result.actions).toEqual([]);
+    expect(result.skipped.map(skipped => skipped.reason)).toEqual([
+      'goto() URL is not a string literal',
+      'dragAndDrop() selectors are not string literals',
+    ]);
+  });
+
+  test('imports regex URL patterns with the regex flag', () => {
+    const result = importTest(`
+  await expect(page).toHaveURL(/dashboard/);
+  await page.waitForURL(/orders\\/\\d+/);
+  await page.waitForURL('**/done');
+`);
+    expect(result.actions.map(action => action.parameters)).toEqual([
+      { urlPattern: 'dashboard', regex: true, timeout: undefined },
+      { urlPattern: 'orders\\/\\d+', regex: true, timeout: undefined },
+      { urlPattern: '**/done', timeout: undefined },
+    ]);
+  });
+
+  test('skips regex URL patterns with flags', () => {
+    const result = importTest(`
+  await expect(page).toHaveURL(/dashboard/i);
+`);
+    expect(result.actions).toEqual([]);
+    expect(result.skipped).toHaveLength(1);
+  });
+});
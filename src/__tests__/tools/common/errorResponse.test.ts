@@ -0,0 +1,30 @@
+import { createToolErrorResponse } from '../../../tools/common/errorResponse.js';
+import { createErrorResponse } from '../../../tools/common/types.js';
+
+describe('createToolErrorResponse', () => {
+  test('returns the failure details in _meta and no structuredContent for a thrown error', async () => {
+    const response = await createToolErrorResponse('playwright_get', { url: 'https://example.com/api' }, {}, new Error('connect ECONNREFUSED'));
+
+    expect(response.isError).toBe(true);
+    expect(response.structuredContent).toBeUndefined();
+    expect(response._meta?.error).toMatchObject({
+      message: expect.stringContaining('ECONNREFUSED'),
+      context: { tool: 'playwright_get', requestUrl: 'https://example.com/api' },
+    });
+  });
+
+  test('keeps the structuredContent a tool returned with its error unchanged', async () => {
+    const structured = { passed: false, expected: 200, actual: 404 };
+    const response = await createToolErrorResponse('playwright_assert_response', {}, {}, createErrorResponse('Expected status 200, got 404', structured));
+
+    expect(response.structuredContent).toEqual(structured);
+    expect(response._meta?.error).toBeDefined();
+  });
+
+  test('passes an already classified response through', async () => {
+    const first = await createToolErrorResponse('playwright_click', {}, {}, new Error('boom'));
+    const second = await createToolErrorResponse('run_tests', {}, {}, first);
+
+    expect(second).toBe(first);
+  });
+});
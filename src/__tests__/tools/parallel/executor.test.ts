@@ -0,0 +1,76 @@
+import { CrossBrowserTestExecutor, ParallelTestExecutor, TestResult, TestScenario } from '../../../tools/parallel/executor.js';
+
+/**
+ * Replace scenario execution with a lookup of the outcome by scenario name; returns the names in start order
+ */
+function stubOutcomes(outcomes: Record<string, TestResult['status']>, delayMs = 10) {
+  const started: string[] = [];
+  jest.spyOn(ParallelTestExecutor.prototype as any, 'executeTest').mockImplementation(async (...args: unknown[]) => {
+    const test = args[0] as TestScenario;
+    started.push(test.name);
+    await new Promise(resolve => setTimeout(resolve, delayMs));
+    return { name: test.name, browserType: test.browserType || 'chromium', status: outcomes[test.name] ?? 'passed', duration: delayMs };
+  });
+  return started;
+}
+
+function scenario(name: string): TestScenario {
+  return { name, actions: [] };
+}
+
+describe('ParallelTestExecutor', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  test('runs every scenario when names repeat', async () => {
+    stubOutcomes({});
+
+    const response = await new ParallelTestExecutor().execute(
+      { tests: [scenario('login'), scenario('login'), scenario('login')], maxConcurrency: 3, trackFlakes: false },
+      {}
+    );
+
+    expect(response.isError).toBe(false);
+    expect(response.structuredContent).toMatchObject({ success: true, total: 3, passed: 3 });
+  });
+
+  test('returns an error response with the results when the suite fails', async () => {
+    stubOutcomes({ checkout: 'failed' });
+
+    const response = await new ParallelTestExecutor().execute(
+      { tests: [scenario('login'), scenario('checkout')], maxConcurrency: 2, trackFlakes: false },
+      {}
+    );
+
+    expect(response.isError).toBe(true);
+    expect(response.structuredContent).toMatchObject({ success: false, passed: 1, failed: 1 });
+  });
+
+  test('stops on a timeout with failFast', async () => {
+    const started = stubOutcomes({ slow: 'timeout' });
+
+    const response = await new ParallelTestExecutor().execute(
+      { tests: [scenario('slow'), scenario('cart'), scenario('search')], maxConcurrency: 1, failFast: true, trackFlakes: false },
+      {}
+    );
+
+    expect(started).toEqual(['slow']);
+    expect(response.isError).toBe(true);
+    expect(response.structuredContent).toMatchObject({ timeout: 1, skipped: 2 });
+  });
+});
+
+describe('CrossBrowserTestExecutor', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  test('fails when the scenario fails in one browser', async () => {
+    stubOutcomes({ 'checkout (webkit)': 'failed' });
+
+    const response = await new CrossBrowserTestExecutor().execute(
+      { test: scenario('checkout'), browsers: ['chromium', 'webkit'], trackFlakes: false },
+      {}
+    );
+
+    expect(response.isError).toBe(true);
+    expect(response.structuredContent).toMatchObject({ success: false, passed: 1, failed: 1 });
+  });
+});
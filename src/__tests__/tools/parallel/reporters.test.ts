@@ -0,0 +1,147 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { ParallelTestResults, TestResult } from '../../../tools/parallel/executor.js';
+import { toJUnitXml, toJson, toMarkdown, toTap, writeReports } from '../../../tools/parallel/reporters.js';
+
+function statsOf(results: TestResult[]): ParallelTestResults {
+  return {
+    total: results.length,
+    passed: results.filter(r => r.status === 'passed').length,
+    failed: results.filter(r => r.status === 'failed').length,
+    skipped: results.filter(r => r.status === 'skipped').length,
+    timeout: results.filter(r => r.status === 'timeout').length,
+    flaky: results.filter(r => r.status === 'flaky').length,
+    quarantined: results.filter(r => r.quarantined && (r.status === 'failed' || r.status === 'timeout')).length,
+    duration: 4200,
+    results,
+  };
+}
+
+const metadata = { title: 'Checkout <suite> & "co"' };
+
+const passed: TestResult = { name: 'login', status: 'passed', duration: 1000, steps: [{ step: 1, tool: 'playwright_navigate', passed: true, duration: 900, output: 'Navigated' }] };
+const failed: TestResult = {
+  name: 'pay <card> & "save"',
+  status: 'failed',
+  duration: 1500,
+  error: 'Step 2 (playwright_click) failed: no element for a<b',
+  steps: [
+    { step: 1, tool: 'playwright_navigate', passed: true, duration: 500, output: 'Navigated' },
+    { step: 2, tool: 'playwright_click', passed: false, duration: 1000, output: 'Timeout\u0007 waiting for a<b' },
+  ],
+  screenshot: 'out/pay/failure.png',
+};
+const timedOut: TestResult = { name: 'search', browserType: 'firefox', status: 'timeout', duration: 60000, error: 'Test timeout after 60000ms' };
+const quarantined: TestResult = { name: 'cart', status: 'failed', duration: 800, error: 'Step 1 failed', quarantined: true };
+const flaky: TestResult = { name: 'profile', status: 'flaky', duration: 900, attempts: 2, attemptErrors: ['Step 1 failed: detached'] };
+const skipped: TestResult = { name: 'logout', status: 'skipped', duration: 0 };
+
+describe('reporters', () => {
+  describe('toJUnitXml', () => {
+    test('reports failures and timeouts, and quarantined failures as skipped', () => {
+      const xml = toJUnitXml(statsOf([passed, failed, quarantined, flaky, skipped, timedOut]), metadata);
+
+      expect(xml).toContain('<testsuites name="Checkout &lt;suite&gt; &amp; &quot;co&quot;" tests="6" failures="2" errors="0" skipped="2"');
+      expect(xml).toContain('<testsuite name="chromium" tests="5" failures="1" errors="0" skipped="2"');
+      expect(xml).toContain('<testsuite name="firefox" tests="1" failures="1" errors="0" skipped="0"');
+      expect(xml).toContain('<failure message="Test timeout after 60000ms" type="timeout">');
+      expect(xml).toContain('<skipped message="Quarantined: Step 1 failed"/>');
+      expect(xml).toContain('Flaky: passed on attempt 2\nAttempt 1 failed: Step 1 failed: detached');
+      expect(xml).toContain(`[[ATTACHMENT|${path.resolve('out/pay/failure.png')}]]`);
+    });
+
+    test('escapes markup and drops control characters', () => {
+      const xml = toJUnitXml(statsOf([failed]), metadata);
+
+      expect(xml).toContain('<testcase name="pay &lt;card&gt; &amp; &quot;save&quot;"');
+      expect(xml).toContain('no element for a&lt;b');
+      expect(xml).toContain('    Timeout waiting for a&lt;b');
+      expect(xml).not.toContain('\u0007');
+    });
+  });
+
+  describe('toTap', () => {
+    test('marks quarantined failures TODO and flaky passes ok', () => {
+      const tap = toTap(statsOf([passed, failed, quarantined, flaky, skipped, timedOut]), metadata);
+      const lines = tap.split('\n');
+
+      expect(lines.slice(0, 3)).toEqual(['TAP version 13', '1..6', '# Checkout <suite> & "co"']);
+      expect(lines).toContain('ok 1 - login [chromium] # time=1000ms');
+      expect(lines).toContain('not ok 2 - pay <card> & "save" [chromium] # time=1500ms');
+      expect(lines).toContain('not ok 3 - cart [chromium] # TODO quarantined');
+      expect(lines).toContain('ok 4 - profile [chromium] # time=900ms, flaky: passed on attempt 2');
+      expect(lines).toContain('ok 5 - logout [chromium] # SKIP');
+      expect(lines).toContain('not ok 6 - search [firefox] # time=60000ms');
+      expect(lines).toContain('  severity: timeout');
+      expect(tap).toContain('# fail 2\n# skip 1\n# flaky 1\n# quarantined 1\n');
+    });
+
+    test('quotes YAML diagnostics', () => {
+      const tap = toTap(statsOf([failed]), metadata);
+
+      expect(tap).toContain(`  message: ${JSON.stringify(failed.error)}`);
+      expect(tap).toContain('  screenshot: "out/pay/failure.png"');
+    });
+  });
+
+  describe('toJson', () => {
+    test('includes the stats, title and shard', () => {
+      const report = JSON.parse(toJson(statsOf([passed, timedOut]), { ...metadata, shardIndex: 0, shardTotal: 2 }));
+
+      expect(report.title).toBe(metadata.title);
+      expect(report.shard).toEqual({ index: 0, total: 2 });
+      expect(report.timeout).toBe(1);
+      expect(report.results.map((r: TestResult) => r.status)).toEqual(['passed', 'timeout']);
+    });
+  });
+
+  describe('toMarkdown', () => {
+    test('summarises results and lists flaky, quarantined and timed out scenarios', () => {
+      const markdown = toMarkdown(statsOf([passed, failed, quarantined, flaky, timedOut]), metadata);
+
+      expect(markdown).toContain('**1/5 passed** · 2 failed · 1 timed out · 0 skipped · 1 flaky · 1 quarantined · 4.20s');
+      expect(markdown).toContain('| ❌ | pay <card> & "save" | chromium | 1.50s | 1/2 | 1 |');
+      expect(markdown).toContain('| ❌ | cart 🚧 quarantined | chromium |');
+      expect(markdown).toContain('- 🔁 profile (chromium): passed on attempt 2; `Step 1 failed: detached`');
+      expect(markdown).toContain('#### ⏱️ search (firefox)');
+    });
+
+    test('escapes pipes and newlines in table cells', () => {
+      const markdown = toMarkdown(statsOf([{ ...passed, name: 'a | b\nc' }]), metadata);
+
+      expect(markdown).toContain('| ✅ | a \\| b c | chromium |');
+    });
+  });
+
+  describe('writeReports', () => {
+    let outDir: string;
+
+    beforeEach(() => {
+      outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'reports-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(outDir, { recursive: true, force: true });
+    });
+
+    test('writes the other reports when one path cannot be written', () => {
+      const blocker = path.join(outDir, 'blocker');
+      fs.writeFileSync(blocker, '');
+
+      const reports = writeReports(statsOf([passed]), {
+        junit: path.join(outDir, 'junit', 'results.xml'),
+        json: path.join(blocker, 'results.json'),
+      }, metadata);
+
+      expect(reports[0]).toEqual({ format: 'junit', path: path.join(outDir, 'junit', 'results.xml') });
+      expect(fs.existsSync(reports[0].path)).toBe(true);
+      expect(reports[1].format).toBe('json');
+      expect(reports[1].error).toBeDefined();
+    });
+
+    test('rejects unknown reporters', () => {
+      expect(() => writeReports(statsOf([]), { html: 'x' } as any, metadata)).toThrow('Unknown reporter: html');
+    });
+  });
+});
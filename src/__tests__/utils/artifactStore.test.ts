@@ -0,0 +1,76 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ArtifactStore, getMimeType } from '../../utils/artifactStore.js';
+
+describe('ArtifactStore', () => {
+  let rootDir: string;
+  let store: ArtifactStore;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'artifacts-'));
+    store = new ArtifactStore();
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  function writeFile(relativePath: string, content: string | Buffer): string {
+    const filePath = path.join(rootDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  test('keeps distinct files with the same name under separate URIs', () => {
+    const first = store.register({ scheme: 'video', filePath: writeFile('a/checkout.webm', '') });
+    const second = store.register({ scheme: 'video', filePath: writeFile('b/checkout.webm', '') });
+    const again = store.register({ scheme: 'video', filePath: path.join(rootDir, 'a/checkout.webm') });
+
+    expect([first.uri, second.uri]).toEqual(['video://checkout.webm', 'video://checkout-2.webm']);
+    expect(again.uri).toBe(first.uri);
+    expect(store.list('video')).toHaveLength(2);
+    expect(store.list('baseline')).toEqual([]);
+  });
+
+  test('reads text files as text and binary files as base64', async () => {
+    store.register({ scheme: 'codegen', filePath: writeFile('login.spec.ts', "test('login', () => {});") });
+    store.register({ scheme: 'baseline', filePath: writeFile('home.png', Buffer.from([0x89, 0x50, 0x4e, 0x47])) });
+
+    expect(await store.read('codegen://login.spec.ts')).toEqual({
+      uri: 'codegen://login.spec.ts', mimeType: 'text/x-typescript', text: "test('login', () => {});",
+    });
+    expect(await store.read('baseline://home.png')).toEqual({ uri: 'baseline://home.png', mimeType: 'image/png', blob: 'iVBORw==' });
+    expect(await store.read('baseline://missing.png')).toBeUndefined();
+  });
+
+  test('reports a file deleted after it was registered', async () => {
+    const filePath = writeFile('report.pdf', '%PDF');
+    store.register({ scheme: 'pdf', filePath });
+    fs.rmSync(filePath);
+
+    await expect(store.read('pdf://report.pdf')).rejects.toThrow(/no longer available/);
+  });
+
+  test('notifies listeners when the list changes until they unsubscribe', () => {
+    const listener = jest.fn();
+    const unsubscribe = store.onChange(listener);
+
+    const artifact = store.register({ scheme: 'coverage', filePath: writeFile('coverage.html', '') });
+    store.remove(artifact.uri);
+    store.remove(artifact.uri);
+    unsubscribe();
+    store.register({ scheme: 'coverage', filePath: writeFile('lcov.info', '') });
+
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('getMimeType', () => {
+  test('maps known extensions case-insensitively and falls back to octet-stream', () => {
+    expect(getMimeType('trace/VIDEO.WEBM')).toBe('video/webm');
+    expect(getMimeType('test_login.py')).toBe('text/x-python');
+    expect(getMimeType('dump.bin')).toBe('application/octet-stream');
+  });
+});
@@ -0,0 +1,36 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BaselineStore, BaselineTarget } from '../../utils/baselineStore.js';
+
+describe('BaselineStore', () => {
+  let rootDir: string;
+  let image: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'baselines-'));
+    image = path.join(rootDir, 'input.png');
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  function target(testName: string): BaselineTarget {
+    return { testName, browser: 'chromium', viewport: { width: 1280, height: 720 }, device: 'desktop' };
+  }
+
+  test('keeps targets apart whose names share a directory slug', () => {
+    const store = new BaselineStore(path.join(rootDir, 'store'));
+
+    fs.writeFileSync(image, 'first');
+    const first = store.addVersion(target('a/b'), image, { source: 'created' });
+    fs.writeFileSync(image, 'second');
+    const second = store.addVersion(target('a b'), image, { source: 'created' });
+
+    expect(first.version.file).not.toEqual(second.version.file);
+    expect(fs.readFileSync(store.activeBaselinePath(first.record), 'utf-8')).toBe('first');
+    expect(fs.readFileSync(store.activeBaselinePath(second.record), 'utf-8')).toBe('second');
+    expect(store.workingPaths(target('a/b')).currentPath).not.toEqual(store.workingPaths(target('a b')).currentPath);
+  });
+});
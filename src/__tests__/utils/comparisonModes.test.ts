@@ -0,0 +1,94 @@
+import { PNG } from 'pngjs';
+import { LayoutBox, compareImages, compareLayouts } from '../../utils/comparisonModes.js';
+
+/**
+ * Grayscale image drawn by a function of the pixel position
+ */
+function image(width: number, height: number, shade: (x: number, y: number) => number): PNG {
+  const png = new PNG({ width, height });
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      png.data[offset] = png.data[offset + 1] = png.data[offset + 2] = shade(x, y);
+      png.data[offset + 3] = 255;
+    }
+  }
+  return png;
+}
+
+// Dark square centred on a light page
+const card = (x: number, y: number) => x >= 16 && x < 48 && y >= 16 && y < 48 ? 40 : 220;
+const baseline = image(64, 64, card);
+const brighter = image(64, 64, (x, y) => card(x, y) + 6);
+const antialiased = image(64, 64, (x, y) => x === 48 && y >= 16 && y < 48 ? 130 : card(x, y));
+const moved = image(64, 64, (x, y) => x >= 24 && x < 60 && y >= 4 && y < 30 ? 40 : 220);
+
+describe('compareImages', () => {
+  test.each(['pixel', 'ssim', 'phash', 'tolerance'] as const)('%s mode scores identical images 1', mode => {
+    const result = compareImages(baseline, image(64, 64, card), mode);
+
+    expect(result).toMatchObject({ mode, passed: true, score: 1, diffPercentage: 0 });
+  });
+
+  test.each(['pixel', 'ssim', 'phash', 'tolerance'] as const)('%s mode fails a moved element', mode => {
+    expect(compareImages(baseline, moved, mode).passed).toBe(false);
+  });
+
+  test('ssim and phash ignore a small brightness change', () => {
+    expect(compareImages(baseline, brighter, 'ssim')).toMatchObject({ passed: true, score: expect.any(Number) });
+    expect(compareImages(baseline, brighter, 'phash')).toMatchObject({ passed: true, score: 1 });
+  });
+
+  test('phash compares images of different sizes, the other modes refuse them', () => {
+    const larger = image(128, 128, (x, y) => card(x / 2, y / 2));
+
+    expect(compareImages(baseline, larger, 'phash').passed).toBe(true);
+    expect(() => compareImages(baseline, larger, 'ssim')).toThrow(/Image dimensions don't match/);
+  });
+
+  test('tolerance mode allows per-channel differences up to channelTolerance', () => {
+    expect(compareImages(baseline, brighter, 'tolerance', { threshold: 0, channelTolerance: 2 })).toMatchObject({ passed: false, diffPixels: 64 * 64 });
+    expect(compareImages(baseline, brighter, 'tolerance', { threshold: 0, channelTolerance: 8 })).toMatchObject({ passed: true, diffPixels: 0 });
+  });
+
+  test('tolerance mode ignores anti-aliased edges only when asked to', () => {
+    const detected = compareImages(baseline, antialiased, 'tolerance', { threshold: 0, detectAntialiasing: true });
+    const strict = compareImages(baseline, antialiased, 'tolerance', { threshold: 0, detectAntialiasing: false });
+
+    expect(detected).toMatchObject({ passed: true, diffPixels: 0 });
+    expect(detected.details).toContain('Anti-aliased pixels ignored: 32');
+    expect(strict).toMatchObject({ passed: false, diffPixels: 32 });
+  });
+});
+
+describe('compareLayouts', () => {
+  const box = (path: string, x: number, y: number, width = 100, height = 40): LayoutBox => ({ path, tag: 'div', x, y, width, height });
+  const layout = [box('#header', 0, 0, 800, 60), box('#cart>button', 600, 120), box('#footer', 0, 900, 800, 80)];
+
+  test('passes elements that move within the tolerance', () => {
+    const result = compareLayouts(layout, [box('#header', 1, 0, 800, 61), box('#cart>button', 602, 118), box('#footer', 0, 900, 800, 80)]);
+
+    expect(result).toMatchObject({ mode: 'layout', passed: true, score: 1 });
+  });
+
+  test('reports moved, resized, missing and added elements', () => {
+    const result = compareLayouts(layout, [
+      box('#header', 0, 0, 800, 90),
+      box('#cart>button', 640, 120),
+      box('#banner', 0, 60, 800, 30),
+    ], { layoutTolerance: 2 });
+
+    expect(result.passed).toBe(false);
+    expect(result.score).toBe(0);
+    expect(result.details.slice(1).map(line => line.trim().split(' ')[0])).toEqual(['resized', 'moved', 'missing', 'added']);
+    expect(result.details[0]).toBe('Elements: 3 baseline, 3 current, 4 changed (tolerance 2px)');
+  });
+
+  test('draws the changed boxes on the screenshot', () => {
+    const screenshot = image(64, 64, () => 255);
+
+    const result = compareLayouts([box('#badge', 10, 10, 20, 20)], [box('#badge', 30, 30, 20, 20)], {}, screenshot);
+
+    expect(Array.from(result.diffImage!.data.subarray((30 * 64 + 30) * 4, (30 * 64 + 30) * 4 + 3))).toEqual([255, 0, 0]);
+  });
+});
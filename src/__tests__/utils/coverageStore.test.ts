@@ -0,0 +1,162 @@
+import {
+  FileCoverage,
+  analyzeV8,
+  byteUsage,
+  checkThresholds,
+  convertCoverage,
+  globToRegExp,
+  mergeFiles,
+  summarize,
+  toLcov,
+} from '../../utils/coverageStore.js';
+
+// 0         1         2
+// 0123456789012345678901234567
+// function f(a){if(a){g()}}
+// f(0);
+const SOURCE = 'function f(a){if(a){g()}}\nf(0);';
+
+const FUNCTIONS = [
+  { functionName: '', isBlockCoverage: true, ranges: [{ startOffset: 0, endOffset: SOURCE.length, count: 1 }] },
+  {
+    functionName: 'f',
+    isBlockCoverage: true,
+    ranges: [
+      { startOffset: 0, endOffset: 25, count: 1 },
+      { startOffset: 19, endOffset: 24, count: 0 },
+    ],
+  },
+];
+
+function file(path: string, lines: Record<string, number>, extra: Partial<FileCoverage> = {}): FileCoverage {
+  return { path, kind: 'js', lines, functions: {}, branches: {}, ...extra };
+}
+
+describe('analyzeV8', () => {
+  test('lets nested ranges override the counts of enclosing ones', () => {
+    const { counts } = analyzeV8(SOURCE, FUNCTIONS);
+    expect(counts[0]).toBe(1);
+    expect(counts[18]).toBe(1);
+    expect(counts[19]).toBe(0);
+    expect(counts[23]).toBe(0);
+    expect(counts[24]).toBe(1);
+    expect(counts[SOURCE.length - 1]).toBe(1);
+  });
+
+  test('reports block ranges with the count of their enclosing range', () => {
+    expect(analyzeV8(SOURCE, FUNCTIONS).blocks).toEqual([{ startOffset: 19, count: 0, parentCount: 1 }]);
+  });
+
+  test('ignores function ranges past the end of the text', () => {
+    const { counts } = analyzeV8('abc', [{ functionName: '', isBlockCoverage: false, ranges: [{ startOffset: 0, endOffset: 10, count: 2 }] }]);
+    expect(Array.from(counts)).toEqual([2, 2, 2]);
+  });
+
+  test('counts used bytes', () => {
+    expect(byteUsage({ url: 'app.js', source: SOURCE, functions: FUNCTIONS })).toEqual({ totalBytes: SOURCE.length, usedBytes: SOURCE.length - 5 });
+    expect(byteUsage({ url: 'a.css', text: 'a{}b{}', ranges: [{ start: 0, end: 3 }] })).toEqual({ totalBytes: 6, usedBytes: 3 });
+  });
+});
+
+describe('convertCoverage', () => {
+  test('derives line, function and branch hits from V8 ranges', async () => {
+    const [result] = await convertCoverage([{ url: 'https://example.com/js/app.js?v=1', source: SOURCE, functions: FUNCTIONS }], [], false);
+    expect(result.path).toBe('js/app.js');
+    expect(result.lines).toEqual({ 1: 1, 2: 1 });
+    expect(result.functions).toEqual({ 'f:1': { name: 'f', line: 1, hits: 1 } });
+    expect(result.branches).toEqual({ '1:19': { line: 1, hits: [0, 1] } });
+  });
+
+  test('maps hits back through an inline source map', async () => {
+    // Generated line 0 maps to src/f.ts line 3, generated line 1 to line 10
+    const map = { version: 3, sources: ['src/f.ts'], mappings: 'AAEA;AAOA' };
+    const source = `${SOURCE}\n//# sourceMappingURL=data:application/json;base64,${Buffer.from(JSON.stringify(map)).toString('base64')}`;
+    const [result] = await convertCoverage([{ url: 'https://example.com/app.js', source, functions: FUNCTIONS }]);
+    expect(result.path).toBe('src/f.ts');
+    expect(result.lines).toEqual({ 3: 1, 10: 1 });
+  });
+
+  test('marks CSS lines used by their ranges', async () => {
+    const [result] = await convertCoverage([], [{ url: 'https://example.com/a.css', text: 'a{}\nb{}', ranges: [{ start: 0, end: 3 }] }], false);
+    expect(result.kind).toBe('css');
+    expect(result.lines).toEqual({ 1: 1, 2: 0 });
+  });
+});
+
+describe('mergeFiles', () => {
+  test('sums line, function and branch hits per file', () => {
+    const merged = mergeFiles({}, [
+      file('a.js', { 1: 1, 2: 0 }, { functions: { 'f:1': { name: 'f', line: 1, hits: 1 } }, branches: { '1:4': { line: 1, hits: [1, 0] } } }),
+      file('a.js', { 2: 3, 3: 1 }, { functions: { 'f:1': { name: 'f', line: 1, hits: 2 } }, branches: { '1:4': { line: 1, hits: [0, 2] } } }),
+      file('b.js', { 1: 0 }),
+    ]);
+
+    expect(Object.keys(merged)).toEqual(['a.js', 'b.js']);
+    expect(merged['a.js'].lines).toEqual({ 1: 1, 2: 3, 3: 1 });
+    expect(merged['a.js'].functions['f:1'].hits).toBe(3);
+    expect(merged['a.js'].branches['1:4'].hits).toEqual([1, 2]);
+  });
+
+  test('does not change the files it merges from', () => {
+    const source = file('a.js', { 1: 1 });
+    const merged = mergeFiles({}, [source]);
+    mergeFiles(merged, [file('a.js', { 1: 1 })]);
+    expect(source.lines).toEqual({ 1: 1 });
+    expect(merged['a.js'].lines).toEqual({ 1: 2 });
+  });
+});
+
+describe('summarize and toLcov', () => {
+  const files = [file('a.js', { 1: 1, 2: 0 }, {
+    functions: { 'f:1': { name: 'f', line: 1, hits: 1 }, 'f:5': { name: 'f', line: 5, hits: 0 } },
+    branches: { '1:4': { line: 1, hits: [1, 0] } },
+  })];
+
+  test('reports totals with percentages, 100 when there is nothing to cover', () => {
+    expect(summarize(files)).toEqual({
+      lines: { total: 2, covered: 1, pct: 50 },
+      functions: { total: 2, covered: 1, pct: 50 },
+      branches: { total: 2, covered: 1, pct: 50 },
+    });
+    expect(summarize([]).lines.pct).toBe(100);
+  });
+
+  test('writes unique function names per file', () => {
+    const lcov = toLcov(files);
+    expect(lcov).toContain('FN:1,f@1\nFN:5,f@5\nFNDA:1,f@1\nFNDA:0,f@5\nFNF:2\nFNH:1');
+    expect(lcov).toContain('BRDA:1,0,0,1\nBRDA:1,0,1,0\nBRF:2\nBRH:1');
+    expect(lcov).toContain('DA:1,1\nDA:2,0\nLF:2\nLH:1\nend_of_record');
+  });
+});
+
+describe('checkThresholds', () => {
+  const files = {
+    'src/a.js': file('src/a.js', { 1: 1, 2: 1 }),
+    'src/lib/b.js': file('src/lib/b.js', { 1: 1, 2: 0, 3: 0, 4: 0 }),
+  };
+
+  test('checks global thresholds against the totals', () => {
+    expect(checkThresholds(files, { global: { lines: 50 } })).toEqual([]);
+    expect(checkThresholds(files, { global: { lines: 60, functions: 10 } })).toEqual([
+      { pattern: 'global', metric: 'lines', actual: 50, required: 60 },
+    ]);
+  });
+
+  test('checks every file matching a glob on its own', () => {
+    expect(checkThresholds(files, { 'src/**/*.js': { lines: 80 } })).toEqual([
+      { pattern: 'src/**/*.js', file: 'src/lib/b.js', metric: 'lines', actual: 25, required: 80 },
+    ]);
+  });
+
+  test('reports globs that match no file', () => {
+    expect(checkThresholds(files, { 'lib/*.ts': { lines: 1 } })).toEqual([
+      { pattern: 'lib/*.ts', metric: 'files', actual: 0, required: 1 },
+    ]);
+  });
+
+  test('matches ** across directories and * within one', () => {
+    expect(globToRegExp('src/*.js').test('src/lib/b.js')).toBe(false);
+    expect(globToRegExp('src/**/*.js').test('src/a.js')).toBe(true);
+    expect(globToRegExp('src/**/*.js').test('src/lib/b.js')).toBe(true);
+  });
+});
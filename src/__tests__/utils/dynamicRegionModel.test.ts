@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PNG } from 'pngjs';
+import {
+  DomElementSnapshot,
+  Rect,
+  TrainingSample,
+  loadDynamicRegionModel,
+  loadTrainingSamples,
+  predictDynamicRegions,
+  saveDynamicRegionModel,
+  trainDynamicRegionModel,
+} from '../../utils/dynamicRegionModel.js';
+
+const WIDTH = 256;
+const HEIGHT = 192;
+const CLOCK: Rect = { x: 160, y: 16, width: 64, height: 32 };
+const HERO: Rect = { x: 16, y: 80, width: 224, height: 96 };
+
+const DOM: DomElementSnapshot[] = [
+  { tag: 'div', id: 'clock', classes: ['header-clock'], attributes: ['aria-live=polite'], text: '10:42', rect: CLOCK },
+  { tag: 'section', id: 'hero', classes: ['hero'], attributes: [], text: 'Spring sale', rect: HERO },
+];
+
+/**
+ * Page with a static hero and a clock whose pixels depend on the time shown
+ */
+function screenshot(time: number): PNG {
+  const png = new PNG({ width: WIDTH, height: HEIGHT });
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const offset = (y * WIDTH + x) * 4;
+      const inClock = x >= CLOCK.x && x < CLOCK.x + CLOCK.width && y >= CLOCK.y && y < CLOCK.y + CLOCK.height;
+      const inHero = x >= HERO.x && x < HERO.x + HERO.width && y >= HERO.y && y < HERO.y + HERO.height;
+      const value = inClock ? ((x * 7 + y * 13 + time * 97) % 256) : inHero ? 60 + ((x + y) % 8) : 255;
+      png.data[offset] = png.data[offset + 1] = png.data[offset + 2] = value;
+      png.data[offset + 3] = 255;
+    }
+  }
+  return png;
+}
+
+describe('dynamic region model', () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dynamic-regions-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  function writeSample(name: string, baselineTime: number, currentTime: number): void {
+    const directory = path.join(rootDir, 'training', name);
+    fs.mkdirSync(directory, { recursive: true });
+    fs.writeFileSync(path.join(directory, 'baseline.png'), PNG.sync.write(screenshot(baselineTime)));
+    fs.writeFileSync(path.join(directory, 'current.png'), PNG.sync.write(screenshot(currentTime)));
+    fs.writeFileSync(path.join(directory, 'dom.json'), JSON.stringify(DOM));
+    const sample: TrainingSample = { baseline: 'baseline.png', current: 'current.png', dom: 'dom.json', dynamicRegions: [CLOCK] };
+    fs.writeFileSync(path.join(directory, 'sample.json'), JSON.stringify(sample));
+  }
+
+  test('learns to flag the region that changes between screenshots', async () => {
+    writeSample('morning', 1, 2);
+    writeSample('noon', 3, 5);
+    writeSample('evening', 8, 9);
+
+    const samples = await loadTrainingSamples(path.join(rootDir, 'training'));
+    const model = await trainDynamicRegionModel(samples, { epochs: 10 });
+    const predictions = predictDynamicRegions(model, screenshot(11), screenshot(12), DOM);
+
+    expect(samples.map(sample => path.dirname(sample.baseline)).sort()).toEqual(
+      ['evening', 'morning', 'noon'].map(name => path.join(rootDir, 'training', name))
+    );
+    expect(model.training).toMatchObject({ samples: 3, positives: expect.any(Number) });
+    expect(predictions.length).toBeGreaterThan(0);
+    for (const { region } of predictions) {
+      const overlapsClock = region.x < CLOCK.x + CLOCK.width && CLOCK.x < region.x + region.width &&
+        region.y < CLOCK.y + CLOCK.height && CLOCK.y < region.y + region.height;
+      expect(overlapsClock).toBe(true);
+    }
+  });
+
+  test('refuses samples without any dynamic region', async () => {
+    writeSample('static', 1, 1);
+    const samples = await loadTrainingSamples(path.join(rootDir, 'training'));
+
+    await expect(trainDynamicRegionModel(samples.map(sample => ({ ...sample, dynamicRegions: [] })))).rejects.toThrow(/no dynamic regions/);
+    await expect(trainDynamicRegionModel([])).rejects.toThrow(/No training samples/);
+  });
+
+  test('loads a saved model and rejects incompatible files', async () => {
+    writeSample('morning', 1, 2);
+    const model = await trainDynamicRegionModel(await loadTrainingSamples(path.join(rootDir, 'training')), { epochs: 2 });
+    const modelPath = path.join(rootDir, 'models', 'dynamic.json');
+    const otherPath = path.join(rootDir, 'models', 'other.json');
+
+    await saveDynamicRegionModel(model, modelPath);
+    fs.writeFileSync(otherPath, JSON.stringify({ ...model, weights: [1, 2, 3] }));
+
+    expect(await loadDynamicRegionModel(modelPath)).toEqual(model);
+    await expect(loadDynamicRegionModel(otherPath)).rejects.toThrow(/not a compatible dynamic region model/);
+  });
+});
@@ -0,0 +1,72 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FlakeRecord, FlakeRun, FlakeStore, flakeRate } from '../../utils/flakeStore.js';
+
+function recordOf(statuses: FlakeRun['status'][]): FlakeRecord {
+  return {
+    key: 'checkout@chromium',
+    name: 'checkout',
+    browser: 'chromium',
+    runs: statuses.map((status, index) => ({ runId: `run-${index}`, date: `2024-01-0${index + 1}`, status, attempts: 1 })),
+    quarantined: false,
+  };
+}
+
+describe('flakeRate', () => {
+  test('is zero without runs and for consistent outcomes', () => {
+    expect(flakeRate(recordOf([]))).toBe(0);
+    expect(flakeRate(recordOf(['passed', 'passed', 'passed']))).toBe(0);
+    expect(flakeRate(recordOf(['failed', 'timeout', 'failed']))).toBe(0);
+  });
+
+  test('counts runs that passed only on retry', () => {
+    expect(flakeRate(recordOf(['passed', 'flaky', 'passed', 'flaky']))).toBe(0.5);
+  });
+
+  test('counts pass/fail flips between runs without retries', () => {
+    expect(flakeRate(recordOf(['passed', 'failed', 'passed', 'passed']))).toBe(0.5);
+    expect(flakeRate(recordOf(['failed', 'passed', 'timeout', 'passed']))).toBe(0.75);
+  });
+
+  test('counts a flaky run that follows a failure once', () => {
+    expect(flakeRate(recordOf(['failed', 'flaky']))).toBe(0.5);
+  });
+});
+
+describe('FlakeStore', () => {
+  let dir: string;
+  let store: FlakeStore;
+  const policy = { threshold: 0.3, minRuns: 4 };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'flakes-'));
+    store = new FlakeStore(path.join(dir, 'flaky-tests.json'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function run(statuses: FlakeRun['status'][]): FlakeRecord[] {
+    return statuses.map((status, index) =>
+      store.record([{ name: 'checkout', browser: 'chromium', run: { runId: `run-${index}`, date: `2024-01-0${index + 1}`, status, attempts: 1 } }], policy)[0]
+    );
+  }
+
+  test('quarantines a scenario that alternates between passing and failing without retries', () => {
+    const records = run(['passed', 'failed', 'passed', 'failed']);
+
+    expect(records[2].quarantined).toBe(false);
+    expect(records[3].quarantined).toBe(true);
+    expect(records[3].quarantinedAt).toBe('2024-01-04');
+    expect(store.get('checkout', 'chromium')?.quarantined).toBe(true);
+  });
+
+  test('does not quarantine a scenario that fails consistently', () => {
+    const records = run(['failed', 'failed', 'failed', 'failed', 'failed']);
+
+    expect(records[4].quarantined).toBe(false);
+    expect(store.list({ quarantinedOnly: true })).toEqual([]);
+  });
+});
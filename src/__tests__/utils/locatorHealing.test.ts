@@ -0,0 +1,83 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocatorHealer } from '../../utils/locatorHealing.js';
+import type { ElementFingerprint } from '../../utils/locatorHeuristics.js';
+
+const fingerprint: ElementFingerprint = {
+  tag: 'button',
+  testIds: { 'data-testid': 'submit' },
+  attributes: { type: 'submit' },
+  role: 'button',
+  accessibleName: 'Sign in',
+  text: 'Sign in',
+  classes: ['btn'],
+  position: { x: 10, y: 20, width: 80, height: 30 },
+};
+
+describe('LocatorHealer', () => {
+  let dir: string;
+  let storePath: string;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'healing-'));
+    storePath = path.join(dir, 'locator-healing.json');
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    errorSpy.mockRestore();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('keeps remembered fingerprints in memory and writes them once flushed', () => {
+    const healer = new LocatorHealer(storePath);
+
+    healer.remember('https://shop.test/login', '#submit', fingerprint);
+    healer.remember('https://shop.test/login', '#signin', fingerprint);
+    expect(healer.getFingerprint('https://shop.test/cart', '#submit')).toEqual(fingerprint);
+    expect(fs.existsSync(storePath)).toBe(false);
+
+    healer.flush();
+    const stored = JSON.parse(fs.readFileSync(storePath, 'utf-8'));
+    expect(Object.keys(stored.fingerprints)).toEqual(['shop.test|#submit', 'shop.test|#signin']);
+    expect(new LocatorHealer(storePath).getFingerprintCount()).toBe(2);
+  });
+
+  test('starts empty from an unreadable store instead of throwing', () => {
+    fs.writeFileSync(storePath, '{"fingerprints": {');
+    const healer = new LocatorHealer(storePath);
+
+    expect(healer.getFingerprintCount()).toBe(0);
+    expect(healer.listEvents()).toEqual([]);
+    healer.remember('https://shop.test/', '#submit', fingerprint);
+    healer.flush();
+    expect(JSON.parse(fs.readFileSync(storePath, 'utf-8')).fingerprints['shop.test|#submit']).toBeDefined();
+  });
+
+  test('keeps working when the store cannot be written', () => {
+    fs.writeFileSync(path.join(dir, 'blocker'), '');
+    const healer = new LocatorHealer(path.join(dir, 'blocker', 'locator-healing.json'));
+
+    healer.remember('https://shop.test/', '#submit', fingerprint);
+    expect(() => healer.flush()).not.toThrow();
+    expect(healer.getFingerprintCount()).toBe(1);
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('Failed to write'));
+  });
+
+  test('caps the event log and lists the most recent first', () => {
+    const healer = new LocatorHealer(storePath);
+    for (let i = 0; i < 205; i++) {
+      healer.recordEvent({
+        timestamp: `t${i}`, tool: 'playwright_click', url: 'https://shop.test/', originalSelector: '#old', healedSelector: '#new',
+        confidence: 0.9, matchedOn: ['data-testid'], locatorCode: "page.locator('#new')",
+      });
+    }
+
+    const events = healer.listEvents();
+    expect(events).toHaveLength(200);
+    expect(events[0].timestamp).toBe('t204');
+    healer.flush();
+  });
+});
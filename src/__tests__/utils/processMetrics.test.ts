@@ -0,0 +1,82 @@
+import { BROWSER_MARKER_ENV, cpuPercent, readBrowserTrees } from '../../utils/processMetrics.js';
+
+// Fake /proc: file path -> content
+const mockProc = new Map<string, string>();
+
+jest.mock('fs', () => {
+  const actual = jest.requireActual('fs');
+  const isProc = (file: unknown) => typeof file === 'string' && file.startsWith('/proc');
+  return {
+    ...actual,
+    existsSync: (file: string) => isProc(file) ? mockProc.has(file) : actual.existsSync(file),
+    readFileSync: (file: string, ...rest: unknown[]) => {
+      if (!isProc(file)) {
+        return actual.readFileSync(file, ...rest);
+      }
+      if (!mockProc.has(file)) {
+        throw Object.assign(new Error(`ENOENT: no such file or directory, open '${file}'`), { code: 'ENOENT' });
+      }
+      return mockProc.get(file);
+    },
+    readdirSync: (dir: string, ...rest: unknown[]) => dir === '/proc'
+      ? Array.from(new Set(Array.from(mockProc.keys()).map(file => file.split('/')[2])))
+      : actual.readdirSync(dir, ...rest),
+  };
+});
+
+/**
+ * Add a process to the fake /proc
+ */
+function addProcess(pid: number, ppid: number, usage: { ticks?: number; rssKB?: number; marker?: string } = {}) {
+  const ticks = usage.ticks ?? 0;
+  // utime and stime are fields 14 and 15; the command name may contain spaces and parentheses
+  mockProc.set(`/proc/${pid}/stat`, `${pid} (chrome (renderer)) S ${ppid} 0 0 0 0 0 0 0 0 0 ${ticks / 2} ${ticks / 2} 0 0`);
+  mockProc.set(`/proc/${pid}/status`, `Name:\tchrome\nVmRSS:\t   ${usage.rssKB ?? 0} kB\n`);
+  mockProc.set(`/proc/${pid}/environ`, usage.marker ? `PATH=/usr/bin\0${BROWSER_MARKER_ENV}=${usage.marker}\0` : 'PATH=/usr/bin\0');
+}
+
+describe('readBrowserTrees', () => {
+  beforeEach(() => {
+    mockProc.clear();
+    mockProc.set('/proc/self/stat', `${process.pid} (node) S 1`);
+    addProcess(process.pid, 1);
+  });
+
+  test('sums memory and CPU over the tree of each marked browser', () => {
+    addProcess(5001, process.pid, { marker: 'session-a', ticks: 200, rssKB: 102400 });
+    addProcess(5002, 5001, { ticks: 100, rssKB: 51200 });
+    addProcess(5003, 5002, { ticks: 50, rssKB: 20480 });
+    addProcess(6001, process.pid, { marker: 'session-b', ticks: 10, rssKB: 10240 });
+
+    const trees = readBrowserTrees(['session-a', 'session-b']);
+
+    expect(trees.get('session-a')).toEqual({ rootPid: 5001, processes: 3, rssMB: 170, cpuSeconds: 3.5 });
+    expect(trees.get('session-b')).toEqual({ rootPid: 6001, processes: 1, rssMB: 10, cpuSeconds: 0.1 });
+  });
+
+  test('ignores unmarked children, other markers and browsers not launched by this process', () => {
+    addProcess(5001, process.pid, { ticks: 100, rssKB: 1024 });
+    addProcess(6001, process.pid, { marker: 'other-server', rssKB: 1024 });
+    addProcess(7001, 1, { marker: 'session-a', rssKB: 1024 });
+
+    expect(readBrowserTrees(['session-a']).size).toBe(0);
+  });
+
+  test('skips processes that exit while the tree is read', () => {
+    addProcess(5001, process.pid, { marker: 'session-a', rssKB: 1024 });
+    mockProc.set('/proc/5002/cmdline', '');
+
+    expect(readBrowserTrees(['session-a']).get('session-a')?.processes).toBe(1);
+  });
+});
+
+describe('cpuPercent', () => {
+  test('is CPU time over wall time, in % of one core', () => {
+    expect(cpuPercent(10, 13, 2000)).toBe(150);
+  });
+
+  test('never goes below zero when processes exit', () => {
+    expect(cpuPercent(10, 8, 1000)).toBe(0);
+    expect(cpuPercent(10, 12, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,37 @@
+import { ResourceManager } from '../../utils/resourceManager.js';
+
+describe('ResourceManager', () => {
+  let manager: ResourceManager;
+
+  afterEach(() => {
+    manager.shutdown();
+  });
+
+  test('defaults the per-client limit to the total session limit', async () => {
+    manager = new ResourceManager({ maxConcurrentBrowsers: 4, maxTotalSessions: 4, enableAutoCleanup: false });
+
+    for (let i = 0; i < 4; i++) {
+      await manager.requestSession('stdio-client');
+    }
+    expect(manager.getUserSessionCount('stdio-client')).toBe(4);
+  });
+
+  test('queues a client at its own limit and grants once it releases a session', async () => {
+    manager = new ResourceManager({ maxSessionsPerUser: 1, maxTotalSessions: 5, enableAutoCleanup: false });
+    await manager.requestSession('a');
+
+    let granted = false;
+    const waiting = manager.requestSession('a').then(() => { granted = true; });
+    await Promise.resolve();
+    expect(granted).toBe(false);
+
+    // Another client is not held up behind the queued one
+    await manager.requestSession('b');
+    expect(manager.getUserSessionCount('b')).toBe(1);
+
+    await manager.releaseSession('a');
+    await waiting;
+    expect(granted).toBe(true);
+    expect(manager.getUserSessionCount('a')).toBe(1);
+  });
+});
@@ -0,0 +1,106 @@
+import type { BrowserSession } from '../../sessionManager.js';
+import { readBrowserTrees, readNodeUsage, ProcessTreeUsage } from '../../utils/processMetrics.js';
+import { SessionMetricsCollector } from '../../utils/sessionMetrics.js';
+
+jest.mock('../../utils/processMetrics.js', () => ({
+  ...jest.requireActual('../../utils/processMetrics.js'),
+  isProcfsAvailable: () => true,
+  readBrowserTrees: jest.fn(),
+  readNodeUsage: jest.fn(),
+}));
+
+const mockTrees = readBrowserTrees as jest.MockedFunction<typeof readBrowserTrees>;
+const mockNode = readNodeUsage as jest.MockedFunction<typeof readNodeUsage>;
+
+/**
+ * Firefox session, so no DevTools page metrics are read
+ */
+function fakeSession(id: string, marker: string): BrowserSession {
+  return {
+    id,
+    browserType: 'firefox',
+    processMarker: marker,
+    page: { isClosed: () => false, url: () => `https://shop.test/${id}` },
+  } as unknown as BrowserSession;
+}
+
+function tree(cpuSeconds: number, rssMB: number): ProcessTreeUsage {
+  return { rootPid: 5001, processes: 4, rssMB, cpuSeconds };
+}
+
+describe('SessionMetricsCollector', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = Date.parse('2026-10-19T10:00:00Z');
+    jest.clearAllMocks();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    mockNode.mockReturnValue({ rssMB: 80, cpuSeconds: 1 });
+    mockTrees.mockReturnValue(new Map([['marker-a', tree(10, 200)]]));
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('totals', () => {
+    test('reuses a reading within the TTL instead of rescanning /proc', () => {
+      const collector = new SessionMetricsCollector(15000, 120, 2000);
+      collector.attach(() => [fakeSession('a', 'marker-a')]);
+
+      const first = collector.totals();
+      now += 500;
+      const second = collector.totals();
+
+      expect(second).toBe(first);
+      expect(mockTrees).toHaveBeenCalledTimes(1);
+      expect(first).toEqual({ nodeMemoryMB: 80, browserMemoryMB: 200, cpuPercent: 0, browserProcesses: 4 });
+    });
+
+    test('measures CPU between readings however often it is polled', () => {
+      const polled = new SessionMetricsCollector(15000, 120, 2000);
+      const idle = new SessionMetricsCollector(15000, 120, 2000);
+      for (const collector of [polled, idle]) {
+        collector.attach(() => [fakeSession('a', 'marker-a')]);
+        collector.totals();
+      }
+
+      // 1 CPU second over 2s, one collector polled every 100ms meanwhile
+      mockTrees.mockReturnValue(new Map([['marker-a', tree(11, 210)]]));
+      for (let poll = 0; poll < 20; poll++) {
+        now += 100;
+        polled.totals();
+      }
+
+      expect(polled.totals()).toEqual(idle.totals());
+      expect(idle.totals()).toMatchObject({ cpuPercent: 50, browserMemoryMB: 210 });
+      expect(mockTrees).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('sampleSession', () => {
+    test('records memory, CPU since the previous sample and the memory trend', async () => {
+      const collector = new SessionMetricsCollector();
+      const session = fakeSession('a', 'marker-a');
+
+      for (const [cpuSeconds, rssMB] of [[10, 200], [13, 230], [16, 260]]) {
+        mockTrees.mockReturnValue(new Map([['marker-a', tree(cpuSeconds, rssMB)]]));
+        await collector.sampleSession(session);
+        now += 60000;
+      }
+
+      const metrics = collector.get('a')!;
+      expect(metrics.history.map(sample => sample.cpuPercent)).toEqual([undefined, 5, 5]);
+      expect(metrics.latest).toMatchObject({ rssMB: 260, processes: 4, url: 'https://shop.test/a' });
+      expect(metrics.growthMBPerMinute).toBe(30);
+    });
+
+    test('keeps the history of a closed session', async () => {
+      const collector = new SessionMetricsCollector();
+      await collector.sampleSession(fakeSession('a', 'marker-a'));
+
+      collector.forget('a');
+
+      expect(collector.list()).toEqual([]);
+      expect(collector.list({ includeClosed: true })).toMatchObject([{ sessionId: 'a', closed: true }]);
+    });
+  });
+});
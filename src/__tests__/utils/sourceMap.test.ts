@@ -0,0 +1,69 @@
+import { SourceMap, decodeVlq, findSourceMapUrl, normalizeSourcePath } from '../../utils/sourceMap.js';
+
+describe('decodeVlq', () => {
+  test.each([
+    ['A', 0],
+    ['C', 1],
+    ['D', -1],
+    ['gB', 16],
+    ['hB', -16],
+    ['+/D', 2047],
+  ])('decodes %s as %d', (field, value) => {
+    expect(decodeVlq(field, 0)).toEqual([value, field.length]);
+  });
+
+  test('returns the index after the field', () => {
+    expect(decodeVlq('AgBC', 1)).toEqual([16, 3]);
+  });
+
+  test('rejects characters outside base64', () => {
+    expect(() => decodeVlq('A!', 1)).toThrow('Invalid source map mapping character at 1');
+  });
+});
+
+describe('SourceMap', () => {
+  const map = new SourceMap({
+    version: 3,
+    sources: ['webpack://app/./src/a.ts', 'b.ts'],
+    // line 0: col 0 -> a.ts 1:0, col 4 -> a.ts 1:2; line 1: col 2 -> b.ts 3:0; line 2: unmapped
+    mappings: 'AAAA,IAAE;ECEF;',
+  }, 'https://example.com/assets/app.js.map');
+
+  test('normalizes source paths', () => {
+    expect(map.sources).toEqual(['src/a.ts', 'assets/b.ts']);
+  });
+
+  test('maps a column to the last segment starting at or before it', () => {
+    expect(map.originalPositionFor(0, 0)).toEqual({ source: 'src/a.ts', line: 1, column: 0 });
+    expect(map.originalPositionFor(0, 9)).toEqual({ source: 'src/a.ts', line: 1, column: 2 });
+    expect(map.originalPositionFor(1, 5)).toEqual({ source: 'assets/b.ts', line: 3, column: 0 });
+  });
+
+  test('leaves columns before the first segment and unmapped lines unmapped', () => {
+    expect(map.originalPositionFor(1, 0)).toBeUndefined();
+    expect(map.originalPositionFor(2, 0)).toBeUndefined();
+    expect(map.originalPositionFor(5, 0)).toBeUndefined();
+  });
+
+  test('lists every mapped segment', () => {
+    expect([...map.mappings()].map(m => [m.generatedLine, m.generatedColumn, m.original.line])).toEqual([
+      [0, 0, 1],
+      [0, 4, 1],
+      [1, 2, 3],
+    ]);
+  });
+});
+
+describe('source map references', () => {
+  test('finds the last sourceMappingURL comment and resolves it', () => {
+    const text = '//# sourceMappingURL=old.map\ncode();\n//# sourceMappingURL=app.js.map';
+    expect(findSourceMapUrl(text, 'https://example.com/js/app.js')).toBe('https://example.com/js/app.js.map');
+    expect(findSourceMapUrl('/*# sourceMappingURL=style.css.map */', 'https://example.com/css/style.css')).toBe('https://example.com/css/style.css.map');
+    expect(findSourceMapUrl('code();', 'https://example.com/app.js')).toBeUndefined();
+  });
+
+  test('strips bundler prefixes and applies the source root', () => {
+    expect(normalizeSourcePath('webpack://app/./src/index.ts', 'https://example.com/app.js.map')).toBe('src/index.ts');
+    expect(normalizeSourcePath('index.ts', 'https://example.com/js/app.js.map', 'src')).toBe('js/src/index.ts');
+  });
+});
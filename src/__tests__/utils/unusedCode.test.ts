@@ -0,0 +1,108 @@
+import { findUnusedCode, formatUnusedPatch, parseCssRules } from '../../utils/unusedCode.js';
+
+const CSS = [
+  '/* layout */',
+  '.header { color: red; }',
+  '@media (max-width: 600px) {',
+  '  .header, .nav { display: none; }',
+  '}',
+  '@font-face { font-family: "Brand{x}"; }',
+  '.promo::after { content: "}"; }',
+  '.footer { margin: 0; }',
+].join('\n');
+
+const JS = [
+  'function used() { return 1; }',
+  'function legacy() {',
+  '  function helper() {}',
+  '  return helper();',
+  '}',
+  'function checkout() { return 2; }',
+  'used();',
+].join('\n');
+
+const LEGACY = 'function legacy() {\n  function helper() {}\n  return helper();\n}';
+
+/**
+ * Byte range of a snippet of the given text
+ */
+function range(text: string, snippet: string) {
+  const start = text.indexOf(snippet);
+  return { start, end: start + snippet.length };
+}
+
+/**
+ * V8 coverage of JS where the named top-level functions ran
+ */
+function jsCoverage(ran: string[]) {
+  const fn = (name: string, snippet: string, count: number) => {
+    const { start, end } = range(JS, snippet);
+    return { functionName: name, isBlockCoverage: false, ranges: [{ startOffset: start, endOffset: end, count }] };
+  };
+  return {
+    url: 'https://shop.test/app.js',
+    source: JS,
+    functions: [
+      { functionName: '', isBlockCoverage: false, ranges: [{ startOffset: 0, endOffset: JS.length, count: 1 }] },
+      fn('used', 'function used() { return 1; }', 1),
+      fn('legacy', LEGACY, ran.includes('legacy') ? 1 : 0),
+      fn('helper', 'function helper() {}', 0),
+      fn('checkout', 'function checkout() { return 2; }', ran.includes('checkout') ? 1 : 0),
+    ],
+  };
+}
+
+describe('parseCssRules', () => {
+  test('finds style rules, including those inside @media, and skips other at-rules', () => {
+    expect(parseCssRules(CSS).map(rule => rule.selector)).toEqual(['.header', '.header, .nav', '.promo::after', '.footer']);
+  });
+
+  test('reports the byte range of each rule without leading comments', () => {
+    const [header] = parseCssRules(CSS);
+
+    expect(CSS.slice(header.start, header.end)).toBe('.header { color: red; }');
+  });
+});
+
+describe('findUnusedCode', () => {
+  test('reports rules no page used', async () => {
+    const css = (used: string) => ({ url: 'https://shop.test/site.css', text: CSS, ranges: [range(CSS, used)] });
+
+    const [file] = await findUnusedCode([], [css('.header { color: red; }'), css('.footer { margin: 0; }')], { sourceMaps: false });
+
+    expect(file).toMatchObject({ path: 'site.css', kind: 'css', totalBytes: CSS.length });
+    expect(file.items.map(item => item.name)).toEqual(['.header, .nav', '.promo::after']);
+    expect(file.items[1]).toMatchObject({ generatedLine: 7, bytes: '.promo::after { content: "}"; }'.length });
+  });
+
+  test('reports top-level functions no page ran, without their nested functions', async () => {
+    const [file] = await findUnusedCode([jsCoverage([]), jsCoverage(['checkout'])], [], { sourceMaps: false });
+
+    expect(file.items.map(item => item.name)).toEqual(['legacy']);
+    expect(file.items[0]).toMatchObject({ kind: 'js-function', generatedLine: 2 });
+    expect(file.unusedBytes).toBe(file.items[0].bytes);
+  });
+
+  test('leaves out items smaller than minBytes', async () => {
+    expect(await findUnusedCode([jsCoverage(['legacy'])], [], { sourceMaps: false, minBytes: 64 })).toEqual([]);
+  });
+});
+
+describe('formatUnusedPatch', () => {
+  test('removes each unused item in a diff section per file', async () => {
+    const files = await findUnusedCode([jsCoverage([])], [], { sourceMaps: false });
+
+    const patch = formatUnusedPatch(files, 2);
+
+    expect(patch.split('\n').slice(0, 8)).toEqual([
+      '--- a/app.js',
+      '+++ b/app.js',
+      expect.stringMatching(/^# 2 unused function\(s\), \d+ B of \d+ B, ~\d+ B gzipped$/),
+      `@@ -2,4 +2,0 @@ legacy (${LEGACY.length} B)`,
+      '-function legacy() {',
+      '-  function helper() {}',
+      '-... 2 more line(s)',
+      expect.stringMatching(/^@@ -6,1 \+6,0 @@ checkout/),
+    ]);
+  });
+});
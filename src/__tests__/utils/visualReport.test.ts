@@ -0,0 +1,80 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PNG } from 'pngjs';
+import { VisualReportEntry, generateVisualReport } from '../../utils/visualReport.js';
+
+describe('generateVisualReport', () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'visual-report-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  function writePng(name: string, width: number, height: number): string {
+    const filePath = path.join(rootDir, name);
+    fs.writeFileSync(filePath, PNG.sync.write(new PNG({ width, height })));
+    return filePath;
+  }
+
+  function entry(overrides: Partial<VisualReportEntry>): VisualReportEntry {
+    return {
+      name: 'home',
+      baselinePath: writePng('home-baseline.png', 200, 100),
+      currentPath: writePng('home-current.png', 200, 100),
+      passed: true,
+      tool: 'playwright_visual_compare',
+      comparedAt: '2026-10-19T10:00:00.000Z',
+      ...overrides,
+    };
+  }
+
+  test('inlines the images and marks ignored regions on them', () => {
+    const outputPath = path.join(rootDir, 'out', 'report.html');
+
+    const count = generateVisualReport([entry({
+      passed: false,
+      diffPath: writePng('home-diff.png', 200, 100),
+      diffPercentage: 2.5,
+      threshold: 1,
+      dynamicRegions: [{ type: 'timestamp', label: 'span#clock', confidence: 0.9, x: 100, y: 25, width: 50, height: 50 }],
+    })], outputPath);
+    const html = fs.readFileSync(outputPath, 'utf-8');
+
+    expect(count).toBe(1);
+    expect(html).toContain('1 comparisons · 0 passed · 1 failed');
+    // Side by side, plus the baseline/current stack of the onion-skin and slider views
+    expect(html.match(/src="data:image\/png;base64,/g)).toHaveLength(7);
+    expect(html).toContain('2.5000% different (threshold 1%)');
+    expect(html).toContain('left:50%;top:25%;width:25%;height:50%');
+    expect(html).toContain('Ignored dynamic regions (1)');
+    expect(html).not.toMatch(/<img [^>]*src="(?!data:)/);
+  });
+
+  test('escapes names in the markup and in the embedded report data', () => {
+    const outputPath = path.join(rootDir, 'report.html');
+
+    generateVisualReport([entry({ name: '</script><b>cart</b>' })], outputPath);
+    const html = fs.readFileSync(outputPath, 'utf-8');
+    const data = JSON.parse(/<script type="application\/json" id="report-data">(.*?)<\/script>/s.exec(html)![1]);
+
+    expect(html).toContain('<h2>&lt;/script&gt;&lt;b&gt;cart&lt;/b&gt;</h2>');
+    expect(html).not.toContain('<b>cart</b>');
+    expect(data.entries).toEqual([expect.objectContaining({ name: '</script><b>cart</b>' })]);
+  });
+
+  test('leaves passing comparisons out with onlyFailures', () => {
+    const outputPath = path.join(rootDir, 'report.html');
+
+    const count = generateVisualReport([entry({}), entry({ name: 'cart', passed: false })], outputPath, { onlyFailures: true, title: 'Nightly' });
+    const html = fs.readFileSync(outputPath, 'utf-8');
+
+    expect(count).toBe(1);
+    expect(html).toContain('<title>Nightly</title>');
+    expect(html).not.toContain('<h2>home</h2>');
+  });
+});
@@ -0,0 +1,119 @@
+import type { Page } from 'playwright';
+import { formatWaitResult, globToRegExp, parseCondition, waitForCondition } from '../../utils/waitEngine.js';
+
+/**
+ * Page stand-in with a URL and per-selector element counts the test can change
+ */
+function fakePage(state: { url: string; counts: Record<string, number> }): Page {
+  const locator = (selector: string) => ({
+    count: async () => {
+      if (selector === 'bad[') {
+        throw new Error(`Unexpected token "[" while parsing selector "${selector}"`);
+      }
+      return state.counts[selector] ?? 0;
+    },
+    first: () => ({ isVisible: async () => (state.counts[selector] ?? 0) > 0 }),
+  });
+  return { url: () => state.url, locator } as unknown as Page;
+}
+
+describe('parseCondition', () => {
+  test('accepts nested all/any conditions', () => {
+    const condition = parseCondition({
+      type: 'all',
+      conditions: [
+        { type: 'visible', selector: '#form' },
+        { type: 'any', conditions: [{ type: 'url', pattern: '**/done' }, { type: 'count', selector: 'li', count: 3, comparison: 'atLeast' }] },
+      ],
+    });
+
+    expect(condition.type).toBe('all');
+  });
+
+  test.each([
+    [undefined, 'condition.type is required'],
+    [{ type: 'any', conditions: [] }, 'condition.conditions must be a non-empty array'],
+    [{ type: 'visible' }, "condition.selector is required for 'visible'"],
+    [{ type: 'hasText', selector: 'h1' }, "condition.text is required for 'hasText'"],
+    [{ type: 'attribute', selector: 'a' }, "condition.attribute is required for 'attribute'"],
+    [{ type: 'count', selector: 'li' }, "condition.count is required for 'count'"],
+    [{ type: 'count', selector: 'li', count: 1, comparison: 'more' }, 'condition.comparison must be one of: equal, greaterThan, lessThan, atLeast, atMost'],
+    [{ type: 'url' }, "condition.pattern is required for 'url'"],
+    [{ type: 'predicate' }, "condition.script is required for 'predicate'"],
+    [{ type: 'soon' }, "Unknown condition type 'soon' at condition"],
+  ])('rejects %j', (value, message) => {
+    expect(() => parseCondition(value)).toThrow(message);
+  });
+
+  test('names the path of an invalid nested condition', () => {
+    expect(() => parseCondition({ type: 'all', conditions: [{ type: 'exists', selector: 'a' }, { type: 'hidden' }] }, 'conditions[0]'))
+      .toThrow("conditions[0].conditions[1].selector is required for 'hidden'");
+  });
+});
+
+describe('globToRegExp', () => {
+  test('matches ** across slashes and * within a segment', () => {
+    expect(globToRegExp('**/checkout/*').test('https://shop.test/en/checkout/payment')).toBe(true);
+    expect(globToRegExp('**/checkout/*').test('https://shop.test/checkout/payment/card')).toBe(false);
+    expect(globToRegExp('https://shop.test/*').test('https://shop.test/cart')).toBe(true);
+  });
+
+  test('treats regex characters and ? literally', () => {
+    expect(globToRegExp('**/search?q=a.b').test('https://shop.test/search?q=a.b')).toBe(true);
+    expect(globToRegExp('**/search?q=a.b').test('https://shop.test/searchXq=aXb')).toBe(false);
+    expect(globToRegExp('**/(promo)+').test('https://shop.test/(promo)+')).toBe(true);
+  });
+
+  test('matches the whole URL', () => {
+    expect(globToRegExp('**/cart').test('https://shop.test/cart?step=2')).toBe(false);
+  });
+});
+
+describe('waitForCondition', () => {
+  test('resolves with timings once every condition is met', async () => {
+    const state = { url: 'https://shop.test/cart', counts: {} as Record<string, number> };
+    setTimeout(() => {
+      state.url = 'https://shop.test/checkout/done';
+      state.counts['#receipt'] = 1;
+    }, 50);
+
+    const result = await waitForCondition(fakePage(state), parseCondition({
+      type: 'all',
+      conditions: [{ type: 'url', pattern: '**/done' }, { type: 'visible', selector: '#receipt' }],
+    }), { timeout: 2000, pollInterval: 10 });
+
+    expect(result.met).toBe(true);
+    expect(result.unmet).toEqual([]);
+    expect(result.elapsedMs).toBeLessThan(2000);
+    expect(result.condition.children?.every(child => child.met && child.elapsedMs !== undefined)).toBe(true);
+    expect(formatWaitResult(result)[0]).toMatch(/^✓ Wait completed in \d+ms$/);
+  });
+
+  test('is met by any one condition in any mode', async () => {
+    const result = await waitForCondition(fakePage({ url: 'https://shop.test/', counts: { li: 4 } }), parseCondition({
+      type: 'any',
+      conditions: [{ type: 'exists', selector: '#missing' }, { type: 'count', selector: 'li', count: 3, comparison: 'greaterThan' }],
+    }), { timeout: 1000, pollInterval: 10 });
+
+    expect(result.met).toBe(true);
+    expect(result.condition.children?.map(child => child.met)).toEqual([false, true]);
+  });
+
+  test('reports unmet conditions with their last observation on timeout', async () => {
+    const result = await waitForCondition(fakePage({ url: 'https://shop.test/cart', counts: { li: 1 } }), parseCondition({
+      type: 'all',
+      conditions: [{ type: 'url', pattern: '**/done' }, { type: 'count', selector: 'li', count: 2 }, { type: 'exists', selector: 'li' }],
+    }), { timeout: 100, pollInterval: 20 });
+
+    expect(result.met).toBe(false);
+    expect(result.elapsedMs).toBeGreaterThanOrEqual(100);
+    expect(result.unmet).toEqual(['url matches **/done', 'count(li) equal 2']);
+    expect(result.condition.children?.[0].detail).toBe('https://shop.test/cart');
+    expect(formatWaitResult(result)).toContain('Still unmet: url matches **/done, count(li) equal 2');
+  });
+
+  test('throws when a check fails for a reason other than navigation', async () => {
+    await expect(waitForCondition(fakePage({ url: 'https://shop.test/', counts: {} }), { type: 'exists', selector: 'bad[' }, { timeout: 100 }))
+      .rejects.toThrow('Unexpected token');
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+import http, { IncomingMessage, ServerResponse } from 'node:http';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export interface HttpServerOptions {
+  port: number;
+  /** Interface to listen on (default: 127.0.0.1); any other than loopback requires authToken */
+  host?: string;
+  /** When set, every MCP request must send `Authorization: Bearer <authToken>` */
+  authToken?: string;
+}
+
+/** Endpoint for the streamable HTTP transport (POST / GET / DELETE) */
+export const MCP_ENDPOINT = '/mcp';
+/** Endpoints for the legacy HTTP+SSE transport */
+export const SSE_ENDPOINT = '/sse';
+export const SSE_MESSAGES_ENDPOINT = '/messages';
+export const HEALTH_ENDPOINT = '/health';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const DEFAULT_HOST = '127.0.0.1';
+
+interface ClientSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}) {
+  sendJson(res, status, {
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null,
+  }, headers);
+}
+
+/**
+ * Whether only clients on this machine can reach the given listen address
+ */
+function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || /^127\.\d+\.\d+\.\d+$/.test(host);
+}
+
+function isAuthorized(req: IncomingMessage, authToken?: string): boolean {
+  if (!authToken) {
+    return true;
+  }
+
+  const header = req.headers.authorization ?? '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) {
+    return false;
+  }
+
+  const provided = Buffer.from(match[1].trim());
+  const expected = Buffer.from(authToken);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Serves MCP over HTTP. Each client gets its own MCP server instance and session,
+ * created by the given factory, while all of them share the same browser sessions.
+ * @param createServer Factory returning a fully configured MCP server
+ * @param options Port, host and optional bearer token
+ * @throws Error when asked to listen beyond loopback without a bearer token
+ */
+export async function startHttpServer(
+  createServer: () => Server,
+  options: HttpServerOptions
+): Promise<http.Server> {
+  const host = options.host ?? DEFAULT_HOST;
+  if (!options.authToken && !isLoopbackHost(host)) {
+    throw new Error(`Refusing to serve MCP on ${host} without a bearer token: set MCP_AUTH_TOKEN, or listen on 127.0.0.1`);
+  }
+
+  const sessions = new Map<string, ClientSession>();
+  const startedAt = Date.now();
+
+  async function closeClientSession(sessionId: string) {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    sessions.delete(sessionId);
+    await session.server.close().catch(() => {});
+    console.error(`MCP client session closed: ${sessionId}`);
+  }
+
+  async function handleStreamableRequest(req: IncomingMessage, res: ServerResponse) {
+    const sessionHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        sendJsonRpcError(res, 400, `Parse error: ${(error as Error).message}`);
+        return;
+      }
+    }
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 404, `Session not found: ${sessionId}`);
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: missing mcp-session-id header or not an initialize request');
+      return;
+    }
+
+    // New client: give it its own server and transport
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { server, transport });
+        console.error(`MCP client session opened: ${id}`);
+      },
+    });
+    // Server.connect() replaces transport.onclose, so hook the server instead
+    const previousOnClose = server.onclose;
+    server.onclose = () => {
+      previousOnClose?.();
+      if (transport.sessionId) {
+        closeClientSession(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function handleSseConnect(res: ServerResponse) {
+    const server = createServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_ENDPOINT, res);
+    sessions.set(transport.sessionId, { server, transport });
+    console.error(`MCP client session opened (SSE): ${transport.sessionId}`);
+
+    const previousOnClose = server.onclose;
+    server.onclose = () => {
+      previousOnClose?.();
+      closeClientSession(transport.sessionId);
+    };
+
+    await server.connect(transport);
+  }
+
+  async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL) {
+    const sessionId = url.searchParams.get('sessionId') ?? '';
+    const session = sessions.get(sessionId);
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, `Session not found: ${sessionId}`);
+      return;
+    }
+    await session.transport.handlePostMessage(req, res);
+  }
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+
+    try {
+      if (url.pathname === HEALTH_ENDPOINT && req.method === 'GET') {
+        sendJson(res, 200, {
+          status: 'ok',
+          sessions: sessions.size,
+          uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+        });
+        return;
+      }
+
+      if (![MCP_ENDPOINT, SSE_ENDPOINT, SSE_MESSAGES_ENDPOINT].includes(url.pathname)) {
+        sendJson(res, 404, { error: `Not found: ${url.pathname}` });
+        return;
+      }
+
+      if (!isAuthorized(req, options.authToken)) {
+        sendJsonRpcError(res, 401, 'Unauthorized', { 'WWW-Authenticate': 'Bearer' });
+        return;
+      }
+
+      if (url.pathname === MCP_ENDPOINT) {
+        await handleStreamableRequest(req, res);
+      } else if (url.pathname === SSE_ENDPOINT && req.method === 'GET') {
+        await handleSseConnect(res);
+      } else if (url.pathname === SSE_MESSAGES_ENDPOINT && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendJsonRpcError(res, 405, `Method not allowed: ${req.method} ${url.pathname}`, { Allow: url.pathname === SSE_ENDPOINT ? 'GET' : 'POST' });
+      }
+    } catch (error) {
+      console.error(`Error handling ${req.method} ${url.pathname}:`, error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, 'Internal server error');
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+  console.error(`MCP server listening on http://${host}:${port}${MCP_ENDPOINT}` +
+    `${options.authToken ? ' (bearer token required)' : ''}`);
+
+  return httpServer;
+}
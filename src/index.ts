@@ -9,30 +9,92 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { createToolDefinitions } from "./tools.js";
 import { setupRequestHandlers } from "./requestHandler.js";
+import { toolRegistry } from "./toolRegistry.js";
+import { startHttpServer } from "./httpServer.js";
+import { locatorHealer } from "./utils/locatorHealing.js";
 
-async function runServer() {
-  const server = new Server(
-    {
-      name: "runautomation-mcpserver",
-      version: "1.0.0",
-    },
-    {
-      capabilities: {
-        resources: {},
-        tools: {},
-      },
+const DEFAULT_HTTP_PORT = 3000;
+
+interface TransportConfig {
+  transport: 'stdio' | 'http';
+  port: number;
+  host?: string;
+  authToken?: string;
+}
+
+/**
+ * Reads transport settings from CLI flags (--transport, --port, --host),
+ * falling back to MCP_TRANSPORT, MCP_PORT, MCP_HOST and MCP_AUTH_TOKEN
+ */
+function parseTransportConfig(argv: string[]): TransportConfig {
+  const flags = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      continue;
+    }
+    const [key, inlineValue] = arg.slice(2).split('=', 2);
+    if (inlineValue !== undefined) {
+      flags.set(key, inlineValue);
+    } else if (argv[i + 1] !== undefined && !argv[i + 1].startsWith('--')) {
+      flags.set(key, argv[++i]);
+    } else {
+      flags.set(key, 'true');
     }
-  );
+  }
+
+  const transport = (flags.get('transport') ?? process.env.MCP_TRANSPORT ?? 'stdio').toLowerCase();
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Unsupported transport: ${transport}. Use "stdio" or "http"`);
+  }
+
+  const rawPort = flags.get('port') ?? process.env.MCP_PORT ?? process.env.PORT;
+  const port = rawPort !== undefined ? Number(rawPort) : DEFAULT_HTTP_PORT;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${rawPort}`);
+  }
+
+  return {
+    transport,
+    port,
+    host: flags.get('host') ?? process.env.MCP_HOST,
+    authToken: process.env.MCP_AUTH_TOKEN || undefined,
+  };
+}
+
+async function runServer() {
+  const config = parseTransportConfig(process.argv.slice(2));
 
   // Create tool definitions
   const TOOLS = createToolDefinitions();
 
-  // Setup request handlers
-  setupRequestHandlers(server, TOOLS);
+  // Fail fast if any advertised tool has no handler
+  toolRegistry.validate(TOOLS);
+
+  // Every MCP client connection gets its own server with the same handlers
+  function createServer() {
+    const server = new Server(
+      {
+        name: "runautomation-mcpserver",
+        version: "1.0.0",
+      },
+      {
+        capabilities: {
+          resources: { listChanged: true },
+          tools: {},
+        },
+      }
+    );
+
+    // Setup request handlers
+    setupRequestHandlers(server, TOOLS);
+    return server;
+  }
 
   // Graceful shutdown logic
   function shutdown() {
     console.error('Shutdown signal received');
+    locatorHealer.flush();
     process.exit(0);
   }
 
@@ -44,12 +106,21 @@ async function runServer() {
     process.exit(1);
   });
 
+  if (config.transport === 'http') {
+    await startHttpServer(createServer, {
+      port: config.port,
+      host: config.host,
+      authToken: config.authToken,
+    });
+    return;
+  }
+
   // Create transport and connect
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer().connect(transport);
 }
 
 runServer().catch((error) => {
   console.error("Fatal error in main():", error);
   process.exit(1);
-});
\ No newline at end of file
+});
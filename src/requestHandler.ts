@@ -12,8 +12,33 @@ import {
   Tool
 } from "@modelcontextprotocol/sdk/types.js";
 import { handleToolCall, getConsoleLogs, getScreenshots } from "./toolHandler.js";
+import type { QueuePosition } from "./utils/resourceManager.js";
+import { artifactStore, ArtifactScheme } from "./utils/artifactStore.js";
+
+const ARTIFACT_LABELS: Record<ArtifactScheme, string> = {
+  video: "Video",
+  baseline: "Baseline",
+  diff: "Visual diff",
+  coverage: "Coverage report",
+  codegen: "Generated test",
+  pdf: "PDF",
+  download: "Download",
+  report: "Visual report",
+  trace: "Test trace",
+  failure: "Failure screenshot",
+};
 
 export function setupRequestHandlers(server: Server, tools: Tool[]) {
+  // Tell the client whenever a tool produces a new artifact
+  const unsubscribe = artifactStore.onChange(() => {
+    server.sendResourceListChanged().catch(() => {});
+  });
+  const previousOnClose = server.onclose;
+  server.onclose = () => {
+    unsubscribe();
+    previousOnClose?.();
+  };
+
   // List resources handler
   server.setRequestHandler(ListResourcesRequestSchema, async () => ({
     resources: [
@@ -27,6 +52,12 @@ export function setupRequestHandlers(server: Server, tools: Tool[]) {
         mimeType: "image/png",
         name: `Screenshot: ${name}`,
       })),
+      ...artifactStore.list().map(artifact => ({
+        uri: artifact.uri,
+        mimeType: artifact.mimeType,
+        name: `${ARTIFACT_LABELS[artifact.scheme]}: ${artifact.name}`,
+        description: artifact.description,
+      })),
     ],
   }));
 
@@ -59,6 +90,13 @@ export function setupRequestHandlers(server: Server, tools: Tool[]) {
       }
     }
 
+    const artifact = await artifactStore.read(uri);
+    if (artifact) {
+      return {
+        contents: [artifact],
+      };
+    }
+
     throw new Error(`Resource not found: ${uri}`);
   });
 
@@ -68,7 +106,27 @@ export function setupRequestHandlers(server: Server, tools: Tool[]) {
   }));
 
   // Call tool handler
-  server.setRequestHandler(CallToolRequestSchema, async (request) =>
-    handleToolCall(request.params.name, request.params.arguments ?? {}, server)
-  );
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    // Browser launches are charged to the MCP connection: the HTTP session, or the client over stdio
+    const clientId = extra.sessionId ?? server.getClientVersion()?.name;
+
+    // Report the queue position of a waiting browser launch as progress, if the client asked for it
+    const progressToken = request.params._meta?.progressToken;
+    let updates = 0;
+    const onQueued = (position: QueuePosition) => {
+      if (progressToken === undefined) {
+        return;
+      }
+      extra.sendNotification({
+        method: "notifications/progress",
+        params: {
+          progressToken,
+          progress: ++updates,
+          message: `Waiting for a browser: position ${position.position} of ${position.queueLength} in queue`,
+        },
+      }).catch(() => {});
+    };
+
+    return handleToolCall(request.params.name, request.params.arguments ?? {}, server, { admission: { clientId, onQueued } });
+  });
 }
\ No newline at end of file
@@ -3,9 +3,12 @@
  * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
  */
 
-import { Browser, Page, Response } from 'playwright';
+import { Browser, Page, Response, Route } from 'playwright';
 import { chromium, firefox, webkit } from 'playwright';
 import { sessionPersistence, PersistedSessionData } from './utils/sessionPersistence.js';
+import { resourceManager, QueuePosition } from './utils/resourceManager.js';
+import { BROWSER_MARKER_ENV } from './utils/processMetrics.js';
+import { sessionMetrics } from './utils/sessionMetrics.js';
 
 /**
  * Represents a browser session with its own context and state
@@ -18,9 +21,42 @@ export interface BrowserSession {
   consoleLog: string[];
   screenshots: Map<string, string>;
   responsePromises: Map<string, Promise<Response>>;
+  routes: Map<string, ActiveRoute>;
   createdAt: Date;
   lastAccessedAt: Date;
   settings?: BrowserSettings;
+  /** MCP client the session counts against in the resource manager */
+  clientId?: string;
+  /** Value of the marker env var given to the browser, to find its process tree */
+  processMarker?: string;
+}
+
+/**
+ * Who is asking for a new session, for resource manager admission
+ */
+export interface SessionAdmission {
+  /** MCP client the session counts against (per-client session limit) */
+  clientId?: string;
+  /** Higher priorities leave the queue first */
+  priority?: number;
+  /** Called with the queue position while the launch waits for a free browser slot */
+  onQueued?: (position: QueuePosition) => void;
+}
+
+/**
+ * A request interception installed on a session's page with page.route or page.routeFromHAR
+ */
+export interface ActiveRoute {
+  id: string;
+  type: 'mock' | 'abort' | 'modify' | 'har';
+  url: string | RegExp;
+  method?: string;
+  description: string;
+  hits: number;
+  times?: number;
+  /** Handler passed to page.route (HAR routes are installed by Playwright itself) */
+  handler?: (route: Route) => Promise<void>;
+  createdAt: Date;
 }
 
 /**
@@ -50,15 +86,26 @@ export interface BrowserSettings {
 export class SessionManager {
   private sessions = new Map<string, BrowserSession>();
   private defaultSessionId = 'default';
+  private activeSessionId = 'default';
   private nextSessionId = 1;
+  /** Tool calls in progress per session; busy sessions are never evicted */
+  private busySessions = new Map<string, number>();
+  /** ensureSession calls in progress per session, shared by concurrent callers */
+  private pendingSessions = new Map<string, Promise<BrowserSession>>();
+
+  constructor() {
+    resourceManager.setSessionEvictor(options => this.evictIdleSessions(options.minIdleMs, options.maxCount));
+    sessionMetrics.attach(() => Array.from(this.sessions.values()));
+  }
 
   /**
    * Create a new browser session
    * @param sessionId Optional custom session ID. If not provided, auto-generates one
    * @param settings Browser launch settings
+   * @param admission Client identity and queue callbacks for the resource manager
    * @returns Session ID
    */
-  async createSession(sessionId?: string, settings?: BrowserSettings): Promise<string> {
+  async createSession(sessionId?: string, settings?: BrowserSettings, admission: SessionAdmission = {}): Promise<string> {
     const id = sessionId || `session-${this.nextSessionId++}`;
 
     // Check if session already exists
@@ -71,16 +118,30 @@ export class SessionManager {
     const headless = settings?.headless !== undefined ? settings.headless : true;
     const viewport = settings?.viewport || { width: 1280, height: 720 };
 
-    // Launch browser based on type
+    // Waits in the resource manager's queue while the browser or session limits are reached
+    await resourceManager.requestSession(admission.clientId, admission.priority, admission.onQueued);
+    if (this.sessions.has(id)) {
+      await resourceManager.releaseSession(admission.clientId);
+      throw new Error(`Session with ID '${id}' already exists`);
+    }
+
+    // Launch browser based on type, marked so its process tree can be measured
+    const processMarker = `${id}:${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+    const env = { ...process.env, [BROWSER_MARKER_ENV]: processMarker };
     let browser: Browser;
-    if (browserType === 'chromium') {
-      browser = await chromium.launch({ headless });
-    } else if (browserType === 'firefox') {
-      browser = await firefox.launch({ headless });
-    } else if (browserType === 'webkit') {
-      browser = await webkit.launch({ headless });
-    } else {
-      throw new Error(`Unknown browser type: ${browserType}`);
+    try {
+      if (browserType === 'chromium') {
+        browser = await chromium.launch({ headless, env, executablePath: process.env.CHROME_EXECUTABLE_PATH });
+      } else if (browserType === 'firefox') {
+        browser = await firefox.launch({ headless, env });
+      } else if (browserType === 'webkit') {
+        browser = await webkit.launch({ headless, env });
+      } else {
+        throw new Error(`Unknown browser type: ${browserType}`);
+      }
+    } catch (error) {
+      await resourceManager.releaseSession(admission.clientId);
+      throw error;
     }
 
     // Create browser context with settings
@@ -104,25 +165,23 @@ export class SessionManager {
       contextOptions.permissions = settings.permissions;
     }
 
-    const context = await browser.newContext(contextOptions);
-    const page = await context.newPage();
-
-    // Setup console logging
-    const consoleLog: string[] = [];
-    page.on('console', (msg) => {
-      const logEntry = `[${new Date().toISOString()}] ${msg.type()}: ${msg.text()}`;
-      consoleLog.push(logEntry);
-    });
-
-    page.on('pageerror', (error) => {
-      const logEntry = `[${new Date().toISOString()}] ERROR: ${error.message}`;
-      consoleLog.push(logEntry);
-    });
+    let page: Page;
+    try {
+      const context = await browser.newContext(contextOptions);
+      page = await context.newPage();
+    } catch (error) {
+      await browser.close().catch(() => {});
+      await resourceManager.releaseSession(admission.clientId);
+      throw error;
+    }
 
     // Setup browser disconnection handler
     browser.on('disconnected', () => {
-      this.sessions.delete(id);
-      console.log(`Session ${id} browser disconnected, session removed`);
+      const current = this.sessions.get(id);
+      if (current?.browser === browser) {
+        this.removeSession(current);
+      }
+      console.error(`Session ${id} browser disconnected, session removed`);
     });
 
     // Create session object
@@ -131,16 +190,23 @@ export class SessionManager {
       browser,
       page,
       browserType,
-      consoleLog,
+      consoleLog: [],
       screenshots: new Map(),
       responsePromises: new Map(),
+      routes: new Map(),
       createdAt: new Date(),
       lastAccessedAt: new Date(),
       settings,
+      clientId: admission.clientId,
+      processMarker,
     };
 
+    // Setup console logging
+    await this.registerConsoleListeners(session, page);
+
     this.sessions.set(id, session);
-    console.log(`Session ${id} created (browser: ${browserType})`);
+    sessionMetrics.start();
+    console.error(`Session ${id} created (browser: ${browserType})`);
 
     // Persist session to disk
     await this.persistSession(session);
@@ -148,13 +214,72 @@ export class SessionManager {
     return id;
   }
 
+  /**
+   * Capture console messages, uncaught exceptions and unhandled rejections of a page
+   * into the session console log
+   * @param session Browser session owning the log
+   * @param page Page to listen on
+   */
+  private async registerConsoleListeners(session: BrowserSession, page: Page): Promise<void> {
+    page.on('console', (msg) => {
+      const text = msg.text();
+
+      // "Unhandled Rejection In Promise" we injected
+      if (text.startsWith('[Playwright]')) {
+        session.consoleLog.push(`[exception] ${text.replace('[Playwright]', '')}`);
+      } else {
+        session.consoleLog.push(`[${msg.type()}] ${text}`);
+      }
+    });
+
+    // Uncaught exception
+    page.on('pageerror', (error) => {
+      session.consoleLog.push(`[exception] ${error.message}\n${error.stack || ''}`);
+    });
+
+    // Unhandled rejection in promise
+    await page.addInitScript(() => {
+      window.addEventListener('unhandledrejection', (event) => {
+        const reason = event.reason;
+        const message = typeof reason === 'object' && reason !== null
+          ? reason.message || JSON.stringify(reason)
+          : String(reason);
+
+        const stack = reason?.stack || '';
+        // Use console.error get "Unhandled Rejection In Promise"
+        console.error(`[Playwright][Unhandled Rejection In Promise] ${message}\n${stack}`);
+      });
+    });
+  }
+
+  /**
+   * Make another page (e.g. a newly opened tab) the current page of a session
+   * @param sessionId Session ID
+   * @param page The page to switch to
+   */
+  async setSessionPage(sessionId: string, page: Page): Promise<void> {
+    const session = this.sessions.get(sessionId);
+
+    if (!session) {
+      throw new Error(`Session '${sessionId}' not found`);
+    }
+
+    if (session.page !== page) {
+      session.page = page;
+      await this.registerConsoleListeners(session, page);
+    }
+
+    await page.bringToFront();
+    session.lastAccessedAt = new Date();
+  }
+
   /**
    * Get a browser session by ID
-   * @param sessionId Session ID. If not provided, uses default session
+   * @param sessionId Session ID. If not provided, uses the active session
    * @returns Browser session
    */
   getSession(sessionId?: string): BrowserSession | null {
-    const id = sessionId || this.defaultSessionId;
+    const id = sessionId || this.activeSessionId;
     const session = this.sessions.get(id);
 
     if (session) {
@@ -168,15 +293,36 @@ export class SessionManager {
    * Ensure a session exists, creating it if necessary
    * @param sessionId Optional session ID
    * @param settings Browser settings for new session
+   * @param admission Client identity and queue callbacks used if a browser has to be launched
    * @returns Browser session
    */
-  async ensureSession(sessionId?: string, settings?: BrowserSettings): Promise<BrowserSession> {
-    const id = sessionId || this.defaultSessionId;
+  async ensureSession(sessionId?: string, settings?: BrowserSettings, admission?: SessionAdmission): Promise<BrowserSession> {
+    const id = sessionId || this.activeSessionId;
+
+    // Concurrent calls for one session wait on the same launch instead of racing to create it
+    const pending = this.pendingSessions.get(id);
+    if (pending) {
+      return pending;
+    }
+
+    const ensuring = this.ensureSessionNow(id, settings, admission);
+    this.pendingSessions.set(id, ensuring);
+    try {
+      return await ensuring;
+    } finally {
+      this.pendingSessions.delete(id);
+    }
+  }
+
+  /**
+   * Body of ensureSession, run at most once at a time per session ID
+   */
+  private async ensureSessionNow(id: string, settings?: BrowserSettings, admission?: SessionAdmission): Promise<BrowserSession> {
     let session = this.getSession(id);
 
     if (!session) {
       // Create new session
-      await this.createSession(id, settings);
+      await this.createSession(id, settings, admission);
       session = this.getSession(id);
     }
 
@@ -187,8 +333,8 @@ export class SessionManager {
     // Verify browser is still connected
     if (!session.browser.isConnected()) {
       // Browser disconnected, remove and recreate
-      this.sessions.delete(id);
-      await this.createSession(id, settings);
+      this.removeSession(session);
+      await this.createSession(id, settings, admission);
       session = this.getSession(id);
     }
 
@@ -196,6 +342,12 @@ export class SessionManager {
       throw new Error(`Failed to recreate session ${id}`);
     }
 
+    // Recover from a closed page by opening a new one in the same browser
+    if (session.page.isClosed()) {
+      const context = session.browser.contexts()[0] || await session.browser.newContext();
+      await this.setSessionPage(id, await context.newPage());
+    }
+
     return session;
   }
 
@@ -210,6 +362,11 @@ export class SessionManager {
       throw new Error(`Session '${sessionId}' not found`);
     }
 
+    // Keep a last sample, so even short-lived sessions leave metrics behind
+    if (session.browser.isConnected()) {
+      await sessionMetrics.sampleSession(session).catch(() => {});
+    }
+
     try {
       // Close all pages
       const pages = session.browser.contexts().flatMap(ctx => ctx.pages());
@@ -220,11 +377,72 @@ export class SessionManager {
     } catch (error) {
       console.error(`Error closing session ${sessionId}:`, error);
     } finally {
-      this.sessions.delete(sessionId);
-      console.log(`Session ${sessionId} closed`);
+      // Usually already removed by the disconnected handler
+      this.removeSession(session);
+      if (this.activeSessionId === sessionId) {
+        this.activeSessionId = this.defaultSessionId;
+      }
+      console.error(`Session ${sessionId} closed`);
     }
   }
 
+  /**
+   * Forget a session and return its browser slot to the resource manager, once
+   * @param session Session to remove; ignored if it was already replaced or removed
+   */
+  private removeSession(session: BrowserSession): void {
+    if (this.sessions.get(session.id) !== session) {
+      return;
+    }
+    this.sessions.delete(session.id);
+    sessionMetrics.forget(session.id);
+    resourceManager.releaseSession(session.clientId).catch(() => {});
+  }
+
+  /**
+   * Mark a session as used by a tool call until the returned function is called;
+   * busy sessions are never evicted
+   * @param sessionId Session ID
+   * @returns Function that ends the use
+   */
+  markBusy(sessionId: string): () => void {
+    this.busySessions.set(sessionId, (this.busySessions.get(sessionId) ?? 0) + 1);
+    let done = false;
+    return () => {
+      if (done) {
+        return;
+      }
+      done = true;
+      const count = (this.busySessions.get(sessionId) ?? 1) - 1;
+      if (count > 0) {
+        this.busySessions.set(sessionId, count);
+      } else {
+        this.busySessions.delete(sessionId);
+      }
+    };
+  }
+
+  /**
+   * Close idle sessions, least recently used first, to free resources
+   * @param minIdleMs Only sessions unused for at least this long
+   * @param maxCount Maximum number of sessions to close
+   * @returns Number of sessions closed
+   */
+  async evictIdleSessions(minIdleMs: number, maxCount: number): Promise<number> {
+    const now = Date.now();
+    const candidates = Array.from(this.sessions.values())
+      .filter(session => !this.busySessions.has(session.id) && now - session.lastAccessedAt.getTime() >= minIdleMs)
+      .sort((a, b) => a.lastAccessedAt.getTime() - b.lastAccessedAt.getTime())
+      .slice(0, maxCount);
+
+    for (const session of candidates) {
+      console.error(`Evicting idle session ${session.id} (idle ${Math.round((now - session.lastAccessedAt.getTime()) / 1000)}s)`);
+      await this.closeSession(session.id).catch(() => {});
+    }
+
+    return candidates.length;
+  }
+
   /**
    * Close all browser sessions
    */
@@ -270,6 +488,33 @@ export class SessionManager {
     return this.defaultSessionId;
   }
 
+  /**
+   * Get the ID of the session used when a tool call does not name one
+   * @returns Active session ID
+   */
+  getActiveSessionId(): string {
+    return this.activeSessionId;
+  }
+
+  /**
+   * Set the session used when a tool call does not name one
+   * @param sessionId Session ID
+   */
+  setActiveSession(sessionId: string): void {
+    if (!this.sessions.has(sessionId)) {
+      throw new Error(`Session '${sessionId}' not found`);
+    }
+    this.activeSessionId = sessionId;
+  }
+
+  /**
+   * Get all active browser sessions
+   * @returns Array of browser sessions
+   */
+  getAllSessions(): BrowserSession[] {
+    return Array.from(this.sessions.values());
+  }
+
   /**
    * Get total number of active sessions
    * @returns Number of sessions
@@ -296,7 +541,7 @@ export class SessionManager {
     }
 
     if (cleanedCount > 0) {
-      console.log(`Cleaned up ${cleanedCount} idle sessions`);
+      console.error(`Cleaned up ${cleanedCount} idle sessions`);
     }
 
     return cleanedCount;
@@ -357,19 +602,20 @@ export class SessionManager {
   /**
    * Recover a session from disk
    * @param sessionId Session ID to recover
+   * @param admission Client identity and queue callbacks for the resource manager
    * @returns Session ID if successful
    */
-  async recoverSession(sessionId: string): Promise<string | null> {
+  async recoverSession(sessionId: string, admission?: SessionAdmission): Promise<string | null> {
     try {
       const persistedData = await sessionPersistence.loadSession(sessionId);
 
       if (!persistedData) {
-        console.log(`No persisted data found for session ${sessionId}`);
+        console.error(`No persisted data found for session ${sessionId}`);
         return null;
       }
 
       // Create new session with persisted settings
-      const newSessionId = await this.createSession(sessionId, persistedData.settings);
+      const newSessionId = await this.createSession(sessionId, persistedData.settings, admission);
       const session = this.getSession(newSessionId);
 
       if (!session) {
@@ -402,7 +648,7 @@ export class SessionManager {
         }, { local: persistedData.localStorage, session: persistedData.sessionStorage });
       }
 
-      console.log(`Session ${sessionId} recovered successfully`);
+      console.error(`Session ${sessionId} recovered successfully`);
       return sessionId;
     } catch (error) {
       console.error(`Failed to recover session ${sessionId}:`, error);
@@ -414,14 +660,14 @@ export class SessionManager {
    * Recover all persisted sessions
    * @returns Array of recovered session IDs and failed sessions
    */
-  async recoverAllSessions(): Promise<{ recovered: string[]; failed: Array<{ id: string; error: string }> }> {
+  async recoverAllSessions(admission?: SessionAdmission): Promise<{ recovered: string[]; failed: Array<{ id: string; error: string }> }> {
     const persistedSessions = await sessionPersistence.loadAllSessions();
     const recovered: string[] = [];
     const failed: Array<{ id: string; error: string }> = [];
 
     for (const persistedData of persistedSessions) {
       try {
-        const sessionId = await this.recoverSession(persistedData.id);
+        const sessionId = await this.recoverSession(persistedData.id, admission);
         if (sessionId) {
           recovered.push(sessionId);
         } else {
@@ -432,7 +678,7 @@ export class SessionManager {
       }
     }
 
-    console.log(`Recovery complete: ${recovered.length} recovered, ${failed.length} failed`);
+    console.error(`Recovery complete: ${recovered.length} recovered, ${failed.length} failed`);
     return { recovered, failed };
   }
 
@@ -0,0 +1,399 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+/**
+ * Tool Registry - Maps every advertised tool name to the ToolHandler that implements it
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { Tool as CodegenTool } from './types.js';
+import {
+  ToolHandler,
+  ToolContext,
+  ToolResponse,
+  createSuccessResponse,
+  createErrorResponse
+} from './tools/common/types.js';
+import {
+  startCodegenSession,
+  endCodegenSession,
+  getCodegenSession,
+  clearCodegenSession,
+  importSpecFile
+} from './tools/codegen/index.js';
+import { ReplayCodegenSessionTool } from './tools/codegen/replay.js';
+import {
+  ScreenshotTool,
+  NavigationTool,
+  CloseBrowserTool,
+  GoBackTool,
+  GoForwardTool,
+  ConsoleLogsTool,
+  ClickTool,
+  ClickAndSwitchTabTool,
+  IframeClickTool,
+  IframeFillTool,
+  FillTool,
+  SelectTool,
+  HoverTool,
+  UploadFileTool,
+  EvaluateTool,
+  DragTool,
+  PressKeyTool,
+  ExpectResponseTool,
+  AssertResponseTool,
+  CustomUserAgentTool,
+  VisibleTextTool,
+  VisibleHtmlTool,
+  SaveAsPdfTool,
+  DownloadFileTool,
+  CopyToClipboardTool,
+  ReadClipboardTool,
+  HandleDialogTool,
+  ExpectDialogTool,
+  DragToPositionTool,
+  GetElementPositionTool,
+  VisualCompareTool,
+  CreateBaselineTool,
+  BatchVisualCompareTool,
+  RunAcrossBrowsersTool,
+  CrossBrowserScreenshotTool,
+  EmulateDeviceTool,
+  ListDevicesTool,
+  CollectLocatorsTool,
+  SelfHealingTool,
+  ExtractPdfTextTool,
+  ValidatePdfContentTool,
+  CountPdfPagesTool,
+  DownloadAndExtractPdfTool,
+  AssertElementStateTool,
+  AssertElementCountTool,
+  AssertTextContentTool,
+  AssertAttributeTool,
+  AssertCssPropertyTool,
+  AssertRequestMadeTool,
+  StartVideoRecordingTool,
+  StopVideoRecordingTool,
+  AddVideoAnnotationTool,
+  ConfigureVideoSettingsTool,
+  GetVideoStatusTool,
+  SmartWaitTool,
+  WaitForNetworkIdleTool,
+  WaitForElementCountTool,
+  WaitForAttributeTool,
+  WaitForElementHiddenTool,
+  WaitForUrlTool,
+  CheckAccessibilityTool,
+  GetAriaSnapshotTool,
+  CheckContrastTool,
+  CheckKeyboardNavigationTool,
+  StartCoverageTool,
+  GetCoverageTool,
+  GenerateCoverageReportTool,
+  CompareCoverageTool,
+  MergeCoverageTool,
+  CheckCoverageThresholdsTool,
+  CoverageTrendTool,
+  FindUnusedCodeTool,
+  AIVisualCompareTool,
+  BatchAIVisualCompareTool,
+  TrainVisualModelTool,
+  MockRouteTool,
+  AbortRouteTool,
+  ModifyRouteTool,
+  RouteFromHarTool,
+  ListRoutesTool,
+  RemoveRouteTool
+} from './tools/browser/index.js';
+import {
+  GetRequestTool,
+  PostRequestTool,
+  PutRequestTool,
+  PatchRequestTool,
+  DeleteRequestTool,
+  AssertApiResponseTool,
+  CreateApiContextTool,
+  ListApiContextsTool,
+  CloseApiContextTool
+} from './tools/api/index.js';
+import {
+  CreateSessionTool,
+  ListSessionsTool,
+  CloseSessionTool,
+  SwitchSessionTool,
+  GetSessionInfoTool,
+  CleanupIdleSessionsTool,
+  RecoverSessionTool,
+  RecoverAllSessionsTool,
+  GetPersistenceStatsTool
+} from './tools/session/index.js';
+import { GetResourceUsageTool, UpdateResourceLimitsTool } from './tools/resource/index.js';
+import {
+  ListBaselinesTool,
+  ApproveBaselineTool,
+  RejectBaselineTool,
+  PruneBaselinesTool,
+  GenerateVisualReportTool,
+  ApplyVisualApprovalsTool
+} from './tools/baseline/index.js';
+import { ParallelTestExecutor, CrossBrowserTestExecutor, ListFlakyTestsTool } from './tools/parallel/executor.js';
+
+/**
+ * Creates the handler for a tool, bound to the MCP server
+ */
+export type ToolFactory = (server: any) => ToolHandler;
+
+/**
+ * Adapts a codegen tool (plain handler function) to the ToolHandler interface
+ */
+class CodegenToolHandler implements ToolHandler {
+  constructor(private tool: CodegenTool) {}
+
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    try {
+      const result = await this.tool.handler(args);
+      return createSuccessResponse(JSON.stringify(result), result);
+    } catch (error) {
+      return createErrorResponse(error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
+const TOOL_FACTORIES: Record<string, ToolFactory> = {
+  // Codegen tools
+  start_codegen_session: () => new CodegenToolHandler(startCodegenSession),
+  end_codegen_session: () => new CodegenToolHandler(endCodegenSession),
+  get_codegen_session: () => new CodegenToolHandler(getCodegenSession),
+  clear_codegen_session: () => new CodegenToolHandler(clearCodegenSession),
+  replay_codegen_session: () => new ReplayCodegenSessionTool(),
+  import_spec_file: () => new CodegenToolHandler(importSpecFile),
+
+  // Browser tools
+  playwright_navigate: (server) => new NavigationTool(server),
+  playwright_screenshot: (server) => new ScreenshotTool(server),
+  playwright_click: (server) => new ClickTool(server),
+  playwright_iframe_click: (server) => new IframeClickTool(server),
+  playwright_iframe_fill: (server) => new IframeFillTool(server),
+  playwright_fill: (server) => new FillTool(server),
+  playwright_select: (server) => new SelectTool(server),
+  playwright_hover: (server) => new HoverTool(server),
+  playwright_upload_file: (server) => new UploadFileTool(server),
+  playwright_evaluate: (server) => new EvaluateTool(server),
+  playwright_console_logs: (server) => new ConsoleLogsTool(server),
+  playwright_close: (server) => new CloseBrowserTool(server),
+  playwright_expect_response: (server) => new ExpectResponseTool(server),
+  playwright_assert_response: (server) => new AssertResponseTool(server),
+  playwright_custom_user_agent: (server) => new CustomUserAgentTool(server),
+  playwright_get_visible_text: (server) => new VisibleTextTool(server),
+  playwright_get_visible_html: (server) => new VisibleHtmlTool(server),
+  playwright_go_back: (server) => new GoBackTool(server),
+  playwright_go_forward: (server) => new GoForwardTool(server),
+  playwright_drag: (server) => new DragTool(server),
+  playwright_press_key: (server) => new PressKeyTool(server),
+  playwright_save_as_pdf: (server) => new SaveAsPdfTool(server),
+  playwright_click_and_switch_tab: (server) => new ClickAndSwitchTabTool(server),
+
+  // API tools
+  playwright_get: (server) => new GetRequestTool(server),
+  playwright_post: (server) => new PostRequestTool(server),
+  playwright_put: (server) => new PutRequestTool(server),
+  playwright_patch: (server) => new PatchRequestTool(server),
+  playwright_delete: (server) => new DeleteRequestTool(server),
+  playwright_assert_api_response: (server) => new AssertApiResponseTool(server),
+
+  // API context tools
+  playwright_api_create_context: () => new CreateApiContextTool(),
+  playwright_api_list_contexts: () => new ListApiContextsTool(),
+  playwright_api_close_context: () => new CloseApiContextTool(),
+
+  // Advanced interaction tools
+  playwright_download_file: (server) => new DownloadFileTool(server),
+  playwright_copy_to_clipboard: (server) => new CopyToClipboardTool(server),
+  playwright_read_clipboard: (server) => new ReadClipboardTool(server),
+  playwright_handle_dialog: (server) => new HandleDialogTool(server),
+  playwright_expect_dialog: (server) => new ExpectDialogTool(server),
+  playwright_drag_to_position: (server) => new DragToPositionTool(server),
+  playwright_get_element_position: (server) => new GetElementPositionTool(server),
+
+  // Visual testing tools
+  playwright_visual_compare: (server) => new VisualCompareTool(server),
+  playwright_create_baseline: (server) => new CreateBaselineTool(server),
+  playwright_batch_visual_compare: (server) => new BatchVisualCompareTool(server),
+
+  // Cross-browser tools
+  playwright_run_across_browsers: (server) => new RunAcrossBrowsersTool(server),
+  playwright_cross_browser_screenshot: (server) => new CrossBrowserScreenshotTool(server),
+  playwright_emulate_device: (server) => new EmulateDeviceTool(server),
+  playwright_list_devices: (server) => new ListDevicesTool(server),
+
+  // Locator collector tool
+  playwright_collect_locators: (server) => new CollectLocatorsTool(server),
+  playwright_self_healing: () => new SelfHealingTool(),
+
+  // Session management tools
+  create_browser_session: () => new CreateSessionTool(),
+  list_browser_sessions: () => new ListSessionsTool(),
+  close_browser_session: () => new CloseSessionTool(),
+  switch_browser_session: () => new SwitchSessionTool(),
+  get_session_info: () => new GetSessionInfoTool(),
+  cleanup_idle_sessions: () => new CleanupIdleSessionsTool(),
+
+  // Smart waiting tools
+  playwright_wait_smart: (server) => new SmartWaitTool(server),
+  playwright_wait_network_idle: (server) => new WaitForNetworkIdleTool(server),
+  playwright_wait_element_count: (server) => new WaitForElementCountTool(server),
+  playwright_wait_attribute: (server) => new WaitForAttributeTool(server),
+  playwright_wait_element_hidden: (server) => new WaitForElementHiddenTool(server),
+  playwright_wait_url: (server) => new WaitForUrlTool(server),
+
+  // Accessibility tools
+  playwright_check_accessibility: (server) => new CheckAccessibilityTool(server),
+  playwright_get_aria_snapshot: (server) => new GetAriaSnapshotTool(server),
+  playwright_check_contrast: (server) => new CheckContrastTool(server),
+  playwright_check_keyboard_navigation: (server) => new CheckKeyboardNavigationTool(server),
+
+  // Coverage tools
+  playwright_start_coverage: (server) => new StartCoverageTool(server),
+  playwright_get_coverage: (server) => new GetCoverageTool(server),
+  playwright_generate_coverage_report: (server) => new GenerateCoverageReportTool(server),
+  playwright_compare_coverage: (server) => new CompareCoverageTool(server),
+  playwright_merge_coverage: () => new MergeCoverageTool(),
+  playwright_check_coverage_thresholds: () => new CheckCoverageThresholdsTool(),
+  playwright_coverage_trend: () => new CoverageTrendTool(),
+  playwright_find_unused_code: () => new FindUnusedCodeTool(),
+
+  // Parallel execution tools
+  playwright_run_tests_parallel: () => new ParallelTestExecutor(),
+  playwright_run_cross_browser: () => new CrossBrowserTestExecutor(),
+  playwright_list_flaky_tests: () => new ListFlakyTestsTool(),
+
+  // Visual AI tools
+  playwright_ai_visual_compare: (server) => new AIVisualCompareTool(server),
+  playwright_batch_ai_visual_compare: (server) => new BatchAIVisualCompareTool(server),
+  playwright_train_visual_model: (server) => new TrainVisualModelTool(server),
+
+  // Baseline management tools
+  playwright_list_baselines: () => new ListBaselinesTool(),
+  playwright_approve_baseline: () => new ApproveBaselineTool(),
+  playwright_reject_baseline: () => new RejectBaselineTool(),
+  playwright_prune_baselines: () => new PruneBaselinesTool(),
+  playwright_generate_visual_report: () => new GenerateVisualReportTool(),
+  playwright_apply_visual_approvals: () => new ApplyVisualApprovalsTool(),
+
+  // Resource management tools
+  playwright_get_resource_usage: () => new GetResourceUsageTool(),
+  playwright_update_resource_limits: () => new UpdateResourceLimitsTool(),
+
+  // Session persistence tools
+  playwright_recover_session: () => new RecoverSessionTool(),
+  playwright_recover_all_sessions: () => new RecoverAllSessionsTool(),
+  playwright_get_persistence_stats: () => new GetPersistenceStatsTool(),
+
+  // PDF testing tools
+  playwright_extract_pdf_text: (server) => new ExtractPdfTextTool(server),
+  playwright_validate_pdf_content: (server) => new ValidatePdfContentTool(server),
+  playwright_count_pdf_pages: (server) => new CountPdfPagesTool(server),
+  playwright_download_and_extract_pdf: (server) => new DownloadAndExtractPdfTool(server),
+
+  // Assertion tools
+  playwright_assert_element_state: (server) => new AssertElementStateTool(server),
+  playwright_assert_element_count: (server) => new AssertElementCountTool(server),
+  playwright_assert_text_content: (server) => new AssertTextContentTool(server),
+  playwright_assert_attribute: (server) => new AssertAttributeTool(server),
+  playwright_assert_css_property: (server) => new AssertCssPropertyTool(server),
+  playwright_assert_request_made: (server) => new AssertRequestMadeTool(server),
+
+  // Video recording tools
+  playwright_start_video_recording: (server) => new StartVideoRecordingTool(server),
+  playwright_stop_video_recording: (server) => new StopVideoRecordingTool(server),
+  playwright_add_video_annotation: (server) => new AddVideoAnnotationTool(server),
+  playwright_configure_video_settings: (server) => new ConfigureVideoSettingsTool(server),
+  playwright_get_video_status: (server) => new GetVideoStatusTool(server),
+
+  // Network mocking tools
+  playwright_mock_route: (server) => new MockRouteTool(server),
+  playwright_abort_route: (server) => new AbortRouteTool(server),
+  playwright_modify_route: (server) => new ModifyRouteTool(server),
+  playwright_route_from_har: (server) => new RouteFromHarTool(server),
+  playwright_list_routes: (server) => new ListRoutesTool(server),
+  playwright_remove_route: (server) => new RemoveRouteTool(server),
+};
+
+/**
+ * Instantiates each tool's handler on first use and caches it per MCP server, since
+ * handlers keep the server they were created with and every HTTP client has its own
+ */
+export class ToolRegistry {
+  private handlersByServer = new WeakMap<object, Map<string, ToolHandler>>();
+  private serverlessHandlers = new Map<string, ToolHandler>();
+
+  constructor(private factories: Record<string, ToolFactory>) {}
+
+  /**
+   * Check whether a handler is registered for a tool
+   * @param name Tool name
+   */
+  has(name: string): boolean {
+    return Object.prototype.hasOwnProperty.call(this.factories, name);
+  }
+
+  /**
+   * Get the handler for a tool, bound to the given server
+   * @param name Tool name
+   * @param server MCP server passed to the handler constructor
+   * @returns The handler, or undefined if the tool is not registered
+   */
+  getHandler<T extends ToolHandler = ToolHandler>(name: string, server?: any): T | undefined {
+    if (!this.has(name)) {
+      return undefined;
+    }
+
+    const handlers = this.handlersFor(server);
+    let handler = handlers.get(name);
+    if (!handler) {
+      handler = this.factories[name](server);
+      handlers.set(name, handler);
+    }
+    return handler as T;
+  }
+
+  /**
+   * Names of all registered tools
+   */
+  getToolNames(): string[] {
+    return Object.keys(this.factories);
+  }
+
+  /**
+   * Ensure every advertised tool definition has a registered handler
+   * @param definitions Tool definitions advertised to clients
+   * @throws Error listing the tools without a handler
+   */
+  validate(definitions: ReadonlyArray<Tool>): void {
+    const missing = definitions
+      .map(definition => definition.name)
+      .filter(name => !this.has(name));
+
+    if (missing.length > 0) {
+      throw new Error(`No handler registered for tool(s): ${missing.join(', ')}`);
+    }
+  }
+
+  private handlersFor(server: any): Map<string, ToolHandler> {
+    if (typeof server !== 'object' || server === null) {
+      return this.serverlessHandlers;
+    }
+
+    let handlers = this.handlersByServer.get(server);
+    if (!handlers) {
+      handlers = new Map();
+      this.handlersByServer.set(server, handlers);
+    }
+    return handlers;
+  }
+}
+
+// Export singleton instance
+export const toolRegistry = new ToolRegistry(TOOL_FACTORIES);
@@ -5,8 +5,461 @@
 
 import type { Tool } from "@modelcontextprotocol/sdk/types.js";
 
+type OutputSchema = NonNullable<Tool["outputSchema"]>;
+
+// Request matching options shared by the route tools
+
+const ROUTE_MATCH_PROPERTIES = {
+  url: { type: "string", description: "URL glob pattern to intercept, e.g. **/api/users*" },
+  regex: { type: "boolean", description: "Treat url as a regular expression (default: false)" },
+  method: { type: "string", description: "Only intercept requests with this HTTP method" },
+  times: { type: "number", description: "Only intercept this many requests (default: unlimited)" },
+  id: { type: "string", description: "Route ID used to remove it later (default: auto-generated)" }
+} as const;
+
+// Report files written by the parallel and cross-browser test runners
+
+const TEST_REPORTERS_PROPERTY = {
+  type: "object",
+  description: "Reports to write after the run, each to its own path, e.g. { junit: 'results/junit.xml', markdown: 'results/summary.md' }",
+  properties: {
+    junit: { type: "string", description: "JUnit XML path: a testsuite per browser, a testcase per scenario with failure messages and screenshot/trace attachments" },
+    tap: { type: "string", description: "TAP version 13 path" },
+    json: { type: "string", description: "JSON path with every result, step and artifact" },
+    markdown: { type: "string", description: "Markdown summary path, e.g. for a CI job summary" }
+  }
+} as const;
+
+// Opt-in self-healing for tools acting on a selector
+
+const SELF_HEAL_PROPERTY = {
+  type: "boolean",
+  description: "Heal the selector if it no longer matches: act on the element that best matches what it matched last time (default: global self-healing mode, see playwright_self_healing)"
+} as const;
+
+// Output schemas for tools that return structuredContent alongside their text output
+
+const API_RESPONSE_OUTPUT_SCHEMA: OutputSchema = {
+  type: "object",
+  properties: {
+    method: { type: "string" },
+    url: { type: "string" },
+    status: { type: "integer" },
+    statusText: { type: "string" },
+    ok: { type: "boolean", description: "True for 2xx statuses" },
+    headers: { type: "object", additionalProperties: { type: "string" } },
+    body: { description: "Parsed JSON body, or the raw text when the response is not JSON" },
+    truncated: { type: "boolean", description: "Set when the body was too large and is returned as truncated text" }
+  },
+  required: ["method", "url", "status", "statusText", "ok", "headers", "body"]
+};
+
+// Request options shared by the API tools
+
+const API_REQUEST_PROPERTIES = {
+  context: { type: "string", description: "Named API context created with playwright_api_create_context (default: 'default')" },
+  headers: {
+    type: "object",
+    description: "Additional headers to include in the request",
+    additionalProperties: { type: "string" }
+  },
+  params: {
+    type: "object",
+    description: "Query parameters appended to the URL",
+    additionalProperties: { type: ["string", "number", "boolean"] }
+  },
+  token: { type: "string", description: "Bearer token for authorization, overriding the context's auth" },
+  timeout: { type: "number", description: "Request timeout in milliseconds (default: the context's timeout)" }
+} as const;
+
+const API_BODY_PROPERTIES = {
+  form: {
+    type: "object",
+    description: "URL-encoded form body (instead of value)",
+    additionalProperties: { type: ["string", "number", "boolean"] }
+  },
+  multipart: {
+    type: "object",
+    description: "Multipart form body (instead of value). Use { \"filePath\": \"...\" } to upload a file",
+    additionalProperties: {
+      oneOf: [
+        { type: ["string", "number", "boolean"] },
+        { type: "object", properties: { filePath: { type: "string" } }, required: ["filePath"] }
+      ]
+    }
+  }
+} as const;
+
+const API_ASSERTION_OUTPUT_SCHEMA: OutputSchema = {
+  type: "object",
+  properties: {
+    passed: { type: "boolean" },
+    assertion: { type: "string" },
+    method: { type: "string" },
+    url: { type: "string" },
+    status: { type: "integer" },
+    checks: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          check: { type: "string", enum: ["status", "header", "jsonPath", "jsonSchema"] },
+          target: { type: "string", description: "Header name or JSONPath expression" },
+          passed: { type: "boolean" },
+          expected: {},
+          actual: {},
+          message: { type: "string" }
+        },
+        required: ["check", "passed", "expected", "actual"]
+      }
+    }
+  },
+  required: ["passed", "assertion", "method", "url", "status", "checks"]
+};
+
+const ASSERTION_OUTPUT_SCHEMA: OutputSchema = {
+  type: "object",
+  properties: {
+    passed: { type: "boolean" },
+    assertion: { type: "string", description: "Kind of assertion, e.g. element_state, text_content, response" },
+    expected: { description: "Expected value" },
+    actual: { description: "Actual value found (null when nothing was found)" },
+    verified: { type: "boolean", description: "False when the assertion could not actually be checked" }
+  },
+  required: ["passed", "assertion", "expected", "actual"]
+};
+
+const VISUAL_COMPARE_OUTPUT_SCHEMA: OutputSchema = {
+  type: "object",
+  properties: {
+    passed: { type: "boolean" },
+    baseline: { type: "string" },
+    current: { type: "string" },
+    mode: { type: "string", description: "Comparison mode used" },
+    score: { type: "number", description: "Similarity score of the mode (0-1, higher is more similar)" },
+    diffPixels: { type: "integer" },
+    totalPixels: { type: "integer" },
+    diffPercentage: { type: "number" },
+    threshold: { type: "number", description: "Maximum allowed difference in percent" },
+    diffImage: { type: "string", description: "Path of the saved diff image" },
+    baselineCreated: { type: "boolean", description: "Set when no baseline existed and the current screenshot became the baseline" },
+    key: { type: "string", description: "Baseline store key (testName comparisons)" },
+    version: { type: "integer", description: "Baseline version compared against" },
+    pending: { type: "boolean", description: "Set when the failed comparison awaits approval or rejection" },
+    components: {
+      type: "array",
+      description: "Per-element results when several regions were compared",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          selector: { type: "string" },
+          passed: { type: "boolean" },
+          baseline: { type: "string" },
+          score: { type: "number" },
+          diffPercentage: { type: "number" },
+          diffImage: { type: "string" },
+          error: { type: "string" }
+        },
+        required: ["name", "passed"]
+      }
+    }
+  },
+  required: ["passed"]
+};
+
+const BATCH_VISUAL_COMPARE_OUTPUT_SCHEMA: OutputSchema = {
+  type: "object",
+  properties: {
+    passed: { type: "boolean" },
+    total: { type: "integer" },
+    passedCount: { type: "integer" },
+    failedCount: { type: "integer" },
+    report: { type: "string", description: "Path of the HTML report, when reportPath was given" },
+    comparisons: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          passed: { type: "boolean" },
+          mode: { type: "string" },
+          score: { type: "number" },
+          diffPercentage: { type: "number" },
+          diffImage: { type: "string" },
+          error: { type: "string" }
+        },
+        required: ["name", "passed"]
+      }
+    }
+  },
+  required: ["passed", "total", "passedCount", "failedCount", "comparisons"]
+};
+
+const CROSS_BROWSER_SCREENSHOT_OUTPUT_SCHEMA: OutputSchema = {
+  type: "object",
+  properties: {
+    passed: { type: "boolean", description: "All captures succeeded and all pairwise comparisons passed" },
+    screenshots: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { browser: { type: "string" }, success: { type: "boolean" }, path: { type: "string" } },
+        required: ["browser", "success"]
+      }
+    },
+    comparisons: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          browsers: { type: "array", items: { type: "string" } },
+          passed: { type: "boolean" },
+          diffPercentage: { type: "number" },
+          threshold: { type: "number" },
+          diffImage: { type: "string" },
+          error: { type: "string" }
+        },
+        required: ["browsers", "passed"]
+      }
+    }
+  },
+  required: ["passed", "screenshots", "comparisons"]
+};
+
+const ACCESSIBILITY_OUTPUT_SCHEMA: OutputSchema = {
+  type: "object",
+  properties: {
+    url: { type: "string" },
+    level: { type: "string" },
+    summary: {
+      type: "object",
+      properties: {
+        total: { type: "integer" },
+        passed: { type: "integer" },
+        violations: { type: "integer" },
+        incomplete: { type: "integer" }
+      },
+      required: ["total", "passed", "violations", "incomplete"]
+    },
+    violations: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          impact: { type: ["string", "null"] },
+          description: { type: "string" },
+          help: { type: "string" },
+          helpUrl: { type: "string" },
+          nodes: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                target: { type: "array", items: { type: "string" } },
+                html: { type: "string" },
+                failureSummary: { type: "string" }
+              }
+            }
+          }
+        },
+        required: ["id", "description", "nodes"]
+      }
+    },
+    incomplete: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { id: { type: "string" }, description: { type: "string" } }
+      }
+    }
+  },
+  required: ["url", "summary", "violations"]
+};
+
+// Shared by tools whose result is their message; tools acting on a selector add the healing event when the selector was self-healed
+
+const HEALING_EVENT_SCHEMA = {
+  type: "object",
+  description: "Set when the selector no longer matched and was self-healed",
+  properties: {
+    timestamp: { type: "string" },
+    tool: { type: "string" },
+    sessionId: { type: "string" },
+    url: { type: "string" },
+    originalSelector: { type: "string" },
+    healedSelector: { type: "string" },
+    confidence: { type: "number" },
+    matchedOn: { type: "array", items: { type: "string" } },
+    locatorCode: { type: "string", description: "Replacement for page objects" }
+  },
+  required: ["timestamp", "tool", "url", "originalSelector", "healedSelector", "confidence", "matchedOn", "locatorCode"]
+} as const;
+
+const MESSAGE_OUTPUT_SCHEMA: OutputSchema = {
+  type: "object",
+  properties: {
+    message: { type: "string", description: "Text result, the same as the text content" },
+    healing: HEALING_EVENT_SCHEMA
+  },
+  required: ["message"]
+};
+
+const WAIT_CONDITION_RESULT_SCHEMA = {
+  type: "object",
+  properties: {
+    label: { type: "string" },
+    met: { type: "boolean" },
+    elapsedMs: { type: "integer", description: "Time until the condition was met" },
+    detail: { type: "string", description: "What was observed at the last check, e.g. the actual count or URL" },
+    children: { type: "array", items: { type: "object" }, description: "Results of the conditions of an all/any condition" }
+  },
+  required: ["label", "met"]
+} as const;
+
+const WAIT_OUTPUT_SCHEMA: OutputSchema = {
+  type: "object",
+  properties: {
+    met: { type: "boolean" },
+    elapsedMs: { type: "integer" },
+    timeout: { type: "integer" },
+    conditions: WAIT_CONDITION_RESULT_SCHEMA,
+    unmet: { type: "array", items: { type: "string" }, description: "Labels of the conditions not met" }
+  },
+  required: ["met", "elapsedMs", "timeout", "conditions", "unmet"]
+};
+
+const ROUTE_INFO_SCHEMA = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    type: { type: "string", enum: ["mock", "abort", "modify", "har"] },
+    url: { type: "string" },
+    method: { type: "string" },
+    description: { type: "string" },
+    hits: { type: "integer" },
+    times: { type: "integer" },
+    exhausted: { type: "boolean" }
+  },
+  required: ["id", "type", "url", "description", "hits"]
+} as const;
+
+const ROUTE_OUTPUT_SCHEMA: OutputSchema = {
+  type: "object",
+  properties: { route: ROUTE_INFO_SCHEMA },
+  required: ["route"]
+};
+
+const VIDEO_STATUS_OUTPUT_SCHEMA: OutputSchema = {
+  type: "object",
+  properties: {
+    recording: { type: "boolean" },
+    path: { type: "string", description: "Video file, while recording or once saved" },
+    durationSeconds: { type: "number" },
+    annotations: { type: "integer" },
+    saved: { type: "boolean" },
+    annotationsPath: { type: "string" },
+    settings: { type: "object" }
+  },
+  required: ["recording"]
+};
+
+const COVERAGE_TOTALS_SCHEMA = {
+  type: "object",
+  properties: {
+    lines: { type: "object", properties: { total: { type: "integer" }, covered: { type: "integer" }, pct: { type: "number" } } },
+    functions: { type: "object", properties: { total: { type: "integer" }, covered: { type: "integer" }, pct: { type: "number" } } },
+    branches: { type: "object", properties: { total: { type: "integer" }, covered: { type: "integer" }, pct: { type: "number" } } }
+  },
+  required: ["lines", "functions", "branches"]
+} as const;
+
+const COVERAGE_USAGE_SCHEMA = {
+  type: "object",
+  properties: {
+    files: { type: "integer" },
+    totalBytes: { type: "integer" },
+    usedBytes: { type: "integer" },
+    percentUsed: { type: "number" }
+  }
+} as const;
+
+const TEST_RUN_OUTPUT_SCHEMA: OutputSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean", description: "False when a scenario failed or timed out outside quarantine" },
+    total: { type: "integer" },
+    passed: { type: "integer" },
+    failed: { type: "integer" },
+    skipped: { type: "integer" },
+    timeout: { type: "integer" },
+    flaky: { type: "integer" },
+    quarantined: { type: "integer" },
+    duration: { type: "integer" },
+    results: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          browserType: { type: "string" },
+          status: { type: "string", enum: ["passed", "failed", "skipped", "timeout", "flaky"] },
+          duration: { type: "integer" },
+          error: { type: "string" },
+          attempts: { type: "integer" },
+          attemptErrors: { type: "array", items: { type: "string" } },
+          quarantined: { type: "boolean" },
+          flakeRate: { type: "number" },
+          screenshot: { type: "string" },
+          trace: { type: "string" },
+          steps: { type: "array", items: { type: "object" } }
+        },
+        required: ["name", "status", "duration"]
+      }
+    },
+    newlyQuarantined: { type: "array", items: { type: "string" } },
+    reports: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { format: { type: "string" }, path: { type: "string" }, error: { type: "string" } },
+        required: ["format", "path"]
+      }
+    }
+  },
+  required: ["success", "total", "passed", "failed", "skipped", "timeout", "flaky", "duration", "results"]
+};
+
+const SESSION_OUTPUT_SCHEMA: OutputSchema = {
+  type: "object",
+  properties: {
+    sessionId: { type: "string" },
+    browserType: { type: "string" },
+    url: { type: "string" }
+  },
+  required: ["sessionId"]
+};
+
+const SESSION_METRICS_SAMPLE_SCHEMA = {
+  type: "object",
+  properties: {
+    timestamp: { type: "string" },
+    url: { type: "string" },
+    rssMB: { type: "number" },
+    processes: { type: "integer" },
+    cpuPercent: { type: "number" },
+    jsHeapUsedMB: { type: "number" },
+    jsHeapTotalMB: { type: "number" },
+    domNodes: { type: "integer" },
+    documents: { type: "integer" },
+    eventListeners: { type: "integer" }
+  },
+  required: ["timestamp", "url"]
+} as const;
+
 export function createToolDefinitions() {
-  return [
+  const definitions = [
     // Codegen tools
     {
       name: "start_codegen_session",
@@ -32,8 +485,8 @@ export function createToolDefinitions() {
               },
               language: {
                 type: "string",
-                description: "Programming language for generated tests (default: 'typescript')",
-                enum: ["typescript", "javascript"]
+                description: "Programming language for generated tests: TypeScript/JavaScript (@playwright/test), Python (pytest-playwright) or Java (JUnit 5) (default: 'typescript')",
+                enum: ["typescript", "javascript", "python", "java"]
               },
               template: {
                 type: "string",
@@ -45,6 +498,15 @@ export function createToolDefinitions() {
           }
         },
         required: ["options"]
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          sessionId: { type: "string" },
+          options: { type: "object" },
+          message: { type: "string" }
+        },
+        required: ["sessionId", "options", "message"]
       }
     },
     {
@@ -59,6 +521,17 @@ export function createToolDefinitions() {
           }
         },
         required: ["sessionId"]
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          filePath: { type: "string" },
+          outputDirectory: { type: "string" },
+          testCode: { type: "string" },
+          skippedSteps: { type: "array", items: { type: "string" }, description: "Recorded tools with no equivalent in the target language" },
+          message: { type: "string" }
+        },
+        required: ["filePath", "outputDirectory", "testCode", "message"]
       }
     },
     {
@@ -73,6 +546,24 @@ export function createToolDefinitions() {
           }
         },
         required: ["sessionId"]
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          actions: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: { toolName: { type: "string" }, parameters: { type: "object" }, timestamp: { type: "number" } },
+              required: ["toolName", "parameters", "timestamp"]
+            }
+          },
+          startTime: { type: "number" },
+          endTime: { type: "number" },
+          options: { type: "object" }
+        },
+        required: ["id", "actions", "startTime"]
       }
     },
     {
@@ -87,6 +578,141 @@ export function createToolDefinitions() {
           }
         },
         required: ["sessionId"]
+      },
+      outputSchema: {
+        type: "object",
+        properties: { success: { type: "boolean" } },
+        required: ["success"]
+      }
+    },
+    {
+      name: "replay_codegen_session",
+      description: "Replay the actions recorded in a codegen session against a live browser and report pass/fail, timing and failure screenshots per step",
+      inputSchema: {
+        type: "object",
+        properties: {
+          sessionId: {
+            type: "string",
+            description: "ID of the codegen session to replay"
+          },
+          browserSessionId: {
+            type: "string",
+            description: "Browser session to replay in (default: the active session). Ignored when freshSession is true"
+          },
+          freshSession: {
+            type: "boolean",
+            description: "Replay in a new, dedicated browser session (default: false)"
+          },
+          browserType: {
+            type: "string",
+            description: "Browser engine for the fresh session; implies freshSession",
+            enum: ["chromium", "firefox", "webkit"]
+          },
+          headless: {
+            type: "boolean",
+            description: "Run the fresh session headless (default: false)"
+          },
+          keepSession: {
+            type: "boolean",
+            description: "Keep the fresh browser session open after the replay (default: false)"
+          },
+          stepMode: {
+            type: "boolean",
+            description: "Run one step per call; call again with the same sessionId to run the next step (default: false)"
+          },
+          reset: {
+            type: "boolean",
+            description: "Discard an unfinished step-mode replay and start from the first step"
+          },
+          stopOnFailure: {
+            type: "boolean",
+            description: "Stop at the first failing step (default: true)"
+          },
+          screenshotOnFailure: {
+            type: "boolean",
+            description: "Report the failure:// screenshot taken when a step fails (default: true)"
+          }
+        },
+        required: ["sessionId"]
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          passed: { type: "boolean" },
+          done: { type: "boolean", description: "False while a step-mode replay has steps left" },
+          stoppedOnFailure: { type: "boolean" },
+          totalSteps: { type: "integer" },
+          steps: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                step: { type: "integer" },
+                toolName: { type: "string" },
+                parameters: { type: "object" },
+                passed: { type: "boolean" },
+                durationMs: { type: "integer" },
+                output: { type: "string" },
+                screenshot: { type: "string" }
+              },
+              required: ["step", "toolName", "passed", "durationMs", "output"]
+            }
+          }
+        },
+        required: ["passed", "done", "stoppedOnFailure", "totalSteps", "steps"]
+      }
+    },
+    {
+      name: "import_spec_file",
+      description: "Import an existing Playwright spec file into a new codegen session so it can be replayed, extended with more recorded actions and regenerated",
+      inputSchema: {
+        type: "object",
+        properties: {
+          filePath: {
+            type: "string",
+            description: "Path to the .spec.ts/.spec.js file to import"
+          },
+          testName: {
+            type: "string",
+            description: "Name of the test() block to import (default: the first test in the file)"
+          },
+          options: {
+            type: "object",
+            description: "Code generation options for the imported session (outputPath defaults to the spec file directory)",
+            properties: {
+              outputPath: { type: "string", description: "Directory path where generated tests will be saved" },
+              testNamePrefix: { type: "string", description: "Prefix to use for generated test names (default: 'Test')" },
+              includeComments: { type: "boolean", description: "Whether to include descriptive comments in generated tests" },
+              language: { type: "string", description: "Output language (default: based on the spec file extension)", enum: ["typescript", "javascript", "python", "java"] },
+              template: { type: "string", description: "Code template to use (default: 'plain')", enum: ["plain", "pom"] }
+            }
+          },
+          activate: {
+            type: "boolean",
+            description: "Make the imported session the active recording session so further actions are appended (default: true)"
+          }
+        },
+        required: ["filePath"]
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          sessionId: { type: "string" },
+          testName: { type: "string" },
+          availableTests: { type: "array", items: { type: "string" } },
+          importedActions: { type: "integer" },
+          skippedStatements: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: { line: { type: "integer" }, statement: { type: "string" }, reason: { type: "string" } },
+              required: ["line", "statement", "reason"]
+            }
+          },
+          options: { type: "object" },
+          message: { type: "string" }
+        },
+        required: ["sessionId", "testName", "availableTests", "importedActions", "skippedStatements", "options", "message"]
       }
     },
     {
@@ -105,6 +731,7 @@ export function createToolDefinitions() {
         },
         required: ["url"],
       },
+      outputSchema: MESSAGE_OUTPUT_SCHEMA
     },
     {
       name: "playwright_screenshot",
@@ -123,6 +750,14 @@ export function createToolDefinitions() {
         },
         required: ["name"],
       },
+      outputSchema: {
+        type: "object",
+        properties: {
+          path: { type: "string" },
+          storedAs: { type: "string", description: "Name of the in-memory copy, readable as a screenshot resource" }
+        },
+        required: ["path"]
+      }
     },
     {
       name: "playwright_click",
@@ -131,9 +766,11 @@ export function createToolDefinitions() {
         type: "object",
         properties: {
           selector: { type: "string", description: "CSS selector for the element to click" },
+          selfHeal: SELF_HEAL_PROPERTY,
         },
         required: ["selector"],
       },
+      outputSchema: MESSAGE_OUTPUT_SCHEMA
     },
     {
       name: "playwright_iframe_click",
@@ -146,6 +783,7 @@ export function createToolDefinitions() {
         },
         required: ["iframeSelector", "selector"],
       },
+      outputSchema: MESSAGE_OUTPUT_SCHEMA
     },
     {
       name: "playwright_iframe_fill",
@@ -159,6 +797,7 @@ export function createToolDefinitions() {
         },
         required: ["iframeSelector", "selector", "value"],
       },
+      outputSchema: MESSAGE_OUTPUT_SCHEMA
     },
     {
       name: "playwright_fill",
@@ -168,9 +807,11 @@ export function createToolDefinitions() {
         properties: {
           selector: { type: "string", description: "CSS selector for input field" },
           value: { type: "string", description: "Value to fill" },
+          selfHeal: SELF_HEAL_PROPERTY,
         },
         required: ["selector", "value"],
       },
+      outputSchema: MESSAGE_OUTPUT_SCHEMA
     },
     {
       name: "playwright_select",
@@ -180,9 +821,11 @@ export function createToolDefinitions() {
         properties: {
           selector: { type: "string", description: "CSS selector for element to select" },
           value: { type: "string", description: "Value to select" },
+          selfHeal: SELF_HEAL_PROPERTY,
         },
         required: ["selector", "value"],
       },
+      outputSchema: MESSAGE_OUTPUT_SCHEMA
     },
     {
       name: "playwright_hover",
@@ -191,9 +834,11 @@ export function createToolDefinitions() {
         type: "object",
         properties: {
           selector: { type: "string", description: "CSS selector for element to hover" },
+          selfHeal: SELF_HEAL_PROPERTY,
         },
         required: ["selector"],
       },
+      outputSchema: MESSAGE_OUTPUT_SCHEMA
     },
     {
       name: "playwright_upload_file",
@@ -202,10 +847,12 @@ export function createToolDefinitions() {
         type: "object",
         properties: {
           selector: { type: "string", description: "CSS selector for the file input element" },
-          filePath: { type: "string", description: "Absolute path to the file to upload" }
+          filePath: { type: "string", description: "Absolute path to the file to upload" },
+          selfHeal: SELF_HEAL_PROPERTY
         },
         required: ["selector", "filePath"],
       },
+      outputSchema: MESSAGE_OUTPUT_SCHEMA
     },
     {
       name: "playwright_evaluate",
@@ -217,6 +864,12 @@ export function createToolDefinitions() {
         },
         required: ["script"],
       },
+      outputSchema: {
+        type: "object",
+        properties: {
+          result: { description: "Value returned by the script" }
+        }
+      }
     },
     {
       name: "playwright_console_logs",
@@ -244,6 +897,14 @@ export function createToolDefinitions() {
         },
         required: [],
       },
+      outputSchema: {
+        type: "object",
+        properties: {
+          count: { type: "integer" },
+          logs: { type: "array", items: { type: "string" } }
+        },
+        required: ["count", "logs"]
+      }
     },
     {
       name: "playwright_close",
@@ -253,6 +914,7 @@ export function createToolDefinitions() {
         properties: {},
         required: [],
       },
+      outputSchema: MESSAGE_OUTPUT_SCHEMA
     },
     {
       name: "playwright_get",
@@ -260,10 +922,12 @@ export function createToolDefinitions() {
       inputSchema: {
         type: "object",
         properties: {
-          url: { type: "string", description: "URL to perform GET operation" }
+          url: { type: "string", description: "URL to perform GET operation (absolute, or a path relative to the API context's base URL)" },
+          ...API_REQUEST_PROPERTIES
         },
         required: ["url"],
       },
+      outputSchema: API_RESPONSE_OUTPUT_SCHEMA,
     },
     {
       name: "playwright_post",
@@ -271,17 +935,14 @@ export function createToolDefinitions() {
       inputSchema: {
         type: "object",
         properties: {
-          url: { type: "string", description: "URL to perform POST operation" },
-          value: { type: "string", description: "Data to post in the body" },
-          token: { type: "string", description: "Bearer token for authorization" },
-          headers: { 
-            type: "object", 
-            description: "Additional headers to include in the request",
-            additionalProperties: { type: "string" }
-          }
+          url: { type: "string", description: "URL to perform POST operation (absolute, or a path relative to the API context's base URL)" },
+          value: { type: "string", description: "Data to post in the body (parsed as JSON when it starts with { or [)" },
+          ...API_REQUEST_PROPERTIES,
+          ...API_BODY_PROPERTIES
         },
-        required: ["url", "value"],
+        required: ["url"],
       },
+      outputSchema: API_RESPONSE_OUTPUT_SCHEMA,
     },
     {
       name: "playwright_put",
@@ -289,11 +950,14 @@ export function createToolDefinitions() {
       inputSchema: {
         type: "object",
         properties: {
-          url: { type: "string", description: "URL to perform PUT operation" },
-          value: { type: "string", description: "Data to PUT in the body" },
+          url: { type: "string", description: "URL to perform PUT operation (absolute, or a path relative to the API context's base URL)" },
+          value: { type: "string", description: "Data to PUT in the body (parsed as JSON when it starts with { or [)" },
+          ...API_REQUEST_PROPERTIES,
+          ...API_BODY_PROPERTIES
         },
-        required: ["url", "value"],
+        required: ["url"],
       },
+      outputSchema: API_RESPONSE_OUTPUT_SCHEMA,
     },
     {
       name: "playwright_patch",
@@ -301,11 +965,14 @@ export function createToolDefinitions() {
       inputSchema: {
         type: "object",
         properties: {
-          url: { type: "string", description: "URL to perform PUT operation" },
-          value: { type: "string", description: "Data to PATCH in the body" },
+          url: { type: "string", description: "URL to perform PATCH operation (absolute, or a path relative to the API context's base URL)" },
+          value: { type: "string", description: "Data to PATCH in the body (parsed as JSON when it starts with { or [)" },
+          ...API_REQUEST_PROPERTIES,
+          ...API_BODY_PROPERTIES
         },
-        required: ["url", "value"],
+        required: ["url"],
       },
+      outputSchema: API_RESPONSE_OUTPUT_SCHEMA,
     },
     {
       name: "playwright_delete",
@@ -313,10 +980,145 @@ export function createToolDefinitions() {
       inputSchema: {
         type: "object",
         properties: {
-          url: { type: "string", description: "URL to perform DELETE operation" }
+          url: { type: "string", description: "URL to perform DELETE operation (absolute, or a path relative to the API context's base URL)" },
+          ...API_REQUEST_PROPERTIES
         },
         required: ["url"],
       },
+      outputSchema: API_RESPONSE_OUTPUT_SCHEMA,
+    },
+    {
+      name: "playwright_assert_api_response",
+      description: "Assert status, headers, JSONPath values and a JSON Schema on an API response. Sends the request when url is given, otherwise checks the last response of the API context.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          method: {
+            type: "string",
+            enum: ["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD", "OPTIONS"],
+            description: "HTTP method (default: GET)"
+          },
+          url: { type: "string", description: "URL to request. Omit to assert the last response of the API context" },
+          value: { type: "string", description: "Request body (parsed as JSON when it starts with { or [)" },
+          ...API_REQUEST_PROPERTIES,
+          ...API_BODY_PROPERTIES,
+          expectedStatus: {
+            oneOf: [
+              { type: "integer" },
+              { type: "array", items: { type: "integer" } }
+            ],
+            description: "Expected status code, or a list of accepted status codes"
+          },
+          expectedHeaders: {
+            type: "object",
+            description: "Headers that must be present; each value must contain the given string",
+            additionalProperties: { type: "string" }
+          },
+          jsonPath: {
+            type: "array",
+            description: "JSONPath checks on the response body",
+            items: {
+              type: "object",
+              properties: {
+                path: { type: "string", description: "JSONPath expression, e.g. $.data.items[0].id" },
+                equals: { description: "Value the match must deep-equal" },
+                contains: { description: "Substring of a string match, or an element of an array match" },
+                matches: { type: "string", description: "Regular expression the match must satisfy" },
+                exists: { type: "boolean", description: "Whether the path must match anything (default: true)" }
+              },
+              required: ["path"]
+            }
+          },
+          jsonSchema: {
+            type: "object",
+            description: "JSON Schema the response body must validate against"
+          }
+        },
+        required: [],
+      },
+      outputSchema: API_ASSERTION_OUTPUT_SCHEMA,
+    },
+    {
+      name: "playwright_api_create_context",
+      description: "Create a named API context that keeps its base URL, default headers, auth and cookies across API calls",
+      inputSchema: {
+        type: "object",
+        properties: {
+          name: { type: "string", description: "Context name, passed as `context` to the API tools" },
+          baseURL: { type: "string", description: "Base URL that relative request URLs are resolved against" },
+          headers: {
+            type: "object",
+            description: "Headers sent with every request",
+            additionalProperties: { type: "string" }
+          },
+          auth: {
+            type: "object",
+            description: "Authentication applied to every request",
+            properties: {
+              type: { type: "string", enum: ["basic", "bearer", "oauth2_client_credentials"] },
+              username: { type: "string", description: "Username (basic)" },
+              password: { type: "string", description: "Password (basic)" },
+              token: { type: "string", description: "Token (bearer)" },
+              tokenUrl: { type: "string", description: "Token endpoint (oauth2_client_credentials)" },
+              clientId: { type: "string", description: "Client ID (oauth2_client_credentials)" },
+              clientSecret: { type: "string", description: "Client secret (oauth2_client_credentials)" },
+              scope: { type: "string", description: "Requested scope (oauth2_client_credentials)" },
+              audience: { type: "string", description: "Requested audience (oauth2_client_credentials)" }
+            },
+            required: ["type"]
+          },
+          browserSessionId: { type: "string", description: "Share cookies with this browser session in both directions" },
+          timeout: { type: "number", description: "Default request timeout in milliseconds" },
+          ignoreHTTPSErrors: { type: "boolean", description: "Ignore HTTPS certificate errors (default: false)" }
+        },
+        required: ["name"],
+      },
+      outputSchema: MESSAGE_OUTPUT_SCHEMA
+    },
+    {
+      name: "playwright_api_list_contexts",
+      description: "List API contexts with their settings and last response",
+      inputSchema: {
+        type: "object",
+        properties: {},
+        required: [],
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          contexts: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                name: { type: "string" },
+                baseURL: { type: "string" },
+                auth: { type: "string", description: "Auth type; credentials are never returned" },
+                browserSessionId: { type: "string" },
+                lastResponse: {
+                  type: "object",
+                  properties: { method: { type: "string" }, url: { type: "string" }, status: { type: "integer" } }
+                },
+                createdAt: { type: "string" }
+              },
+              required: ["name", "createdAt"]
+            }
+          }
+        },
+        required: ["contexts"]
+      }
+    },
+    {
+      name: "playwright_api_close_context",
+      description: "Dispose a named API context and its cookies",
+      inputSchema: {
+        type: "object",
+        properties: {
+          name: { type: "string", description: "Context name" }
+        },
+        required: ["name"],
+      },
+      outputSchema: MESSAGE_OUTPUT_SCHEMA
     },
     {
       name: "playwright_expect_response",
@@ -329,6 +1131,7 @@ export function createToolDefinitions() {
         },
         required: ["id", "url"],
       },
+      outputSchema: MESSAGE_OUTPUT_SCHEMA
     },
     {
       name: "playwright_assert_response",
@@ -341,6 +1144,7 @@ export function createToolDefinitions() {
         },
         required: ["id"],
       },
+      outputSchema: ASSERTION_OUTPUT_SCHEMA,
     },
     {
       name: "playwright_custom_user_agent",
@@ -352,6 +1156,7 @@ export function createToolDefinitions() {
         },
         required: ["userAgent"],
       },
+      outputSchema: MESSAGE_OUTPUT_SCHEMA
     },
     {
       name: "playwright_get_visible_text",
@@ -361,6 +1166,15 @@ export function createToolDefinitions() {
         properties: {},
         required: [],
       },
+      outputSchema: {
+        type: "object",
+        properties: {
+          text: { type: "string" },
+          length: { type: "integer", description: "Length before truncation" },
+          truncated: { type: "boolean" }
+        },
+        required: ["text", "length", "truncated"]
+      }
     },
     {
       name: "playwright_get_visible_html",
@@ -379,6 +1193,15 @@ export function createToolDefinitions() {
         },
         required: [],
       },
+      outputSchema: {
+        type: "object",
+        properties: {
+          html: { type: "string" },
+          length: { type: "integer", description: "Length before truncation" },
+          truncated: { type: "boolean" }
+        },
+        required: ["html", "length", "truncated"]
+      }
     },
     {
       name: "playwright_go_back",
@@ -388,6 +1211,7 @@ export function createToolDefinitions() {
         properties: {},
         required: [],
       },
+      outputSchema: MESSAGE_OUTPUT_SCHEMA
     },
     {
       name: "playwright_go_forward",
@@ -397,6 +1221,7 @@ export function createToolDefinitions() {
         properties: {},
         required: [],
       },
+      outputSchema: MESSAGE_OUTPUT_SCHEMA
     },
     {
       name: "playwright_drag",
@@ -409,6 +1234,7 @@ export function createToolDefinitions() {
         },
         required: ["sourceSelector", "targetSelector"],
       },
+      outputSchema: MESSAGE_OUTPUT_SCHEMA
     },
     {
       name: "playwright_press_key",
@@ -417,10 +1243,12 @@ export function createToolDefinitions() {
         type: "object",
         properties: {
           key: { type: "string", description: "Key to press (e.g. 'Enter', 'ArrowDown', 'a')" },
-          selector: { type: "string", description: "Optional CSS selector to focus before pressing key" }
+          selector: { type: "string", description: "Optional CSS selector to focus before pressing key" },
+          selfHeal: SELF_HEAL_PROPERTY
         },
         required: ["key"],
       },
+      outputSchema: MESSAGE_OUTPUT_SCHEMA
     },
     {
       name: "playwright_save_as_pdf",
@@ -445,6 +1273,11 @@ export function createToolDefinitions() {
         },
         required: ["outputPath"],
       },
+      outputSchema: {
+        type: "object",
+        properties: { path: { type: "string" } },
+        required: ["path"]
+      }
     },
     {
       name: "playwright_click_and_switch_tab",
@@ -453,9 +1286,11 @@ export function createToolDefinitions() {
         type: "object",
         properties: {
           selector: { type: "string", description: "CSS selector for the link to click" },
+          selfHeal: SELF_HEAL_PROPERTY,
         },
         required: ["selector"],
       },
+      outputSchema: MESSAGE_OUTPUT_SCHEMA
     },
     {
       name: "playwright_download_file",
@@ -482,6 +1317,14 @@ export function createToolDefinitions() {
         },
         required: ["triggerSelector"],
       },
+      outputSchema: {
+        type: "object",
+        properties: {
+          filename: { type: "string" },
+          path: { type: "string" }
+        },
+        required: ["filename", "path"]
+      }
     },
     {
       name: "playwright_copy_to_clipboard",
@@ -496,6 +1339,7 @@ export function createToolDefinitions() {
         },
         required: ["text"],
       },
+      outputSchema: MESSAGE_OUTPUT_SCHEMA
     },
     {
       name: "playwright_read_clipboard",
@@ -505,6 +1349,11 @@ export function createToolDefinitions() {
         properties: {},
         required: [],
       },
+      outputSchema: {
+        type: "object",
+        properties: { text: { type: "string" } },
+        required: ["text"]
+      }
     },
     {
       name: "playwright_handle_dialog",
@@ -524,6 +1373,7 @@ export function createToolDefinitions() {
         },
         required: ["action"],
       },
+      outputSchema: MESSAGE_OUTPUT_SCHEMA
     },
     {
       name: "playwright_expect_dialog",
@@ -555,6 +1405,15 @@ export function createToolDefinitions() {
         },
         required: ["expectedMessage"],
       },
+      outputSchema: {
+        type: "object",
+        properties: {
+          type: { type: "string" },
+          message: { type: "string" },
+          action: { type: "string" }
+        },
+        required: ["type", "message", "action"]
+      }
     },
     {
       name: "playwright_drag_to_position",
@@ -581,6 +1440,7 @@ export function createToolDefinitions() {
         },
         required: ["sourceSelector", "targetX", "targetY"],
       },
+      outputSchema: MESSAGE_OUTPUT_SCHEMA
     },
     {
       name: "playwright_get_element_position",
@@ -595,6 +1455,19 @@ export function createToolDefinitions() {
         },
         required: ["selector"],
       },
+      outputSchema: {
+        type: "object",
+        properties: {
+          selector: { type: "string" },
+          x: { type: "number" },
+          y: { type: "number" },
+          width: { type: "number" },
+          height: { type: "number" },
+          centerX: { type: "number" },
+          centerY: { type: "number" }
+        },
+        required: ["selector", "x", "y", "width", "height", "centerX", "centerY"]
+      }
     },
     {
       name: "playwright_visual_compare",
@@ -606,7 +1479,15 @@ export function createToolDefinitions() {
             type: "string",
             description: "Path to baseline screenshot (PNG). If doesn't exist, current screenshot will be saved as baseline."
           },
-          current: {
+          testName: {
+            type: "string",
+            description: "Use the versioned baseline store instead of a file path. Baselines are keyed by test name, browser, viewport and device; failures are kept as pending diffs for approval"
+          },
+          device: {
+            type: "string",
+            description: "Device name for the baseline store key (default: 'desktop')"
+          },
+          current: {
             type: "string",
             description: "Path to current screenshot to compare (optional if captureScreenshot is true)"
           },
@@ -624,17 +1505,39 @@ export function createToolDefinitions() {
           },
           regions: {
             type: "array",
-            description: "Array of regions to compare (optional). Compare specific elements instead of full page.",
+            description: "Array of regions to compare (optional). Compare specific elements instead of full page. With several regions, each element is captured and compared separately against its own named baseline (<baseline>-<name>.png, or <testName>/<name> in the baseline store)",
             items: {
               type: "object",
               properties: {
                 selector: {
                   type: "string",
                   description: "CSS selector for the region to compare"
+                },
+                name: {
+                  type: "string",
+                  description: "Component name for the element's baseline (default: derived from the selector)"
                 }
-              }
+              },
+              required: ["selector"]
             }
           },
+          mask: {
+            type: "array",
+            items: { type: "string" },
+            description: "CSS selectors painted over before capture (e.g. avatars, timestamps)"
+          },
+          maskColor: {
+            type: "string",
+            description: "CSS color of masked areas (default: pink #FF00FF)"
+          },
+          freezeAnimations: {
+            type: "boolean",
+            description: "Inject CSS that freezes animations, transitions and the text caret during capture (default: true)"
+          },
+          style: {
+            type: "string",
+            description: "Extra CSS applied during capture"
+          },
           captureScreenshot: {
             type: "boolean",
             description: "Capture a new screenshot for comparison (default: true)"
@@ -642,10 +1545,32 @@ export function createToolDefinitions() {
           fullPage: {
             type: "boolean",
             description: "Capture full page screenshot if captureScreenshot is true (default: false)"
+          },
+          mode: {
+            type: "string",
+            enum: ["pixel", "ssim", "phash", "tolerance", "layout"],
+            description: "Comparison algorithm: pixel (pixelmatch, default), ssim (structural similarity), phash (perceptual hash, tolerates resizing), tolerance (per-channel tolerance with anti-alias detection) or layout (element bounding boxes from the page instead of pixels)"
+          },
+          minScore: {
+            type: "number",
+            description: "Minimum score to pass for ssim (default: 0.98), phash (default: 0.95) and layout (default: 1, every element matched)"
+          },
+          channelTolerance: {
+            type: "number",
+            description: "tolerance mode: maximum per-channel difference (0-255) still treated as equal (default: 8)"
+          },
+          detectAntialiasing: {
+            type: "boolean",
+            description: "tolerance mode: ignore anti-aliased edge pixels (default: true)"
+          },
+          layoutTolerance: {
+            type: "number",
+            description: "layout mode: pixels an element may move or resize before it counts as changed (default: 2)"
           }
         },
-        required: ["baseline"],
+        required: [],
       },
+      outputSchema: VISUAL_COMPARE_OUTPUT_SCHEMA,
     },
     {
       name: "playwright_create_baseline",
@@ -657,6 +1582,22 @@ export function createToolDefinitions() {
             type: "string",
             description: "Path where baseline screenshot will be saved (must be PNG)"
           },
+          testName: {
+            type: "string",
+            description: "Store the baseline as a new version in the baseline store instead of at outputPath"
+          },
+          device: {
+            type: "string",
+            description: "Device name for the baseline store key (default: 'desktop')"
+          },
+          approver: {
+            type: "string",
+            description: "Who approved this baseline version (baseline store only)"
+          },
+          note: {
+            type: "string",
+            description: "Note recorded with the baseline version (baseline store only)"
+          },
           selector: {
             type: "string",
             description: "CSS selector to capture specific element (optional)"
@@ -665,13 +1606,44 @@ export function createToolDefinitions() {
             type: "boolean",
             description: "Capture full page (default: false, captures viewport only)"
           },
+          mask: {
+            type: "array",
+            items: { type: "string" },
+            description: "CSS selectors painted over before capture (e.g. avatars, timestamps)"
+          },
+          maskColor: {
+            type: "string",
+            description: "CSS color of masked areas (default: pink #FF00FF)"
+          },
+          freezeAnimations: {
+            type: "boolean",
+            description: "Inject CSS that freezes animations, transitions and the text caret during capture (default: true)"
+          },
+          style: {
+            type: "string",
+            description: "Extra CSS applied during capture"
+          },
           overwrite: {
             type: "boolean",
-            description: "Overwrite existing baseline if it exists (default: false)"
+            description: "Overwrite existing baseline if it exists (default: false). With testName, stores a new version"
+          },
+          captureLayout: {
+            type: "boolean",
+            description: "Also save element bounding boxes (<baseline>.layout.json) for layout-mode comparisons (default: false)"
           }
         },
-        required: ["outputPath"],
+        required: [],
       },
+      outputSchema: {
+        type: "object",
+        properties: {
+          path: { type: "string" },
+          key: { type: "string", description: "Baseline store key, when stored by test name" },
+          version: { type: "integer" },
+          layout: { type: "string", description: "Layout sidecar file" }
+        },
+        required: ["path"]
+      }
     },
     {
       name: "playwright_batch_visual_compare",
@@ -696,6 +1668,11 @@ export function createToolDefinitions() {
                 current: {
                   type: "string",
                   description: "Path to current screenshot"
+                },
+                mode: {
+                  type: "string",
+                  enum: ["pixel", "ssim", "phash", "tolerance", "layout"],
+                  description: "Comparison mode for this item (default: the batch mode)"
                 }
               },
               required: ["baseline", "current"]
@@ -709,13 +1686,43 @@ export function createToolDefinitions() {
             type: "boolean",
             description: "Generate diff images for failures (default: true)"
           },
+          mode: {
+            type: "string",
+            enum: ["pixel", "ssim", "phash", "tolerance", "layout"],
+            description: "Comparison algorithm for all comparisons: pixel (pixelmatch, default), ssim (structural similarity), phash (perceptual hash, tolerates resizing), tolerance (per-channel tolerance with anti-alias detection) or layout (element boxes from <image>.layout.json files)"
+          },
+          minScore: {
+            type: "number",
+            description: "Minimum score to pass for ssim (default: 0.98), phash (default: 0.95) and layout (default: 1, every element matched)"
+          },
+          channelTolerance: {
+            type: "number",
+            description: "tolerance mode: maximum per-channel difference (0-255) still treated as equal (default: 8)"
+          },
+          detectAntialiasing: {
+            type: "boolean",
+            description: "tolerance mode: ignore anti-aliased edge pixels (default: true)"
+          },
+          layoutTolerance: {
+            type: "number",
+            description: "layout mode: pixels an element may move or resize before it counts as changed (default: 2)"
+          },
           stopOnFailure: {
             type: "boolean",
             description: "Stop batch processing on first failure (default: false)"
+          },
+          reportPath: {
+            type: "string",
+            description: "Write a self-contained HTML report of the batch to this path"
+          },
+          reportTitle: {
+            type: "string",
+            description: "Title of the HTML report"
           }
         },
         required: ["comparisons"],
       },
+      outputSchema: BATCH_VISUAL_COMPARE_OUTPUT_SCHEMA,
     },
     {
       name: "playwright_run_across_browsers",
@@ -755,6 +1762,26 @@ export function createToolDefinitions() {
         },
         required: ["url"],
       },
+      outputSchema: {
+        type: "object",
+        properties: {
+          passed: { type: "boolean" },
+          results: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                browser: { type: "string" },
+                success: { type: "boolean" },
+                result: { type: "string" },
+                duration: { type: "integer" }
+              },
+              required: ["browser", "success", "result", "duration"]
+            }
+          }
+        },
+        required: ["passed", "results"]
+      }
     },
     {
       name: "playwright_cross_browser_screenshot",
@@ -805,6 +1832,7 @@ export function createToolDefinitions() {
         },
         required: ["url"],
       },
+      outputSchema: CROSS_BROWSER_SCREENSHOT_OUTPUT_SCHEMA,
     },
     {
       name: "playwright_emulate_device",
@@ -846,6 +1874,7 @@ export function createToolDefinitions() {
         },
         required: ["device"],
       },
+      outputSchema: MESSAGE_OUTPUT_SCHEMA
     },
     {
       name: "playwright_list_devices",
@@ -860,6 +1889,21 @@ export function createToolDefinitions() {
         },
         required: [],
       },
+      outputSchema: {
+        type: "object",
+        properties: {
+          total: { type: "integer", description: "Devices known to Playwright, before filtering" },
+          devices: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: { name: { type: "string" }, width: { type: "integer" }, height: { type: "integer" } },
+              required: ["name"]
+            }
+          }
+        },
+        required: ["total", "devices"]
+      }
     },
     {
       name: "playwright_collect_locators",
@@ -879,6 +1923,77 @@ export function createToolDefinitions() {
         },
         required: [],
       },
+      outputSchema: {
+        type: "object",
+        properties: {
+          pages: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                url: { type: "string" },
+                pageName: { type: "string" },
+                filePath: { type: "string" },
+                locatorsCount: { type: "integer" },
+                stability: { type: "object", description: "Locator count per stability score, 1-5" },
+                changes: { type: "string" },
+                locators: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: {
+                      name: { type: "string" },
+                      strategy: { type: "string" },
+                      elementType: { type: "string" },
+                      section: { type: "string" },
+                      stability: { type: "integer" },
+                      code: { type: "string" }
+                    },
+                    required: ["name", "strategy", "code"]
+                  }
+                }
+              },
+              required: ["url", "pageName", "filePath", "locatorsCount"]
+            }
+          },
+          errors: { type: "array", items: { type: "string" } }
+        },
+        required: ["pages", "errors"]
+      }
+    },
+    {
+      name: "playwright_self_healing",
+      description: "Configure self-healing locators and read the substitution log. When enabled, click, fill, select, hover, upload and key press remember the element each selector matched (test IDs, role, text, attributes, position); when a selector stops matching, the best-scoring element above the confidence threshold is used instead, the healed selector and confidence are reported, and recorded codegen actions are updated",
+      inputSchema: {
+        type: "object",
+        properties: {
+          enabled: { type: "boolean", description: "Turn self-healing on or off for all calls (default at startup: PLAYWRIGHT_SELF_HEALING env var)" },
+          threshold: { type: "number", description: "Minimum confidence (0-1) a candidate needs to be used (default: 0.5)" },
+          waitTimeout: { type: "number", description: "Milliseconds a selector may take to match before it is healed (default: 5000)" },
+          customAttributes: { type: "array", items: { type: "string" }, description: "Test ID attributes to fingerprint besides data-testid, data-test-id, data-id, data-qa and data-test" },
+          clearLog: { type: "boolean", description: "Clear the substitution log" },
+          clearFingerprints: { type: "boolean", description: "Forget every remembered element" },
+          limit: { type: "number", description: "Maximum substitutions to list (default: 20)" }
+        },
+        required: [],
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          config: {
+            type: "object",
+            properties: {
+              enabled: { type: "boolean" },
+              threshold: { type: "number" },
+              waitTimeout: { type: "integer" },
+              customAttributes: { type: "array", items: { type: "string" } }
+            },
+            required: ["enabled", "threshold", "waitTimeout", "customAttributes"]
+          },
+          events: { type: "array", items: HEALING_EVENT_SCHEMA }
+        },
+        required: ["config", "events"]
+      }
     },
     // Session Management Tools
     {
@@ -937,6 +2052,16 @@ export function createToolDefinitions() {
         },
         required: [],
       },
+      outputSchema: {
+        type: "object",
+        properties: {
+          sessionId: { type: "string" },
+          browserType: { type: "string" },
+          headless: { type: "boolean" },
+          viewport: { type: "object", properties: { width: { type: "integer" }, height: { type: "integer" } } }
+        },
+        required: ["sessionId", "browserType", "headless"]
+      }
     },
     {
       name: "list_browser_sessions",
@@ -946,6 +2071,27 @@ export function createToolDefinitions() {
         properties: {},
         required: [],
       },
+      outputSchema: {
+        type: "object",
+        properties: {
+          sessions: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                id: { type: "string" },
+                browserType: { type: "string" },
+                url: { type: "string" },
+                active: { type: "boolean" },
+                createdAt: { type: "string" },
+                lastAccessedAt: { type: "string" }
+              },
+              required: ["id", "browserType", "url", "active", "createdAt", "lastAccessedAt"]
+            }
+          }
+        },
+        required: ["sessions"]
+      }
     },
     {
       name: "close_browser_session",
@@ -960,6 +2106,7 @@ export function createToolDefinitions() {
         },
         required: ["sessionId"],
       },
+      outputSchema: MESSAGE_OUTPUT_SCHEMA
     },
     {
       name: "switch_browser_session",
@@ -974,20 +2121,48 @@ export function createToolDefinitions() {
         },
         required: ["sessionId"],
       },
+      outputSchema: SESSION_OUTPUT_SCHEMA
     },
     {
       name: "get_session_info",
-      description: "Get detailed information about a specific browser session including uptime, current URL, console logs, and activity metrics.",
+      description: "Get detailed information about a specific browser session including uptime, current URL, console logs, activity metrics, and the browser's memory and CPU use.",
       inputSchema: {
         type: "object",
         properties: {
           sessionId: {
             type: "string",
             description: "Session ID to get information about"
+          },
+          history: {
+            type: "boolean",
+            description: "Include every sample of the session's rolling resource history (default: false)"
           }
         },
         required: ["sessionId"],
       },
+      outputSchema: {
+        type: "object",
+        properties: {
+          sessionId: { type: "string" },
+          browserType: { type: "string" },
+          url: { type: "string" },
+          title: { type: "string" },
+          createdAt: { type: "string" },
+          lastAccessedAt: { type: "string" },
+          consoleLogs: { type: "integer" },
+          screenshots: { type: "integer" },
+          connected: { type: "boolean" },
+          metrics: {
+            type: "object",
+            properties: {
+              latest: SESSION_METRICS_SAMPLE_SCHEMA,
+              growthMBPerMinute: { type: "number" },
+              history: { type: "array", items: SESSION_METRICS_SAMPLE_SCHEMA }
+            }
+          }
+        },
+        required: ["sessionId", "browserType", "url", "title", "createdAt", "lastAccessedAt", "consoleLogs", "screenshots", "connected"]
+      }
     },
     {
       name: "cleanup_idle_sessions",
@@ -1002,23 +2177,45 @@ export function createToolDefinitions() {
         },
         required: [],
       },
+      outputSchema: {
+        type: "object",
+        properties: {
+          closed: { type: "integer" },
+          remaining: { type: "integer" }
+        },
+        required: ["closed", "remaining"]
+      }
     },
     // Smart Waiting Tools
     {
       name: "playwright_wait_smart",
-      description: "Intelligent wait for element with multiple conditions (visibility, stability, interactive state)",
+      description: "Wait for a combination of conditions (element exists/visible/hidden/stable/interactive, text, attribute, count, URL, network idle, custom JavaScript predicate) joined with AND/OR. Reports the measured wait time per condition; on timeout returns an error with the unmet conditions and a screenshot",
       inputSchema: {
         type: "object",
         properties: {
-          selector: { type: "string", description: "Element selector to wait for" },
-          visible: { type: "boolean", description: "Wait for element to be visible (default: true)" },
+          selector: { type: "string", description: "Element selector to wait for (shorthand for conditions on one element)" },
+          visible: { type: "boolean", description: "Wait for element to be visible; when false only its existence is required (default: true)" },
           stable: { type: "boolean", description: "Wait for element to be stable/not animating (default: false)" },
           interactive: { type: "boolean", description: "Wait for element to be interactive/not disabled (default: false)" },
           hasText: { type: "string", description: "Wait for element to contain specific text" },
+          conditions: {
+            type: "array",
+            description: "Additional conditions. Each has a type: exists, visible, hidden, stable, interactive (selector); hasText (selector, text); attribute (selector, attribute, value?); count (selector, count, comparison?); url (pattern, regex?); networkIdle (idleTime?); predicate (script, arg? - a JavaScript expression or function evaluated in the page, met when truthy); all/any (conditions) to nest groups",
+            items: {
+              type: "object",
+              properties: {
+                type: { type: "string", enum: ["exists", "visible", "hidden", "stable", "interactive", "hasText", "attribute", "count", "url", "networkIdle", "predicate", "all", "any"] }
+              },
+              required: ["type"]
+            }
+          },
+          mode: { type: "string", enum: ["all", "any"], description: "Whether all conditions or any one of them must be met (default: all)" },
+          pollInterval: { type: "number", description: "Time between checks in milliseconds (default: 100)" },
           timeout: { type: "number", description: "Timeout in milliseconds (default: 30000)" }
         },
-        required: ["selector"]
-      }
+        required: []
+      },
+      outputSchema: WAIT_OUTPUT_SCHEMA
     },
     {
       name: "playwright_wait_network_idle",
@@ -1027,10 +2224,11 @@ export function createToolDefinitions() {
         type: "object",
         properties: {
           timeout: { type: "number", description: "Timeout in milliseconds (default: 30000)" },
-          idleTime: { type: "number", description: "Idle time to wait in milliseconds (default: 500)" }
+          idleTime: { type: "number", description: "How long no request may be in flight, in milliseconds (default: 500)" }
         },
         required: []
-      }
+      },
+      outputSchema: WAIT_OUTPUT_SCHEMA
     },
     {
       name: "playwright_wait_element_count",
@@ -1044,7 +2242,8 @@ export function createToolDefinitions() {
           timeout: { type: "number", description: "Timeout in milliseconds (default: 30000)" }
         },
         required: ["selector", "count"]
-      }
+      },
+      outputSchema: WAIT_OUTPUT_SCHEMA
     },
     {
       name: "playwright_wait_attribute",
@@ -1058,7 +2257,8 @@ export function createToolDefinitions() {
           timeout: { type: "number", description: "Timeout in milliseconds (default: 30000)" }
         },
         required: ["selector", "attribute"]
-      }
+      },
+      outputSchema: WAIT_OUTPUT_SCHEMA
     },
     {
       name: "playwright_wait_element_hidden",
@@ -1070,7 +2270,8 @@ export function createToolDefinitions() {
           timeout: { type: "number", description: "Timeout in milliseconds (default: 30000)" }
         },
         required: ["selector"]
-      }
+      },
+      outputSchema: WAIT_OUTPUT_SCHEMA
     },
     {
       name: "playwright_wait_url",
@@ -1078,11 +2279,13 @@ export function createToolDefinitions() {
       inputSchema: {
         type: "object",
         properties: {
-          urlPattern: { type: "string", description: "URL pattern or regex to match" },
+          urlPattern: { type: "string", description: "URL glob (** matches across slashes, * within one segment) or regex to match" },
+          regex: { type: "boolean", description: "Treat urlPattern as a regular expression (default: false)" },
           timeout: { type: "number", description: "Timeout in milliseconds (default: 30000)" }
         },
         required: ["urlPattern"]
-      }
+      },
+      outputSchema: WAIT_OUTPUT_SCHEMA
     },
     // Accessibility Testing Tools
     {
@@ -1097,121 +2300,596 @@ export function createToolDefinitions() {
           level: { type: "string", enum: ["WCAG2A", "WCAG2AA", "WCAG2AAA", "Section508", "BEST-PRACTICE"], description: "WCAG compliance level (default: WCAG2AA)" },
           elementSelector: { type: "string", description: "Scan only specific element" }
         },
-        required: []
+        required: []
+      },
+      outputSchema: ACCESSIBILITY_OUTPUT_SCHEMA
+    },
+    {
+      name: "playwright_get_aria_snapshot",
+      description: "Get ARIA accessibility tree snapshot of the page or element",
+      inputSchema: {
+        type: "object",
+        properties: {
+          selector: { type: "string", description: "Element selector (scans entire page if not specified)" }
+        },
+        required: []
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          url: { type: "string" },
+          snapshot: { type: "string", description: "ARIA snapshot in YAML" }
+        },
+        required: ["url", "snapshot"]
+      }
+    },
+    {
+      name: "playwright_check_contrast",
+      description: "Check color contrast ratio for WCAG compliance",
+      inputSchema: {
+        type: "object",
+        properties: {
+          selector: { type: "string", description: "Element selector to check" },
+          level: { type: "string", enum: ["AA", "AAA"], description: "WCAG level (default: AA)" }
+        },
+        required: ["selector"]
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          passed: { type: "boolean" },
+          level: { type: "string" },
+          ratio: { type: "number" },
+          foreground: { type: "string" },
+          background: { type: "string" },
+          normalTextAA: { type: "boolean" },
+          normalTextAAA: { type: "boolean" },
+          largeTextAA: { type: "boolean" },
+          largeTextAAA: { type: "boolean" }
+        },
+        required: ["passed", "level", "ratio"]
+      }
+    },
+    {
+      name: "playwright_check_keyboard_navigation",
+      description: "Check keyboard navigation and focusable elements on the page",
+      inputSchema: {
+        type: "object",
+        properties: {},
+        required: []
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          url: { type: "string" },
+          focusableCount: { type: "integer" },
+          withoutVisibleFocus: { type: "integer" },
+          elements: { type: "array", items: { type: "object" } }
+        },
+        required: ["url", "focusableCount", "withoutVisibleFocus", "elements"]
+      }
+    },
+    // Code Coverage Tools
+    {
+      name: "playwright_start_coverage",
+      description: "Start collecting JavaScript and CSS code coverage",
+      inputSchema: {
+        type: "object",
+        properties: {
+          js: { type: "boolean", description: "Collect JavaScript coverage (default: true)" },
+          css: { type: "boolean", description: "Collect CSS coverage (default: true)" },
+          resetOnNavigation: { type: "boolean", description: "Reset coverage on navigation (default: false)" }
+        },
+        required: []
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          url: { type: "string" },
+          js: { type: "boolean" },
+          css: { type: "boolean" },
+          resetOnNavigation: { type: "boolean" }
+        },
+        required: ["url", "js", "css", "resetOnNavigation"]
+      }
+    },
+    {
+      name: "playwright_get_coverage",
+      description: "Stop coverage collection and get results with detailed statistics",
+      inputSchema: {
+        type: "object",
+        properties: {
+          type: { type: "string", enum: ["js", "css", "both"], description: "Coverage type to retrieve (default: both)" },
+          saveToFile: { type: "string", description: "Path to save coverage data JSON file" },
+          includeRawData: { type: "boolean", description: "Include raw coverage data (default: false)" },
+          store: { type: "boolean", description: "Merge the coverage into the coverage store (PLAYWRIGHT_COVERAGE_DIR) for cross-page/run totals, LCOV and threshold checks (default: false)" },
+          runId: { type: "string", description: "Coverage store run to merge into (default: one run per server process, or PLAYWRIGHT_COVERAGE_RUN)" },
+          sourceMaps: { type: "boolean", description: "Map bundled code back to original sources via source maps when storing (default: true)" }
+        },
+        required: []
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          url: { type: "string" },
+          js: COVERAGE_USAGE_SCHEMA,
+          css: COVERAGE_USAGE_SCHEMA,
+          savedTo: { type: "string" },
+          run: {
+            type: "object",
+            description: "Run in the coverage store the coverage was added to",
+            properties: { runId: { type: "string" }, totals: COVERAGE_TOTALS_SCHEMA },
+            required: ["runId", "totals"]
+          }
+        },
+        required: ["url"]
+      }
+    },
+    {
+      name: "playwright_generate_coverage_report",
+      description: "Generate coverage report in various formats from coverage data file",
+      inputSchema: {
+        type: "object",
+        properties: {
+          coverageFile: { type: "string", description: "Path to coverage data JSON file (lcov and istanbul need includeRawData)" },
+          outputFile: { type: "string", description: "Path for output report file" },
+          format: { type: "string", enum: ["html", "json", "lcov", "istanbul", "text"], description: "Report format (default: html). istanbul writes coverage-final.json data" },
+          fromStore: { type: "boolean", description: "Report merged coverage from the coverage store instead of coverageFile (default: false)" },
+          runIds: { type: "array", items: { type: "string" }, description: "Store runs to include (default: all)" }
+        },
+        required: ["outputFile"]
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          path: { type: "string" },
+          format: { type: "string" },
+          files: { type: "integer", description: "Files in the report, when generated from the coverage store" },
+          totals: COVERAGE_TOTALS_SCHEMA
+        },
+        required: ["path", "format"]
+      }
+    },
+    {
+      name: "playwright_compare_coverage",
+      description: "Compare coverage between baseline and current test runs",
+      inputSchema: {
+        type: "object",
+        properties: {
+          baselinePath: { type: "string", description: "Path to baseline coverage JSON file" },
+          currentPath: { type: "string", description: "Path to current coverage JSON file" }
+        },
+        required: ["baselinePath", "currentPath"]
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          js: {
+            type: "object",
+            properties: { baseline: { type: "number" }, current: { type: "number" }, difference: { type: "number" } },
+            required: ["baseline", "current", "difference"]
+          },
+          css: {
+            type: "object",
+            properties: { baseline: { type: "number" }, current: { type: "number" }, difference: { type: "number" } },
+            required: ["baseline", "current", "difference"]
+          }
+        }
+      }
+    },
+    {
+      name: "playwright_merge_coverage",
+      description: "Merge saved coverage files (from playwright_get_coverage with includeRawData) into the coverage store, mapping bundles to original sources",
+      inputSchema: {
+        type: "object",
+        properties: {
+          files: { type: "array", items: { type: "string" }, description: "Coverage JSON files saved with includeRawData: true" },
+          runId: { type: "string", description: "Coverage store run to merge into (default: the current run)" },
+          sourceMaps: { type: "boolean", description: "Map bundled code back to original sources via source maps (default: true)" }
+        },
+        required: ["files"]
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          runId: { type: "string" },
+          totals: COVERAGE_TOTALS_SCHEMA
+        },
+        required: ["runId", "totals"]
+      }
+    },
+    {
+      name: "playwright_check_coverage_thresholds",
+      description: "Check merged coverage from the coverage store against minimum line/function/branch percentages; fails when any threshold is missed",
+      inputSchema: {
+        type: "object",
+        properties: {
+          thresholds: {
+            type: "object",
+            description: "Minimum percentages keyed by 'global' (totals) or a file glob that every matching file must meet, e.g. { \"global\": { \"lines\": 80 }, \"src/checkout/**\": { \"branches\": 60 } }",
+            additionalProperties: {
+              type: "object",
+              properties: {
+                lines: { type: "number" },
+                functions: { type: "number" },
+                branches: { type: "number" }
+              }
+            }
+          },
+          runIds: { type: "array", items: { type: "string" }, description: "Store runs to include (default: all)" }
+        },
+        required: ["thresholds"]
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          passed: { type: "boolean" },
+          totals: { type: "object", description: "lines/functions/branches with total, covered and pct" },
+          violations: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                pattern: { type: "string" },
+                file: { type: "string" },
+                metric: { type: "string" },
+                actual: { type: "number" },
+                required: { type: "number" }
+              },
+              required: ["pattern", "metric", "actual", "required"]
+            }
+          }
+        },
+        required: ["passed", "totals", "violations"]
+      }
+    },
+    {
+      name: "playwright_find_unused_code",
+      description: "List CSS rules that never matched and top-level JS functions that never ran across coverage collected on several pages, with estimated byte savings and a patch-style report grouped by source file",
+      inputSchema: {
+        type: "object",
+        properties: {
+          files: { type: "array", items: { type: "string" }, description: "Coverage JSON files saved by playwright_get_coverage with includeRawData: true, one per page" },
+          outputFile: { type: "string", description: "Write the full patch-style report to this file" },
+          sourceMaps: { type: "boolean", description: "Group findings by original source via source maps (default: true)" },
+          minBytes: { type: "number", description: "Ignore rules and functions smaller than this many bytes (default: 0)" },
+          top: { type: "number", description: "Number of largest items to list in the response (default: 20)" }
+        },
+        required: ["files"]
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          files: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                path: { type: "string" },
+                url: { type: "string" },
+                kind: { type: "string", enum: ["css", "js"] },
+                totalBytes: { type: "integer" },
+                unusedBytes: { type: "integer" },
+                gzipSavings: { type: "integer" },
+                items: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: {
+                      kind: { type: "string", enum: ["css-rule", "js-function"] },
+                      name: { type: "string" },
+                      start: { type: "integer" },
+                      end: { type: "integer" },
+                      bytes: { type: "integer" },
+                      generatedLine: { type: "integer" },
+                      originalLine: { type: "integer" }
+                    },
+                    required: ["kind", "name", "start", "end", "bytes", "generatedLine"]
+                  }
+                }
+              },
+              required: ["path", "url", "kind", "totalBytes", "unusedBytes", "gzipSavings", "items"]
+            }
+          }
+        },
+        required: ["files"]
+      }
+    },
+    {
+      name: "playwright_coverage_trend",
+      description: "Show line/function/branch coverage of each run in the coverage store over time, with the cumulative total",
+      inputSchema: {
+        type: "object",
+        properties: {
+          limit: { type: "number", description: "Number of most recent runs to show (default: 20)" }
+        },
+        required: []
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          runs: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: { runId: { type: "string" }, updatedAt: { type: "string" }, totals: COVERAGE_TOTALS_SCHEMA },
+              required: ["runId", "updatedAt", "totals"]
+            }
+          },
+          cumulative: COVERAGE_TOTALS_SCHEMA
+        },
+        required: ["runs"]
+      }
+    },
+    // Parallel Test Execution Tools
+    {
+      name: "playwright_run_tests_parallel",
+      description: "Execute multiple test scenarios in parallel with configurable concurrency",
+      inputSchema: {
+        type: "object",
+        properties: {
+          tests: {
+            type: "array",
+            description: "Test scenarios. Each runs in its own browser session; actions call any registered tool (navigation, assertions, API calls, visual compares...) and stop at the first failing step",
+            items: {
+              type: "object",
+              properties: {
+                name: { type: "string", description: "Scenario name" },
+                browserType: { type: "string", enum: ["chromium", "firefox", "webkit"], description: "Browser for this scenario (default: chromium)" },
+                actions: {
+                  type: "array",
+                  description: "Steps to run in order",
+                  items: {
+                    type: "object",
+                    properties: {
+                      tool: { type: "string", description: "Tool name, e.g. playwright_navigate or playwright_assert_text_content" },
+                      args: { type: "object", description: "Tool arguments; sessionId is set to the scenario's session" }
+                    },
+                    required: ["tool"]
+                  }
+                },
+                timeout: { type: "number", description: "Timeout for this scenario in milliseconds" },
+                retries: { type: "number", description: "Retries for this scenario, overriding the run's retries" }
+              },
+              required: ["name", "actions"]
+            }
+          },
+          maxConcurrency: { type: "number", description: "Maximum concurrent tests (default: 3, capped by the resource manager's browser limit)" },
+          failFast: { type: "boolean", description: "Stop on the first failure or timeout of a scenario not in quarantine (default: false)" },
+          shardIndex: { type: "number", description: "Shard index for distributed execution" },
+          shardTotal: { type: "number", description: "Total number of shards" },
+          timeout: { type: "number", description: "Timeout per test in milliseconds (default: 60000)" },
+          trace: { type: "string", enum: ["on", "off", "retain-on-failure"], description: "Record a Playwright trace per scenario and keep it always, never, or for failures (default: retain-on-failure)" },
+          outputDir: { type: "string", description: "Directory for failure screenshots and traces (default: ./test-results/parallel)" },
+          headless: { type: "boolean", description: "Run browsers headless (default: true)" },
+          retries: { type: "number", description: "Retry a failed scenario this many times; one that passes on retry is reported as flaky (default: 0)" },
+          retryDelay: { type: "number", description: "Delay before the first retry in milliseconds, doubling for each further retry (default: 1000)" },
+          trackFlakes: { type: "boolean", description: "Record outcomes in the flake history and apply quarantine (default: true)" },
+          flakeThreshold: { type: "number", description: "Flake rate (0-1: share of recorded runs that passed only on retry or flipped between pass and fail since the run before) at which a scenario is quarantined: it still runs but its failures do not fail the suite (default: 0.2)" },
+          flakeMinRuns: { type: "number", description: "Recorded runs needed before a scenario can be quarantined (default: 5)" },
+          reporters: TEST_REPORTERS_PROPERTY,
+          title: { type: "string", description: "Suite name used in the reports (default: Parallel tests)" }
+        },
+        required: ["tests"]
+      },
+      outputSchema: TEST_RUN_OUTPUT_SCHEMA
+    },
+    {
+      name: "playwright_run_cross_browser",
+      description: "Run a test across multiple browsers (chromium, firefox, webkit) in parallel",
+      inputSchema: {
+        type: "object",
+        properties: {
+          test: { type: "object", description: "Test scenario with actions" },
+          browsers: { type: "array", items: { type: "string", enum: ["chromium", "firefox", "webkit"] }, description: "Browsers to test (default: all)" },
+          timeout: { type: "number", description: "Timeout per test in milliseconds (default: 60000)" },
+          trace: { type: "string", enum: ["on", "off", "retain-on-failure"], description: "Playwright trace per browser (default: retain-on-failure)" },
+          outputDir: { type: "string", description: "Directory for failure screenshots and traces (default: ./test-results/parallel)" },
+          headless: { type: "boolean", description: "Run browsers headless (default: true)" },
+          reporters: TEST_REPORTERS_PROPERTY,
+          retries: { type: "number", description: "Retry a failed browser run this many times; one that passes on retry is reported as flaky (default: 0)" },
+          retryDelay: { type: "number", description: "Delay before the first retry in milliseconds, doubling for each further retry (default: 1000)" },
+          trackFlakes: { type: "boolean", description: "Record outcomes in the flake history and apply quarantine (default: true)" },
+          flakeThreshold: { type: "number", description: "Flake rate (0-1: share of recorded runs that passed only on retry or flipped between pass and fail since the run before) at which a scenario is quarantined: it still runs but its failures do not fail the suite (default: 0.2)" },
+          flakeMinRuns: { type: "number", description: "Recorded runs needed before a scenario can be quarantined (default: 5)" }
+        },
+        required: ["test"]
+      },
+      outputSchema: TEST_RUN_OUTPUT_SCHEMA
+    },
+    {
+      name: "playwright_list_flaky_tests",
+      description: "Show the flake history recorded by parallel runs: flake rate, recent outcomes and quarantine status per scenario and browser",
+      inputSchema: {
+        type: "object",
+        properties: {
+          quarantinedOnly: { type: "boolean", description: "Only quarantined scenarios (default: false)" },
+          reset: {
+            oneOf: [
+              { type: "array", items: { type: "string" } },
+              { type: "string", enum: ["all"] }
+            ],
+            description: "Scenario keys (name@browser) whose history to forget, releasing them from quarantine, or 'all'"
+          }
+        }
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          tests: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                key: { type: "string" },
+                name: { type: "string" },
+                browser: { type: "string" },
+                runs: { type: "integer" },
+                flakeRate: { type: "number" },
+                quarantined: { type: "boolean" },
+                quarantinedAt: { type: "string" }
+              },
+              required: ["key", "name", "browser", "runs", "flakeRate", "quarantined"]
+            }
+          },
+          reset: { type: "array", items: { type: "string" }, description: "Keys whose history was reset" }
+        },
+        required: ["tests", "reset"]
       }
     },
+    // Baseline Management Tools
     {
-      name: "playwright_get_aria_snapshot",
-      description: "Get ARIA accessibility tree snapshot of the page or element",
+      name: "playwright_list_baselines",
+      description: "List baselines in the baseline store with their active version and pending diffs",
       inputSchema: {
         type: "object",
         properties: {
-          selector: { type: "string", description: "Element selector (scans entire page if not specified)" }
+          key: { type: "string", description: "Baseline key as shown by playwright_list_baselines" },
+          testName: { type: "string", description: "Test name (matches every browser/viewport/device unless narrowed)" },
+          browser: { type: "string", description: "Only baselines for this browser" },
+          device: { type: "string", description: "Only baselines for this device" },
+          pendingOnly: { type: "boolean", description: "Only baselines with a pending diff (default: false)" },
+          showHistory: { type: "boolean", description: "Include every version with its date, approver and git SHA (default: false)" }
         },
         required: []
-      }
-    },
-    {
-      name: "playwright_check_contrast",
-      description: "Check color contrast ratio for WCAG compliance",
-      inputSchema: {
+      },
+      outputSchema: {
         type: "object",
         properties: {
-          selector: { type: "string", description: "Element selector to check" },
-          level: { type: "string", enum: ["AA", "AAA"], description: "WCAG level (default: AA)" }
+          baselines: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                key: { type: "string" },
+                testName: { type: "string" },
+                browser: { type: "string" },
+                device: { type: "string" },
+                activeVersion: { type: "integer" },
+                versions: { type: "array", items: { type: "object" } },
+                pending: { type: "object", description: "Diff awaiting approval" }
+              },
+              required: ["key", "activeVersion", "versions"]
+            }
+          }
         },
-        required: ["selector"]
+        required: ["baselines"]
       }
     },
     {
-      name: "playwright_check_keyboard_navigation",
-      description: "Check keyboard navigation and focusable elements on the page",
+      name: "playwright_approve_baseline",
+      description: "Accept pending current screenshots as new baseline versions",
       inputSchema: {
         type: "object",
-        properties: {},
+        properties: {
+          key: { type: "string", description: "Baseline key as shown by playwright_list_baselines" },
+          testName: { type: "string", description: "Test name (matches every browser/viewport/device unless narrowed)" },
+          browser: { type: "string", description: "Only baselines for this browser" },
+          device: { type: "string", description: "Only baselines for this device" },
+          all: { type: "boolean", description: "Approve every pending diff" },
+          approver: { type: "string", description: "Who approved the change (default: $USER)" },
+          note: { type: "string", description: "Note recorded with the new version" }
+        },
         required: []
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          approved: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: { key: { type: "string" }, version: { type: "object" } },
+              required: ["key", "version"]
+            }
+          }
+        },
+        required: ["approved"]
       }
     },
-    // Code Coverage Tools
     {
-      name: "playwright_start_coverage",
-      description: "Start collecting JavaScript and CSS code coverage",
+      name: "playwright_reject_baseline",
+      description: "Reject pending diffs, keeping the current baselines and deleting the captured current/diff images",
       inputSchema: {
         type: "object",
         properties: {
-          js: { type: "boolean", description: "Collect JavaScript coverage (default: true)" },
-          css: { type: "boolean", description: "Collect CSS coverage (default: true)" },
-          resetOnNavigation: { type: "boolean", description: "Reset coverage on navigation (default: false)" }
+          key: { type: "string", description: "Baseline key as shown by playwright_list_baselines" },
+          testName: { type: "string", description: "Test name (matches every browser/viewport/device unless narrowed)" },
+          browser: { type: "string", description: "Only baselines for this browser" },
+          device: { type: "string", description: "Only baselines for this device" },
+          all: { type: "boolean", description: "Reject every pending diff" }
         },
         required: []
+      },
+      outputSchema: {
+        type: "object",
+        properties: { rejected: { type: "array", items: { type: "string" } } },
+        required: ["rejected"]
       }
     },
     {
-      name: "playwright_get_coverage",
-      description: "Stop coverage collection and get results with detailed statistics",
+      name: "playwright_prune_baselines",
+      description: "Delete orphaned current/diff images and, optionally, old baseline versions",
       inputSchema: {
         type: "object",
         properties: {
-          type: { type: "string", enum: ["js", "css", "both"], description: "Coverage type to retrieve (default: both)" },
-          saveToFile: { type: "string", description: "Path to save coverage data JSON file" },
-          includeRawData: { type: "boolean", description: "Include raw coverage data (default: false)" }
+          keepVersions: { type: "number", description: "Versions to keep per baseline, including the active one (default: keep all)" },
+          directory: { type: "string", description: "Also delete current-<timestamp>.png, *-current.png and *-diff.png files left by file-path comparisons under this directory" },
+          olderThanHours: { type: "number", description: "Only delete loose files in directory older than this (default: 0)" },
+          dryRun: { type: "boolean", description: "List what would be deleted without deleting (default: false)" }
         },
         required: []
-      }
-    },
-    {
-      name: "playwright_generate_coverage_report",
-      description: "Generate coverage report in various formats from coverage data file",
-      inputSchema: {
+      },
+      outputSchema: {
         type: "object",
         properties: {
-          coverageFile: { type: "string", description: "Path to coverage data JSON file" },
-          outputFile: { type: "string", description: "Path for output report file" },
-          format: { type: "string", enum: ["html", "json", "lcov", "text"], description: "Report format (default: html)" }
+          dryRun: { type: "boolean" },
+          removed: { type: "array", items: { type: "string" } }
         },
-        required: ["coverageFile", "outputFile"]
+        required: ["dryRun", "removed"]
       }
     },
     {
-      name: "playwright_compare_coverage",
-      description: "Compare coverage between baseline and current test runs",
+      name: "playwright_generate_visual_report",
+      description: "Write every visual comparison made in this run to one offline HTML report with side-by-side, onion-skin and slider views, ignored dynamic regions and approve/reject buttons",
       inputSchema: {
         type: "object",
         properties: {
-          baselinePath: { type: "string", description: "Path to baseline coverage JSON file" },
-          currentPath: { type: "string", description: "Path to current coverage JSON file" }
+          outputPath: { type: "string", description: "Path of the HTML file to write" },
+          title: { type: "string", description: "Report title (default: 'Visual Regression Report')" },
+          onlyFailures: { type: "boolean", description: "Leave passing comparisons out (default: false)" },
+          reset: { type: "boolean", description: "Forget the recorded comparisons after writing the report (default: false)" }
         },
-        required: ["baselinePath", "currentPath"]
-      }
-    },
-    // Parallel Test Execution Tools
-    {
-      name: "playwright_run_tests_parallel",
-      description: "Execute multiple test scenarios in parallel with configurable concurrency",
-      inputSchema: {
+        required: ["outputPath"]
+      },
+      outputSchema: {
         type: "object",
         properties: {
-          tests: { type: "array", description: "Array of test scenarios with actions", items: { type: "object" } },
-          maxConcurrency: { type: "number", description: "Maximum concurrent tests (default: 3)" },
-          failFast: { type: "boolean", description: "Stop on first failure (default: false)" },
-          shardIndex: { type: "number", description: "Shard index for distributed execution" },
-          shardTotal: { type: "number", description: "Total number of shards" },
-          timeout: { type: "number", description: "Timeout per test in milliseconds (default: 60000)" }
+          path: { type: "string" },
+          comparisons: { type: "integer" },
+          failed: { type: "integer" }
         },
-        required: ["tests"]
+        required: ["path", "comparisons", "failed"]
       }
     },
     {
-      name: "playwright_run_cross_browser",
-      description: "Run a test across multiple browsers (chromium, firefox, webkit) in parallel",
+      name: "playwright_apply_visual_approvals",
+      description: "Apply the approval manifest downloaded from a visual report: approved images become baselines, rejected pending diffs are dropped",
       inputSchema: {
         type: "object",
         properties: {
-          test: { type: "object", description: "Test scenario with actions" },
-          browsers: { type: "array", items: { type: "string", enum: ["chromium", "firefox", "webkit"] }, description: "Browsers to test (default: all)" },
-          timeout: { type: "number", description: "Timeout per test in milliseconds (default: 60000)" }
+          manifestPath: { type: "string", description: "Path to the downloaded visual-approvals.json" },
+          approver: { type: "string", description: "Approver to record (default: the name entered in the report)" }
         },
-        required: ["test"]
+        required: ["manifestPath"]
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          applied: { type: "integer" },
+          total: { type: "integer" }
+        },
+        required: ["applied", "total"]
       }
     },
     // Visual AI Testing Tools
@@ -1226,10 +2904,15 @@ export function createToolDefinitions() {
           ignoreRegions: { type: "string", description: "'auto' for AI detection, 'none', or array of regions" },
           detectDynamic: { type: "boolean", description: "Detect and ignore dynamic content (default: true)" },
           saveDiff: { type: "boolean", description: "Save diff image (default: true)" },
-          diffPath: { type: "string", description: "Path to save diff image" }
+          diffPath: { type: "string", description: "Path to save diff image" },
+          currentPath: { type: "string", description: "Path to save the current screenshot when saveDiff is on (default: baseline path with '-current' suffix)" },
+          name: { type: "string", description: "Label for this comparison in visual reports" },
+          modelPath: { type: "string", description: "Model trained with playwright_train_visual_model; its predicted dynamic regions are ignored too" },
+          trainingSampleDir: { type: "string", description: "Save the screenshots, a DOM snapshot and a sample.json prefilled with the detected regions to this directory, for labelling and training" }
         },
         required: ["baselinePath"]
-      }
+      },
+      outputSchema: VISUAL_COMPARE_OUTPUT_SCHEMA
     },
     {
       name: "playwright_batch_ai_visual_compare",
@@ -1240,19 +2923,88 @@ export function createToolDefinitions() {
           comparisons: { type: "array", description: "Array of comparison configs with url and baselinePath", items: { type: "object" } },
           threshold: { type: "number", description: "Difference threshold (default: 0.1)" },
           detectDynamic: { type: "boolean", description: "Detect dynamic content (default: true)" },
-          failFast: { type: "boolean", description: "Stop on first failure (default: false)" }
+          failFast: { type: "boolean", description: "Stop on first failure (default: false)" },
+          modelPath: { type: "string", description: "Model trained with playwright_train_visual_model, used for every comparison" },
+          reportPath: { type: "string", description: "Write a self-contained HTML report of the batch to this path" },
+          reportTitle: { type: "string", description: "Title of the HTML report" }
         },
         required: ["comparisons"]
+      },
+      outputSchema: BATCH_VISUAL_COMPARE_OUTPUT_SCHEMA
+    },
+    {
+      name: "playwright_train_visual_model",
+      description: "Train a lightweight local model that predicts dynamic regions (tickers, charts, counters) from labelled baseline/current screenshot pairs and DOM snapshots",
+      inputSchema: {
+        type: "object",
+        properties: {
+          trainingDataPath: { type: "string", description: "Manifest JSON ({ samples: [{ baseline, current, dom?, dynamicRegions: [{ x, y, width, height }] }] }) or a directory of sample folders each containing a sample.json" },
+          modelOutputPath: { type: "string", description: "Path to write the trained model JSON" },
+          modelType: { type: "string", enum: ["dynamic_content_detection"], description: "Model type (default: dynamic_content_detection)" },
+          epochs: { type: "number", description: "Training passes over the data (default: 25)" },
+          learningRate: { type: "number", description: "Initial learning rate (default: 0.1)" },
+          blockSize: { type: "number", description: "Size in pixels of the grid blocks scored alongside DOM elements (default: 64)" }
+        },
+        required: ["trainingDataPath", "modelOutputPath"]
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          modelPath: { type: "string" },
+          decisionThreshold: { type: "number" },
+          training: { type: "object" },
+          topFeatures: { type: "array", items: { type: "object" } }
+        },
+        required: ["modelPath", "decisionThreshold", "training", "topFeatures"]
       }
     },
     // Resource Management Tools
     {
       name: "playwright_get_resource_usage",
-      description: "Get current resource usage statistics (browsers, sessions, memory, queue)",
+      description: "Get current resource usage statistics (browsers, sessions, memory, CPU, queue). Memory and CPU cover the server and every browser's process tree (Linux), with per-session metrics, JS heap and DOM counts (Chromium) and a memory trend to spot leaking flows",
       inputSchema: {
         type: "object",
-        properties: {},
+        properties: {
+          sessionId: { type: "string", description: "Only report this session; closed sessions keep their history for a while" },
+          history: { type: "boolean", description: "Include every sample of the rolling history (default: false)" },
+          includeClosed: { type: "boolean", description: "Also report recently closed sessions (default: false)" }
+        },
         required: []
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          usage: {
+            type: "object",
+            properties: {
+              activeBrowsers: { type: "integer" },
+              activeSessions: { type: "integer" },
+              queuedRequests: { type: "integer" },
+              memoryUsageMB: { type: "number" },
+              nodeMemoryMB: { type: "number" },
+              browserMemoryMB: { type: "number" },
+              browserProcesses: { type: "integer" },
+              cpuUsagePercent: { type: "number" }
+            },
+            required: ["activeBrowsers", "activeSessions", "queuedRequests", "memoryUsageMB", "cpuUsagePercent"]
+          },
+          sessions: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                sessionId: { type: "string" },
+                browserType: { type: "string" },
+                closed: { type: "boolean" },
+                latest: SESSION_METRICS_SAMPLE_SCHEMA,
+                history: { type: "array", items: SESSION_METRICS_SAMPLE_SCHEMA },
+                growthMBPerMinute: { type: "number" }
+              },
+              required: ["sessionId", "browserType", "closed"]
+            }
+          }
+        },
+        required: ["usage", "sessions"]
       }
     },
     {
@@ -1262,13 +3014,23 @@ export function createToolDefinitions() {
         type: "object",
         properties: {
           maxConcurrentBrowsers: { type: "number", description: "Maximum concurrent browsers" },
-          maxSessionsPerUser: { type: "number", description: "Maximum sessions per user" },
+          maxSessionsPerUser: { type: "number", description: "Maximum sessions per MCP client (HTTP session, or client name over stdio)" },
           maxTotalSessions: { type: "number", description: "Maximum total sessions" },
           sessionIdleTimeout: { type: "number", description: "Session idle timeout in milliseconds" },
           queueTimeout: { type: "number", description: "Queue timeout in milliseconds" },
-          maxQueueSize: { type: "number", description: "Maximum queue size" }
+          maxQueueSize: { type: "number", description: "Maximum queue size" },
+          memoryLimitMB: { type: "number", description: "Memory limit in MB; when exceeded, least-recently-used idle sessions are closed and new sessions are refused until usage drops" },
+          evictionMinIdleMs: { type: "number", description: "Only sessions idle for at least this long are closed to free memory (default: 30000)" }
         },
         required: []
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          updated: { type: "object", description: "Limits changed by this call" },
+          limits: { type: "object", description: "Every limit after the update" }
+        },
+        required: ["updated", "limits"]
       }
     },
     // Session Persistence Tools
@@ -1281,7 +3043,8 @@ export function createToolDefinitions() {
           sessionId: { type: "string", description: "Session ID to recover" }
         },
         required: ["sessionId"]
-      }
+      },
+      outputSchema: SESSION_OUTPUT_SCHEMA
     },
     {
       name: "playwright_recover_all_sessions",
@@ -1290,6 +3053,21 @@ export function createToolDefinitions() {
         type: "object",
         properties: {},
         required: []
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          recovered: { type: "array", items: { type: "string" } },
+          failed: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: { id: { type: "string" }, error: { type: "string" } },
+              required: ["id", "error"]
+            }
+          }
+        },
+        required: ["recovered", "failed"]
       }
     },
     {
@@ -1299,6 +3077,17 @@ export function createToolDefinitions() {
         type: "object",
         properties: {},
         required: []
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          total: { type: "integer" },
+          byBrowserType: { type: "object", additionalProperties: { type: "integer" } },
+          oldestSession: { type: ["string", "null"] },
+          newestSession: { type: ["string", "null"] },
+          totalSizeBytes: { type: "integer" }
+        },
+        required: ["total", "byBrowserType", "oldestSession", "newestSession", "totalSizeBytes"]
       }
     },
     // PDF Testing Tools
@@ -1318,6 +3107,17 @@ export function createToolDefinitions() {
           }
         },
         required: ["pdfPath"]
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          path: { type: "string" },
+          pages: { type: "integer" },
+          characters: { type: "integer" },
+          text: { type: "string" },
+          savedTo: { type: "string" }
+        },
+        required: ["path", "pages", "characters", "text"]
       }
     },
     {
@@ -1344,6 +3144,19 @@ export function createToolDefinitions() {
           }
         },
         required: ["pdfPath", "expectedText"]
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          passed: { type: "boolean" },
+          path: { type: "string" },
+          pages: { type: "integer" },
+          expectedText: { type: "string" },
+          exactMatch: { type: "boolean" },
+          caseSensitive: { type: "boolean" },
+          occurrences: { type: "integer" }
+        },
+        required: ["passed", "path", "pages", "expectedText", "occurrences"]
       }
     },
     {
@@ -1358,6 +3171,19 @@ export function createToolDefinitions() {
           }
         },
         required: ["pdfPath"]
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          path: { type: "string" },
+          pages: { type: "integer" },
+          sizeBytes: { type: "integer" },
+          characters: { type: "integer" },
+          title: { type: "string" },
+          author: { type: "string" },
+          version: { type: "string" }
+        },
+        required: ["path", "pages", "sizeBytes", "characters"]
       }
     },
     {
@@ -1388,6 +3214,19 @@ export function createToolDefinitions() {
           }
         },
         required: ["triggerSelector"]
+      },
+      outputSchema: {
+        type: "object",
+        properties: {
+          filename: { type: "string" },
+          path: { type: "string" },
+          sizeBytes: { type: "integer" },
+          pages: { type: "integer" },
+          characters: { type: "integer" },
+          text: { type: "string" },
+          extractError: { type: "string", description: "Set when the file was downloaded but its text could not be extracted" }
+        },
+        required: ["filename", "path", "sizeBytes"]
       }
     },
     // Advanced Assertions Tools
@@ -1412,7 +3251,8 @@ export function createToolDefinitions() {
           }
         },
         required: ["selector", "state"]
-      }
+      },
+      outputSchema: ASSERTION_OUTPUT_SCHEMA
     },
     {
       name: "playwright_assert_element_count",
@@ -1439,7 +3279,8 @@ export function createToolDefinitions() {
           }
         },
         required: ["selector", "count"]
-      }
+      },
+      outputSchema: ASSERTION_OUTPUT_SCHEMA
     },
     {
       name: "playwright_assert_text_content",
@@ -1470,7 +3311,8 @@ export function createToolDefinitions() {
           }
         },
         required: ["selector", "expectedText"]
-      }
+      },
+      outputSchema: ASSERTION_OUTPUT_SCHEMA
     },
     {
       name: "playwright_assert_attribute",
@@ -1505,7 +3347,8 @@ export function createToolDefinitions() {
           }
         },
         required: ["selector", "attribute"]
-      }
+      },
+      outputSchema: ASSERTION_OUTPUT_SCHEMA
     },
     {
       name: "playwright_assert_css_property",
@@ -1531,7 +3374,8 @@ export function createToolDefinitions() {
           }
         },
         required: ["selector", "property", "expectedValue"]
-      }
+      },
+      outputSchema: ASSERTION_OUTPUT_SCHEMA
     },
     {
       name: "playwright_assert_request_made",
@@ -1558,6 +3402,130 @@ export function createToolDefinitions() {
           }
         },
         required: ["urlPattern"]
+      },
+      outputSchema: ASSERTION_OUTPUT_SCHEMA
+    },
+    // Network Mocking Tools
+    {
+      name: "playwright_mock_route",
+      description: "Stub responses for requests matching a URL pattern (page.route) with static JSON, text or a file",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...ROUTE_MATCH_PROPERTIES,
+          status: { type: "number", description: "Response status code (default: 200)" },
+          headers: {
+            type: "object",
+            description: "Response headers",
+            additionalProperties: { type: "string" }
+          },
+          json: { description: "JSON response body (sets content-type to application/json)" },
+          body: { type: "string", description: "Text response body" },
+          filePath: { type: "string", description: "File to serve as the response body" },
+          contentType: { type: "string", description: "Response content type" },
+          delay: { type: "number", description: "Delay before responding in milliseconds" }
+        },
+        required: ["url"]
+      },
+      outputSchema: ROUTE_OUTPUT_SCHEMA
+    },
+    {
+      name: "playwright_abort_route",
+      description: "Abort requests matching a URL pattern with a network error, optionally after a delay",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...ROUTE_MATCH_PROPERTIES,
+          errorCode: {
+            type: "string",
+            enum: ["aborted", "accessdenied", "addressunreachable", "blockedbyclient", "blockedbyresponse", "connectionaborted", "connectionclosed", "connectionfailed", "connectionrefused", "connectionreset", "internetdisconnected", "namenotresolved", "timedout", "failed"],
+            description: "Network error to fail the request with (default: failed)"
+          },
+          delay: { type: "number", description: "Delay before aborting in milliseconds" }
+        },
+        required: ["url"]
+      },
+      outputSchema: ROUTE_OUTPUT_SCHEMA
+    },
+    {
+      name: "playwright_modify_route",
+      description: "Let requests matching a URL pattern through after a delay and/or with rewritten request or response headers",
+      inputSchema: {
+        type: "object",
+        properties: {
+          ...ROUTE_MATCH_PROPERTIES,
+          delay: { type: "number", description: "Delay before sending the request in milliseconds" },
+          requestHeaders: {
+            type: "object",
+            description: "Request headers to set or override",
+            additionalProperties: { type: "string" }
+          },
+          removeRequestHeaders: {
+            type: "array",
+            items: { type: "string" },
+            description: "Request headers to remove"
+          },
+          responseHeaders: {
+            type: "object",
+            description: "Response headers to set or override",
+            additionalProperties: { type: "string" }
+          }
+        },
+        required: ["url"]
+      },
+      outputSchema: ROUTE_OUTPUT_SCHEMA
+    },
+    {
+      name: "playwright_route_from_har",
+      description: "Serve requests from a HAR file (page.routeFromHAR), or record matching traffic into it",
+      inputSchema: {
+        type: "object",
+        properties: {
+          harPath: { type: "string", description: "Path to the HAR file" },
+          url: { type: "string", description: "Only serve requests matching this glob pattern (default: all requests)" },
+          regex: { type: "boolean", description: "Treat url as a regular expression (default: false)" },
+          notFound: {
+            type: "string",
+            enum: ["abort", "fallback"],
+            description: "What to do with requests missing from the HAR (default: abort)"
+          },
+          update: { type: "boolean", description: "Record real responses into the HAR file instead of serving from it (default: false)" },
+          id: { type: "string", description: "Route ID (default: auto-generated)" }
+        },
+        required: ["harPath"]
+      },
+      outputSchema: ROUTE_OUTPUT_SCHEMA
+    },
+    {
+      name: "playwright_list_routes",
+      description: "List the active routes with their hit counts",
+      inputSchema: {
+        type: "object",
+        properties: {},
+        required: []
+      },
+      outputSchema: {
+        type: "object",
+        properties: { routes: { type: "array", items: ROUTE_INFO_SCHEMA } },
+        required: ["routes"]
+      }
+    },
+    {
+      name: "playwright_remove_route",
+      description: "Remove a route by ID or URL pattern, or all routes",
+      inputSchema: {
+        type: "object",
+        properties: {
+          id: { type: "string", description: "Route ID" },
+          url: { type: "string", description: "Remove every route with this URL pattern" },
+          all: { type: "boolean", description: "Remove all routes" }
+        },
+        required: []
+      },
+      outputSchema: {
+        type: "object",
+        properties: { removed: { type: "array", items: { type: "string" }, description: "IDs of the removed routes" } },
+        required: ["removed"]
       }
     },
     // Video Recording Tools
@@ -1585,7 +3553,8 @@ export function createToolDefinitions() {
           }
         },
         required: []
-      }
+      },
+      outputSchema: VIDEO_STATUS_OUTPUT_SCHEMA
     },
     {
       name: "playwright_stop_video_recording",
@@ -1603,7 +3572,8 @@ export function createToolDefinitions() {
           }
         },
         required: []
-      }
+      },
+      outputSchema: VIDEO_STATUS_OUTPUT_SCHEMA
     },
     {
       name: "playwright_add_video_annotation",
@@ -1621,7 +3591,8 @@ export function createToolDefinitions() {
           }
         },
         required: ["message"]
-      }
+      },
+      outputSchema: MESSAGE_OUTPUT_SCHEMA
     },
     {
       name: "playwright_configure_video_settings",
@@ -1655,7 +3626,8 @@ export function createToolDefinitions() {
           }
         },
         required: []
-      }
+      },
+      outputSchema: VIDEO_STATUS_OUTPUT_SCHEMA
     },
     {
       name: "playwright_get_video_status",
@@ -1664,9 +3636,35 @@ export function createToolDefinitions() {
         type: "object",
         properties: {},
         required: []
-      }
+      },
+      outputSchema: VIDEO_STATUS_OUTPUT_SCHEMA
     },
-  ] as const satisfies Tool[];
+  ] satisfies Tool[];
+
+  return definitions.map(addSessionIdParameter);
+}
+
+/**
+ * Adds the optional sessionId parameter to tools that run against a browser session
+ */
+function addSessionIdParameter(definition: Tool): Tool {
+  if (!SESSION_SCOPED_TOOLS.includes(definition.name)) {
+    return definition;
+  }
+
+  return {
+    ...definition,
+    inputSchema: {
+      ...definition.inputSchema,
+      properties: {
+        ...definition.inputSchema.properties,
+        sessionId: {
+          type: "string",
+          description: "Browser session to run against (default: the active session). The session is launched on first use if it does not exist"
+        }
+      }
+    }
+  };
 }
 
 // Browser-requiring tools for conditional browser launch
@@ -1723,6 +3721,8 @@ export const BROWSER_TOOLS = [
   // Coverage tools
   "playwright_start_coverage",
   "playwright_get_coverage",
+  "playwright_generate_coverage_report",
+  "playwright_compare_coverage",
   // Visual AI tools
   "playwright_ai_visual_compare",
   "playwright_batch_ai_visual_compare",
@@ -1743,7 +3743,20 @@ export const BROWSER_TOOLS = [
   "playwright_stop_video_recording",
   "playwright_add_video_annotation",
   "playwright_configure_video_settings",
-  "playwright_get_video_status"
+  "playwright_get_video_status",
+  // Network mocking tools
+  "playwright_mock_route",
+  "playwright_abort_route",
+  "playwright_modify_route",
+  "playwright_route_from_har",
+  "playwright_list_routes",
+  "playwright_remove_route"
+];
+
+// Tools that run against a browser session and accept a sessionId
+export const SESSION_SCOPED_TOOLS = [
+  ...BROWSER_TOOLS,
+  "playwright_console_logs"
 ];
 
 // API Request tools for conditional launch
@@ -1752,7 +3765,15 @@ export const API_TOOLS = [
   "playwright_post",
   "playwright_put",
   "playwright_delete",
-  "playwright_patch"
+  "playwright_patch",
+  "playwright_assert_api_response"
+];
+
+// API context management tools
+export const API_CONTEXT_TOOLS = [
+  'playwright_api_create_context',
+  'playwright_api_list_contexts',
+  'playwright_api_close_context'
 ];
 
 // Codegen tools
@@ -1760,13 +3781,15 @@ export const CODEGEN_TOOLS = [
   'start_codegen_session',
   'end_codegen_session',
   'get_codegen_session',
-  'clear_codegen_session'
+  'clear_codegen_session',
+  'replay_codegen_session',
+  'import_spec_file'
 ];
 
 // Session management tools
 export const SESSION_TOOLS = [
   'create_browser_session',
-  'list_browser_session',
+  'list_browser_sessions',
   'close_browser_session',
   'switch_browser_session',
   'get_session_info',
@@ -1799,19 +3822,40 @@ export const COVERAGE_TOOLS = [
   'playwright_start_coverage',
   'playwright_get_coverage',
   'playwright_generate_coverage_report',
-  'playwright_compare_coverage'
+  'playwright_compare_coverage',
+  'playwright_merge_coverage',
+  'playwright_check_coverage_thresholds',
+  'playwright_coverage_trend',
+  'playwright_find_unused_code'
 ];
 
 // Parallel execution tools
 export const PARALLEL_EXECUTION_TOOLS = [
   'playwright_run_tests_parallel',
-  'playwright_run_cross_browser'
+  'playwright_run_cross_browser',
+  'playwright_list_flaky_tests'
 ];
 
 // Visual AI testing tools
 export const VISUAL_AI_TOOLS = [
   'playwright_ai_visual_compare',
-  'playwright_batch_ai_visual_compare'
+  'playwright_batch_ai_visual_compare',
+  'playwright_train_visual_model'
+];
+
+// Baseline management tools
+export const BASELINE_TOOLS = [
+  'playwright_list_baselines',
+  'playwright_approve_baseline',
+  'playwright_reject_baseline',
+  'playwright_prune_baselines',
+  'playwright_generate_visual_report',
+  'playwright_apply_visual_approvals'
+];
+
+// Self-healing locator tools
+export const SELF_HEALING_TOOLS = [
+  'playwright_self_healing'
 ];
 
 // Resource management tools
@@ -1847,10 +3891,21 @@ export const VIDEO_RECORDING_TOOLS = [
   'playwright_get_video_status'
 ];
 
+// Network mocking tools
+export const NETWORK_MOCKING_TOOLS = [
+  'playwright_mock_route',
+  'playwright_abort_route',
+  'playwright_modify_route',
+  'playwright_route_from_har',
+  'playwright_list_routes',
+  'playwright_remove_route'
+];
+
 // All available tools
 export const tools = [
   ...BROWSER_TOOLS,
   ...API_TOOLS,
+  ...API_CONTEXT_TOOLS,
   ...CODEGEN_TOOLS,
   ...SESSION_TOOLS,
   ...SMART_WAIT_TOOLS,
@@ -1858,8 +3913,11 @@ export const tools = [
   ...COVERAGE_TOOLS,
   ...PARALLEL_EXECUTION_TOOLS,
   ...VISUAL_AI_TOOLS,
+  ...BASELINE_TOOLS,
   ...RESOURCE_MANAGEMENT_TOOLS,
+  ...SELF_HEALING_TOOLS,
   ...PDF_TESTING_TOOLS,
   ...ASSERTION_TOOLS,
-  ...VIDEO_RECORDING_TOOLS
+  ...VIDEO_RECORDING_TOOLS,
+  ...NETWORK_MOCKING_TOOLS
 ];
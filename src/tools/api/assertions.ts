@@ -0,0 +1,197 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+import { isDeepStrictEqual } from 'util';
+import Ajv from 'ajv';
+import { JSONPath } from 'jsonpath-plus';
+import { ApiToolBase } from './base.js';
+import { apiContextManager, ApiResponseRecord } from './contextManager.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
+
+/**
+ * Expectation on the value(s) selected by a JSONPath expression
+ */
+interface JsonPathExpectation {
+  path: string;
+  equals?: unknown;
+  contains?: unknown;
+  matches?: string;
+  exists?: boolean;
+}
+
+/**
+ * Result of a single check made by the assertion
+ */
+interface ApiCheckResult {
+  check: 'status' | 'header' | 'jsonPath' | 'jsonSchema';
+  target?: string;
+  passed: boolean;
+  expected: unknown;
+  actual: unknown;
+  message?: string;
+}
+
+/**
+ * Assert status, headers, JSONPath values and a JSON Schema on an API response.
+ * Sends the request when a url is given, otherwise checks the context's last response
+ */
+export class AssertApiResponseTool extends ApiToolBase {
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async () => {
+      const { expectedStatus, expectedHeaders, jsonPath, jsonSchema } = args;
+
+      if (expectedStatus === undefined && !expectedHeaders && !jsonPath?.length && !jsonSchema) {
+        return createErrorResponse('At least one of expectedStatus, expectedHeaders, jsonPath or jsonSchema is required');
+      }
+
+      if (args.url) {
+        await this.sendRequest((args.method || 'GET').toUpperCase(), args);
+      } else if (args.method) {
+        return createErrorResponse('url is required when method is given');
+      }
+
+      const record: ApiResponseRecord | undefined = apiContextManager.getContext(args.context)?.lastResponse;
+
+      if (!record) {
+        return createErrorResponse(`No response to assert: give a url or send a request through API context '${args.context || 'default'}' first`);
+      }
+
+      let body: unknown = record.text;
+      let isJson = false;
+      try {
+        body = JSON.parse(record.text);
+        isJson = true;
+      } catch {
+        // Not JSON: JSONPath and schema checks fail below
+      }
+
+      const checks: ApiCheckResult[] = [];
+
+      if (expectedStatus !== undefined) {
+        const allowed: number[] = Array.isArray(expectedStatus) ? expectedStatus : [expectedStatus];
+        checks.push({
+          check: 'status',
+          passed: allowed.includes(record.status),
+          expected: expectedStatus,
+          actual: record.status,
+        });
+      }
+
+      for (const [name, expectedValue] of Object.entries<string>(expectedHeaders || {})) {
+        const actual = record.headers[name.toLowerCase()];
+        checks.push({
+          check: 'header',
+          target: name,
+          passed: actual !== undefined && actual.includes(expectedValue),
+          expected: expectedValue,
+          actual: actual ?? null,
+        });
+      }
+
+      for (const expectation of (jsonPath || []) as JsonPathExpectation[]) {
+        checks.push(isJson
+          ? this.checkJsonPath(body, expectation)
+          : { check: 'jsonPath', target: expectation.path, passed: false, expected: this.describeExpectation(expectation), actual: null, message: 'Response body is not JSON' });
+      }
+
+      if (jsonSchema) {
+        checks.push(isJson
+          ? this.checkJsonSchema(body, jsonSchema)
+          : { check: 'jsonSchema', passed: false, expected: 'valid against schema', actual: null, message: 'Response body is not JSON' });
+      }
+
+      const passed = checks.every(check => check.passed);
+      const output = [
+        `${passed ? '\u{2705}' : '\u{274C}'} API Response Assertion ${passed ? 'PASSED' : 'FAILED'}`,
+        ``,
+        `Request: ${record.method} ${record.url}`,
+        `Status: ${record.status} ${record.statusText}`,
+        ``,
+        ...checks.map(check => {
+          const label = check.target ? `${check.check} ${check.target}` : check.check;
+          const detail = check.message || `expected ${JSON.stringify(check.expected)}, got ${JSON.stringify(check.actual)}`;
+          return `${check.passed ? '\u{2713}' : '\u{2717}'} ${label}: ${check.passed ? 'passed' : detail}`;
+        })
+      ];
+      const structured = {
+        passed,
+        assertion: 'api_response',
+        method: record.method,
+        url: record.url,
+        status: record.status,
+        checks
+      };
+
+      return passed
+        ? createSuccessResponse(output.join('\n'), structured)
+        : createErrorResponse(output.join('\n'), structured);
+    });
+  }
+
+  /**
+   * Evaluate a JSONPath expectation against the response body
+   */
+  private checkJsonPath(body: unknown, expectation: JsonPathExpectation): ApiCheckResult {
+    const values: unknown[] = JSONPath({ path: expectation.path, json: body as any, wrap: true }) || [];
+    const found = values.length > 0;
+    const actual = values.length === 1 ? values[0] : found ? values : null;
+    const result: ApiCheckResult = {
+      check: 'jsonPath',
+      target: expectation.path,
+      passed: true,
+      expected: this.describeExpectation(expectation),
+      actual,
+    };
+
+    if (expectation.exists === false) {
+      result.passed = !found;
+      return result;
+    }
+    if (!found) {
+      result.passed = false;
+      result.message = 'No value found at path';
+      return result;
+    }
+
+    if (expectation.equals !== undefined) {
+      result.passed = result.passed && isDeepStrictEqual(actual, expectation.equals);
+    }
+    if (expectation.contains !== undefined) {
+      result.passed = result.passed && (Array.isArray(actual)
+        ? actual.some(item => isDeepStrictEqual(item, expectation.contains))
+        : String(actual).includes(String(expectation.contains)));
+    }
+    if (expectation.matches !== undefined) {
+      result.passed = result.passed && new RegExp(expectation.matches).test(String(actual));
+    }
+    return result;
+  }
+
+  /**
+   * Validate the response body against a JSON Schema
+   */
+  private checkJsonSchema(body: unknown, schema: object): ApiCheckResult {
+    // A fresh instance per call: Ajv keeps compiled schemas by $id and rejects a second compile
+    const validate = new Ajv({ allErrors: true, strict: false }).compile(schema);
+    const valid = validate(body) as boolean;
+    const errors = (validate.errors || []).map(error => `${error.instancePath || '/'} ${error.message}`);
+
+    return {
+      check: 'jsonSchema',
+      passed: valid,
+      expected: 'valid against schema',
+      actual: valid ? 'valid' : errors,
+      ...(valid ? {} : { message: `Schema validation failed: ${errors.join('; ')}` }),
+    };
+  }
+
+  /**
+   * Summarize what a JSONPath expectation checks for
+   */
+  private describeExpectation(expectation: JsonPathExpectation): Record<string, unknown> {
+    const { path, ...rest } = expectation;
+    return Object.keys(rest).length > 0 ? rest : { exists: true };
+  }
+}
@@ -3,8 +3,12 @@
  * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
  */
 
-import type { APIRequestContext } from 'playwright';
-import { ToolHandler, ToolContext, ToolResponse, createErrorResponse } from '../common/types.js';
+import type { APIRequestContext, APIResponse } from 'playwright';
+import { ToolHandler, ToolContext, ToolResponse, createErrorResponse, createSuccessResponse } from '../common/types.js';
+import { apiContextManager, ApiRequestOptions } from './contextManager.js';
+
+// Bodies longer than this are returned as truncated text in structured results
+const MAX_STRUCTURED_BODY_LENGTH = 1_000_000;
 
 /**
  * Base class for all API-based tools
@@ -65,4 +69,76 @@ export abstract class ApiToolBase implements ToolHandler {
       return createErrorResponse(`API operation failed: ${(error as Error).message}`);
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Sends a request through the API context named by args.context, passing on
+   * the per-request headers, token, query params, body and timeout from the tool arguments
+   * @param method HTTP method
+   * @param args Tool arguments
+   * @throws Error if a JSON body cannot be parsed or the context does not exist
+   */
+  protected async sendRequest(method: string, args: any): Promise<APIResponse> {
+    const options: ApiRequestOptions = {
+      headers: args.headers,
+      params: args.params,
+      form: args.form,
+      multipart: args.multipart,
+      token: args.token,
+      timeout: args.timeout,
+    };
+
+    if (args.value !== undefined) {
+      // Parse the value as JSON if it starts with { or [
+      if (typeof args.value === 'string' && (args.value.startsWith('{') || args.value.startsWith('['))) {
+        try {
+          options.data = JSON.parse(args.value);
+        } catch (error) {
+          throw new Error(`Failed to parse request body: ${(error as Error).message}`);
+        }
+      } else {
+        options.data = args.value;
+      }
+    }
+
+    const apiContext = await apiContextManager.ensureContext(args.context);
+    return apiContextManager.fetch(apiContext, method, args.url, options);
+  }
+
+  /**
+   * Builds the tool response for an API call: a short text summary plus the
+   * status, headers and body (parsed when JSON) as structured content
+   */
+  protected async createApiResponse(method: string, url: string, response: APIResponse): Promise<ToolResponse> {
+    let responseText: string;
+    try {
+      responseText = await response.text();
+    } catch (error) {
+      responseText = "Unable to get response text";
+    }
+
+    const truncated = responseText.length > MAX_STRUCTURED_BODY_LENGTH;
+    let body: unknown = truncated ? responseText.substring(0, MAX_STRUCTURED_BODY_LENGTH) : responseText;
+    if (!truncated && /json/i.test(response.headers()['content-type'] || '')) {
+      try {
+        body = JSON.parse(responseText);
+      } catch {
+        // Keep the raw text when the body isn't valid JSON
+      }
+    }
+
+    return createSuccessResponse([
+      `${method} request to ${url}`,
+      `Status: ${response.status()} ${response.statusText()}`,
+      `Response: ${responseText.substring(0, 1000)}${responseText.length > 1000 ? '...' : ''}`
+    ], {
+      method,
+      url: response.url(),
+      status: response.status(),
+      statusText: response.statusText(),
+      ok: response.ok(),
+      headers: response.headers(),
+      body,
+      ...(truncated ? { truncated } : {})
+    });
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse, ToolHandler } from '../common/types.js';
+import { apiContextManager, ApiContextOptions } from './contextManager.js';
+
+/**
+ * Tool for creating a named API context
+ */
+export class CreateApiContextTool implements ToolHandler {
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    try {
+      const { name, baseURL, headers, auth, browserSessionId, timeout, ignoreHTTPSErrors } = args;
+
+      if (!name) {
+        return createErrorResponse('name parameter is required');
+      }
+
+      if (auth) {
+        const requiredFields = {
+          basic: ['username', 'password'],
+          bearer: ['token'],
+          oauth2_client_credentials: ['tokenUrl', 'clientId', 'clientSecret'],
+        }[auth.type as string];
+        if (!requiredFields) {
+          return createErrorResponse(`Unsupported auth type: ${auth.type}`);
+        }
+        const absent = requiredFields.filter(field => !auth[field]);
+        if (absent.length > 0) {
+          return createErrorResponse(`${auth.type} auth requires: ${absent.join(', ')}`);
+        }
+      }
+
+      const options: ApiContextOptions = { baseURL, headers, auth, browserSessionId, timeout, ignoreHTTPSErrors };
+      await apiContextManager.createContext(name, options);
+
+      return createSuccessResponse([
+        `API context created successfully`,
+        `Name: ${name}`,
+        baseURL ? `Base URL: ${baseURL}` : '',
+        headers ? `Default headers: ${Object.keys(headers).join(', ')}` : '',
+        auth ? `Auth: ${auth.type}` : '',
+        browserSessionId ? `Cookies shared with browser session: ${browserSessionId}` : '',
+        timeout ? `Timeout: ${timeout}ms` : '',
+      ].filter(Boolean));
+
+    } catch (error) {
+      return createErrorResponse(`Failed to create API context: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Tool for listing all API contexts
+ */
+export class ListApiContextsTool implements ToolHandler {
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    try {
+      const contexts = apiContextManager.listContexts();
+
+      if (contexts.length === 0) {
+        return createSuccessResponse('No API contexts', { contexts: [] });
+      }
+
+      const output = [
+        `=== API Contexts (${contexts.length}) ===`,
+        '',
+        ...contexts.map(apiContext => [
+          `Name: ${apiContext.name}`,
+          `  Base URL: ${apiContext.options.baseURL || 'none'}`,
+          `  Auth: ${apiContext.options.auth?.type || 'none'}`,
+          `  Browser session: ${apiContext.options.browserSessionId || 'none'}`,
+          `  Last response: ${apiContext.lastResponse ? `${apiContext.lastResponse.method} ${apiContext.lastResponse.url} -> ${apiContext.lastResponse.status}` : 'none'}`,
+          `  Created: ${apiContext.createdAt.toLocaleString()}`,
+          '',
+        ].join('\n')),
+      ];
+
+      return createSuccessResponse(output, {
+        contexts: contexts.map(apiContext => ({
+          name: apiContext.name,
+          ...(apiContext.options.baseURL ? { baseURL: apiContext.options.baseURL } : {}),
+          ...(apiContext.options.auth ? { auth: apiContext.options.auth.type } : {}),
+          ...(apiContext.options.browserSessionId ? { browserSessionId: apiContext.options.browserSessionId } : {}),
+          ...(apiContext.lastResponse ? {
+            lastResponse: {
+              method: apiContext.lastResponse.method,
+              url: apiContext.lastResponse.url,
+              status: apiContext.lastResponse.status,
+            },
+          } : {}),
+          createdAt: apiContext.createdAt.toISOString(),
+        })),
+      });
+
+    } catch (error) {
+      return createErrorResponse(`Failed to list API contexts: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Tool for disposing an API context
+ */
+export class CloseApiContextTool implements ToolHandler {
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    try {
+      const { name } = args;
+
+      if (!name) {
+        return createErrorResponse('name parameter is required');
+      }
+
+      if (!apiContextManager.hasContext(name)) {
+        return createErrorResponse(`API context '${name}' not found`);
+      }
+
+      await apiContextManager.closeContext(name);
+
+      return createSuccessResponse(`API context '${name}' closed successfully`);
+
+    } catch (error) {
+      return createErrorResponse(`Failed to close API context: ${(error as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,331 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+import fs from 'fs';
+import { request } from 'playwright';
+import type { APIRequestContext, APIResponse } from 'playwright';
+import { sessionManager } from '../../sessionManager.js';
+
+// Refresh OAuth2 tokens this long before they expire
+const TOKEN_EXPIRY_MARGIN_MS = 30_000;
+
+/**
+ * Authentication applied to every request of an API context
+ */
+export type ApiAuthConfig =
+  | { type: 'basic'; username: string; password: string }
+  | { type: 'bearer'; token: string }
+  | {
+      type: 'oauth2_client_credentials';
+      tokenUrl: string;
+      clientId: string;
+      clientSecret: string;
+      scope?: string;
+      audience?: string;
+    };
+
+/**
+ * Settings for a named API context
+ */
+export interface ApiContextOptions {
+  baseURL?: string;
+  headers?: Record<string, string>;
+  auth?: ApiAuthConfig;
+  /** Browser session whose cookie jar the context shares */
+  browserSessionId?: string;
+  /** Default request timeout in milliseconds */
+  timeout?: number;
+  ignoreHTTPSErrors?: boolean;
+}
+
+/**
+ * Options for a single request sent through an API context
+ */
+export interface ApiRequestOptions {
+  headers?: Record<string, string>;
+  params?: Record<string, string | number | boolean>;
+  data?: unknown;
+  form?: Record<string, string | number | boolean>;
+  /** Multipart fields; `{ filePath }` values are uploaded as files */
+  multipart?: Record<string, string | number | boolean | { filePath: string }>;
+  /** Bearer token overriding the context's auth for this request */
+  token?: string;
+  timeout?: number;
+}
+
+/**
+ * The last response received by an API context, kept for later assertions
+ */
+export interface ApiResponseRecord {
+  method: string;
+  url: string;
+  status: number;
+  statusText: string;
+  ok: boolean;
+  headers: Record<string, string>;
+  text: string;
+  receivedAt: Date;
+}
+
+/**
+ * A named, persistent API request context
+ */
+export interface ApiContext {
+  name: string;
+  options: ApiContextOptions;
+  request: APIRequestContext;
+  /** False when the request context belongs to a browser session */
+  ownsRequest: boolean;
+  accessToken?: { value: string; expiresAt?: number };
+  lastResponse?: ApiResponseRecord;
+  createdAt: Date;
+}
+
+/**
+ * Manages named API contexts that keep cookies, auth and defaults between calls
+ */
+export class ApiContextManager {
+  private contexts = new Map<string, ApiContext>();
+  private defaultContextName = 'default';
+
+  /**
+   * Create a new API context
+   * @param name Context name
+   * @param options Base URL, default headers, auth and timeouts
+   */
+  async createContext(name: string, options: ApiContextOptions = {}): Promise<ApiContext> {
+    if (this.contexts.has(name)) {
+      throw new Error(`API context '${name}' already exists`);
+    }
+
+    let apiRequest: APIRequestContext;
+    let ownsRequest = true;
+    if (options.browserSessionId) {
+      const session = sessionManager.getSession(options.browserSessionId);
+      if (!session) {
+        throw new Error(`Browser session '${options.browserSessionId}' not found`);
+      }
+      // The browser context's request shares its cookie jar both ways
+      apiRequest = session.page.context().request;
+      ownsRequest = false;
+    } else {
+      apiRequest = await request.newContext({ ignoreHTTPSErrors: options.ignoreHTTPSErrors });
+    }
+
+    const context: ApiContext = {
+      name,
+      options,
+      request: apiRequest,
+      ownsRequest,
+      createdAt: new Date(),
+    };
+    this.contexts.set(name, context);
+    return context;
+  }
+
+  /**
+   * Get an API context, creating the default one on first use
+   * @param name Context name (default: 'default')
+   * @throws Error if a named context does not exist or its browser session is gone
+   */
+  async ensureContext(name?: string): Promise<ApiContext> {
+    const id = name || this.defaultContextName;
+    const context = this.contexts.get(id);
+
+    if (!context) {
+      if (id !== this.defaultContextName) {
+        throw new Error(`API context '${id}' not found. Create it with playwright_api_create_context`);
+      }
+      return this.createContext(id);
+    }
+
+    if (context.options.browserSessionId && !sessionManager.hasSession(context.options.browserSessionId)) {
+      throw new Error(`Browser session '${context.options.browserSessionId}' of API context '${id}' is closed`);
+    }
+    return context;
+  }
+
+  /**
+   * Get an existing API context
+   * @param name Context name (default: 'default')
+   */
+  getContext(name?: string): ApiContext | undefined {
+    return this.contexts.get(name || this.defaultContextName);
+  }
+
+  /**
+   * Check whether an API context exists
+   * @param name Context name
+   */
+  hasContext(name: string): boolean {
+    return this.contexts.has(name);
+  }
+
+  /**
+   * All API contexts
+   */
+  listContexts(): ApiContext[] {
+    return Array.from(this.contexts.values());
+  }
+
+  /**
+   * Dispose an API context
+   * @param name Context name
+   */
+  async closeContext(name: string): Promise<void> {
+    const context = this.contexts.get(name);
+    if (!context) {
+      return;
+    }
+
+    this.contexts.delete(name);
+    if (context.ownsRequest) {
+      await context.request.dispose();
+    }
+  }
+
+  /**
+   * Dispose all API contexts
+   */
+  async closeAllContexts(): Promise<void> {
+    await Promise.all(Array.from(this.contexts.keys()).map(name => this.closeContext(name)));
+  }
+
+  /**
+   * Send a request through an API context, applying its base URL, headers, auth and timeout
+   * @param context API context
+   * @param method HTTP method
+   * @param url Absolute URL, or a path resolved against the context's base URL
+   * @param options Per-request headers, query params, body and timeout
+   */
+  async fetch(context: ApiContext, method: string, url: string, options: ApiRequestOptions = {}): Promise<APIResponse> {
+    const headers: Record<string, string> = {
+      ...(context.options.headers || {}),
+      ...(options.token ? { Authorization: `Bearer ${options.token}` } : await this.getAuthHeaders(context)),
+      ...(options.headers || {}),
+    };
+
+    const response = await context.request.fetch(this.resolveUrl(context, url), {
+      method,
+      headers,
+      params: options.params,
+      data: options.data,
+      form: options.form,
+      multipart: options.multipart ? this.toMultipart(options.multipart) : undefined,
+      timeout: options.timeout ?? context.options.timeout,
+      ignoreHTTPSErrors: context.options.ignoreHTTPSErrors,
+    });
+
+    context.lastResponse = {
+      method,
+      url: response.url(),
+      status: response.status(),
+      statusText: response.statusText(),
+      ok: response.ok(),
+      headers: response.headers(),
+      text: await response.text().catch(() => ''),
+      receivedAt: new Date(),
+    };
+
+    return response;
+  }
+
+  /**
+   * Resolve a request URL against the context's base URL
+   */
+  private resolveUrl(context: ApiContext, url: string): string {
+    if (!context.options.baseURL || /^[a-z][a-z\d+\-.]*:\/\//i.test(url)) {
+      return url;
+    }
+    return new URL(url, context.options.baseURL).toString();
+  }
+
+  /**
+   * Convert multipart fields, opening `{ filePath }` entries as file streams
+   */
+  private toMultipart(fields: NonNullable<ApiRequestOptions['multipart']>): Record<string, string | number | boolean | fs.ReadStream> {
+    const multipart: Record<string, string | number | boolean | fs.ReadStream> = {};
+    for (const [key, value] of Object.entries(fields)) {
+      if (typeof value === 'object') {
+        if (!fs.existsSync(value.filePath)) {
+          throw new Error(`Multipart file not found: ${value.filePath}`);
+        }
+        multipart[key] = fs.createReadStream(value.filePath);
+      } else {
+        multipart[key] = value;
+      }
+    }
+    return multipart;
+  }
+
+  /**
+   * Authorization header for the context's auth settings
+   */
+  private async getAuthHeaders(context: ApiContext): Promise<Record<string, string>> {
+    const auth = context.options.auth;
+    if (!auth) {
+      return {};
+    }
+
+    switch (auth.type) {
+      case 'basic':
+        return { Authorization: `Basic ${Buffer.from(`${auth.username}:${auth.password}`).toString('base64')}` };
+      case 'bearer':
+        return { Authorization: `Bearer ${auth.token}` };
+      case 'oauth2_client_credentials':
+        return { Authorization: `Bearer ${await this.getAccessToken(context, auth)}` };
+      default:
+        throw new Error(`Unsupported auth type: ${(auth as { type: string }).type}`);
+    }
+  }
+
+  /**
+   * Fetch an OAuth2 access token with the client credentials grant, reusing it until it expires
+   */
+  private async getAccessToken(
+    context: ApiContext,
+    auth: Extract<ApiAuthConfig, { type: 'oauth2_client_credentials' }>
+  ): Promise<string> {
+    const cached = context.accessToken;
+    if (cached && (!cached.expiresAt || cached.expiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now())) {
+      return cached.value;
+    }
+
+    const form: Record<string, string> = {
+      grant_type: 'client_credentials',
+      client_id: auth.clientId,
+      client_secret: auth.clientSecret,
+    };
+    if (auth.scope) {
+      form.scope = auth.scope;
+    }
+    if (auth.audience) {
+      form.audience = auth.audience;
+    }
+
+    const response = await context.request.post(this.resolveUrl(context, auth.tokenUrl), {
+      form,
+      timeout: context.options.timeout,
+      ignoreHTTPSErrors: context.options.ignoreHTTPSErrors,
+    });
+    if (!response.ok()) {
+      throw new Error(`OAuth2 token request failed: ${response.status()} ${response.statusText()}`);
+    }
+
+    const token = await response.json();
+    if (!token.access_token) {
+      throw new Error('OAuth2 token response did not contain an access_token');
+    }
+
+    context.accessToken = {
+      value: token.access_token,
+      expiresAt: token.expires_in ? Date.now() + Number(token.expires_in) * 1000 : undefined,
+    };
+    return token.access_token;
+  }
+}
+
+// Export singleton instance
+export const apiContextManager = new ApiContextManager();
@@ -5,5 +5,6 @@
 
 export * from './base.js';
 export * from './requests.js';
-
-// TODO: Add exports for other API tools as they are implemented 
\ No newline at end of file
+export * from './context.js';
+export * from './assertions.js';
+export * from './contextManager.js';
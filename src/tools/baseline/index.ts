@@ -0,0 +1,305 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse, ToolHandler } from '../common/types.js';
+import { artifactStore } from '../../utils/artifactStore.js';
+import { baselineStore, BaselineFilter, BaselineRecord } from '../../utils/baselineStore.js';
+import { generateVisualReport, visualReportCollector, VisualApprovalManifest } from '../../utils/visualReport.js';
+
+// Files the compare tools leave next to file-path baselines
+const LOOSE_CURRENT_PATTERN = /^current-\d+\.png$|-current\.png$/;
+const LOOSE_DIFF_PATTERN = /-diff\.png$/;
+
+/**
+ * Filter from the key/testName/browser/device arguments shared by the baseline tools
+ */
+function toFilter(args: any): BaselineFilter {
+  return {
+    key: args.key,
+    testName: args.testName,
+    browser: args.browser,
+    device: args.device,
+  };
+}
+
+/**
+ * Pending baselines selected by a review tool, or an error when the selection is ambiguous
+ */
+function selectPending(args: any): BaselineRecord[] | ToolResponse {
+  if (!args.key && !args.testName && !args.all) {
+    return createErrorResponse('Provide key or testName (optionally with browser/device), or all: true');
+  }
+
+  const records = baselineStore.find({ ...toFilter(args), pendingOnly: true });
+  if (records.length === 0) {
+    return createErrorResponse('No pending baseline diffs match');
+  }
+  return records;
+}
+
+/**
+ * Tool for listing stored baselines and pending diffs
+ */
+export class ListBaselinesTool implements ToolHandler {
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    try {
+      const records = baselineStore.find({ ...toFilter(args), pendingOnly: args.pendingOnly });
+
+      if (records.length === 0) {
+        return createSuccessResponse(args.pendingOnly ? 'No pending baseline diffs' : `No baselines stored in ${baselineStore.getRootDir()}`, { baselines: [] });
+      }
+
+      const pending = records.filter(record => record.pending).length;
+      return createSuccessResponse([
+        `=== Baselines (${records.length}, ${pending} pending) ===`,
+        `Store: ${baselineStore.getRootDir()}`,
+        '',
+        ...records.map(record => {
+          const active = record.versions.find(v => v.version === record.activeVersion);
+          const lines = [
+            `${record.pending ? '✗' : '✓'} ${record.key}`,
+            `  Active: v${record.activeVersion} of ${record.versions.length}` +
+              (active ? ` (${active.source} ${active.createdAt}${active.approver ? ` by ${active.approver}` : ''}${active.gitSha ? `, git ${active.gitSha.slice(0, 7)}` : ''})` : ''),
+          ];
+          if (record.pending) {
+            lines.push(`  Pending: ${record.pending.diffPercentage}% diff (threshold ${record.pending.threshold}%) at ${record.pending.capturedAt}`);
+            lines.push(`    Current: ${baselineStore.resolve(record.pending.currentFile)}`);
+            if (record.pending.diffFile) {
+              lines.push(`    Diff: ${baselineStore.resolve(record.pending.diffFile)}`);
+            }
+          }
+          if (args.showHistory) {
+            lines.push(...record.versions.map(v =>
+              `    v${v.version}: ${v.source} ${v.createdAt}${v.approver ? ` by ${v.approver}` : ''}${v.gitSha ? ` git ${v.gitSha.slice(0, 7)}` : ''}${v.note ? ` - ${v.note}` : ''}`
+            ));
+          }
+          return lines.join('\n');
+        }),
+      ], { baselines: records });
+
+    } catch (error) {
+      return createErrorResponse(`Failed to list baselines: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Tool for accepting pending current images as new baseline versions
+ */
+export class ApproveBaselineTool implements ToolHandler {
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    try {
+      const selected = selectPending(args);
+      if (!Array.isArray(selected)) {
+        return selected;
+      }
+
+      const approver = args.approver || process.env.USER || process.env.USERNAME;
+      const approved = selected.map(record => ({
+        key: record.key,
+        version: baselineStore.approve(record.key, approver, args.note),
+      }));
+
+      return createSuccessResponse([
+        `Approved ${approved.length} baseline(s)${approver ? ` as ${approver}` : ''}:`,
+        ...approved.map(({ key, version }) =>
+          `  ✓ ${key} → v${version.version}${version.gitSha ? ` (git ${version.gitSha.slice(0, 7)})` : ''}`
+        ),
+      ], { approved });
+
+    } catch (error) {
+      return createErrorResponse(`Failed to approve baseline: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Tool for rejecting pending diffs, keeping the current baseline
+ */
+export class RejectBaselineTool implements ToolHandler {
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    try {
+      const selected = selectPending(args);
+      if (!Array.isArray(selected)) {
+        return selected;
+      }
+
+      selected.forEach(record => baselineStore.clearPending(record.key));
+
+      return createSuccessResponse([
+        `Rejected ${selected.length} pending diff(s); baselines unchanged:`,
+        ...selected.map(record => `  ✗ ${record.key} (stays at v${record.activeVersion})`),
+      ], { rejected: selected.map(record => record.key) });
+
+    } catch (error) {
+      return createErrorResponse(`Failed to reject baseline: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Tool for deleting orphaned current/diff images and old baseline versions
+ */
+export class PruneBaselinesTool implements ToolHandler {
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const { keepVersions, directory, olderThanHours = 0, dryRun = false } = args;
+
+    try {
+      const removed = baselineStore.prune(keepVersions, dryRun);
+
+      // Loose current-<timestamp>.png and *-diff.png files from file-path comparisons
+      if (directory) {
+        if (!fs.existsSync(directory)) {
+          return createErrorResponse(`Directory not found: ${directory}`);
+        }
+
+        const cutoff = Date.now() - olderThanHours * 3_600_000;
+        const scan = (dir: string) => {
+          for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+            const fullPath = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+              if (entry.name !== 'node_modules' && !entry.name.startsWith('.') &&
+                  path.resolve(fullPath) !== path.resolve(baselineStore.getRootDir())) {
+                scan(fullPath);
+              }
+            } else if (
+              (LOOSE_CURRENT_PATTERN.test(entry.name) || LOOSE_DIFF_PATTERN.test(entry.name)) &&
+              fs.statSync(fullPath).mtimeMs <= cutoff
+            ) {
+              if (!dryRun) {
+                fs.unlinkSync(fullPath);
+              }
+              removed.push(fullPath);
+            }
+          }
+        };
+        scan(directory);
+      }
+
+      if (removed.length === 0) {
+        return createSuccessResponse('Nothing to prune', { dryRun, removed });
+      }
+
+      return createSuccessResponse([
+        `${dryRun ? 'Would remove' : 'Removed'} ${removed.length} file(s):`,
+        ...removed.map(file => `  ${file}`),
+      ], { dryRun, removed });
+
+    } catch (error) {
+      return createErrorResponse(`Failed to prune baselines: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Tool for rendering the comparisons of this run into an offline HTML report
+ */
+export class GenerateVisualReportTool implements ToolHandler {
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const { outputPath, title, onlyFailures = false, reset = false } = args;
+
+    if (!outputPath) {
+      return createErrorResponse('outputPath is required');
+    }
+
+    try {
+      const entries = visualReportCollector.getEntries();
+      if (entries.length === 0) {
+        return createErrorResponse('No visual comparisons recorded yet. Run playwright_visual_compare or playwright_ai_visual_compare first');
+      }
+
+      const count = generateVisualReport(entries, outputPath, { title, onlyFailures });
+      artifactStore.register({ scheme: 'report', filePath: outputPath, description: title || 'Visual regression report' });
+      if (reset) {
+        visualReportCollector.reset();
+      }
+
+      const failed = entries.filter(entry => !entry.passed).length;
+      return createSuccessResponse([
+        `Visual report generated: ${outputPath}`,
+        `Comparisons: ${count}${onlyFailures ? ` (failures only, ${entries.length} recorded)` : ''}`,
+        `Failed: ${failed}`,
+        `Decisions made in the report download as visual-approvals.json; apply them with playwright_apply_visual_approvals`,
+      ], { path: outputPath, comparisons: count, failed });
+
+    } catch (error) {
+      return createErrorResponse(`Failed to generate visual report: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Tool for applying an approval manifest downloaded from a visual report
+ */
+export class ApplyVisualApprovalsTool implements ToolHandler {
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const { manifestPath } = args;
+
+    if (!manifestPath) {
+      return createErrorResponse('manifestPath is required');
+    }
+
+    try {
+      if (!fs.existsSync(manifestPath)) {
+        return createErrorResponse(`Approval manifest not found: ${manifestPath}`);
+      }
+
+      const manifest: VisualApprovalManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+      if (!Array.isArray(manifest.approvals)) {
+        return createErrorResponse(`${manifestPath} is not an approval manifest`);
+      }
+
+      const approver = args.approver || manifest.approver;
+      const lines: string[] = [];
+      let applied = 0;
+
+      for (const approval of manifest.approvals) {
+        const label = approval.key || approval.name;
+
+        if (approval.key) {
+          const [record] = baselineStore.find({ key: approval.key });
+          if (!record?.pending) {
+            lines.push(`  - ${label}: skipped (no pending diff)`);
+            continue;
+          }
+          if (approval.decision === 'approved') {
+            const version = baselineStore.approve(approval.key, approver, `Approved in report ${manifest.report}`);
+            lines.push(`  ✓ ${label}: approved as v${version.version}`);
+          } else {
+            baselineStore.clearPending(approval.key);
+            lines.push(`  ✗ ${label}: rejected`);
+          }
+          applied++;
+          continue;
+        }
+
+        if (approval.decision === 'rejected') {
+          lines.push(`  ✗ ${label}: rejected, baseline unchanged`);
+          applied++;
+          continue;
+        }
+
+        if (!approval.currentPath || !fs.existsSync(approval.currentPath)) {
+          lines.push(`  - ${label}: skipped (current image not found)`);
+          continue;
+        }
+        fs.copyFileSync(approval.currentPath, approval.baselinePath);
+        artifactStore.register({ scheme: 'baseline', filePath: approval.baselinePath });
+        lines.push(`  ✓ ${label}: ${approval.currentPath} → ${approval.baselinePath}`);
+        applied++;
+      }
+
+      return createSuccessResponse([
+        `Applied ${applied} of ${manifest.approvals.length} decision(s) from ${manifestPath}${approver ? ` (approver: ${approver})` : ''}:`,
+        ...lines,
+      ], { applied, total: manifest.approvals.length });
+
+    } catch (error) {
+      return createErrorResponse(`Failed to apply approvals: ${(error as Error).message}`);
+    }
+  }
+}
@@ -149,7 +149,24 @@ export class CheckAccessibilityTool extends BrowserToolBase {
           output.push('');
         }
 
-        return createSuccessResponse(output.join('\n'));
+        return createSuccessResponse(output.join('\n'), {
+          url: page.url(),
+          level,
+          summary,
+          violations: scanResult.violations.map(violation => ({
+            id: violation.id,
+            impact: violation.impact,
+            description: violation.description,
+            help: violation.help,
+            helpUrl: violation.helpUrl,
+            nodes: violation.nodes.map(node => ({
+              target: node.target,
+              html: node.html,
+              failureSummary: node.failureSummary,
+            })),
+          })),
+          incomplete: scanResult.incomplete.map(item => ({ id: item.id, description: item.description })),
+        });
       } catch (error: any) {
         return createErrorResponse(`Accessibility scan failed: ${error.message}`);
       }
@@ -271,7 +288,7 @@ export class GetAriaSnapshotTool extends BrowserToolBase {
         output.push('');
         output.push(this.formatAriaTree(ariaSnapshot));
 
-        return createSuccessResponse(output.join('\n'));
+        return createSuccessResponse(output.join('\n'), { url: page.url(), snapshot: ariaSnapshot });
       } catch (error: any) {
         return createErrorResponse(`Failed to get ARIA snapshot: ${error.message}`);
       }
@@ -419,7 +436,17 @@ export class CheckContrastTool extends BrowserToolBase {
           output.push(`⚠️  Does not meet ${targetLevel} compliance for normal text`);
         }
 
-        return createSuccessResponse(output.join('\n'));
+        return createSuccessResponse(output.join('\n'), {
+          passed: passes,
+          level: targetLevel,
+          ratio,
+          foreground: contrastResults.foreground,
+          background: contrastResults.background,
+          normalTextAA: passesNormalAA,
+          normalTextAAA: passesNormalAAA,
+          largeTextAA: passesLargeAA,
+          largeTextAAA: passesLargeAAA
+        });
       } catch (error: any) {
         return createErrorResponse(`Contrast check failed: ${error.message}`);
       }
@@ -496,7 +523,12 @@ export class CheckKeyboardNavigationTool extends BrowserToolBase {
           output.push(`  ... and ${focusableElements.length - 10} more`);
         }
 
-        return createSuccessResponse(output.join('\n'));
+        return createSuccessResponse(output.join('\n'), {
+          url: page.url(),
+          focusableCount: focusableElements.length,
+          withoutVisibleFocus: noVisibleFocus.length,
+          elements: focusableElements
+        });
       } catch (error: any) {
         return createErrorResponse(`Keyboard navigation check failed: ${error.message}`);
       }
@@ -5,6 +5,7 @@
 
 import { BrowserToolBase } from './base.js';
 import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
+import { artifactStore } from '../../utils/artifactStore.js';
 
 /**
  * Tool for handling file downloads
@@ -41,13 +42,17 @@ export class DownloadFileTool extends BrowserToolBase {
       // Save to downloads directory or specified path
       const downloadPath = args.savePath || `downloads/${suggestedFilename}`;
       await download.saveAs(downloadPath);
+      artifactStore.register({
+        scheme: downloadPath.toLowerCase().endsWith('.pdf') ? 'pdf' : 'download',
+        filePath: downloadPath,
+      });
 
       return createSuccessResponse([
         `File downloaded successfully`,
         `Filename: ${suggestedFilename}`,
         `Saved to: ${downloadPath}`,
         `Size: ${await download.path() ? 'Available' : 'N/A'}`
-      ]);
+      ], { filename: suggestedFilename, path: downloadPath });
     });
   }
 }
@@ -96,7 +101,7 @@ export class ReadClipboardTool extends BrowserToolBase {
       return createSuccessResponse([
         `Clipboard content:`,
         clipboardText || '(empty)'
-      ]);
+      ], { text: clipboardText });
     });
   }
 }
@@ -172,7 +177,7 @@ export class ExpectDialogTool extends BrowserToolBase {
           `Dialog validated and ${action}ed`,
           `Type: ${dialogType}`,
           `Message: "${actualMessage}"`
-        ]);
+        ], { type: dialogType, message: actualMessage, action });
       } catch (error) {
         return createErrorResponse(`No dialog appeared within ${timeout}ms: ${(error as Error).message}`);
       }
@@ -264,7 +269,15 @@ export class GetElementPositionTool extends BrowserToolBase {
         `Height: ${Math.round(boundingBox.height)}`,
         `Center X: ${centerX}`,
         `Center Y: ${centerY}`
-      ]);
+      ], {
+        selector,
+        x: Math.round(boundingBox.x),
+        y: Math.round(boundingBox.y),
+        width: Math.round(boundingBox.width),
+        height: Math.round(boundingBox.height),
+        centerX,
+        centerY
+      });
     });
   }
 }
@@ -92,22 +92,16 @@ export class AssertElementStateTool extends BrowserToolBase {
             `Expected State: ${stateDescription}`,
             ``,
             `\u{2705} Element is ${stateDescription}`
-          ]);
+          ], { passed: true, assertion: 'element_state', selector, expected: stateDescription, actual: stateDescription });
         } else {
-          return {
-            content: [{
-              type: "text",
-              text: [
-                `\u{274C} Element State Assertion FAILED`,
-                ``,
-                `Selector: ${selector}`,
-                `Expected State: ${stateDescription}`,
-                ``,
-                `\u{274C} Element is NOT ${stateDescription}`
-              ].join('\n')
-            }],
-            isError: true
-          };
+          return createErrorResponse([
+            `\u{274C} Element State Assertion FAILED`,
+            ``,
+            `Selector: ${selector}`,
+            `Expected State: ${stateDescription}`,
+            ``,
+            `\u{274C} Element is NOT ${stateDescription}`
+          ].join('\n'), { passed: false, assertion: 'element_state', selector, expected: stateDescription, actual: `not ${stateDescription}` });
         }
       } catch (error) {
         return createErrorResponse(`Assertion failed: ${(error as Error).message}`);
@@ -190,23 +184,17 @@ export class AssertElementCountTool extends BrowserToolBase {
             `Actual Count: ${actualCount}`,
             ``,
             `\u{2705} Count assertion passed`
-          ]);
+          ], { passed: true, assertion: 'element_count', selector, comparison, expected: expectedCount, actual: actualCount });
         } else {
-          return {
-            content: [{
-              type: "text",
-              text: [
-                `\u{274C} Element Count Assertion FAILED`,
-                ``,
-                `Selector: ${selector}`,
-                `Expected: ${comparisonText}`,
-                `Actual Count: ${actualCount}`,
-                ``,
-                `\u{274C} Count assertion failed`
-              ].join('\n')
-            }],
-            isError: true
-          };
+          return createErrorResponse([
+            `\u{274C} Element Count Assertion FAILED`,
+            ``,
+            `Selector: ${selector}`,
+            `Expected: ${comparisonText}`,
+            `Actual Count: ${actualCount}`,
+            ``,
+            `\u{274C} Count assertion failed`
+          ].join('\n'), { passed: false, assertion: 'element_count', selector, comparison, expected: expectedCount, actual: actualCount });
         }
       } catch (error) {
         return createErrorResponse(`Assertion failed: ${(error as Error).message}`);
@@ -243,6 +231,7 @@ export class AssertTextContentTool extends BrowserToolBase {
         }
 
         let actualText = await element.textContent() || '';
+        const originalText = actualText;
         let searchText = expectedText;
 
         // Apply case sensitivity
@@ -305,26 +294,20 @@ export class AssertTextContentTool extends BrowserToolBase {
             `Actual Text: "${actualText.substring(0, 200)}${actualText.length > 200 ? '...' : ''}"`,
             ``,
             `\u{2705} Text assertion passed`
-          ]);
+          ], { passed: true, assertion: 'text_content', selector, matchType, caseSensitive, expected: expectedText, actual: originalText });
         } else {
-          return {
-            content: [{
-              type: "text",
-              text: [
-                `\u{274C} Text Content Assertion FAILED`,
-                ``,
-                `Selector: ${selector}`,
-                `Expected: "${expectedText}"`,
-                `Match Type: ${matchDescription}`,
-                `Case Sensitive: ${caseSensitive}`,
-                ``,
-                `Actual Text: "${actualText.substring(0, 200)}${actualText.length > 200 ? '...' : ''}"`,
-                ``,
-                `\u{274C} Text does not ${matchDescription} expected value`
-              ].join('\n')
-            }],
-            isError: true
-          };
+          return createErrorResponse([
+            `\u{274C} Text Content Assertion FAILED`,
+            ``,
+            `Selector: ${selector}`,
+            `Expected: "${expectedText}"`,
+            `Match Type: ${matchDescription}`,
+            `Case Sensitive: ${caseSensitive}`,
+            ``,
+            `Actual Text: "${actualText.substring(0, 200)}${actualText.length > 200 ? '...' : ''}"`,
+            ``,
+            `\u{274C} Text does not ${matchDescription} expected value`
+          ].join('\n'), { passed: false, assertion: 'text_content', selector, matchType, caseSensitive, expected: expectedText, actual: originalText });
         }
       } catch (error) {
         return createErrorResponse(`Assertion failed: ${(error as Error).message}`);
@@ -423,25 +406,19 @@ export class AssertAttributeTool extends BrowserToolBase {
             `Actual Value: ${actualValue !== null ? `"${actualValue}"` : 'null'}`,
             ``,
             `\u{2705} Attribute assertion passed`
-          ]);
+          ], { passed: true, assertion: 'attribute', selector, attribute, matchType, expected: expectedValue ?? null, actual: actualValue });
         } else {
-          return {
-            content: [{
-              type: "text",
-              text: [
-                `\u{274C} Attribute Assertion FAILED`,
-                ``,
-                `Selector: ${selector}`,
-                `Attribute: ${attribute}`,
-                `Expected: ${expectedValue !== undefined ? `"${expectedValue}"` : matchDescription}`,
-                `Match Type: ${matchDescription}`,
-                `Actual Value: ${actualValue !== null ? `"${actualValue}"` : 'null'}`,
-                ``,
-                `\u{274C} Attribute assertion failed`
-              ].join('\n')
-            }],
-            isError: true
-          };
+          return createErrorResponse([
+            `\u{274C} Attribute Assertion FAILED`,
+            ``,
+            `Selector: ${selector}`,
+            `Attribute: ${attribute}`,
+            `Expected: ${expectedValue !== undefined ? `"${expectedValue}"` : matchDescription}`,
+            `Match Type: ${matchDescription}`,
+            `Actual Value: ${actualValue !== null ? `"${actualValue}"` : 'null'}`,
+            ``,
+            `\u{274C} Attribute assertion failed`
+          ].join('\n'), { passed: false, assertion: 'attribute', selector, attribute, matchType, expected: expectedValue ?? null, actual: actualValue });
         }
       } catch (error) {
         return createErrorResponse(`Assertion failed: ${(error as Error).message}`);
@@ -501,26 +478,20 @@ export class AssertCssPropertyTool extends BrowserToolBase {
             `Actual: "${actualValue}"`,
             ``,
             `\u{2705} CSS property matches expected value`
-          ]);
+          ], { passed: true, assertion: 'css_property', selector, property, expected: expectedValue, actual: actualValue });
         } else {
-          return {
-            content: [{
-              type: "text",
-              text: [
-                `\u{274C} CSS Property Assertion FAILED`,
-                ``,
-                `Selector: ${selector}`,
-                `Property: ${property}`,
-                `Expected: "${expectedValue}"`,
-                `Actual: "${actualValue}"`,
-                ``,
-                `\u{274C} CSS property does not match expected value`,
-                ``,
-                `\u{1F4A1} Tip: CSS values are normalized (trimmed, lowercase). If comparing colors, use rgb() or hex format.`
-              ].join('\n')
-            }],
-            isError: true
-          };
+          return createErrorResponse([
+            `\u{274C} CSS Property Assertion FAILED`,
+            ``,
+            `Selector: ${selector}`,
+            `Property: ${property}`,
+            `Expected: "${expectedValue}"`,
+            `Actual: "${actualValue}"`,
+            ``,
+            `\u{274C} CSS property does not match expected value`,
+            ``,
+            `\u{1F4A1} Tip: CSS values are normalized (trimmed, lowercase). If comparing colors, use rgb() or hex format.`
+          ].join('\n'), { passed: false, assertion: 'css_property', selector, property, expected: expectedValue, actual: actualValue });
         }
       } catch (error) {
         return createErrorResponse(`Assertion failed: ${(error as Error).message}`);
@@ -588,7 +559,15 @@ export class AssertRequestMadeTool extends BrowserToolBase {
             `  \u{2022} Method: ${request.method()}`,
             `  \u{2022} Resource Type: ${request.resourceType()}`,
             `  \u{2022} Status: Captured`
-          ]);
+          ], {
+            passed: true,
+            assertion: 'request_made',
+            urlPattern,
+            method: method || null,
+            expected: urlPattern,
+            actual: request.url(),
+            request: { url: request.url(), method: request.method(), resourceType: request.resourceType() }
+          });
         } else {
           // Check if request was already made (look at existing requests)
           // This is a simplified check - in real scenarios you'd need to track requests
@@ -600,31 +579,25 @@ export class AssertRequestMadeTool extends BrowserToolBase {
             ``,
             `\u{1F4A1} Note: Non-blocking mode doesn't guarantee request detection.`,
             `Use waitForRequest: true for reliable assertions.`
-          ]);
+          ], { passed: true, verified: false, assertion: 'request_made', urlPattern, method: method || null, expected: urlPattern, actual: null });
         }
       } catch (error) {
         if ((error as Error).message.includes('Timeout')) {
-          return {
-            content: [{
-              type: "text",
-              text: [
-                `\u{274C} Network Request Assertion FAILED`,
-                ``,
-                `URL Pattern: ${urlPattern}`,
-                `Method: ${method || 'ANY'}`,
-                `Timeout: ${timeout}ms`,
-                ``,
-                `\u{274C} Request was NOT made within timeout period`,
-                ``,
-                `\u{1F4A1} Possible reasons:`,
-                `  1. Request was not triggered`,
-                `  2. URL pattern doesn't match`,
-                `  3. Timeout too short`,
-                `  4. Request completed before monitoring started`
-              ].join('\n')
-            }],
-            isError: true
-          };
+          return createErrorResponse([
+            `\u{274C} Network Request Assertion FAILED`,
+            ``,
+            `URL Pattern: ${urlPattern}`,
+            `Method: ${method || 'ANY'}`,
+            `Timeout: ${timeout}ms`,
+            ``,
+            `\u{274C} Request was NOT made within timeout period`,
+            ``,
+            `\u{1F4A1} Possible reasons:`,
+            `  1. Request was not triggered`,
+            `  2. URL pattern doesn't match`,
+            `  3. Timeout too short`,
+            `  4. Request completed before monitoring started`
+          ].join('\n'), { passed: false, assertion: 'request_made', urlPattern, method: method || null, expected: urlPattern, actual: null });
         }
 
         return createErrorResponse(`Assertion failed: ${(error as Error).message}`);
@@ -5,6 +5,11 @@
 
 import type { Browser, Page } from 'playwright';
 import { ToolHandler, ToolContext, ToolResponse, createErrorResponse } from '../common/types.js';
+import { locatorHealer } from '../../utils/locatorHealing.js';
+import { ActionRecorder } from '../codegen/recorder.js';
+
+// Playwright's default action timeout; self-healing spends it waiting for the selector instead
+const ACTION_TIMEOUT_MS = 30000;
 
 /**
  * Base class for all browser-based tools
@@ -46,6 +51,95 @@ export abstract class BrowserToolBase implements ToolHandler {
     return null;
   }
 
+  /**
+   * Runs an action on args.selector. In self-healing mode (global, or args.selfHeal) the element the
+   * selector matches is remembered, and a selector that stops matching is replaced by the element that
+   * best matches its last fingerprint; the substitution is logged, reported and applied to codegen
+   * @param page Page to act on
+   * @param context The tool context
+   * @param toolName Tool whose recorded action is updated
+   * @param args Tool arguments holding the selector
+   * @param action Operation on the (possibly healed) selector; throws when it fails
+   */
+  protected async withSelfHealing(
+    page: Page,
+    context: ToolContext,
+    toolName: string,
+    args: { selector?: string; selfHeal?: boolean },
+    action: (selector: string) => Promise<ToolResponse>
+  ): Promise<ToolResponse> {
+    const selector = args.selector;
+    if (!selector || !locatorHealer.isEnabled(args.selfHeal)) {
+      return action(selector!);
+    }
+
+    const { threshold, waitTimeout } = locatorHealer.getConfig();
+    const url = page.url();
+    const waitForMatch = (timeout: number) => page.locator(selector).first()
+      .waitFor({ state: 'attached', timeout })
+      .then(() => true, () => false);
+    const actAndRemember = async () => {
+      // Fingerprinted before acting, as the action may navigate away
+      const fingerprint = await locatorHealer.capture(page, selector);
+      const response = await action(selector);
+      if (fingerprint) {
+        locatorHealer.remember(url, selector, fingerprint);
+      }
+      return response;
+    };
+
+    if (await waitForMatch(waitTimeout)) {
+      return actAndRemember();
+    }
+
+    const [best] = await locatorHealer.findCandidates(page, selector).catch(() => []);
+    if (!best || best.confidence < threshold) {
+      const belowThreshold = best
+        ? `; the best self-healing match '${best.selector}' scored ${Math.round(best.confidence * 100)}%, below the ${Math.round(threshold * 100)}% threshold`
+        : '';
+      // Keep waiting for the rest of the usual action timeout, rather than the action waiting a full timeout again
+      if (await waitForMatch(Math.max(1, ACTION_TIMEOUT_MS - waitTimeout))) {
+        return actAndRemember();
+      }
+      throw new Error(`No element matches '${selector}' after ${Math.max(ACTION_TIMEOUT_MS, waitTimeout)}ms${belowThreshold}`);
+    }
+
+    const fingerprint = await locatorHealer.capture(page, best.selector);
+    const response = await action(best.selector);
+
+    const event = {
+      timestamp: new Date().toISOString(),
+      tool: toolName,
+      sessionId: context.session?.id,
+      url,
+      originalSelector: selector,
+      healedSelector: best.selector,
+      confidence: best.confidence,
+      matchedOn: best.matchedOn,
+      locatorCode: `page.locator('${best.selector.replace(/'/g, "\\'")}')`,
+    };
+    locatorHealer.recordEvent(event);
+    if (fingerprint) {
+      // Keep healing the old selector, and track the new one from now on
+      locatorHealer.remember(url, selector, fingerprint);
+      locatorHealer.remember(url, best.selector, fingerprint);
+    }
+    ActionRecorder.getInstance().replaceSelector(toolName, selector, best.selector);
+    console.error(`[SelfHealing] ${toolName}: '${selector}' -> '${best.selector}' (${Math.round(best.confidence * 100)}%)`);
+
+    return {
+      ...response,
+      content: [
+        ...response.content,
+        {
+          type: 'text',
+          text: `🩹 Self-healed selector '${selector}' -> '${best.selector}' (confidence ${Math.round(best.confidence * 100)}%, matched on ${best.matchedOn.join(', ')}). Update codegen and page objects to ${event.locatorCode}`,
+        },
+      ],
+      structuredContent: { ...response.structuredContent, healing: event },
+    };
+  }
+
   /**
    * Safely executes a browser operation with proper error handling
    * @param context The tool context
@@ -64,7 +158,7 @@ export abstract class BrowserToolBase implements ToolHandler {
       if (context.browser && !context.browser.isConnected()) {
         // If browser exists but is disconnected, reset state
         const { resetBrowserState } = await import('../../toolHandler.js');
-        resetBrowserState();
+        resetBrowserState(context.session?.id);
         return createErrorResponse("Browser is disconnected. Please retry the operation.");
       }
 
@@ -87,7 +181,7 @@ export abstract class BrowserToolBase implements ToolHandler {
       ) {
         // Reset browser state on connection issues
         const { resetBrowserState } = await import('../../toolHandler.js');
-        resetBrowserState();
+        resetBrowserState(context.session?.id);
         return createErrorResponse(`Browser connection error: ${errorMessage}. Connection has been reset - please retry the operation.`);
       }
       
@@ -10,26 +10,18 @@ import { ToolContext, ToolResponse, createSuccessResponse } from '../common/type
  * Tool for retrieving and filtering console logs from the browser
  */
 export class ConsoleLogsTool extends BrowserToolBase {
-  private consoleLogs: string[] = [];
-
-  /**
-   * Register a console message
-   * @param type The type of console message
-   * @param text The text content of the message
-   */
-  registerConsoleMessage(type: string, text: string): void {
-    const logEntry = `[${type}] ${text}`;
-    this.consoleLogs.push(logEntry);
-  }
-
   /**
    * Execute the console logs tool
    */
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
     // No need to use safeExecute here as we don't need to interact with the page
-    // We're just filtering and returning logs that are already stored
-    
-    let logs = [...this.consoleLogs];
+    // We're just filtering and returning logs that are already stored in the session
+    if (!context.session) {
+      return createSuccessResponse("No console logs matching the criteria", { count: 0, logs: [] });
+    }
+
+    const consoleLog = context.session.consoleLog;
+    let logs = [...consoleLog];
     
     // Filter by type if specified
     if (args.type && args.type !== 'all') {
@@ -48,31 +40,17 @@ export class ConsoleLogsTool extends BrowserToolBase {
     
     // Clear logs if requested
     if (args.clear) {
-      this.consoleLogs = [];
+      consoleLog.length = 0;
     }
     
     // Format the response
     if (logs.length === 0) {
-      return createSuccessResponse("No console logs matching the criteria");
+      return createSuccessResponse("No console logs matching the criteria", { count: 0, logs: [] });
     } else {
       return createSuccessResponse([
         `Retrieved ${logs.length} console log(s):`,
         ...logs
-      ]);
+      ], { count: logs.length, logs });
     }
   }
-
-  /**
-   * Get all console logs
-   */
-  getConsoleLogs(): string[] {
-    return this.consoleLogs;
-  }
-
-  /**
-   * Clear all console logs
-   */
-  clearConsoleLogs(): void {
-    this.consoleLogs = [];
-  }
-} 
\ No newline at end of file
+}
@@ -11,7 +11,20 @@ import { Page } from 'playwright';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { BrowserToolBase } from './base.js';
-import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse, ToolHandler } from '../common/types.js';
+import { artifactStore } from '../../utils/artifactStore.js';
+import {
+  byteUsage,
+  checkThresholds,
+  convertCoverage,
+  coverageStore,
+  CoverageTotals,
+  FileCoverage,
+  summarize,
+  toIstanbul,
+  toLcov
+} from '../../utils/coverageStore.js';
+import { findUnusedCode, formatUnusedPatch } from '../../utils/unusedCode.js';
 
 /**
  * Coverage data interfaces
@@ -31,6 +44,19 @@ export interface CoverageSummary {
   percentUsed: number;
 }
 
+/**
+ * One-line lines/functions/branches summary
+ */
+function formatTotals(totals: CoverageTotals): string {
+  return `lines ${totals.lines.pct}% (${totals.lines.covered}/${totals.lines.total}), ` +
+    `functions ${totals.functions.pct}% (${totals.functions.covered}/${totals.functions.total}), ` +
+    `branches ${totals.branches.pct}% (${totals.branches.covered}/${totals.branches.total})`;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
 /**
  * Start code coverage collection
  */
@@ -67,7 +93,7 @@ export class StartCoverageTool extends BrowserToolBase {
           `  • Reset on navigation: ${resetOnNavigation}`,
         ];
 
-        return createSuccessResponse(output.join('\n'));
+        return createSuccessResponse(output.join('\n'), { url: page.url(), js, css, resetOnNavigation });
       } catch (error: any) {
         return createErrorResponse(`Failed to start coverage: ${error.message}`);
       }
@@ -85,6 +111,9 @@ export class GetCoverageTool extends BrowserToolBase {
         type = 'both', // 'js', 'css', 'both'
         saveToFile,
         includeRawData = false,
+        store = false,
+        runId,
+        sourceMaps = true,
       } = args;
 
       try {
@@ -168,6 +197,12 @@ export class GetCoverageTool extends BrowserToolBase {
           }
         }
 
+        const structured: Record<string, unknown> = {
+          url: page.url(),
+          ...(type === 'js' || type === 'both' ? { js: { files: jsCoverage.length, ...jsSummary } } : {}),
+          ...(type === 'css' || type === 'both' ? { css: { files: cssCoverage.length, ...cssSummary } } : {}),
+        };
+
         // Save to file if requested
         if (saveToFile) {
           const coverageData = {
@@ -186,11 +221,22 @@ export class GetCoverageTool extends BrowserToolBase {
 
           await fs.mkdir(path.dirname(saveToFile), { recursive: true });
           await fs.writeFile(saveToFile, JSON.stringify(coverageData, null, 2), 'utf-8');
+          artifactStore.register({ scheme: 'coverage', filePath: saveToFile, description: `Coverage data for ${page.url()}` });
 
           output.push(`💾 Coverage data saved to: ${saveToFile}`);
+          structured.savedTo = saveToFile;
         }
 
-        return createSuccessResponse(output.join('\n'));
+        // Merge into the coverage store for cross-page/run totals and threshold gates
+        if (store) {
+          const files = await convertCoverage(jsCoverage, cssCoverage, sourceMaps);
+          const run = coverageStore.ingest(files, { runId, pageUrl: page.url(), sessionId: context.session?.id });
+          output.push(`🗄️  Merged ${files.length} source file(s) into coverage run ${run.runId} (${coverageStore.getRootDir()})`);
+          output.push(`   Run totals: ${formatTotals(run.totals)}`);
+          structured.run = { runId: run.runId, totals: run.totals };
+        }
+
+        return createSuccessResponse(output.join('\n'), structured);
       } catch (error: any) {
         return createErrorResponse(`Failed to get coverage: ${error.message}`);
       }
@@ -204,12 +250,11 @@ export class GetCoverageTool extends BrowserToolBase {
     let totalBytes = 0;
     let usedBytes = 0;
 
+    // JS entries carry V8 function ranges and source, CSS entries used ranges and text
     for (const entry of entries) {
-      totalBytes += entry.text.length;
-
-      for (const range of entry.ranges) {
-        usedBytes += range.end - range.start;
-      }
+      const usage = byteUsage(entry);
+      totalBytes += usage.totalBytes;
+      usedBytes += usage.usedBytes;
     }
 
     const percentUsed = totalBytes > 0 ? (usedBytes / totalBytes) * 100 : 0;
@@ -240,11 +285,13 @@ export class GenerateCoverageReportTool extends BrowserToolBase {
       const {
         coverageFile,
         outputFile,
-        format = 'html', // 'html', 'json', 'lcov', 'text'
+        format = 'html', // 'html', 'json', 'lcov', 'istanbul', 'text'
+        fromStore = false,
+        runIds,
       } = args;
 
-      if (!coverageFile) {
-        throw new Error('coverageFile parameter is required');
+      if (!coverageFile && !fromStore) {
+        throw new Error('coverageFile parameter is required (or fromStore: true)');
       }
 
       if (!outputFile) {
@@ -252,6 +299,28 @@ export class GenerateCoverageReportTool extends BrowserToolBase {
       }
 
       try {
+        if (fromStore) {
+          const files = coverageStore.merged(runIds);
+          if (Object.keys(files).length === 0) {
+            return createErrorResponse(`Coverage store is empty: ${coverageStore.getRootDir()}`);
+          }
+          const report = this.generateStoreReport(Object.values(files), format);
+
+          await fs.mkdir(path.dirname(outputFile), { recursive: true });
+          await fs.writeFile(outputFile, report, 'utf-8');
+          artifactStore.register({ scheme: 'coverage', filePath: outputFile, description: `Merged coverage report (${format})` });
+
+          const totals = summarize(Object.values(files));
+          return createSuccessResponse([
+            `✓ Coverage report generated from store`,
+            `Format: ${format}`,
+            `Runs: ${runIds?.length ? runIds.join(', ') : 'all'}`,
+            `Files: ${Object.keys(files).length}`,
+            `Totals: ${formatTotals(totals)}`,
+            `Output: ${outputFile}`,
+          ].join('\n'), { path: outputFile, format, files: Object.keys(files).length, totals });
+        }
+
         // Read coverage data
         const data = await fs.readFile(coverageFile, 'utf-8');
         const coverageData = JSON.parse(data);
@@ -269,7 +338,13 @@ export class GenerateCoverageReportTool extends BrowserToolBase {
             report = this.generateTextReport(coverageData);
             break;
           case 'lcov':
-            report = this.generateLCOVReport(coverageData);
+            report = await this.generateLCOVReport(coverageData);
+            break;
+          case 'istanbul':
+            if (!coverageData.rawData) {
+              throw new Error('Istanbul output needs raw data: save coverage with includeRawData: true');
+            }
+            report = JSON.stringify(toIstanbul(await convertCoverage(coverageData.rawData.js, coverageData.rawData.css)), null, 2);
             break;
           default:
             throw new Error(`Unsupported format: ${format}`);
@@ -278,12 +353,13 @@ export class GenerateCoverageReportTool extends BrowserToolBase {
         // Save report
         await fs.mkdir(path.dirname(outputFile), { recursive: true });
         await fs.writeFile(outputFile, report, 'utf-8');
+        artifactStore.register({ scheme: 'coverage', filePath: outputFile, description: `Coverage report (${format})` });
 
         return createSuccessResponse([
           `✓ Coverage report generated`,
           `Format: ${format}`,
           `Output: ${outputFile}`,
-        ].join('\n'));
+        ].join('\n'), { path: outputFile, format });
       } catch (error: any) {
         return createErrorResponse(`Failed to generate report: ${error.message}`);
       }
@@ -378,21 +454,67 @@ export class GenerateCoverageReportTool extends BrowserToolBase {
   /**
    * Generate LCOV format report
    */
-  private generateLCOVReport(data: any): string {
-    // Simplified LCOV format
-    const lines: string[] = [];
-
-    if (data.rawData?.js) {
-      data.rawData.js.forEach((entry: any) => {
-        lines.push(`SF:${entry.url}`);
-        // LCOV format requires more detailed line-by-line coverage
-        // This is a simplified version
-        lines.push(`DA:1,1`);
-        lines.push(`end_of_record`);
-      });
+  private async generateLCOVReport(data: any): Promise<string> {
+    if (!data.rawData) {
+      throw new Error('LCOV output needs raw data: save coverage with includeRawData: true');
     }
+    return toLcov(await convertCoverage(data.rawData.js, data.rawData.css));
+  }
 
-    return lines.join('\n');
+  /**
+   * Render merged store coverage
+   */
+  private generateStoreReport(files: FileCoverage[], format: string): string {
+    const sorted = [...files].sort((a, b) => a.path.localeCompare(b.path));
+
+    switch (format) {
+      case 'lcov':
+        return toLcov(sorted);
+      case 'istanbul':
+      case 'json':
+        return JSON.stringify(toIstanbul(sorted), null, 2);
+      case 'text':
+        return [
+          'Coverage Report (merged)',
+          '========================',
+          '',
+          `Total: ${formatTotals(summarize(sorted))}`,
+          '',
+          ...sorted.map(file => `${file.path}: ${formatTotals(summarize([file]))}`),
+          '',
+        ].join('\n');
+      case 'html': {
+        const rows = sorted.map(file => {
+          const totals = summarize([file]);
+          return `<tr><td>${escapeHtml(file.path)}</td><td>${totals.lines.pct}% (${totals.lines.covered}/${totals.lines.total})</td>` +
+            `<td>${totals.functions.pct}% (${totals.functions.covered}/${totals.functions.total})</td>` +
+            `<td>${totals.branches.pct}% (${totals.branches.covered}/${totals.branches.total})</td></tr>`;
+        });
+        return `<!DOCTYPE html>
+<html>
+<head>
+  <title>Coverage Report</title>
+  <style>
+    body { font-family: Arial, sans-serif; margin: 20px; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { padding: 10px; text-align: left; border-bottom: 1px solid #ddd; }
+    th { background: #f5f5f5; }
+  </style>
+</head>
+<body>
+  <h1>Coverage Report</h1>
+  <p>Generated: ${new Date().toISOString()}</p>
+  <p>Total: ${escapeHtml(formatTotals(summarize(sorted)))}</p>
+  <table>
+    <tr><th>File</th><th>Lines</th><th>Functions</th><th>Branches</th></tr>
+    ${rows.join('\n    ')}
+  </table>
+</body>
+</html>`;
+      }
+      default:
+        throw new Error(`Unsupported format: ${format}`);
+    }
   }
 }
 
@@ -422,6 +544,7 @@ export class CompareCoverageTool extends BrowserToolBase {
           `Current: ${current.timestamp}`,
           ``,
         ];
+        const structured: Record<string, unknown> = {};
 
         // Compare JS coverage
         if (baseline.js && current.js) {
@@ -434,6 +557,7 @@ export class CompareCoverageTool extends BrowserToolBase {
           output.push(`  Current: ${current.js.summary.percentUsed.toFixed(2)}%`);
           output.push(`  ${jsDiffIcon} Difference: ${jsDiffStr}`);
           output.push('');
+          structured.js = { baseline: baseline.js.summary.percentUsed, current: current.js.summary.percentUsed, difference: jsDiff };
         }
 
         // Compare CSS coverage
@@ -447,12 +571,213 @@ export class CompareCoverageTool extends BrowserToolBase {
           output.push(`  Current: ${current.css.summary.percentUsed.toFixed(2)}%`);
           output.push(`  ${cssDiffIcon} Difference: ${cssDiffStr}`);
           output.push('');
+          structured.css = { baseline: baseline.css.summary.percentUsed, current: current.css.summary.percentUsed, difference: cssDiff };
         }
 
-        return createSuccessResponse(output.join('\n'));
+        return createSuccessResponse(output.join('\n'), structured);
       } catch (error: any) {
         return createErrorResponse(`Coverage comparison failed: ${error.message}`);
       }
     });
   }
 }
+
+/**
+ * Merge saved coverage files (saved with includeRawData) into the coverage store
+ */
+export class MergeCoverageTool implements ToolHandler {
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const { files, runId, sourceMaps = true } = args;
+
+    if (!Array.isArray(files) || files.length === 0) {
+      return createErrorResponse('files parameter is required: coverage JSON files saved with includeRawData: true');
+    }
+
+    try {
+      const output: string[] = [`🗄️  Merging ${files.length} coverage file(s) into ${coverageStore.getRootDir()}`, ''];
+      let run;
+
+      for (const file of files) {
+        const data = JSON.parse(await fs.readFile(file, 'utf-8'));
+        if (!data.rawData) {
+          return createErrorResponse(`${file} has no raw coverage data; save it with includeRawData: true`);
+        }
+        const converted = await convertCoverage(data.rawData.js, data.rawData.css, sourceMaps);
+        run = coverageStore.ingest(converted, { runId, pageUrl: data.url });
+        output.push(`  • ${file}: ${converted.length} source file(s) from ${data.url || 'unknown page'}`);
+      }
+
+      output.push('');
+      output.push(`Run ${run!.runId}: ${formatTotals(run!.totals)}`);
+      return createSuccessResponse(output.join('\n'), { runId: run!.runId, totals: run!.totals });
+    } catch (error: any) {
+      return createErrorResponse(`Failed to merge coverage: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Fail when stored coverage is below per-glob or global minimums
+ */
+export class CheckCoverageThresholdsTool implements ToolHandler {
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const { thresholds, runIds } = args;
+
+    if (!thresholds || typeof thresholds !== 'object' || Object.keys(thresholds).length === 0) {
+      return createErrorResponse('thresholds parameter is required, e.g. { "global": { "lines": 80 }, "src/checkout/**": { "branches": 60 } }');
+    }
+
+    try {
+      const files = coverageStore.merged(runIds);
+      if (Object.keys(files).length === 0) {
+        return createErrorResponse(`Coverage store is empty: ${coverageStore.getRootDir()}`);
+      }
+
+      const violations = checkThresholds(files, thresholds);
+      const totals = summarize(Object.values(files));
+      const passed = violations.length === 0;
+      const output: string[] = [
+        `📊 Coverage thresholds ${passed ? 'PASSED ✓' : 'FAILED ✗'}`,
+        `Runs: ${runIds?.length ? runIds.join(', ') : 'all'}`,
+        `Files: ${Object.keys(files).length}`,
+        `Total: ${formatTotals(totals)}`,
+      ];
+
+      if (!passed) {
+        output.push('', `Violations (${violations.length}):`);
+        output.push(...violations.map(v => v.metric === 'files'
+          ? `  ✗ ${v.pattern}: no covered files match`
+          : `  ✗ ${v.file || v.pattern}: ${v.metric} ${v.actual}% < ${v.required}%${v.file ? ` (${v.pattern})` : ''}`
+        ));
+      }
+
+      const structured = { passed, totals, violations };
+      return passed
+        ? createSuccessResponse(output.join('\n'), structured)
+        : createErrorResponse(output.join('\n'), structured);
+    } catch (error: any) {
+      return createErrorResponse(`Failed to check coverage thresholds: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Coverage of each stored run over time, with the cumulative total
+ */
+export class CoverageTrendTool implements ToolHandler {
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const { limit = 20 } = args;
+
+    try {
+      const runs = coverageStore.listRuns();
+      if (runs.length === 0) {
+        return createSuccessResponse(`No coverage runs stored in ${coverageStore.getRootDir()}`, { runs: [] });
+      }
+
+      const shown = runs.slice(-limit);
+      const output: string[] = [`📈 Coverage Trend (${shown.length} of ${runs.length} runs)`, ''];
+      let previous: CoverageTotals | undefined;
+
+      for (const run of shown) {
+        const delta = previous ? run.totals.lines.pct - previous.lines.pct : 0;
+        const deltaStr = previous ? ` ${delta >= 0 ? '📈 +' : '📉 '}${delta.toFixed(2)}%` : '';
+        output.push(`${run.runId} (${run.updatedAt})${deltaStr}`);
+        output.push(`  ${formatTotals(run.totals)}`);
+        output.push(`  Pages: ${run.pages.length}, sessions: ${run.sessions.length}`);
+        previous = run.totals;
+      }
+
+      const cumulative = summarize(Object.values(coverageStore.merged()));
+      output.push('', `Cumulative: ${formatTotals(cumulative)}`);
+
+      return createSuccessResponse(output.join('\n'), {
+        runs: shown.map(run => ({ runId: run.runId, updatedAt: run.updatedAt, totals: run.totals })),
+        cumulative,
+      });
+    } catch (error: any) {
+      return createErrorResponse(`Failed to read coverage trend: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * List CSS rules that never matched and top-level JS functions that never ran across saved coverage files
+ */
+export class FindUnusedCodeTool implements ToolHandler {
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const { files, outputFile, sourceMaps = true, minBytes = 0, top = 20 } = args;
+
+    if (!Array.isArray(files) || files.length === 0) {
+      return createErrorResponse('files parameter is required: coverage JSON files saved with includeRawData: true');
+    }
+
+    try {
+      const js: any[] = [];
+      const css: any[] = [];
+      for (const file of files) {
+        const data = JSON.parse(await fs.readFile(file, 'utf-8'));
+        if (!data.rawData) {
+          return createErrorResponse(`${file} has no raw coverage data; save it with includeRawData: true`);
+        }
+        js.push(...(data.rawData.js ?? []));
+        css.push(...(data.rawData.css ?? []));
+      }
+
+      const unused = await findUnusedCode(js, css, { sourceMaps, minBytes });
+      const cssFiles = unused.filter(file => file.kind === 'css');
+      const jsFiles = unused.filter(file => file.kind === 'js');
+      const sum = (list: typeof unused, key: 'unusedBytes' | 'gzipSavings') => list.reduce((total, file) => total + file[key], 0);
+      const count = (list: typeof unused) => list.reduce((total, file) => total + file.items.length, 0);
+
+      const output: string[] = [
+        `🧹 Unused Code (${files.length} coverage file(s))`,
+        ``,
+        `CSS: ${count(cssFiles)} unused rule(s) in ${cssFiles.length} file(s), ${this.formatBytes(sum(cssFiles, 'unusedBytes'))} (~${this.formatBytes(sum(cssFiles, 'gzipSavings'))} gzipped)`,
+        `JavaScript: ${count(jsFiles)} unused top-level function(s) in ${jsFiles.length} file(s), ${this.formatBytes(sum(jsFiles, 'unusedBytes'))} (~${this.formatBytes(sum(jsFiles, 'gzipSavings'))} gzipped)`,
+        ``,
+      ];
+
+      if (unused.length > 0) {
+        output.push('By source file:');
+        unused.forEach(file => output.push(
+          `  • ${file.path}: ${file.items.length} ${file.kind === 'css' ? 'rule(s)' : 'function(s)'}, ${this.formatBytes(file.unusedBytes)} of ${this.formatBytes(file.totalBytes)}`
+        ));
+        output.push('');
+
+        const largest = unused
+          .flatMap(file => file.items.map(item => ({ file, item })))
+          .sort((a, b) => b.item.bytes - a.item.bytes)
+          .slice(0, top);
+        output.push(`Largest ${largest.length}:`);
+        largest.forEach(({ file, item }) => output.push(
+          `  ${this.formatBytes(item.bytes).padStart(7)}  ${item.name}  (${file.path}:${item.originalLine ?? item.generatedLine})`
+        ));
+        output.push('');
+      }
+
+      if (outputFile) {
+        await fs.mkdir(path.dirname(outputFile), { recursive: true });
+        await fs.writeFile(outputFile, formatUnusedPatch(unused), 'utf-8');
+        artifactStore.register({ scheme: 'coverage', filePath: outputFile, description: 'Unused CSS/JS report' });
+        output.push(`💾 Patch-style report saved to: ${outputFile}`);
+      } else if (unused.length > 0) {
+        output.push(formatUnusedPatch(unused, 3));
+      }
+
+      return createSuccessResponse(output.join('\n'), {
+        files: unused.map(({ items, ...file }) => ({
+          ...file,
+          items: items.map(({ text, ...item }) => item),
+        })),
+      });
+    } catch (error: any) {
+      return createErrorResponse(`Failed to find unused code: ${error.message}`);
+    }
+  }
+
+  private formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes}B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+  }
+}
@@ -10,6 +10,30 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { PNG } from 'pngjs';
 import pixelmatch from 'pixelmatch';
+import { artifactStore } from '../../utils/artifactStore.js';
+import { resourceManager } from '../../utils/resourceManager.js';
+
+/**
+ * Launch a one-off browser once the resource manager admits it, so cross-browser runs count
+ * against the same browser and per-client limits as sessions. Release it with releaseBrowser
+ */
+async function launchAdmitted(browserType: string, headless: boolean, context: ToolContext): Promise<Browser> {
+  const admission = context.admission ?? {};
+  await resourceManager.requestBrowserLaunch(admission.clientId, admission.priority, admission.onQueued);
+  try {
+    if (browserType === 'chromium') {
+      return await chromium.launch({ headless });
+    } else if (browserType === 'firefox') {
+      return await firefox.launch({ headless });
+    } else if (browserType === 'webkit') {
+      return await webkit.launch({ headless });
+    }
+    throw new Error(`Unknown browser type: ${browserType}`);
+  } catch (error) {
+    await resourceManager.releaseBrowser(admission.clientId);
+    throw error;
+  }
+}
 
 /**
  * Tool for running actions across multiple browsers in parallel
@@ -37,17 +61,8 @@ export class RunAcrossBrowsersTool extends BrowserToolBase {
         let pageInstance: Page | null = null;
 
         try {
-          // Launch browser
-          const launchOptions = { headless };
-          if (browserType === 'chromium') {
-            browserInstance = await chromium.launch(launchOptions);
-          } else if (browserType === 'firefox') {
-            browserInstance = await firefox.launch(launchOptions);
-          } else if (browserType === 'webkit') {
-            browserInstance = await webkit.launch(launchOptions);
-          } else {
-            throw new Error(`Unknown browser type: ${browserType}`);
-          }
+          // Launch browser, waiting for a free browser slot
+          browserInstance = await launchAdmitted(browserType, headless, context);
 
           // Create page with viewport
           pageInstance = await browserInstance.newPage({
@@ -95,7 +110,10 @@ export class RunAcrossBrowsersTool extends BrowserToolBase {
         } finally {
           // Cleanup
           if (pageInstance) await pageInstance.close().catch(() => {});
-          if (browserInstance) await browserInstance.close().catch(() => {});
+          if (browserInstance) {
+            await browserInstance.close().catch(() => {});
+            await resourceManager.releaseBrowser(context.admission?.clientId);
+          }
         }
       });
 
@@ -117,9 +135,10 @@ export class RunAcrossBrowsersTool extends BrowserToolBase {
         `Failed: ${results.filter(r => !r.success).length}`
       ];
 
+      const structured = { passed: allSucceeded, results };
       return allSucceeded
-        ? createSuccessResponse(summary)
-        : createErrorResponse(summary.join('\n'));
+        ? createSuccessResponse(summary, structured)
+        : createErrorResponse(summary.join('\n'), structured);
 
     } catch (error) {
       return createErrorResponse(`Cross-browser execution failed: ${(error as Error).message}`);
@@ -160,19 +179,8 @@ export class CrossBrowserScreenshotTool extends BrowserToolBase {
         let pageInstance: Page | null = null;
 
         try {
-          // Launch browser
-          const launchOptions = { headless };
-          if (browserType === 'chromium') {
-            browserInstance = await chromium.launch(launchOptions);
-          } else if (browserType === 'firefox') {
-            browserInstance = await firefox.launch(launchOptions);
-          } else if (browserType === 'webkit') {
-            browserInstance = await webkit.launch(launchOptions);
-          }
-
-          if (!browserInstance) {
-            throw new Error(`Failed to launch ${browserType}`);
-          }
+          // Launch browser, waiting for a free browser slot
+          browserInstance = await launchAdmitted(browserType, headless, context);
 
           // Create page
           pageInstance = await browserInstance.newPage({ viewport });
@@ -201,13 +209,17 @@ export class CrossBrowserScreenshotTool extends BrowserToolBase {
           });
         } finally {
           if (pageInstance) await pageInstance.close().catch(() => {});
-          if (browserInstance) await browserInstance.close().catch(() => {});
+          if (browserInstance) {
+            await browserInstance.close().catch(() => {});
+            await resourceManager.releaseBrowser(context.admission?.clientId);
+          }
         }
       });
 
       await Promise.all(capturePromises);
 
       const successfulScreenshots = screenshots.filter(s => s.success);
+      const comparisons: Array<Record<string, unknown>> = [];
       const output = screenshots.map(s =>
         `${s.success ? '✓' : '✗'} ${s.browser.toUpperCase()}: ${s.success ? s.path : 'Failed'}`
       );
@@ -230,6 +242,7 @@ export class CrossBrowserScreenshotTool extends BrowserToolBase {
               // Check dimensions
               if (img1.width !== img2.width || img1.height !== img2.height) {
                 output.push(`⚠️  ${browser1.browser} vs ${browser2.browser}: Different dimensions`);
+                comparisons.push({ browsers: [browser1.browser, browser2.browser], passed: false, error: 'Different dimensions' });
                 continue;
               }
 
@@ -249,6 +262,13 @@ export class CrossBrowserScreenshotTool extends BrowserToolBase {
               const diffPercentage = ((numDiffPixels / totalPixels) * 100).toFixed(2);
               const maxDiffPercentage = threshold * 100;
               const passed = parseFloat(diffPercentage) <= maxDiffPercentage;
+              const comparison: Record<string, unknown> = {
+                browsers: [browser1.browser, browser2.browser],
+                passed,
+                diffPercentage: parseFloat(diffPercentage),
+                threshold: maxDiffPercentage
+              };
+              comparisons.push(comparison);
 
               if (passed) {
                 output.push(`✓ ${browser1.browser} vs ${browser2.browser}: ${diffPercentage}% difference (PASSED)`);
@@ -258,11 +278,14 @@ export class CrossBrowserScreenshotTool extends BrowserToolBase {
                 // Save diff image
                 const diffPath = path.join(outputDir, `diff-${browser1.browser}-vs-${browser2.browser}.png`);
                 fs.writeFileSync(diffPath, PNG.sync.write(diff));
+                artifactStore.register({ scheme: 'diff', filePath: diffPath });
                 output.push(`  Diff saved: ${diffPath}`);
+                comparison.diffImage = diffPath;
               }
 
             } catch (error) {
               output.push(`⚠️  ${browser1.browser} vs ${browser2.browser}: Comparison error`);
+              comparisons.push({ browsers: [browser1.browser, browser2.browser], passed: false, error: (error as Error).message });
             }
           }
         }
@@ -275,10 +298,15 @@ export class CrossBrowserScreenshotTool extends BrowserToolBase {
       output.push(`Failed captures: ${browsers.length - successfulScreenshots.length}`);
 
       const allSucceeded = screenshots.every(s => s.success);
+      const structured = {
+        passed: allSucceeded && comparisons.every(comparison => comparison.passed),
+        screenshots: screenshots.map(s => ({ browser: s.browser, success: s.success, ...(s.success ? { path: s.path } : {}) })),
+        comparisons
+      };
 
       return allSucceeded
-        ? createSuccessResponse(output)
-        : createErrorResponse(output.join('\n'));
+        ? createSuccessResponse(output, structured)
+        : createErrorResponse(output.join('\n'), structured);
 
     } catch (error) {
       return createErrorResponse(`Cross-browser screenshot failed: ${(error as Error).message}`);
@@ -430,7 +458,14 @@ export class ListDevicesTool extends BrowserToolBase {
       output.push(`  • iPad Pro`);
       output.push(`  • Galaxy S9+`);
 
-      return createSuccessResponse(output);
+      return createSuccessResponse(output, {
+        total: deviceList.length,
+        devices: filteredDevices.map(name => ({
+          name,
+          width: devices[name].viewport?.width,
+          height: devices[name].viewport?.height,
+        })),
+      });
 
     } catch (error) {
       return createErrorResponse(`Failed to list devices: ${(error as Error).message}`);
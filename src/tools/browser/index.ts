@@ -16,6 +16,12 @@ export * from './advancedInteraction.js';
 export * from './visualTesting.js';
 export * from './crossBrowser.js';
 export * from './locatorCollector.js';
+export * from './selfHealing.js';
 export * from './pdf.js';
 export * from './assertions.js';
-export * from './videoRecording.js'; 
\ No newline at end of file
+export * from './videoRecording.js';
+export * from './smartWaiting.js';
+export * from './accessibility.js';
+export * from './coverage.js';
+export * from './visualAI.js';
+export * from './networkMocking.js';
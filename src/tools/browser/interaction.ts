@@ -5,7 +5,7 @@
 
 import { BrowserToolBase } from './base.js';
 import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
-import { setGlobalPage } from '../../toolHandler.js';
+import { sessionManager } from '../../sessionManager.js';
 /**
  * Tool for clicking elements on the page
  */
@@ -15,8 +15,10 @@ export class ClickTool extends BrowserToolBase {
    */
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
     return this.safeExecute(context, async (page) => {
-      await page.click(args.selector);      
-      return createSuccessResponse(`Clicked element: ${args.selector}`);
+      return this.withSelfHealing(page, context, 'playwright_click', args, async (selector) => {
+        await page.click(selector);
+        return createSuccessResponse(`Clicked element: ${selector}`);
+      });
     });
   }
 }
@@ -29,25 +31,27 @@ export class ClickAndSwitchTabTool extends BrowserToolBase {
    */
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
     
-    return this.safeExecute(context, async (page) => {
+    return this.safeExecute(context, async (page) => this.withSelfHealing(page, context, 'playwright_click_and_switch_tab', args, async (selector) => {
       // Listen for a new tab to open
       const [newPage] = await Promise.all([
         //context.browser.waitForEvent('page'), // Wait for a new page (tab) to open
         page.context().waitForEvent('page'),// Wait for a new page (tab) to open
-        page.click(args.selector), // Click the link that opens the new tab
+        page.click(selector), // Click the link that opens the new tab
       ]);
 
       // Wait for the new page to load
       await newPage.waitForLoadState('domcontentloaded');
 
-      // Switch control to the new tab
-      setGlobalPage(newPage);
+      // Switch control of the session to the new tab
+      if (context.session) {
+        await sessionManager.setSessionPage(context.session.id, newPage);
+      }
       //page= newPage; // Update the current page to the new tab
       //context.page = newPage;
       //context.page.bringToFront(); // Bring the new tab to the front
       return createSuccessResponse(`Clicked link and switched to new tab: ${newPage.url()}`);
       //return createSuccessResponse(`Clicked link and switched to new tab: ${context.page.url()}`);
-    });
+    }));
   }
 }
 /**
@@ -99,9 +103,11 @@ export class FillTool extends BrowserToolBase {
    */
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
     return this.safeExecute(context, async (page) => {
-      await page.waitForSelector(args.selector);
-      await page.fill(args.selector, args.value);
-      return createSuccessResponse(`Filled ${args.selector} with: ${args.value}`);
+      return this.withSelfHealing(page, context, 'playwright_fill', args, async (selector) => {
+        await page.waitForSelector(selector);
+        await page.fill(selector, args.value);
+        return createSuccessResponse(`Filled ${selector} with: ${args.value}`);
+      });
     });
   }
 }
@@ -115,9 +121,11 @@ export class SelectTool extends BrowserToolBase {
    */
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
     return this.safeExecute(context, async (page) => {
-      await page.waitForSelector(args.selector);
-      await page.selectOption(args.selector, args.value);
-      return createSuccessResponse(`Selected ${args.selector} with: ${args.value}`);
+      return this.withSelfHealing(page, context, 'playwright_select', args, async (selector) => {
+        await page.waitForSelector(selector);
+        await page.selectOption(selector, args.value);
+        return createSuccessResponse(`Selected ${selector} with: ${args.value}`);
+      });
     });
   }
 }
@@ -131,9 +139,11 @@ export class HoverTool extends BrowserToolBase {
    */
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
     return this.safeExecute(context, async (page) => {
-      await page.waitForSelector(args.selector);
-      await page.hover(args.selector);
-      return createSuccessResponse(`Hovered ${args.selector}`);
+      return this.withSelfHealing(page, context, 'playwright_hover', args, async (selector) => {
+        await page.waitForSelector(selector);
+        await page.hover(selector);
+        return createSuccessResponse(`Hovered ${selector}`);
+      });
     });
   }
 }
@@ -147,9 +157,11 @@ export class UploadFileTool extends BrowserToolBase {
    */
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
     return this.safeExecute(context, async (page) => {
-        await page.waitForSelector(args.selector);
-        await page.setInputFiles(args.selector, args.filePath);
-        return createSuccessResponse(`Uploaded file '${args.filePath}' to '${args.selector}'`);
+      return this.withSelfHealing(page, context, 'playwright_upload_file', args, async (selector) => {
+        await page.waitForSelector(selector);
+        await page.setInputFiles(selector, args.filePath);
+        return createSuccessResponse(`Uploaded file '${args.filePath}' to '${selector}'`);
+      });
     });
   }
 }
@@ -178,7 +190,7 @@ export class EvaluateTool extends BrowserToolBase {
         `${args.script}`,
         `Result:`,
         `${resultStr}`
-      ]);
+      ], { result });
     });
   }
 }
@@ -227,13 +239,15 @@ export class PressKeyTool extends BrowserToolBase {
    */
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
     return this.safeExecute(context, async (page) => {
-      if (args.selector) {
-        await page.waitForSelector(args.selector);
-        await page.focus(args.selector);
-      }
-      
-      await page.keyboard.press(args.key);
-      return createSuccessResponse(`Pressed key: ${args.key}`);
+      return this.withSelfHealing(page, context, 'playwright_press_key', args, async (selector) => {
+        if (selector) {
+          await page.waitForSelector(selector);
+          await page.focus(selector);
+        }
+
+        await page.keyboard.press(args.key);
+        return createSuccessResponse(`Pressed key: ${args.key}`);
+      });
     });
   }
 } 
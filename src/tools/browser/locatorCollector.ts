@@ -8,6 +8,7 @@ import * as path from 'path';
 import type { Page } from 'playwright';
 import { BrowserToolBase } from './base.js';
 import { ToolContext, ToolResponse, createErrorResponse, createSuccessResponse } from '../common/types.js';
+import { withLocatorHelpers } from '../../utils/locatorHeuristics.js';
 
 /**
  * Interface for collected locator information
@@ -101,7 +102,8 @@ export class CollectLocatorsTool extends BrowserToolBase {
         if (locators.length === 0) {
           return createSuccessResponse(
             'No suitable locators found on the current page. ' +
-            'The page may not have elements with stable, unique selectors.'
+            'The page may not have elements with stable, unique selectors.',
+            { pages: [], errors: [] }
           );
         }
 
@@ -258,7 +260,24 @@ export class CollectLocatorsTool extends BrowserToolBase {
         output.push(``);
         output.push(fileContent);
 
-        return createSuccessResponse(output);
+        return createSuccessResponse(output, {
+          pages: [{
+            url: pageUrl,
+            pageName: pageInfo.pageName,
+            filePath: pageInfo.filePath,
+            locatorsCount: locators.length,
+            stability: stabilityCount,
+            locators: locators.map(loc => ({
+              name: loc.name,
+              strategy: loc.locatorStrategy,
+              elementType: loc.elementType,
+              section: loc.section,
+              stability: loc.stability,
+              code: loc.locatorCode,
+            })),
+          }],
+          errors: [],
+        });
       } catch (error) {
         return createErrorResponse(`Failed to collect locators: ${(error as Error).message}`);
       }
@@ -403,17 +422,18 @@ export class CollectLocatorsTool extends BrowserToolBase {
       output.push(`  - ${file}`);
     });
 
-    return createSuccessResponse(output);
+    return createSuccessResponse(output, { pages: results, errors });
   }
 
   /**
    * Collect all visible elements and their best locators
    */
   private async collectVisibleLocators(page: Page, config: CollectorConfig): Promise<CollectedLocator[]> {
-    // Execute the collection logic in the browser context
-    const elementsData = await page.evaluate((cfg) => {
+    // Execute the collection logic in the browser context, with the locator heuristics self-healing uses
+    const elementsData = await page.evaluate(withLocatorHelpers((helpers, cfg: CollectorConfig) => {
       const results: any[] = [];
       const usedNames = new Set<string>();
+      const { isStableId, isUnique, getRole, getAccessibleName, generateCssSelector } = helpers;
 
       // Helper: Check if element is visible
       function isVisible(element: Element): boolean {
@@ -468,157 +488,12 @@ export class CollectLocatorsTool extends BrowserToolBase {
           .replace(/[^a-zA-Z0-9]/g, '');
       }
 
-      // Helper: Check if ID looks auto-generated
-      function isStableId(id: string): boolean {
-        // Avoid IDs that look like: id_12345, guid-xxx-xxx, react_123, etc.
-        const unstablePatterns = [
-          /^[a-z]+_\d+$/i,           // prefix_numbers
-          /^[0-9a-f]{8}-[0-9a-f]{4}-/i, // GUID/UUID pattern
-          /^react[-_]\d+/i,          // React generated
-          /^ember\d+/i,              // Ember generated
-          /^mui-\d+/i,               // Material-UI generated
-          /^\d+$/,                   // Only numbers
-        ];
-        return !unstablePatterns.some(pattern => pattern.test(id));
-      }
-
-      // Helper: Get accessible name for role-based locators
-      function getAccessibleName(element: Element): string | null {
-        if (!(element instanceof HTMLElement)) return null;
-
-        // Check aria-label
-        const ariaLabel = element.getAttribute('aria-label');
-        if (ariaLabel) return ariaLabel;
-
-        // Check aria-labelledby
-        const labelledBy = element.getAttribute('aria-labelledby');
-        if (labelledBy) {
-          const labelElement = document.getElementById(labelledBy);
-          if (labelElement) return labelElement.textContent?.trim() || null;
-        }
-
-        // For form inputs, check associated label
-        if (element instanceof HTMLInputElement ||
-            element instanceof HTMLTextAreaElement ||
-            element instanceof HTMLSelectElement) {
-          const label = document.querySelector(`label[for="${element.id}"]`);
-          if (label) return label.textContent?.trim() || null;
-
-          // Check if wrapped in label
-          const parentLabel = element.closest('label');
-          if (parentLabel) {
-            const text = parentLabel.textContent?.trim() || '';
-            return text.replace(element.value || '', '').trim() || null;
-          }
-        }
-
-        // For buttons and links, use text content
-        if (element instanceof HTMLButtonElement ||
-            element instanceof HTMLAnchorElement) {
-          return element.textContent?.trim() || null;
-        }
-
-        return null;
-      }
-
-      // Helper: Get ARIA role
-      function getRole(element: Element): string | null {
-        // Explicit role
-        const explicitRole = element.getAttribute('role');
-        if (explicitRole) return explicitRole;
-
-        // Implicit roles based on tag
-        const tagName = element.tagName.toLowerCase();
-        const implicitRoles: { [key: string]: string } = {
-          'button': 'button',
-          'a': 'link',
-          'input': element.getAttribute('type') === 'button' || element.getAttribute('type') === 'submit' ? 'button' : 'textbox',
-          'textarea': 'textbox',
-          'select': 'combobox',
-          'h1': 'heading',
-          'h2': 'heading',
-          'h3': 'heading',
-          'h4': 'heading',
-          'h5': 'heading',
-          'h6': 'heading',
-          'nav': 'navigation',
-          'main': 'main',
-          'header': 'banner',
-          'footer': 'contentinfo',
-          'aside': 'complementary',
-          'img': 'img',
-          'form': 'form',
-        };
-
-        return implicitRoles[tagName] || null;
-      }
-
-      // Helper: Generate CSS selector
-      function generateCssSelector(element: Element): string | null {
-        // Try name attribute for inputs
-        if (element instanceof HTMLInputElement ||
-            element instanceof HTMLTextAreaElement ||
-            element instanceof HTMLSelectElement) {
-          const name = element.getAttribute('name');
-          if (name) {
-            const tagName = element.tagName.toLowerCase();
-            return `${tagName}[name="${name}"]`;
-          }
-        }
-
-        // Try type attribute for inputs/buttons
-        if (element instanceof HTMLInputElement || element instanceof HTMLButtonElement) {
-          const type = element.getAttribute('type');
-          if (type) {
-            const tagName = element.tagName.toLowerCase();
-            const selector = `${tagName}[type="${type}"]`;
-            // Check if unique
-            if (document.querySelectorAll(selector).length === 1) {
-              return selector;
-            }
-          }
-        }
-
-        // Try combining tag with meaningful class
-        const classes = Array.from(element.classList).filter(cls => {
-          // Filter out utility classes and dynamic classes
-          return !cls.match(/^(active|disabled|hidden|visible|show|hide|d-|p-|m-|text-|bg-|border-|w-|h-)/);
-        });
-
-        if (classes.length > 0) {
-          const tagName = element.tagName.toLowerCase();
-          const classSelector = classes.slice(0, 2).map(c => `.${c}`).join('');
-          const selector = `${tagName}${classSelector}`;
-          if (document.querySelectorAll(selector).length === 1) {
-            return selector;
-          }
-        }
-
-        return null;
-      }
-
-      // Helper: Check if a selector is unique
-      function isUnique(selector: string): boolean {
-        try {
-          return document.querySelectorAll(selector).length === 1;
-        } catch {
-          return false;
-        }
-      }
-
       // Helper: Generate candidates for an element
       function generateCandidates(element: Element): CandidateLocator[] {
         const candidates: CandidateLocator[] = [];
 
         // Priority 1: Data-test attributes (including custom attributes)
-        const dataAttrs = ['data-testid', 'data-test-id', 'data-id', 'data-qa', 'data-test'];
-
-        // Add custom attributes from config
-        if (cfg.customAttributes && cfg.customAttributes.length > 0) {
-          dataAttrs.push(...cfg.customAttributes);
-        }
-
-        for (const attr of dataAttrs) {
+        for (const attr of helpers.testIdAttributes) {
           const value = element.getAttribute(attr);
           if (value) {
             const selector = `[${attr}="${value}"]`;
@@ -1044,7 +919,7 @@ export class CollectLocatorsTool extends BrowserToolBase {
       }
 
       return results;
-    }, config);
+    }), config);
 
     return elementsData as CollectedLocator[];
   }
@@ -6,6 +6,7 @@
 import { BrowserToolBase } from './base.js';
 import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
 import { resetBrowserState } from '../../toolHandler.js';
+import { sessionManager } from '../../sessionManager.js';
 
 /**
  * Tool for navigating to URLs
@@ -18,7 +19,7 @@ export class NavigationTool extends BrowserToolBase {
     // Check if browser is available
     if (!context.browser || !context.browser.isConnected()) {
       // If browser is not connected, we need to reset the state to force recreation
-      resetBrowserState();
+      resetBrowserState(context.session?.id);
       return createErrorResponse(
         "Browser is not connected. The connection has been reset - please retry your navigation."
       );
@@ -49,7 +50,7 @@ export class NavigationTool extends BrowserToolBase {
           errorMessage.includes("Browser has been disconnected")
         ) {
           // Reset browser state to force recreation on next attempt
-          resetBrowserState();
+          resetBrowserState(context.session?.id);
           return createErrorResponse(
             `Browser connection issue: ${errorMessage}. Connection has been reset - please retry your navigation.`
           );
@@ -63,31 +64,19 @@ export class NavigationTool extends BrowserToolBase {
 }
 
 /**
- * Tool for closing the browser
+ * Tool for closing the browser of a session
  */
 export class CloseBrowserTool extends BrowserToolBase {
   /**
    * Execute the close browser tool
    */
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
-    if (context.browser) {
-      try {
-        // Check if browser is still connected
-        if (context.browser.isConnected()) {
-          await context.browser.close().catch(error => {
-            console.error("Error while closing browser:", error);
-          });
-        } else {
-          console.error("Browser already disconnected, cleaning up state");
-        }
-      } catch (error) {
+    if (context.session) {
+      // closeSession always drops the session, even if closing the browser fails
+      await sessionManager.closeSession(context.session.id).catch(error => {
         console.error("Error during browser close operation:", error);
-        // Continue with resetting state even if close fails
-      } finally {
-        // Always reset the global browser and page references
-        resetBrowserState();
-      }
-      
+      });
+
       return createSuccessResponse("Browser closed successfully");
     }
     
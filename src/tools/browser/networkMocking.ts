@@ -0,0 +1,390 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+import fs from 'fs';
+import type { Page, Route } from 'playwright';
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
+import type { ActiveRoute, BrowserSession } from '../../sessionManager.js';
+
+// Next numeric route ID per session; IDs default to route-1, route-2, ...
+const routeCounters = new WeakMap<BrowserSession, number>();
+
+/**
+ * Turn the url argument into a page.route matcher
+ */
+function toUrlMatcher(url: string, regex?: boolean): string | RegExp {
+  return regex ? new RegExp(url) : url;
+}
+
+/**
+ * Whether a route has handled as many requests as its times limit allows
+ */
+function isExhausted(activeRoute: ActiveRoute): boolean {
+  return !!activeRoute.times && activeRoute.hits >= activeRoute.times;
+}
+
+/**
+ * Route as returned in structuredContent
+ */
+function toRouteInfo(activeRoute: ActiveRoute): Record<string, unknown> {
+  return {
+    id: activeRoute.id,
+    type: activeRoute.type,
+    url: String(activeRoute.url),
+    ...(activeRoute.method ? { method: activeRoute.method } : {}),
+    description: activeRoute.description,
+    hits: activeRoute.hits,
+    ...(activeRoute.times ? { times: activeRoute.times, exhausted: isExhausted(activeRoute) } : {}),
+  };
+}
+
+/**
+ * Wait before handling a route when a delay is requested
+ */
+async function applyDelay(delay?: number): Promise<void> {
+  if (delay && delay > 0) {
+    await new Promise(resolve => setTimeout(resolve, delay));
+  }
+}
+
+/**
+ * Base class for tools that install a route on the session page
+ */
+abstract class RouteToolBase extends BrowserToolBase {
+  /**
+   * Install a handler with page.route and track it on the session
+   * @param page Page to route
+   * @param session Session owning the route
+   * @param args Tool arguments (url, regex, method, times, id)
+   * @param type Kind of route
+   * @param description Human-readable summary of what the route does
+   * @param handle Handles a matching request
+   */
+  protected async installRoute(
+    page: Page,
+    session: BrowserSession | undefined,
+    args: any,
+    type: ActiveRoute['type'],
+    description: string,
+    handle: (route: Route) => Promise<void>
+  ): Promise<ActiveRoute> {
+    if (!session) {
+      throw new Error('No browser session to attach the route to');
+    }
+
+    const id = this.nextRouteId(session, args.id);
+    const url = toUrlMatcher(args.url, args.regex);
+    const method = args.method ? String(args.method).toUpperCase() : undefined;
+
+    const activeRoute: ActiveRoute = {
+      id,
+      type,
+      url,
+      method,
+      description,
+      hits: 0,
+      times: args.times,
+      createdAt: new Date(),
+    };
+
+    // The times limit is enforced here rather than by page.route, which would also count requests
+    // passed on for a different method
+    activeRoute.handler = async (route: Route) => {
+      if ((method && route.request().method() !== method) || isExhausted(activeRoute)) {
+        await route.fallback();
+        return;
+      }
+      activeRoute.hits++;
+      if (isExhausted(activeRoute)) {
+        await page.unroute(url, activeRoute.handler).catch(() => {});
+      }
+      await handle(route);
+    };
+
+    await page.route(url, activeRoute.handler);
+    session.routes.set(id, activeRoute);
+    return activeRoute;
+  }
+
+  /**
+   * Pick the ID for a new route, rejecting duplicates of explicit IDs
+   */
+  protected nextRouteId(session: BrowserSession, requestedId?: string): string {
+    if (requestedId) {
+      if (session.routes.has(requestedId)) {
+        throw new Error(`Route '${requestedId}' already exists`);
+      }
+      return requestedId;
+    }
+
+    let next = routeCounters.get(session) ?? 1;
+    while (session.routes.has(`route-${next}`)) {
+      next++;
+    }
+    routeCounters.set(session, next + 1);
+    return `route-${next}`;
+  }
+
+  /**
+   * Summary lines shared by the route tools
+   */
+  protected describeRoute(activeRoute: ActiveRoute): string[] {
+    return [
+      `Route ID: ${activeRoute.id}`,
+      `URL pattern: ${activeRoute.url}`,
+      activeRoute.method ? `Method: ${activeRoute.method}` : '',
+      activeRoute.times ? `Times: ${activeRoute.times}` : '',
+    ].filter(Boolean);
+  }
+}
+
+/**
+ * Stub responses for matching requests with static JSON, text or a file
+ */
+export class MockRouteTool extends RouteToolBase {
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      const { url, status = 200, headers, json, body, filePath, contentType, delay } = args;
+
+      if (!url) {
+        return createErrorResponse('url is required');
+      }
+
+      const sources = [json !== undefined, body !== undefined, filePath !== undefined].filter(Boolean).length;
+      if (sources > 1) {
+        return createErrorResponse('Provide only one of json, body or filePath');
+      }
+      if (filePath && !fs.existsSync(filePath)) {
+        return createErrorResponse(`Mock file not found: ${filePath}`);
+      }
+
+      const activeRoute = await this.installRoute(page, context.session, args, 'mock',
+        `Fulfill with ${status}${filePath ? ` from ${filePath}` : json !== undefined ? ' JSON' : body !== undefined ? ' text' : ''}${delay ? ` after ${delay}ms` : ''}`,
+        async (route) => {
+          await applyDelay(delay);
+          await route.fulfill({
+            status,
+            headers,
+            contentType,
+            ...(json !== undefined ? { json } : {}),
+            ...(body !== undefined ? { body } : {}),
+            ...(filePath ? { path: filePath } : {}),
+          });
+        });
+
+      return createSuccessResponse([
+        `Mock route installed`,
+        ...this.describeRoute(activeRoute),
+        `Response: ${activeRoute.description}`,
+      ], { route: toRouteInfo(activeRoute) });
+    });
+  }
+}
+
+/**
+ * Abort matching requests with a network error
+ */
+export class AbortRouteTool extends RouteToolBase {
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      const { url, errorCode = 'failed', delay } = args;
+
+      if (!url) {
+        return createErrorResponse('url is required');
+      }
+
+      const activeRoute = await this.installRoute(page, context.session, args, 'abort',
+        `Abort with '${errorCode}'${delay ? ` after ${delay}ms` : ''}`,
+        async (route) => {
+          await applyDelay(delay);
+          await route.abort(errorCode);
+        });
+
+      return createSuccessResponse([
+        `Abort route installed`,
+        ...this.describeRoute(activeRoute),
+        `Action: ${activeRoute.description}`,
+      ], { route: toRouteInfo(activeRoute) });
+    });
+  }
+}
+
+/**
+ * Let matching requests through after a delay and/or with rewritten request or response headers
+ */
+export class ModifyRouteTool extends RouteToolBase {
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      const { url, delay, requestHeaders, removeRequestHeaders, responseHeaders } = args;
+
+      if (!url) {
+        return createErrorResponse('url is required');
+      }
+      if (!delay && !requestHeaders && !removeRequestHeaders?.length && !responseHeaders) {
+        return createErrorResponse('Provide at least one of delay, requestHeaders, removeRequestHeaders or responseHeaders');
+      }
+
+      const changes = [
+        delay ? `delay ${delay}ms` : '',
+        requestHeaders ? `set request headers ${Object.keys(requestHeaders).join(', ')}` : '',
+        removeRequestHeaders?.length ? `remove request headers ${removeRequestHeaders.join(', ')}` : '',
+        responseHeaders ? `set response headers ${Object.keys(responseHeaders).join(', ')}` : '',
+      ].filter(Boolean);
+
+      const activeRoute = await this.installRoute(page, context.session, args, 'modify', changes.join('; '),
+        async (route) => {
+          await applyDelay(delay);
+
+          const headers: Record<string, string> = { ...route.request().headers(), ...(requestHeaders || {}) };
+          for (const name of removeRequestHeaders || []) {
+            delete headers[name.toLowerCase()];
+          }
+
+          if (!responseHeaders) {
+            await route.continue({ headers });
+            return;
+          }
+
+          const response = await route.fetch({ headers });
+          await route.fulfill({ response, headers: { ...response.headers(), ...responseHeaders } });
+        });
+
+      return createSuccessResponse([
+        `Modify route installed`,
+        ...this.describeRoute(activeRoute),
+        `Changes: ${activeRoute.description}`,
+      ], { route: toRouteInfo(activeRoute) });
+    });
+  }
+}
+
+/**
+ * Serve matching requests from a HAR file
+ */
+export class RouteFromHarTool extends RouteToolBase {
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      const { harPath, url, regex, notFound = 'abort', update = false } = args;
+      const session = context.session;
+
+      if (!harPath) {
+        return createErrorResponse('harPath is required');
+      }
+      if (!update && !fs.existsSync(harPath)) {
+        return createErrorResponse(`HAR file not found: ${harPath}`);
+      }
+      if (!session) {
+        return createErrorResponse('No browser session to attach the route to');
+      }
+
+      const id = this.nextRouteId(session, args.id);
+      const matcher = url ? toUrlMatcher(url, regex) : '**/*';
+
+      await page.routeFromHAR(harPath, {
+        url: url ? matcher : undefined,
+        notFound,
+        update,
+      });
+
+      const activeRoute: ActiveRoute = {
+        id,
+        type: 'har',
+        url: matcher,
+        description: `${update ? 'Record to' : 'Serve from'} ${harPath} (not found: ${notFound})`,
+        hits: 0,
+        createdAt: new Date(),
+      };
+      session.routes.set(id, activeRoute);
+
+      return createSuccessResponse([
+        `HAR route installed`,
+        ...this.describeRoute(activeRoute),
+        `Source: ${activeRoute.description}`,
+        update ? `Note: the HAR file is written when the page or browser closes` : '',
+      ].filter(Boolean), { route: toRouteInfo(activeRoute) });
+    });
+  }
+}
+
+/**
+ * List the routes installed on the session page
+ */
+export class ListRoutesTool extends BrowserToolBase {
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async () => {
+      const routes = Array.from(context.session?.routes.values() ?? []);
+
+      if (routes.length === 0) {
+        return createSuccessResponse('No active routes', { routes: [] });
+      }
+
+      return createSuccessResponse([
+        `=== Active Routes (${routes.length}) ===`,
+        '',
+        ...routes.map(activeRoute => [
+          `${activeRoute.id} [${activeRoute.type}] ${activeRoute.method ? `${activeRoute.method} ` : ''}${activeRoute.url}`,
+          `  ${activeRoute.description}`,
+          activeRoute.type === 'har'
+            ? ''
+            : `  Hits: ${activeRoute.hits}${activeRoute.times ? ` / ${activeRoute.times}${isExhausted(activeRoute) ? ' (exhausted)' : ''}` : ''}`,
+        ].filter(Boolean).join('\n')),
+      ], { routes: routes.map(toRouteInfo) });
+    });
+  }
+}
+
+/**
+ * Remove one route by ID or URL pattern, or all routes
+ */
+export class RemoveRouteTool extends BrowserToolBase {
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      const { id, url, all } = args;
+      const routes = context.session?.routes;
+
+      if (!routes) {
+        return createErrorResponse('No browser session');
+      }
+
+      if (all) {
+        const ids = Array.from(routes.keys());
+        await page.unrouteAll({ behavior: 'ignoreErrors' });
+        routes.clear();
+        return createSuccessResponse(`Removed all routes (${ids.length})`, { removed: ids });
+      }
+
+      if (!id && !url) {
+        return createErrorResponse('Provide id, url or all');
+      }
+
+      const removed = Array.from(routes.values()).filter(activeRoute =>
+        id ? activeRoute.id === id : String(activeRoute.url) === url
+      );
+      if (removed.length === 0) {
+        return createErrorResponse(id ? `Route '${id}' not found` : `No route with URL pattern '${url}'`);
+      }
+
+      for (const activeRoute of removed) {
+        routes.delete(activeRoute.id);
+        if (activeRoute.handler) {
+          await page.unroute(activeRoute.url, activeRoute.handler);
+          continue;
+        }
+
+        // HAR routes have no handler of ours: unroute the pattern and restore the other routes on it,
+        // whose handlers keep counting toward their own times limits
+        await page.unroute(activeRoute.url);
+        for (const other of routes.values()) {
+          if (other.handler && String(other.url) === String(activeRoute.url) && !isExhausted(other)) {
+            await page.route(other.url, other.handler);
+          }
+        }
+      }
+
+      return createSuccessResponse(`Removed route(s): ${removed.map(activeRoute => activeRoute.id).join(', ')}`, { removed: removed.map(activeRoute => activeRoute.id) });
+    });
+  }
+}
@@ -6,6 +6,7 @@
 import { BrowserToolBase } from './base.js';
 import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
 import * as path from 'path';
+import { artifactStore } from '../../utils/artifactStore.js';
 
 /**
  * Tool for saving page as PDF
@@ -30,7 +31,8 @@ export class SaveAsPdfTool extends BrowserToolBase {
       };
 
       await page.pdf(options);
-      return createSuccessResponse(`Saved page as PDF: ${options.path}`);
+      artifactStore.register({ scheme: 'pdf', filePath: options.path, description: `PDF of ${page.url()}` });
+      return createSuccessResponse(`Saved page as PDF: ${options.path}`, { path: options.path });
     });
   }
 } 
\ No newline at end of file
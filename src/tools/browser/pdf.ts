@@ -8,6 +8,7 @@ import * as path from 'node:path';
 import type { Page, Download } from 'playwright';
 import { BrowserToolBase } from './base.js';
 import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
+import { artifactStore } from '../../utils/artifactStore.js';
 
 // PDF parsing will be done using pdf-parse library
 // Import will be dynamic to avoid build errors if not installed
@@ -75,7 +76,7 @@ export class ExtractPdfTextTool extends BrowserToolBase {
           ``,
           `Preview (first 500 characters):`,
           `${data.text.substring(0, 500)}${data.text.length > 500 ? '...' : ''}`
-        ]);
+        ], { path: pdfPath, pages: data.numpages, characters: data.text.length, text: data.text, savedTo: outputPath });
       }
 
       return createSuccessResponse([
@@ -87,7 +88,7 @@ export class ExtractPdfTextTool extends BrowserToolBase {
         ``,
         `Extracted Text:`,
         `${data.text}`
-      ]);
+      ], { path: pdfPath, pages: data.numpages, characters: data.text.length, text: data.text });
     } catch (error) {
       return createErrorResponse(`Failed to extract PDF text: ${(error as Error).message}`);
     }
@@ -141,10 +142,11 @@ export class ValidatePdfContentTool extends BrowserToolBase {
         found = textToSearch.includes(searchText);
       }
 
-      if (found) {
-        // Count occurrences
-        const occurrences = textToSearch.split(searchText).length - 1;
+      // Count occurrences
+      const occurrences = found ? textToSearch.split(searchText).length - 1 : 0;
+      const structured = { passed: found, path: pdfPath, pages: data.numpages, expectedText, exactMatch, caseSensitive, occurrences };
 
+      if (found) {
         return createSuccessResponse([
           `\u{2705} PDF Content Validation PASSED`,
           ``,
@@ -155,7 +157,7 @@ export class ValidatePdfContentTool extends BrowserToolBase {
           `Case Sensitive: ${caseSensitive}`,
           ``,
           `\u{2705} Text found ${occurrences} time(s) in the PDF`
-        ]);
+        ], structured);
       } else {
         return {
           content: [{
@@ -175,7 +177,8 @@ export class ValidatePdfContentTool extends BrowserToolBase {
               `${pdfText.substring(0, 500)}${pdfText.length > 500 ? '...' : ''}`
             ].join('\n')
           }],
-          isError: true
+          isError: true,
+          structuredContent: structured
         };
       }
     } catch (error) {
@@ -229,7 +232,15 @@ export class CountPdfPagesTool extends BrowserToolBase {
         `Text Content:`,
         `  \u{2022} Total Characters: ${data.text.length}`,
         `  \u{2022} Average Characters per Page: ${Math.round(data.text.length / data.numpages)}`
-      ]);
+      ], {
+        path: pdfPath,
+        pages: data.numpages,
+        sizeBytes: fileStats.size,
+        characters: data.text.length,
+        ...(data.info?.Title ? { title: data.info.Title } : {}),
+        ...(data.info?.Author ? { author: data.info.Author } : {}),
+        ...(data.version ? { version: data.version } : {})
+      });
     } catch (error) {
       return createErrorResponse(`Failed to count PDF pages: ${(error as Error).message}`);
     }
@@ -284,9 +295,14 @@ export class DownloadAndExtractPdfTool extends BrowserToolBase {
 
         // Save the file
         await download.saveAs(finalSavePath);
+        artifactStore.register({
+          scheme: finalSavePath.toLowerCase().endsWith('.pdf') ? 'pdf' : 'download',
+          filePath: finalSavePath,
+        });
 
         const fileStats = fs.statSync(finalSavePath);
         const fileSizeKB = (fileStats.size / 1024).toFixed(2);
+        const downloaded = { filename: suggestedFilename, path: finalSavePath, sizeBytes: fileStats.size };
 
         // Extract text if requested
         if (extractText && finalSavePath.toLowerCase().endsWith('.pdf')) {
@@ -308,7 +324,7 @@ export class DownloadAndExtractPdfTool extends BrowserToolBase {
               ``,
               `Text Preview (first 500 characters):`,
               `${data.text.substring(0, 500)}${data.text.length > 500 ? '...' : ''}`
-            ]);
+            ], { ...downloaded, pages: data.numpages, characters: data.text.length, text: data.text });
           } catch (extractError) {
             return createSuccessResponse([
               `\u{2705} PDF Downloaded Successfully`,
@@ -318,7 +334,7 @@ export class DownloadAndExtractPdfTool extends BrowserToolBase {
               `File Size: ${fileSizeKB} KB`,
               ``,
               `\u{26A0}\uFE0F Could not extract PDF text: ${(extractError as Error).message}`
-            ]);
+            ], { ...downloaded, extractError: (extractError as Error).message });
           }
         }
 
@@ -328,7 +344,7 @@ export class DownloadAndExtractPdfTool extends BrowserToolBase {
           `Downloaded File: ${suggestedFilename}`,
           `Saved To: ${finalSavePath}`,
           `File Size: ${fileSizeKB} KB`
-        ]);
+        ], downloaded);
       } catch (error) {
         return createErrorResponse(`Failed to download PDF: ${(error as Error).message}`);
       }
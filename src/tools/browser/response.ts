@@ -3,13 +3,10 @@
  * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
  */
 
-import type { Response } from 'playwright';
 import { BrowserToolBase } from './base.js';
 import type { ToolContext, ToolResponse } from '../common/types.js';
 import { createSuccessResponse, createErrorResponse } from '../common/types.js';
 
-const responsePromises = new Map<string, Promise<Response>>();
-
 interface ExpectResponseArgs {
   id: string;
   url: string;
@@ -34,7 +31,7 @@ export class ExpectResponseTool extends BrowserToolBase {
       }
 
       const responsePromise = page.waitForResponse(args.url);
-      responsePromises.set(args.id, responsePromise);
+      context.session?.responsePromises.set(args.id, responsePromise);
 
       return createSuccessResponse(`Started waiting for response with ID ${args.id}`);
     });
@@ -54,7 +51,8 @@ export class AssertResponseTool extends BrowserToolBase {
         return createErrorResponse("Missing required parameter: id must be provided");
       }
 
-      const responsePromise = responsePromises.get(args.id);
+      const responsePromises = context.session?.responsePromises;
+      const responsePromise = responsePromises?.get(args.id);
       if (!responsePromise) {
         return createErrorResponse(`No response wait operation found with ID: ${args.id}`);
       }
@@ -70,7 +68,14 @@ export class AssertResponseTool extends BrowserToolBase {
               `Response body does not contain expected value: ${args.value}`,
               `Actual body: ${bodyStr}`
             ];
-            return createErrorResponse(messages.join('\n'));
+            return createErrorResponse(messages.join('\n'), {
+              passed: false,
+              assertion: 'response',
+              url: response.url(),
+              status: response.status(),
+              expected: args.value,
+              actual: body
+            });
           }
         }
 
@@ -80,11 +85,18 @@ export class AssertResponseTool extends BrowserToolBase {
           `Status: ${response.status()}`,
           `Body: ${JSON.stringify(body, null, 2)}`
         ];
-        return createSuccessResponse(messages.join('\n'));
+        return createSuccessResponse(messages.join('\n'), {
+          passed: true,
+          assertion: 'response',
+          url: response.url(),
+          status: response.status(),
+          expected: args.value ?? null,
+          actual: body
+        });
       } catch (error) {
         return createErrorResponse(`Failed to assert response: ${(error as Error).message}`);
       } finally {
-        responsePromises.delete(args.id);
+        responsePromises?.delete(args.id);
       }
     });
   }
@@ -16,8 +16,6 @@ const defaultDownloadsPath = path.join(os.homedir(), 'Downloads');
  * Tool for taking screenshots of pages or elements
  */
 export class ScreenshotTool extends BrowserToolBase {
-  private screenshots = new Map<string, string>();
-
   /**
    * Execute the screenshot tool
    */
@@ -58,25 +56,20 @@ export class ScreenshotTool extends BrowserToolBase {
       const base64Screenshot = screenshot.toString('base64');
 
       const messages = [`Screenshot saved to: ${path.relative(process.cwd(), outputPath)}`];
+      const structured: Record<string, unknown> = { path: outputPath };
 
       // Handle base64 storage
       if (args.storeBase64 !== false) {
-        this.screenshots.set(args.name || 'screenshot', base64Screenshot);
-        this.server.notification({
+        context.session?.screenshots.set(args.name || 'screenshot', base64Screenshot);
+        context.server.notification({
           method: "notifications/resources/list_changed",
         });
 
         messages.push(`Screenshot also stored in memory with name: '${args.name || 'screenshot'}'`);
+        structured.storedAs = args.name || 'screenshot';
       }
 
-      return createSuccessResponse(messages);
+      return createSuccessResponse(messages, structured);
     });
   }
-
-  /**
-   * Get all stored screenshots
-   */
-  getScreenshots(): Map<string, string> {
-    return this.screenshots;
-  }
 } 
\ No newline at end of file
@@ -0,0 +1,68 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+import { ToolContext, ToolResponse, ToolHandler, createErrorResponse, createSuccessResponse } from '../common/types.js';
+import { locatorHealer, HealingConfig } from '../../utils/locatorHealing.js';
+
+/**
+ * Tool for switching self-healing locators on or off, tuning them and reading the substitution log
+ */
+export class SelfHealingTool implements ToolHandler {
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    try {
+      const { enabled, threshold, waitTimeout, customAttributes, clearLog = false, clearFingerprints = false, limit = 20 } = args;
+
+      const updates: Partial<HealingConfig> = {};
+      if (enabled !== undefined) {
+        updates.enabled = Boolean(enabled);
+      }
+      if (threshold !== undefined) {
+        if (typeof threshold !== 'number' || threshold < 0 || threshold > 1) {
+          return createErrorResponse('threshold must be a number between 0 and 1');
+        }
+        updates.threshold = threshold;
+      }
+      if (waitTimeout !== undefined) {
+        if (typeof waitTimeout !== 'number' || waitTimeout < 0) {
+          return createErrorResponse('waitTimeout must be a non-negative number');
+        }
+        updates.waitTimeout = waitTimeout;
+      }
+      if (customAttributes !== undefined) {
+        if (!Array.isArray(customAttributes)) {
+          return createErrorResponse('customAttributes must be an array of attribute names');
+        }
+        updates.customAttributes = customAttributes;
+      }
+
+      const config = locatorHealer.configure(updates);
+      if (clearLog || clearFingerprints) {
+        locatorHealer.clear({ events: clearLog, fingerprints: clearFingerprints });
+      }
+
+      const events = locatorHealer.listEvents();
+      const shown = events.slice(0, limit);
+
+      return createSuccessResponse([
+        `=== Self-Healing Locators ===`,
+        `Mode: ${config.enabled ? 'enabled' : 'disabled'} (per call: selfHeal argument)`,
+        `Confidence threshold: ${Math.round(config.threshold * 100)}%`,
+        `Wait before healing: ${config.waitTimeout}ms`,
+        ...(config.customAttributes.length > 0 ? [`Custom test ID attributes: ${config.customAttributes.join(', ')}`] : []),
+        `Remembered selectors: ${locatorHealer.getFingerprintCount()}`,
+        '',
+        events.length > 0 ? `Substitutions (${events.length}, most recent first):` : 'No substitutions logged',
+        ...shown.map(event =>
+          `  ${event.timestamp} ${event.tool}: '${event.originalSelector}' -> '${event.healedSelector}' ` +
+          `(${Math.round(event.confidence * 100)}%, matched on ${event.matchedOn.join(', ')}) @ ${event.url}`
+        ),
+        ...(events.length > shown.length ? [`  ... ${events.length - shown.length} more`] : []),
+      ], { config, events: shown });
+
+    } catch (error) {
+      return createErrorResponse(`Failed to configure self-healing: ${(error as Error).message}`);
+    }
+  }
+}
@@ -10,6 +10,42 @@
 import { Page } from 'playwright';
 import { BrowserToolBase } from './base.js';
 import { ToolContext, ToolResponse, createSuccessResponse } from '../common/types.js';
+import { createToolErrorResponse } from '../common/errorResponse.js';
+import {
+  WaitCondition,
+  WaitTimeoutError,
+  parseCondition,
+  waitForCondition,
+  formatWaitResult,
+} from '../../utils/waitEngine.js';
+
+/**
+ * Run a wait and report it: the measured time and per-condition timings on success, or an error
+ * response with the unmet conditions and a screenshot of the page on timeout
+ * @param header Lines describing the wait, shown above the condition report
+ */
+async function runWait(
+  page: Page,
+  context: ToolContext,
+  toolName: string,
+  args: any,
+  condition: WaitCondition,
+  header: string[]
+): Promise<ToolResponse> {
+  const { timeout = 30000, pollInterval } = args;
+  const result = await waitForCondition(page, condition, { timeout, pollInterval });
+  const structured = { met: result.met, elapsedMs: result.elapsedMs, timeout: result.timeout, conditions: result.condition, unmet: result.unmet };
+
+  if (result.met) {
+    return createSuccessResponse([...header, ...formatWaitResult(result)], structured);
+  }
+
+  const error = new WaitTimeoutError(
+    [`Wait timeout ${result.timeout}ms exceeded; unmet: ${result.unmet.join(', ')}`, ...header, ...formatWaitResult(result).slice(1)].join('\n'),
+    result
+  );
+  return { ...await createToolErrorResponse(toolName, args, context, error), structuredContent: structured };
+}
 
 /**
  * Smart wait for element with multiple conditions
@@ -23,115 +59,35 @@ export class SmartWaitTool extends BrowserToolBase {
         stable = false,
         interactive = false,
         hasText,
-        timeout = 30000,
+        conditions = [],
+        mode = 'all',
       } = args;
 
-      if (!selector) {
-        throw new Error('selector parameter is required');
+      if (!Array.isArray(conditions)) {
+        throw new Error('conditions must be an array');
       }
-
-      const conditions: string[] = [];
-      let waitSuccess = false;
-
-      try {
-        // Wait for element to exist
-        await page.waitForSelector(selector, { timeout });
-        conditions.push('Element exists');
-
-        const element = page.locator(selector);
-
-        // Check visibility
-        if (visible) {
-          await element.waitFor({ state: 'visible', timeout });
-          conditions.push('Element is visible');
-        }
-
-        // Check if stable (not animating/moving)
-        if (stable) {
-          await this.waitForStable(page, selector, timeout);
-          conditions.push('Element is stable (not animating)');
-        }
-
-        // Check if interactive (not disabled/readonly)
-        if (interactive) {
-          await this.waitForInteractive(page, selector, timeout);
-          conditions.push('Element is interactive');
-        }
-
-        // Check text content
-        if (hasText) {
-          await element.filter({ hasText }).waitFor({ timeout });
-          conditions.push(`Element contains text: "${hasText}"`);
-        }
-
-        waitSuccess = true;
-
-        return createSuccessResponse([
-          `✓ Smart wait completed successfully`,
-          `Selector: ${selector}`,
-          `Conditions met:`,
-          ...conditions.map(c => `  • ${c}`),
-          `Total wait time: <timeout>ms`,
-        ].join('\n'));
-      } catch (error: any) {
-        return createSuccessResponse([
-          `✗ Smart wait failed`,
-          `Selector: ${selector}`,
-          `Conditions checked:`,
-          ...conditions.map(c => `  ✓ ${c}`),
-          `Failed condition: ${error.message}`,
-        ].join('\n'));
-      }
-    });
-  }
-
-  /**
-   * Wait for element to be stable (not moving/animating)
-   */
-  private async waitForStable(page: Page, selector: string, timeout: number): Promise<void> {
-    const startTime = Date.now();
-    const element = page.locator(selector);
-
-    while (Date.now() - startTime < timeout) {
-      const box1 = await element.boundingBox();
-      await page.waitForTimeout(100);
-      const box2 = await element.boundingBox();
-
-      if (!box1 || !box2) {
-        continue;
+      if (!selector && conditions.length === 0) {
+        throw new Error('selector or conditions parameter is required');
       }
-
-      // Check if position and size are stable
-      const positionStable = box1.x === box2.x && box1.y === box2.y;
-      const sizeStable = box1.width === box2.width && box1.height === box2.height;
-
-      if (positionStable && sizeStable) {
-        return;
+      if (mode !== 'all' && mode !== 'any') {
+        throw new Error("mode must be 'all' or 'any'");
       }
-    }
 
-    throw new Error(`Element ${selector} did not stabilize within ${timeout}ms`);
-  }
-
-  /**
-   * Wait for element to be interactive (not disabled/readonly)
-   */
-  private async waitForInteractive(page: Page, selector: string, timeout: number): Promise<void> {
-    const startTime = Date.now();
-    const element = page.locator(selector);
+      const parsed: WaitCondition[] = conditions.map((condition: any, index: number) => parseCondition(condition, `conditions[${index}]`));
 
-    while (Date.now() - startTime < timeout) {
-      const isDisabled = await element.isDisabled().catch(() => false);
-      const isEditable = await element.isEditable().catch(() => true);
-
-      if (!isDisabled && isEditable) {
-        return;
+      // The selector flags are shorthand for conditions on that element
+      if (selector) {
+        parsed.unshift(
+          ...(visible ? [{ type: 'visible', selector } as const] : [{ type: 'exists', selector } as const]),
+          ...(stable ? [{ type: 'stable', selector } as const] : []),
+          ...(interactive ? [{ type: 'interactive', selector } as const] : []),
+          ...(hasText ? [{ type: 'hasText', selector, text: hasText } as const] : [])
+        );
       }
 
-      await page.waitForTimeout(100);
-    }
-
-    throw new Error(`Element ${selector} is not interactive within ${timeout}ms`);
+      const condition: WaitCondition = parsed.length === 1 ? parsed[0] : { type: mode, conditions: parsed };
+      return runWait(page, context, 'playwright_wait_smart', args, condition, selector ? [`Selector: ${selector}`] : []);
+    });
   }
 }
 
@@ -141,27 +97,11 @@ export class SmartWaitTool extends BrowserToolBase {
 export class WaitForNetworkIdleTool extends BrowserToolBase {
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
     return this.safeExecute(context, async (page: Page) => {
-      const {
-        timeout = 30000,
-        idleTime = 500,
-      } = args;
-
-      const startTime = Date.now();
+      const { idleTime = 500 } = args;
 
-      try {
-        // Wait for network idle
-        await page.waitForLoadState('networkidle', { timeout });
-
-        const elapsed = Date.now() - startTime;
-
-        return createSuccessResponse([
-          `✓ Network idle`,
-          `Wait time: ${elapsed}ms`,
-          `No network activity for ${idleTime}ms`,
-        ].join('\n'));
-      } catch (error: any) {
-        throw new Error(`Network did not become idle within ${timeout}ms: ${error.message}`);
-      }
+      return runWait(page, context, 'playwright_wait_network_idle', args, { type: 'networkIdle', idleTime }, [
+        `No network activity for ${idleTime}ms required`,
+      ]);
     });
   }
 }
@@ -176,7 +116,6 @@ export class WaitForElementCountTool extends BrowserToolBase {
         selector,
         count,
         comparison = 'equal', // 'equal', 'greaterThan', 'lessThan', 'atLeast', 'atMost'
-        timeout = 30000,
       } = args;
 
       if (!selector) {
@@ -187,48 +126,11 @@ export class WaitForElementCountTool extends BrowserToolBase {
         throw new Error('count parameter is required');
       }
 
-      const startTime = Date.now();
-      const element = page.locator(selector);
-
-      try {
-        await page.waitForFunction(
-          ({ sel, cnt, comp }) => {
-            const elements = document.querySelectorAll(sel);
-            const actualCount = elements.length;
-
-            switch (comp) {
-              case 'equal':
-                return actualCount === cnt;
-              case 'greaterThan':
-                return actualCount > cnt;
-              case 'lessThan':
-                return actualCount < cnt;
-              case 'atLeast':
-                return actualCount >= cnt;
-              case 'atMost':
-                return actualCount <= cnt;
-              default:
-                return false;
-            }
-          },
-          { sel: selector, cnt: count, comp: comparison },
-          { timeout }
-        );
-
-        const actualCount = await element.count();
-        const elapsed = Date.now() - startTime;
-
-        return createSuccessResponse([
-          `✓ Element count condition met`,
-          `Selector: ${selector}`,
-          `Expected: ${comparison} ${count}`,
-          `Actual: ${actualCount} elements`,
-          `Wait time: ${elapsed}ms`,
-        ].join('\n'));
-      } catch (error: any) {
-        const actualCount = await element.count();
-        throw new Error(`Element count condition not met within ${timeout}ms. Expected: ${comparison} ${count}, Actual: ${actualCount}`);
-      }
+      const condition = parseCondition({ type: 'count', selector, count, comparison });
+      return runWait(page, context, 'playwright_wait_element_count', args, condition, [
+        `Selector: ${selector}`,
+        `Expected: ${comparison} ${count}`,
+      ]);
     });
   }
 }
@@ -243,48 +145,17 @@ export class WaitForAttributeTool extends BrowserToolBase {
         selector,
         attribute,
         value,
-        timeout = 30000,
       } = args;
 
       if (!selector || !attribute) {
         throw new Error('selector and attribute parameters are required');
       }
 
-      const startTime = Date.now();
-      const element = page.locator(selector);
-
-      try {
-        await element.waitFor({ timeout });
-
-        await page.waitForFunction(
-          ({ sel, attr, val }) => {
-            const el = document.querySelector(sel);
-            if (!el) return false;
-
-            const actualValue = el.getAttribute(attr);
-            if (val === undefined) {
-              return actualValue !== null;
-            }
-            return actualValue === val;
-          },
-          { sel: selector, attr: attribute, val: value },
-          { timeout }
-        );
-
-        const actualValue = await element.getAttribute(attribute);
-        const elapsed = Date.now() - startTime;
-
-        return createSuccessResponse([
-          `✓ Attribute condition met`,
-          `Selector: ${selector}`,
-          `Attribute: ${attribute}`,
-          `Expected value: ${value !== undefined ? value : '(any value)'}`,
-          `Actual value: ${actualValue}`,
-          `Wait time: ${elapsed}ms`,
-        ].join('\n'));
-      } catch (error: any) {
-        throw new Error(`Attribute condition not met within ${timeout}ms: ${error.message}`);
-      }
+      return runWait(page, context, 'playwright_wait_attribute', args, { type: 'attribute', selector, attribute, value }, [
+        `Selector: ${selector}`,
+        `Attribute: ${attribute}`,
+        `Expected value: ${value !== undefined ? value : '(any value)'}`,
+      ]);
     });
   }
 }
@@ -295,31 +166,13 @@ export class WaitForAttributeTool extends BrowserToolBase {
 export class WaitForElementHiddenTool extends BrowserToolBase {
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
     return this.safeExecute(context, async (page: Page) => {
-      const {
-        selector,
-        timeout = 30000,
-      } = args;
+      const { selector } = args;
 
       if (!selector) {
         throw new Error('selector parameter is required');
       }
 
-      const startTime = Date.now();
-      const element = page.locator(selector);
-
-      try {
-        await element.waitFor({ state: 'hidden', timeout });
-
-        const elapsed = Date.now() - startTime;
-
-        return createSuccessResponse([
-          `✓ Element hidden`,
-          `Selector: ${selector}`,
-          `Wait time: ${elapsed}ms`,
-        ].join('\n'));
-      } catch (error: any) {
-        throw new Error(`Element did not become hidden within ${timeout}ms: ${error.message}`);
-      }
+      return runWait(page, context, 'playwright_wait_element_hidden', args, { type: 'hidden', selector }, [`Selector: ${selector}`]);
     });
   }
 }
@@ -332,31 +185,22 @@ export class WaitForUrlTool extends BrowserToolBase {
     return this.safeExecute(context, async (page: Page) => {
       const {
         urlPattern,
-        timeout = 30000,
+        regex = false,
       } = args;
 
       if (!urlPattern) {
         throw new Error('urlPattern parameter is required');
       }
 
-      const startTime = Date.now();
-
-      try {
-        await page.waitForURL(urlPattern, { timeout });
-
-        const elapsed = Date.now() - startTime;
-        const currentUrl = page.url();
-
-        return createSuccessResponse([
-          `✓ URL matched pattern`,
-          `Pattern: ${urlPattern}`,
-          `Current URL: ${currentUrl}`,
-          `Wait time: ${elapsed}ms`,
-        ].join('\n'));
-      } catch (error: any) {
-        const currentUrl = page.url();
-        throw new Error(`URL did not match pattern within ${timeout}ms. Pattern: ${urlPattern}, Current URL: ${currentUrl}`);
+      if (regex) {
+        try {
+          new RegExp(urlPattern);
+        } catch (error) {
+          throw new Error(`Invalid urlPattern regex: ${(error as Error).message}`);
+        }
       }
+
+      return runWait(page, context, 'playwright_wait_url', args, { type: 'url', pattern: urlPattern, regex }, [`Pattern: ${urlPattern}`]);
     });
   }
 }
@@ -7,6 +7,8 @@ import { BrowserToolBase } from './base.js';
 import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
 import * as fs from 'fs';
 import * as path from 'path';
+import { sessionManager } from '../../sessionManager.js';
+import { artifactStore } from '../../utils/artifactStore.js';
 
 /**
  * Video recording settings
@@ -108,9 +110,10 @@ export class StartVideoRecordingTool extends BrowserToolBase {
           await newPage.goto(currentUrl, { waitUntil: 'domcontentloaded' });
         }
 
-        // Update global page reference
-        const { setGlobalPage } = await import('../../toolHandler.js');
-        setGlobalPage(newPage);
+        // Update the session page reference
+        if (context.session) {
+          await sessionManager.setSessionPage(context.session.id, newPage);
+        }
 
         // Update recording state
         recordingState = {
@@ -130,7 +133,7 @@ export class StartVideoRecordingTool extends BrowserToolBase {
           `Record on failure: ${recordOnFailure}`,
           `Size: ${videoSize ? `${videoSize.width}x${videoSize.height}` : 'default'}`,
           `Started at: ${new Date().toLocaleString()}`
-        ]);
+        ], { recording: true, path: fullPath, settings: recordingState.settings });
 
       } catch (error) {
         recordingState.isRecording = false;
@@ -215,7 +218,9 @@ export class StopVideoRecordingTool extends BrowserToolBase {
               recordingStart: new Date(recordingState.startTime!).toISOString()
             };
             fs.writeFileSync(annotationsPath, JSON.stringify(annotationsData, null, 2));
+            artifactStore.register({ scheme: 'video', filePath: annotationsPath, description: `Annotations for ${path.basename(finalPath)}` });
           }
+          artifactStore.register({ scheme: 'video', filePath: finalPath, description: `Recording of ${currentUrl} (${duration}s)` });
         } else {
           // Delete video if not saving
           if (fs.existsSync(videoPath)) {
@@ -235,9 +240,10 @@ export class StopVideoRecordingTool extends BrowserToolBase {
           await newPage.goto(currentUrl, { waitUntil: 'domcontentloaded' });
         }
 
-        // Update global page reference
-        const { setGlobalPage } = await import('../../toolHandler.js');
-        setGlobalPage(newPage);
+        // Update the session page reference
+        if (context.session) {
+          await sessionManager.setSessionPage(context.session.id, newPage);
+        }
 
         // Reset recording state
         const annotationCount = recordingState.annotations.length;
@@ -263,7 +269,14 @@ export class StopVideoRecordingTool extends BrowserToolBase {
           result.push(`Video discarded (not saved)`);
         }
 
-        return createSuccessResponse(result);
+        return createSuccessResponse(result, {
+          recording: false,
+          durationSeconds: duration,
+          annotations: annotationCount,
+          saved: saveVideo,
+          ...(saveVideo ? { path: finalPath } : {}),
+          ...(saveVideo && annotationCount > 0 ? { annotationsPath: finalPath.replace(/\.[^.]+$/, '-annotations.json') } : {})
+        });
 
       } catch (error) {
         recordingState.isRecording = false;
@@ -380,7 +393,7 @@ export class ConfigureVideoSettingsTool extends BrowserToolBase {
           `Record on failure: ${recordingState.settings.recordOnFailure}`,
           `Quality: ${recordingState.settings.quality}%`,
           `FPS: ${recordingState.settings.fps}`
-        ]);
+        ], { recording: recordingState.isRecording, settings: recordingState.settings });
 
       } catch (error) {
         return createErrorResponse(`Failed to configure video settings: ${(error as Error).message}`);
@@ -406,7 +419,7 @@ export class GetVideoStatusTool extends BrowserToolBase {
             `  Output directory: ${recordingState.settings.dir}`,
             `  Size: ${recordingState.settings.size ? `${recordingState.settings.size.width}x${recordingState.settings.size.height}` : 'default'}`,
             `  Record on failure: ${recordingState.settings.recordOnFailure}`
-          ]);
+          ], { recording: false, settings: recordingState.settings });
         }
 
         // Calculate current duration
@@ -425,7 +438,13 @@ export class GetVideoStatusTool extends BrowserToolBase {
           `Annotations: ${recordingState.annotations.length}`,
           `Started at: ${new Date(recordingState.startTime!).toLocaleString()}`,
           `Record on failure: ${recordingState.settings.recordOnFailure}`
-        ]);
+        ], {
+          recording: true,
+          path: recordingState.videoPath,
+          durationSeconds: duration,
+          annotations: recordingState.annotations.length,
+          settings: recordingState.settings
+        });
 
       } catch (error) {
         return createErrorResponse(`Failed to get video status: ${(error as Error).message}`);
@@ -18,7 +18,7 @@ export class VisibleTextTool extends BrowserToolBase {
     // Check if browser is available
     if (!context.browser || !context.browser.isConnected()) {
       // If browser is not connected, we need to reset the state to force recreation
-      resetBrowserState();
+      resetBrowserState(context.session?.id);
       return createErrorResponse(
         "Browser is not connected. The connection has been reset - please retry your navigation."
       );
@@ -63,7 +63,11 @@ export class VisibleTextTool extends BrowserToolBase {
           output = output.slice(0, maxLength) + '\n[Output truncated due to size limits]';
           truncated = true;
         }
-        return createSuccessResponse(`Visible text content:\n${output}`);
+        return createSuccessResponse(`Visible text content:\n${output}`, {
+          text: visibleText.slice(0, maxLength),
+          length: visibleText.length,
+          truncated
+        });
       } catch (error) {
         return createErrorResponse(`Failed to get visible text content: ${(error as Error).message}`);
       }
@@ -82,7 +86,7 @@ export class VisibleHtmlTool extends BrowserToolBase {
     // Check if browser is available
     if (!context.browser || !context.browser.isConnected()) {
       // If browser is not connected, we need to reset the state to force recreation
-      resetBrowserState();
+      resetBrowserState(context.session?.id);
       return createErrorResponse(
         "Browser is not connected. The connection has been reset - please retry your navigation."
       );
@@ -188,10 +192,15 @@ export class VisibleHtmlTool extends BrowserToolBase {
         // Truncate logic
         const maxLength = typeof args.maxLength === 'number' ? args.maxLength : 20000;
         let output = htmlContent;
-        if (output.length > maxLength) {
+        const truncated = output.length > maxLength;
+        if (truncated) {
           output = output.slice(0, maxLength) + '\n<!-- Output truncated due to size limits -->';
         }
-        return createSuccessResponse(`HTML content:\n${output}`);
+        return createSuccessResponse(`HTML content:\n${output}`, {
+          html: htmlContent.slice(0, maxLength),
+          length: htmlContent.length,
+          truncated
+        });
       } catch (error) {
         return createErrorResponse(`Failed to get visible HTML content: ${(error as Error).message}`);
       }
@@ -13,6 +13,16 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { PNG } from 'pngjs';
 import pixelmatch from 'pixelmatch';
+import { artifactStore } from '../../utils/artifactStore.js';
+import { generateVisualReport, visualReportCollector, VisualReportEntry } from '../../utils/visualReport.js';
+import {
+  captureDomSnapshot,
+  loadDynamicRegionModel,
+  loadTrainingSamples,
+  predictDynamicRegions,
+  saveDynamicRegionModel,
+  trainDynamicRegionModel,
+} from '../../utils/dynamicRegionModel.js';
 import { BrowserToolBase } from './base.js';
 import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
 
@@ -30,9 +40,11 @@ export interface IgnoreRegion {
  * Dynamic content detection result
  */
 export interface DynamicContentRegion {
-  type: 'timestamp' | 'ad' | 'random' | 'animation';
+  type: 'timestamp' | 'ad' | 'random' | 'animation' | 'learned';
   region: IgnoreRegion;
   confidence: number;
+  /** Element or block the learned model matched */
+  label?: string;
 }
 
 /**
@@ -48,6 +60,10 @@ export class AIVisualCompareTool extends BrowserToolBase {
         detectDynamic = true,
         saveDiff = true,
         diffPath,
+        currentPath,
+        modelPath,
+        trainingSampleDir,
+        name,
       } = args;
 
       if (!baselinePath) {
@@ -77,12 +93,18 @@ export class AIVisualCompareTool extends BrowserToolBase {
         let dynamicRegions: DynamicContentRegion[] = [];
 
         if (detectDynamic && userIgnoreRegions === 'auto') {
-          dynamicRegions = await this.detectDynamicContent(page, baseline, current);
+          dynamicRegions = await this.detectDynamicContent(page, baseline, current, modelPath);
           ignoreRegions = dynamicRegions.map(dr => dr.region);
         } else if (Array.isArray(userIgnoreRegions)) {
           ignoreRegions = userIgnoreRegions;
         }
 
+        // Save a labelling sample for playwright_train_visual_model before masking
+        let samplePath: string | undefined;
+        if (trainingSampleDir) {
+          samplePath = await this.saveTrainingSample(page, trainingSampleDir, baselinePath, currentBuffer, dynamicRegions);
+        }
+
         // Create diff image
         const diff = new PNG({ width: baseline.width, height: baseline.height });
 
@@ -90,9 +112,18 @@ export class AIVisualCompareTool extends BrowserToolBase {
         const mask = this.createIgnoreMask(baseline.width, baseline.height, ignoreRegions);
 
         // Compare pixels (mask applied via pixel modification)
+        const compared = Buffer.from(current.data);
+        if (mask) {
+          mask.forEach((ignored, pixel) => {
+            if (ignored) {
+              baseline.data.copy(compared, pixel * 4, pixel * 4, pixel * 4 + 4);
+            }
+          });
+        }
+
         const mismatchedPixels = pixelmatch(
           baseline.data,
-          current.data,
+          compared,
           diff.data,
           baseline.width,
           baseline.height,
@@ -105,11 +136,16 @@ export class AIVisualCompareTool extends BrowserToolBase {
         const totalPixels = baseline.width * baseline.height;
         const diffPercentage = (mismatchedPixels / totalPixels) * 100;
 
-        // Save diff image if requested
+        // Save diff image (and the current screenshot beside it, for review) if requested
         let diffOutputPath: string | undefined;
+        let currentOutputPath: string | undefined;
         if (saveDiff) {
           diffOutputPath = diffPath || baselinePath.replace(/\.png$/, '-diff.png');
           await fs.writeFile(diffOutputPath, PNG.sync.write(diff));
+          artifactStore.register({ scheme: 'diff', filePath: diffOutputPath, description: `Diff against ${baselinePath}` });
+
+          currentOutputPath = currentPath || baselinePath.replace(/\.png$/, '-current.png');
+          await fs.writeFile(currentOutputPath, currentBuffer);
         }
 
         // Format output
@@ -130,7 +166,7 @@ export class AIVisualCompareTool extends BrowserToolBase {
         if (detectDynamic && dynamicRegions.length > 0) {
           output.push(`🔍 Dynamic Content Detected (${dynamicRegions.length} regions):`);
           dynamicRegions.forEach((region, index) => {
-            output.push(`  ${index + 1}. ${region.type} (confidence: ${(region.confidence * 100).toFixed(1)}%)`);
+            output.push(`  ${index + 1}. ${region.type}${region.label ? ` ${region.label}` : ''} (confidence: ${(region.confidence * 100).toFixed(1)}%)`);
             output.push(`     Region: ${region.region.x},${region.region.y} ${region.region.width}x${region.region.height}`);
           });
           output.push('');
@@ -144,6 +180,25 @@ export class AIVisualCompareTool extends BrowserToolBase {
 
         // Determine pass/fail
         const passed = diffPercentage < threshold * 100;
+        const reportedRegions = dynamicRegions.map(region => ({
+          type: region.type,
+          confidence: region.confidence,
+          ...(region.label ? { label: region.label } : {}),
+          ...region.region,
+        }));
+
+        visualReportCollector.record({
+          tool: 'playwright_ai_visual_compare',
+          name: name || baselinePath,
+          baselinePath,
+          currentPath: currentOutputPath,
+          diffPath: diffOutputPath,
+          passed,
+          diffPercentage,
+          threshold: threshold * 100,
+          dynamicRegions: reportedRegions,
+          url: page.url(),
+        });
 
         if (passed) {
           output.push(`✅ Visual test PASSED`);
@@ -158,7 +213,23 @@ export class AIVisualCompareTool extends BrowserToolBase {
           output.push(`💾 Diff image saved: ${diffOutputPath}`);
         }
 
-        return createSuccessResponse(output.join('\n'));
+        if (samplePath) {
+          output.push(`🏷️  Training sample saved: ${samplePath} (review dynamicRegions before training)`);
+        }
+
+        return createSuccessResponse(output.join('\n'), {
+          passed,
+          url: page.url(),
+          baseline: baselinePath,
+          ...(currentOutputPath ? { current: currentOutputPath } : {}),
+          diffPixels: mismatchedPixels,
+          totalPixels,
+          diffPercentage,
+          threshold: threshold * 100,
+          dynamicRegions: reportedRegions,
+          ignoredRegions: ignoreRegions.length,
+          ...(diffOutputPath ? { diffImage: diffOutputPath } : {}),
+        });
       } catch (error: any) {
         return createErrorResponse(`AI visual comparison failed: ${error.message}`);
       }
@@ -166,15 +237,28 @@ export class AIVisualCompareTool extends BrowserToolBase {
   }
 
   /**
-   * Detect dynamic content regions using ML patterns
+   * Detect dynamic content regions using the built-in heuristics and, if given, a trained model
    */
   private async detectDynamicContent(
     page: Page,
     baseline: PNG,
-    current: PNG
+    current: PNG,
+    modelPath?: string
   ): Promise<DynamicContentRegion[]> {
     const regions: DynamicContentRegion[] = [];
 
+    // Detect app-specific regions learned by playwright_train_visual_model
+    if (modelPath) {
+      const model = await loadDynamicRegionModel(modelPath);
+      const predictions = predictDynamicRegions(model, baseline, current, await captureDomSnapshot(page));
+      regions.push(...predictions.map(prediction => ({
+        type: 'learned' as const,
+        region: prediction.region,
+        confidence: prediction.probability,
+        label: prediction.label,
+      })));
+    }
+
     // Detect timestamp patterns
     const timestampRegions = await this.detectTimestamps(page);
     regions.push(...timestampRegions);
@@ -376,6 +460,33 @@ export class AIVisualCompareTool extends BrowserToolBase {
     return regions;
   }
 
+  /**
+   * Write the current screenshot, a copy of the baseline, a DOM snapshot and a sample.json
+   * prefilled with the detected regions, for a human to correct and train on
+   */
+  private async saveTrainingSample(
+    page: Page,
+    sampleDir: string,
+    baselinePath: string,
+    currentBuffer: Buffer,
+    dynamicRegions: DynamicContentRegion[]
+  ): Promise<string> {
+    await fs.mkdir(sampleDir, { recursive: true });
+    await fs.copyFile(baselinePath, path.join(sampleDir, 'baseline.png'));
+    await fs.writeFile(path.join(sampleDir, 'current.png'), currentBuffer);
+    await fs.writeFile(path.join(sampleDir, 'dom.json'), JSON.stringify(await captureDomSnapshot(page)));
+
+    const samplePath = path.join(sampleDir, 'sample.json');
+    await fs.writeFile(samplePath, JSON.stringify({
+      url: page.url(),
+      baseline: 'baseline.png',
+      current: 'current.png',
+      dom: 'dom.json',
+      dynamicRegions: dynamicRegions.map(region => region.region),
+    }, null, 2));
+    return samplePath;
+  }
+
   /**
    * Create a mask for pixelmatch to ignore certain regions
    */
@@ -403,7 +514,7 @@ export class AIVisualCompareTool extends BrowserToolBase {
 }
 
 /**
- * Train AI model on visual patterns (placeholder for future ML integration)
+ * Train a dynamic-region model from labelled screenshot pairs and DOM snapshots
  */
 export class TrainVisualModelTool extends BrowserToolBase {
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
@@ -411,23 +522,49 @@ export class TrainVisualModelTool extends BrowserToolBase {
       trainingDataPath,
       modelOutputPath,
       modelType = 'dynamic_content_detection',
+      epochs,
+      learningRate,
+      blockSize,
     } = args;
 
-    // This is a placeholder for future ML model training integration
-    // Could integrate with TensorFlow.js or similar libraries
-
-    return createSuccessResponse([
-      `🤖 Visual AI Model Training (Coming Soon)`,
-      ``,
-      `This feature will allow training custom ML models for:`,
-      `  • Custom dynamic content patterns`,
-      `  • Domain-specific visual elements`,
-      `  • Application-specific ignore regions`,
-      ``,
-      `Training data: ${trainingDataPath || 'Not specified'}`,
-      `Model output: ${modelOutputPath || 'Not specified'}`,
-      `Model type: ${modelType}`,
-    ].join('\n'));
+    if (!trainingDataPath || !modelOutputPath) {
+      return createErrorResponse('trainingDataPath and modelOutputPath are required');
+    }
+    if (modelType !== 'dynamic_content_detection') {
+      return createErrorResponse(`Unsupported model type: ${modelType}. Supported: dynamic_content_detection`);
+    }
+
+    try {
+      const samples = await loadTrainingSamples(trainingDataPath);
+      const model = await trainDynamicRegionModel(samples, { epochs, learningRate, blockSize });
+      await saveDynamicRegionModel(model, modelOutputPath);
+
+      return createSuccessResponse([
+        `🤖 Visual AI Model Trained`,
+        ``,
+        `📊 Training:`,
+        `  • Samples: ${model.training.samples}`,
+        `  • Candidate regions: ${model.training.candidates.toLocaleString()} (${model.training.positives} dynamic)`,
+        `  • Epochs: ${model.training.epochs}`,
+        `  • Decision threshold: ${model.decisionThreshold}`,
+        `  • Accuracy: ${(model.training.accuracy * 100).toFixed(1)}%`,
+        `  • Precision: ${(model.training.precision * 100).toFixed(1)}%`,
+        `  • Recall: ${(model.training.recall * 100).toFixed(1)}%`,
+        ``,
+        `🔑 Top features:`,
+        ...model.topFeatures.slice(0, 10).map(feature => `  • ${feature.feature}: ${feature.weight > 0 ? '+' : ''}${feature.weight}`),
+        ``,
+        `💾 Model saved: ${modelOutputPath}`,
+        `Use it with playwright_ai_visual_compare's modelPath parameter`,
+      ].join('\n'), {
+        modelPath: modelOutputPath,
+        decisionThreshold: model.decisionThreshold,
+        training: model.training,
+        topFeatures: model.topFeatures.slice(0, 10)
+      });
+    } catch (error: any) {
+      return createErrorResponse(`Model training failed: ${error.message}`);
+    }
   }
 }
 
@@ -442,6 +579,9 @@ export class BatchAIVisualCompareTool extends BrowserToolBase {
         threshold = 0.1,
         detectDynamic = true,
         failFast = false,
+        modelPath,
+        reportPath,
+        reportTitle,
       } = args;
 
       if (!Array.isArray(comparisons)) {
@@ -453,8 +593,10 @@ export class BatchAIVisualCompareTool extends BrowserToolBase {
         passed: boolean;
         diffPercentage: number;
         dynamicRegions: number;
+        error?: string;
       }> = [];
 
+      const reportEntries: VisualReportEntry[] = [];
       const aiCompare = new AIVisualCompareTool(this.server);
 
       for (const comparison of comparisons) {
@@ -466,25 +608,46 @@ export class BatchAIVisualCompareTool extends BrowserToolBase {
           const result = await aiCompare.execute(
             {
               baselinePath: comparison.baselinePath,
+              name: comparison.name || comparison.url,
               threshold,
               detectDynamic,
+              modelPath,
               saveDiff: true,
             },
             { page }
           );
 
-          const resultText = (result.content[0] as any).text;
-          const passed = resultText.includes('PASSED');
-          const diffMatch = resultText.match(/Difference: ([\d.]+)%/);
-          const diffPercentage = diffMatch ? parseFloat(diffMatch[1]) : 0;
-          const dynamicMatch = resultText.match(/Dynamic Content Detected \((\d+) regions\)/);
-          const dynamicRegions = dynamicMatch ? parseInt(dynamicMatch[1]) : 0;
+          const data = result.structuredContent as {
+            passed: boolean;
+            diffPercentage: number;
+            threshold: number;
+            current?: string;
+            diffImage?: string;
+            dynamicRegions: VisualReportEntry['dynamicRegions'];
+          } | undefined;
+          const passed = !result.isError && !!data?.passed;
+
+          reportEntries.push({
+            tool: 'playwright_batch_ai_visual_compare',
+            name: comparison.name || comparison.url,
+            baselinePath: comparison.baselinePath,
+            currentPath: data?.current,
+            diffPath: data?.diffImage,
+            passed,
+            diffPercentage: data?.diffPercentage,
+            threshold: data?.threshold,
+            dynamicRegions: data?.dynamicRegions,
+            url: comparison.url,
+            error: result.isError ? (result.content[0] as any).text : undefined,
+            comparedAt: new Date().toISOString(),
+          });
 
           results.push({
             name: comparison.name || comparison.url,
             passed,
-            diffPercentage,
-            dynamicRegions,
+            diffPercentage: data?.diffPercentage ?? 100,
+            dynamicRegions: data?.dynamicRegions.length ?? 0,
+            ...(result.isError ? { error: (result.content[0] as any).text } : {}),
           });
 
           if (failFast && !passed) {
@@ -496,6 +659,16 @@ export class BatchAIVisualCompareTool extends BrowserToolBase {
             passed: false,
             diffPercentage: 100,
             dynamicRegions: 0,
+            error: error.message,
+          });
+          reportEntries.push({
+            tool: 'playwright_batch_ai_visual_compare',
+            name: comparison.name || comparison.url,
+            baselinePath: comparison.baselinePath,
+            passed: false,
+            url: comparison.url,
+            error: error.message,
+            comparedAt: new Date().toISOString(),
           });
 
           if (failFast) {
@@ -528,7 +701,20 @@ export class BatchAIVisualCompareTool extends BrowserToolBase {
         }
       });
 
-      return createSuccessResponse(output.join('\n'));
+      if (reportPath) {
+        generateVisualReport(reportEntries, reportPath, { title: reportTitle });
+        artifactStore.register({ scheme: 'report', filePath: reportPath, description: 'Batch AI visual comparison report' });
+        output.push('', `📄 Report: ${reportPath}`);
+      }
+
+      return createSuccessResponse(output.join('\n'), {
+        passed: failed === 0,
+        total: results.length,
+        passedCount: passed,
+        failedCount: failed,
+        comparisons: results,
+        ...(reportPath ? { report: reportPath } : {}),
+      });
     });
   }
 }
@@ -8,7 +8,138 @@ import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse }
 import * as fs from 'fs';
 import * as path from 'path';
 import { PNG } from 'pngjs';
-import pixelmatch from 'pixelmatch';
+import type { Page } from 'playwright';
+import { artifactStore } from '../../utils/artifactStore.js';
+import { baselineStore, BaselineTarget } from '../../utils/baselineStore.js';
+import { generateVisualReport, visualReportCollector, VisualReportEntry } from '../../utils/visualReport.js';
+import {
+  captureLayout,
+  compareImages,
+  compareLayouts,
+  ComparisonMode,
+  ComparisonOptions,
+  ComparisonResult,
+  COMPARISON_MODES,
+  layoutSidecarPath,
+  readLayout,
+  writeLayout
+} from '../../utils/comparisonModes.js';
+
+/**
+ * Baseline store target for a test name on the session's browser and viewport
+ */
+function resolveBaselineTarget(args: any, context: ToolContext, page: Page): BaselineTarget {
+  return {
+    testName: args.testName,
+    browser: context.session?.browserType || page.context().browser()?.browserType().name() || 'chromium',
+    viewport: page.viewportSize() || { width: 1280, height: 720 },
+    device: args.device || 'desktop',
+  };
+}
+
+/**
+ * Comparison mode settings from tool arguments
+ */
+function toComparisonOptions(args: any): ComparisonOptions {
+  return {
+    threshold: args.threshold ?? 0.1,
+    minScore: args.minScore,
+    channelTolerance: args.channelTolerance,
+    detectAntialiasing: args.detectAntialiasing,
+    layoutTolerance: args.layoutTolerance,
+  };
+}
+
+/**
+ * Compare a baseline/current pair on disk; layout mode reads the .layout.json snapshots beside them
+ */
+function compareFiles(baselinePath: string, currentPath: string, mode: ComparisonMode, options: ComparisonOptions): ComparisonResult {
+  if (!COMPARISON_MODES.includes(mode)) {
+    throw new Error(`Unknown comparison mode: ${mode}. Supported: ${COMPARISON_MODES.join(', ')}`);
+  }
+
+  const currentImage = PNG.sync.read(fs.readFileSync(currentPath));
+  if (mode !== 'layout') {
+    return compareImages(PNG.sync.read(fs.readFileSync(baselinePath)), currentImage, mode, options);
+  }
+
+  const baselineLayout = readLayout(layoutSidecarPath(baselinePath));
+  const currentLayout = readLayout(layoutSidecarPath(currentPath));
+  if (!baselineLayout || !currentLayout) {
+    throw new Error(
+      `Layout snapshot not found: ${!baselineLayout ? layoutSidecarPath(baselinePath) : layoutSidecarPath(currentPath)}. ` +
+      `Capture layouts with playwright_visual_compare or playwright_create_baseline in layout mode`
+    );
+  }
+  return compareLayouts(baselineLayout, currentLayout, options, currentImage);
+}
+
+// Injected into every capture unless freezeAnimations is false
+const FREEZE_CSS = `
+*, *::before, *::after {
+  animation-play-state: paused !important;
+  transition: none !important;
+  caret-color: transparent !important;
+}
+`;
+
+/**
+ * Masking and stabilisation applied to a capture
+ */
+interface CaptureOptions {
+  /** Selectors painted over before capture */
+  mask?: string[];
+  maskColor?: string;
+  /** Freeze CSS animations, transitions and the text caret (default: true) */
+  freezeAnimations?: boolean;
+  /** Extra CSS applied during capture */
+  style?: string;
+}
+
+/**
+ * Capture options from tool arguments
+ */
+function toCaptureOptions(args: any): CaptureOptions {
+  return {
+    mask: args.mask,
+    maskColor: args.maskColor,
+    freezeAnimations: args.freezeAnimations,
+    style: args.style,
+  };
+}
+
+/**
+ * Capture an element or the page to a file
+ */
+async function captureImage(
+  page: Page,
+  outputPath: string,
+  selector?: string,
+  fullPage = false,
+  options: CaptureOptions = {}
+): Promise<void> {
+  const { mask = [], maskColor, freezeAnimations = true, style } = options;
+  const screenshotOptions = {
+    path: outputPath,
+    ...(mask.length > 0 ? { mask: mask.map(maskSelector => page.locator(maskSelector)) } : {}),
+    ...(maskColor ? { maskColor } : {}),
+    ...(freezeAnimations ? { animations: 'disabled' as const, caret: 'hide' as const } : {}),
+    ...(freezeAnimations || style ? { style: [freezeAnimations ? FREEZE_CSS : '', style || ''].join('\n') } : {}),
+  };
+
+  if (selector) {
+    await page.locator(selector).screenshot(screenshotOptions);
+  } else {
+    await page.screenshot({ ...screenshotOptions, fullPage });
+  }
+}
+
+/**
+ * Name of a component snapshot: its own name, or one derived from the selector
+ */
+function componentName(region: { selector: string; name?: string }): string {
+  return region.name || region.selector.replace(/[^a-zA-Z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'component';
+}
 
 /**
  * Tool for visual regression testing - comparing screenshots against baselines
@@ -20,21 +151,54 @@ export class VisualCompareTool extends BrowserToolBase {
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
     return this.safeExecute(context, async (page) => {
       const {
-        baseline,
+        testName,
         current,
         threshold = 0.1,
         outputDiff = true,
         diffOutputPath,
         regions,
         captureScreenshot = true,
-        fullPage = false
+        fullPage = false,
+        mode = 'pixel'
       } = args;
 
+      let { baseline, diffOutputPath: diffPath } = args;
+
+      if (!COMPARISON_MODES.includes(mode)) {
+        return createErrorResponse(`Unknown comparison mode: ${mode}. Supported: ${COMPARISON_MODES.join(', ')}`);
+      }
+
+      if (!baseline && !testName) {
+        return createErrorResponse('Provide baseline (file path) or testName (baseline store)');
+      }
+
+      if (regions && regions.length > 1) {
+        return this.compareComponents(args, context);
+      }
+
       try {
         // Step 1: Get or capture current screenshot
         let currentImagePath: string;
 
-        if (captureScreenshot) {
+        // With testName, images live in the baseline store under the session's browser/viewport/device
+        const target = testName ? resolveBaselineTarget(args, context, page) : undefined;
+        const record = target ? baselineStore.getRecord(target) : undefined;
+        if (target) {
+          const paths = baselineStore.workingPaths(target);
+          diffPath = paths.diffPath;
+          if (record) {
+            baseline = baselineStore.activeBaselinePath(record);
+          }
+
+          currentImagePath = paths.currentPath;
+          if (captureScreenshot) {
+            await captureImage(page, currentImagePath, regions?.[0]?.selector, fullPage, toCaptureOptions(args));
+          } else if (!fs.existsSync(current)) {
+            return createErrorResponse(`Current screenshot not found: ${current}`);
+          } else {
+            fs.copyFileSync(current, currentImagePath);
+          }
+        } else if (captureScreenshot) {
           // Capture a new screenshot
           const timestamp = Date.now();
           const screenshotDir = path.dirname(baseline);
@@ -45,18 +209,7 @@ export class VisualCompareTool extends BrowserToolBase {
             fs.mkdirSync(screenshotDir, { recursive: true });
           }
 
-          if (regions && regions.length > 0) {
-            // Capture specific region
-            const region = regions[0]; // Use first region
-            const element = await page.locator(region.selector);
-            await element.screenshot({ path: currentImagePath });
-          } else {
-            // Capture full page or viewport
-            await page.screenshot({
-              path: currentImagePath,
-              fullPage: fullPage
-            });
-          }
+          await captureImage(page, currentImagePath, regions?.[0]?.selector, fullPage, toCaptureOptions(args));
         } else {
           // Use provided current screenshot path
           currentImagePath = current;
@@ -65,74 +218,109 @@ export class VisualCompareTool extends BrowserToolBase {
           }
         }
 
+        // Layout mode compares element boxes, captured beside the screenshot
+        if (mode === 'layout' && captureScreenshot) {
+          writeLayout(layoutSidecarPath(currentImagePath), await captureLayout(page, regions?.[0]?.selector));
+        } else if (mode === 'layout' && target) {
+          const providedLayout = readLayout(layoutSidecarPath(current));
+          if (providedLayout) {
+            writeLayout(layoutSidecarPath(currentImagePath), providedLayout);
+          }
+        }
+
         // Step 2: Verify baseline exists
+        if (target && !record) {
+          // First run for this test: store current as version 1
+          const { record: created } = baselineStore.addVersion(target, currentImagePath, { source: 'first-run' });
+          baseline = baselineStore.activeBaselinePath(created);
+          artifactStore.register({ scheme: 'baseline', filePath: baseline });
+          return createSuccessResponse([
+            `Baseline created: ${created.key} (v1)`,
+            `Path: ${baseline}`,
+            `No comparison performed (first run)`,
+            `Future runs will compare against this baseline`
+          ], { passed: true, baselineCreated: true, baseline, key: created.key, version: 1 });
+        }
+
         if (!fs.existsSync(baseline)) {
           // If baseline doesn't exist, save current as baseline
           fs.copyFileSync(currentImagePath, baseline);
+          if (fs.existsSync(layoutSidecarPath(currentImagePath))) {
+            fs.copyFileSync(layoutSidecarPath(currentImagePath), layoutSidecarPath(baseline));
+          }
+          artifactStore.register({ scheme: 'baseline', filePath: baseline });
           return createSuccessResponse([
             `Baseline screenshot created: ${baseline}`,
             `No comparison performed (first run)`,
             `Future runs will compare against this baseline`
-          ]);
+          ], { passed: true, baselineCreated: true, baseline, current: currentImagePath });
         }
 
-        // Step 3: Load images
-        const baselineImage = PNG.sync.read(fs.readFileSync(baseline));
-        const currentImage = PNG.sync.read(fs.readFileSync(currentImagePath));
-
-        // Step 4: Validate image dimensions
-        if (
-          baselineImage.width !== currentImage.width ||
-          baselineImage.height !== currentImage.height
-        ) {
-          return createErrorResponse(
-            `Image dimensions don't match\n` +
-            `Baseline: ${baselineImage.width}x${baselineImage.height}\n` +
-            `Current: ${currentImage.width}x${currentImage.height}`
-          );
+        // Step 3: Layout mode without a baseline layout yet: record the current one
+        if (mode === 'layout' && !fs.existsSync(layoutSidecarPath(baseline)) && fs.existsSync(layoutSidecarPath(currentImagePath))) {
+          fs.copyFileSync(layoutSidecarPath(currentImagePath), layoutSidecarPath(baseline));
+          return createSuccessResponse([
+            `Baseline layout created: ${layoutSidecarPath(baseline)}`,
+            `No comparison performed (first layout run)`,
+            `Future runs will compare element positions against this layout`
+          ], { passed: true, baselineCreated: true, baseline, current: currentImagePath, mode });
         }
 
-        // Step 5: Compare images
-        const { width, height } = baselineImage;
-        const diffImage = new PNG({ width, height });
-
-        const numDiffPixels = pixelmatch(
-          baselineImage.data,
-          currentImage.data,
-          diffImage.data,
-          width,
-          height,
-          {
-            threshold: threshold,
+        // Step 4: Compare with the selected mode
+        const comparison = compareFiles(baseline, currentImagePath, mode, {
+          ...toComparisonOptions(args),
+          pixelmatchOptions: {
             includeAA: true,
             alpha: 0.1,
             aaColor: [255, 0, 0],
             diffColor: [255, 0, 0],
             diffColorAlt: [0, 255, 0]
           }
-        );
-
-        const totalPixels = width * height;
-        const diffPercentage = ((numDiffPixels / totalPixels) * 100).toFixed(2);
+        });
+        const diffPercentage = comparison.diffPercentage.toFixed(2);
 
-        // Step 6: Generate diff image if requested
+        // Step 5: Generate diff image if requested
         let diffImagePath: string | undefined;
-        if (outputDiff && numDiffPixels > 0) {
-          diffImagePath = diffOutputPath || baseline.replace('.png', '-diff.png');
-          fs.writeFileSync(diffImagePath, PNG.sync.write(diffImage));
+        if (outputDiff && comparison.diffImage && comparison.diffPercentage > 0) {
+          diffImagePath = diffPath || baseline.replace('.png', '-diff.png');
+          fs.writeFileSync(diffImagePath, PNG.sync.write(comparison.diffImage));
+          artifactStore.register({ scheme: 'diff', filePath: diffImagePath, description: `Diff against ${baseline}` });
         }
+        artifactStore.register({ scheme: 'baseline', filePath: baseline });
 
-        // Step 7: Determine pass/fail
+        // Step 6: Determine pass/fail
         const maxDiffPercentage = threshold * 100;
-        const passed = parseFloat(diffPercentage) <= maxDiffPercentage;
+        const passed = comparison.passed;
+
+        // Track the outcome in the baseline store: failures wait for approval, passes clean up
+        if (target && record) {
+          if (passed) {
+            baselineStore.clearPending(record.key);
+            currentImagePath = undefined;
+            diffImagePath = undefined;
+          } else {
+            baselineStore.setPending(target, {
+              currentFile: path.relative(baselineStore.getRootDir(), currentImagePath),
+              diffFile: diffImagePath ? path.relative(baselineStore.getRootDir(), diffImagePath) : undefined,
+              diffPercentage: parseFloat(diffPercentage),
+              threshold: maxDiffPercentage,
+              url: page.url(),
+            });
+          }
+        }
 
         // Step 8: Return results
         const result = [
           `Visual comparison ${passed ? 'PASSED ✓' : 'FAILED ✗'}`,
+          ...(record ? [`Baseline key: ${record.key} (v${record.activeVersion})`] : []),
           `Baseline: ${baseline}`,
-          `Current: ${currentImagePath}`,
-          `Different pixels: ${numDiffPixels} / ${totalPixels} (${diffPercentage}%)`,
-          `Threshold: ${maxDiffPercentage}%`
+          ...(currentImagePath ? [`Current: ${currentImagePath}`] : []),
+          `Mode: ${mode}`,
+          `Score: ${comparison.score.toFixed(4)} ${comparison.metric} (required ${comparison.requirement})`,
+          ...(comparison.diffPixels !== undefined
+            ? [`Different pixels: ${comparison.diffPixels} / ${comparison.totalPixels} (${diffPercentage}%)`]
+            : [`Difference: ${diffPercentage}%`]),
+          ...comparison.details
         ];
 
         if (diffImagePath) {
@@ -143,15 +331,99 @@ export class VisualCompareTool extends BrowserToolBase {
           result.push(`Region comparison: ${regions[0].selector}`);
         }
 
+        visualReportCollector.record({
+          tool: 'playwright_visual_compare',
+          name: args.name || testName || baseline,
+          baselinePath: baseline,
+          currentPath: currentImagePath,
+          diffPath: diffImagePath,
+          passed,
+          diffPercentage: parseFloat(diffPercentage),
+          threshold: maxDiffPercentage,
+          key: record?.key,
+          url: page.url(),
+          mode,
+          score: comparison.score,
+        });
+
+        if (record && !passed) {
+          result.push(`Pending review: approve with playwright_approve_baseline or reject with playwright_reject_baseline (key: ${record.key})`);
+        }
+
+        const structured = {
+          passed,
+          baseline,
+          ...(currentImagePath ? { current: currentImagePath } : {}),
+          ...(record ? { key: record.key, version: record.activeVersion, pending: !passed } : {}),
+          mode,
+          score: comparison.score,
+          ...(comparison.diffPixels !== undefined ? { diffPixels: comparison.diffPixels, totalPixels: comparison.totalPixels } : {}),
+          diffPercentage: parseFloat(diffPercentage),
+          threshold: maxDiffPercentage,
+          ...(diffImagePath ? { diffImage: diffImagePath } : {})
+        };
+
         return passed
-          ? createSuccessResponse(result)
-          : createErrorResponse(result.join('\n'));
+          ? createSuccessResponse(result, structured)
+          : createErrorResponse(result.join('\n'), structured);
 
       } catch (error) {
         return createErrorResponse(`Visual comparison failed: ${(error as Error).message}`);
       }
     });
   }
+
+  /**
+   * Compare each region as its own component snapshot with its own baseline
+   */
+  private async compareComponents(args: any, context: ToolContext): Promise<ToolResponse> {
+    const { regions, baseline, testName, captureScreenshot = true } = args;
+
+    if (!captureScreenshot) {
+      return createErrorResponse('Multiple regions need captureScreenshot: true, each element is captured separately');
+    }
+
+    const names = regions.map(componentName);
+    const duplicate = names.find((name: string, index: number) => names.indexOf(name) !== index);
+    if (duplicate) {
+      return createErrorResponse(`Duplicate component name '${duplicate}'. Give the regions distinct names`);
+    }
+
+    const lines: string[] = [];
+    const components: Array<Record<string, unknown>> = [];
+
+    for (const [index, region] of regions.entries()) {
+      const name = names[index];
+      const response = await this.execute({
+        ...args,
+        name,
+        regions: [region],
+        baseline: baseline ? baseline.replace(/(\.png)?$/i, `-${name}.png`) : undefined,
+        testName: testName ? `${testName}/${name}` : undefined,
+        diffOutputPath: undefined,
+      }, context);
+
+      const text = response.content.map(item => item.text).join('\n');
+      const passed = !response.isError;
+      components.push({ name, selector: region.selector, ...(response.structuredContent ?? { passed, error: text }) });
+      lines.push(`${passed ? '✓' : '✗'} ${name} (${region.selector})`);
+      // Drop the per-element PASSED/FAILED heading; keep errors without structured output whole
+      const details = response.structuredContent ? text.split('\n').slice(1) : [text];
+      lines.push(...details.map(line => `  ${line}`));
+    }
+
+    const failed = components.filter(component => !component.passed).length;
+    const result = [
+      `Component visual comparison ${failed === 0 ? 'PASSED ✓' : 'FAILED ✗'} (${regions.length - failed}/${regions.length} passed)`,
+      '',
+      ...lines,
+    ];
+    const structured = { passed: failed === 0, components };
+
+    return failed === 0
+      ? createSuccessResponse(result, structured)
+      : createErrorResponse(result.join('\n'), structured);
+  }
 }
 
 /**
@@ -165,12 +437,54 @@ export class CreateBaselineTool extends BrowserToolBase {
     return this.safeExecute(context, async (page) => {
       const {
         outputPath,
+        testName,
         selector,
         fullPage = false,
-        overwrite = false
+        overwrite = false,
+        approver,
+        note,
+        captureLayout: withLayout = false
       } = args;
 
+      if (!outputPath && !testName) {
+        return createErrorResponse('Provide outputPath (file path) or testName (baseline store)');
+      }
+
       try {
+        if (testName) {
+          const target = resolveBaselineTarget(args, context, page);
+          const existing = baselineStore.getRecord(target);
+          if (existing && !overwrite) {
+            return createErrorResponse(
+              `Baseline already exists: ${existing.key} (v${existing.activeVersion})\n` +
+              `Set overwrite: true to store a new version`
+            );
+          }
+
+          const { currentPath } = baselineStore.workingPaths(target);
+          await captureImage(page, currentPath, selector, fullPage, toCaptureOptions(args));
+          if (withLayout) {
+            writeLayout(layoutSidecarPath(currentPath), await captureLayout(page, selector));
+          }
+          const { record, version } = baselineStore.addVersion(target, currentPath, { source: 'created', approver, note });
+          const baselinePath = baselineStore.activeBaselinePath(record);
+          artifactStore.register({ scheme: 'baseline', filePath: baselinePath });
+
+          return createSuccessResponse([
+            `Baseline screenshot created`,
+            `Key: ${record.key}`,
+            `Version: v${version.version}${version.gitSha ? ` (git ${version.gitSha.slice(0, 7)})` : ''}`,
+            `Path: ${baselinePath}`,
+            ...(withLayout ? [`Layout: ${layoutSidecarPath(baselinePath)}`] : []),
+            selector ? `Selector: ${selector}` : `Type: ${fullPage ? 'Full page' : 'Viewport'}`
+          ], {
+            path: baselinePath,
+            key: record.key,
+            version: version.version,
+            ...(withLayout ? { layout: layoutSidecarPath(baselinePath) } : {})
+          });
+        }
+
         // Check if baseline already exists
         if (fs.existsSync(outputPath) && !overwrite) {
           return createErrorResponse(
@@ -186,21 +500,18 @@ export class CreateBaselineTool extends BrowserToolBase {
         }
 
         // Capture screenshot
-        if (selector) {
-          const element = await page.locator(selector);
-          await element.screenshot({ path: outputPath });
-        } else {
-          await page.screenshot({
-            path: outputPath,
-            fullPage: fullPage
-          });
+        await captureImage(page, outputPath, selector, fullPage, toCaptureOptions(args));
+        artifactStore.register({ scheme: 'baseline', filePath: outputPath });
+        if (withLayout) {
+          writeLayout(layoutSidecarPath(outputPath), await captureLayout(page, selector));
         }
 
         return createSuccessResponse([
           `Baseline screenshot created`,
           `Path: ${outputPath}`,
+          ...(withLayout ? [`Layout: ${layoutSidecarPath(outputPath)}`] : []),
           selector ? `Selector: ${selector}` : `Type: ${fullPage ? 'Full page' : 'Viewport'}`
-        ]);
+        ], { path: outputPath, ...(withLayout ? { layout: layoutSidecarPath(outputPath) } : {}) });
 
       } catch (error) {
         return createErrorResponse(`Failed to create baseline: ${(error as Error).message}`);
@@ -222,81 +533,96 @@ export class BatchVisualCompareTool extends BrowserToolBase {
         comparisons,
         threshold = 0.1,
         outputDiff = true,
-        stopOnFailure = false
+        stopOnFailure = false,
+        reportPath,
+        reportTitle,
+        mode: defaultMode = 'pixel'
       } = args;
 
       const results: string[] = [];
+      const entries: Array<Record<string, unknown>> = [];
+      const reportEntries: VisualReportEntry[] = [];
+      const recordForReport = (entry: Omit<VisualReportEntry, 'tool' | 'comparedAt'>) => {
+        visualReportCollector.record({ ...entry, tool: 'playwright_batch_visual_compare' });
+        reportEntries.push({ ...entry, tool: 'playwright_batch_visual_compare', comparedAt: new Date().toISOString() });
+      };
       let totalPassed = 0;
       let totalFailed = 0;
 
       for (const comparison of comparisons) {
-        const { baseline, current, name } = comparison;
+        const { baseline, current, name, mode = defaultMode } = comparison;
 
         try {
           // Load images
           if (!fs.existsSync(baseline)) {
             results.push(`⚠️  ${name || baseline}: Baseline not found`);
+            entries.push({ name: name || baseline, baseline, current, passed: false, error: 'Baseline not found' });
+            recordForReport({ name: name || baseline, baselinePath: baseline, currentPath: current, passed: false, error: 'Baseline not found' });
             totalFailed++;
             continue;
           }
 
           if (!fs.existsSync(current)) {
             results.push(`⚠️  ${name || current}: Current screenshot not found`);
+            entries.push({ name: name || current, baseline, current, passed: false, error: 'Current screenshot not found' });
+            recordForReport({ name: name || current, baselinePath: baseline, currentPath: current, passed: false, error: 'Current screenshot not found' });
             totalFailed++;
             continue;
           }
 
-          const baselineImage = PNG.sync.read(fs.readFileSync(baseline));
-          const currentImage = PNG.sync.read(fs.readFileSync(current));
-
-          // Validate dimensions
-          if (
-            baselineImage.width !== currentImage.width ||
-            baselineImage.height !== currentImage.height
-          ) {
-            results.push(`⚠️  ${name || baseline}: Dimension mismatch`);
-            totalFailed++;
-            continue;
-          }
-
-          // Compare
-          const { width, height } = baselineImage;
-          const diffImage = new PNG({ width, height });
-
-          const numDiffPixels = pixelmatch(
-            baselineImage.data,
-            currentImage.data,
-            diffImage.data,
-            width,
-            height,
-            { threshold }
-          );
-
-          const totalPixels = width * height;
-          const diffPercentage = ((numDiffPixels / totalPixels) * 100).toFixed(2);
+          // Compare with the item's mode, falling back to the batch mode
+          const result = compareFiles(baseline, current, mode, { ...toComparisonOptions(args), threshold });
+          const diffPercentage = result.diffPercentage.toFixed(2);
           const maxDiffPercentage = threshold * 100;
-          const passed = parseFloat(diffPercentage) <= maxDiffPercentage;
+          const passed = result.passed;
+          const entry: Record<string, unknown> = {
+            name: name || baseline,
+            baseline,
+            current,
+            passed,
+            mode,
+            score: result.score,
+            diffPercentage: parseFloat(diffPercentage),
+            threshold: maxDiffPercentage
+          };
+          entries.push(entry);
 
           if (passed) {
-            results.push(`✓ ${name || baseline}: PASSED (${diffPercentage}% diff)`);
+            results.push(`✓ ${name || baseline}: PASSED (${mode} ${result.metric} ${result.score.toFixed(4)}, ${diffPercentage}% diff)`);
             totalPassed++;
           } else {
-            results.push(`✗ ${name || baseline}: FAILED (${diffPercentage}% diff, threshold: ${maxDiffPercentage}%)`);
+            results.push(`✗ ${name || baseline}: FAILED (${mode} ${result.metric} ${result.score.toFixed(4)}, required ${result.requirement})`);
             totalFailed++;
 
             // Save diff image
-            if (outputDiff) {
+            if (outputDiff && result.diffImage) {
               const diffPath = baseline.replace('.png', '-diff.png');
-              fs.writeFileSync(diffPath, PNG.sync.write(diffImage));
+              fs.writeFileSync(diffPath, PNG.sync.write(result.diffImage));
+              artifactStore.register({ scheme: 'diff', filePath: diffPath, description: `Diff against ${baseline}` });
+              entry.diffImage = diffPath;
             }
+          }
 
-            if (stopOnFailure) {
-              break;
-            }
+          recordForReport({
+            name: name || baseline,
+            baselinePath: baseline,
+            currentPath: current,
+            diffPath: entry.diffImage as string | undefined,
+            passed,
+            diffPercentage: parseFloat(diffPercentage),
+            threshold: maxDiffPercentage,
+            mode,
+            score: result.score,
+          });
+
+          if (!passed && stopOnFailure) {
+            break;
           }
 
         } catch (error) {
           results.push(`⚠️  ${name || baseline}: Error - ${(error as Error).message}`);
+          entries.push({ name: name || baseline, baseline, current, passed: false, error: (error as Error).message });
+          recordForReport({ name: name || baseline, baselinePath: baseline, currentPath: current, passed: false, error: (error as Error).message });
           totalFailed++;
         }
       }
@@ -308,11 +634,25 @@ export class BatchVisualCompareTool extends BrowserToolBase {
       results.push(`Passed: ${totalPassed}`);
       results.push(`Failed: ${totalFailed}`);
 
+      if (reportPath) {
+        generateVisualReport(reportEntries, reportPath, { title: reportTitle });
+        artifactStore.register({ scheme: 'report', filePath: reportPath, description: 'Batch visual comparison report' });
+        results.push(`Report: ${reportPath}`);
+      }
+
       const allPassed = totalFailed === 0;
+      const structured = {
+        passed: allPassed,
+        total: totalPassed + totalFailed,
+        passedCount: totalPassed,
+        failedCount: totalFailed,
+        comparisons: entries,
+        ...(reportPath ? { report: reportPath } : {})
+      };
 
       return allPassed
-        ? createSuccessResponse(results)
-        : createErrorResponse(results.join('\n'));
+        ? createSuccessResponse(results, structured)
+        : createErrorResponse(results.join('\n'), structured);
     });
   }
 }
@@ -0,0 +1,249 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+/**
+ * Emitter Base - Shared plumbing for the non-JavaScript test generators (Python, Java)
+ */
+
+import { CodegenAction, CodegenOptions, CodegenResult, CodegenSession } from './types.js';
+import { optimizeLocator, deriveLocatorName, buildLocatorMap, OptimizedLocator } from '../../utils/locatorOptimizer.js';
+
+/**
+ * Collects the element selectors used by a recorded session
+ */
+export function getRecordedSelectors(session: CodegenSession): string[] {
+  return session.actions
+    .map(action => (action.parameters as Record<string, unknown>).selector)
+    .filter((selector): selector is string => typeof selector === 'string');
+}
+
+/**
+ * Quotes a value as a double-quoted string literal (valid in Python and Java)
+ */
+export function quote(value: unknown): string {
+  return JSON.stringify(String(value ?? ''));
+}
+
+/**
+ * Turns a camelCase identifier into snake_case
+ */
+export function snakeCase(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+}
+
+/**
+ * Escapes a literal for use inside a regular expression
+ */
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Element states checked by playwright_assert_element_state, as [web-first matcher stem, negated]
+ */
+export const ELEMENT_STATE_ASSERTIONS: Record<string, [string, boolean]> = {
+  visible: ['Visible', false],
+  hidden: ['Hidden', false],
+  enabled: ['Enabled', false],
+  disabled: ['Disabled', false],
+  editable: ['Editable', false],
+  readonly: ['Editable', true],
+  checked: ['Checked', false],
+  unchecked: ['Checked', true],
+};
+
+export interface TextExpectation {
+  /** Literal text, or a regex source when isRegex is set */
+  value: string;
+  isRegex: boolean;
+  /** Literal substring match rather than full-text match */
+  contains: boolean;
+  ignoreCase: boolean;
+}
+
+/**
+ * Maps playwright_assert_text_content options onto a literal or regex text assertion
+ */
+export function textExpectation(params: Record<string, any>): TextExpectation {
+  const text = String(params.expectedText ?? '');
+  const ignoreCase = params.caseSensitive === false;
+  const escaped = escapeRegExp(text);
+
+  switch (params.matchType ?? 'contains') {
+    case 'exact':
+      return ignoreCase
+        ? { value: `^${escaped}$`, isRegex: true, contains: false, ignoreCase }
+        : { value: text, isRegex: false, contains: false, ignoreCase };
+    case 'startsWith':
+      return { value: `^${escaped}`, isRegex: true, contains: false, ignoreCase };
+    case 'endsWith':
+      return { value: `${escaped}$`, isRegex: true, contains: false, ignoreCase };
+    case 'regex':
+      return { value: text, isRegex: true, contains: false, ignoreCase };
+    default:
+      return ignoreCase
+        ? { value: escaped, isRegex: true, contains: false, ignoreCase }
+        : { value: text, isRegex: false, contains: true, ignoreCase };
+  }
+}
+
+/**
+ * Comparison operator for a non-equal playwright_assert_element_count comparison
+ */
+export const COUNT_OPERATORS: Record<string, string> = {
+  greaterThan: '>',
+  lessThan: '<',
+  atLeast: '>=',
+  atMost: '<=',
+};
+
+interface OpenBlock {
+  id: string;
+  footer: string[];
+  hasBody: boolean;
+}
+
+/**
+ * Base class for emitters that build a test body line by line.
+ * Subclasses translate each recorded action; the base tracks indentation
+ * and blocks that wrap later steps (e.g. waiting for a response).
+ */
+export abstract class CodeEmitter {
+  protected readonly isPom: boolean;
+  private lines: string[] = [];
+  private openBlocks: OpenBlock[] = [];
+  private skippedSteps: string[] = [];
+  private routeMatchers = new Map<string, string>();
+  private nextRouteNumber = 1;
+
+  constructor(protected readonly options: Required<CodegenOptions>) {
+    this.isPom = options.template === 'pom';
+  }
+
+  generateTest(session: CodegenSession): CodegenResult {
+    if (!session || !Array.isArray(session.actions)) {
+      throw new Error('Invalid session data');
+    }
+
+    this.lines = [];
+    this.openBlocks = [];
+    this.skippedSteps = [];
+    this.routeMatchers.clear();
+    this.nextRouteNumber = 1;
+
+    for (const action of session.actions) {
+      this.emitAction(action);
+    }
+    while (this.openBlocks.length > 0) {
+      this.closeBlock(this.openBlocks[this.openBlocks.length - 1].id);
+    }
+
+    const locators = buildLocatorMap(getRecordedSelectors(session));
+    const result = this.render(session, this.lines, locators);
+    return this.skippedSteps.length > 0 ? { ...result, skippedSteps: this.skippedSteps } : result;
+  }
+
+  /**
+   * Translate one recorded action into statements via emit()
+   */
+  protected abstract emitAction(action: CodegenAction): void;
+
+  /**
+   * Assemble the test file (and page object for the pom template)
+   */
+  protected abstract render(session: CodegenSession, body: string[], locators: Map<string, OptimizedLocator>): CodegenResult;
+
+  /**
+   * Statement used when a block ends up without a body
+   */
+  protected abstract emptyBlockBody(): string[];
+
+  /**
+   * Language-specific name of the page object member for a selector
+   */
+  protected abstract locatorMemberName(camelName: string): string;
+
+  /**
+   * Append statements at the current block depth
+   */
+  protected emit(...lines: string[]): void {
+    const indent = '    '.repeat(this.openBlocks.length);
+    for (const line of lines) {
+      this.lines.push(line ? indent + line : line);
+    }
+    if (this.openBlocks.length > 0) {
+      this.openBlocks[this.openBlocks.length - 1].hasBody = true;
+    }
+  }
+
+  /**
+   * Open a block that wraps the following steps until closeBlock(id)
+   */
+  protected openBlock(id: string, header: string[], footer: string[]): void {
+    this.emit(...header);
+    this.openBlocks.push({ id, footer, hasBody: false });
+  }
+
+  /**
+   * Close the block with the given id (and any blocks opened inside it)
+   * @returns false if no such block is open
+   */
+  protected closeBlock(id: string): boolean {
+    if (!this.openBlocks.some(block => block.id === id)) {
+      return false;
+    }
+
+    let block: OpenBlock;
+    do {
+      if (!this.openBlocks[this.openBlocks.length - 1].hasBody) {
+        this.emit(...this.emptyBlockBody());
+      }
+      block = this.openBlocks.pop()!;
+      this.emit(...block.footer);
+    } while (block.id !== id);
+
+    return true;
+  }
+
+  /**
+   * Leave a step out of the generated test: emit a comment in its place and report it in the result
+   * @param comment Comment line in the target language
+   */
+  protected skipStep(action: CodegenAction, comment: string): void {
+    this.emit(comment);
+    this.skippedSteps.push(action.toolName);
+  }
+
+  /**
+   * Remember which matcher a route ID stands for, numbering unnamed routes like the route tools do
+   */
+  protected trackRoute(id: unknown, matcher: string): void {
+    this.routeMatchers.set(id ? String(id) : `route-${this.nextRouteNumber++}`, matcher);
+  }
+
+  /**
+   * Matcher literal of a route created earlier in the recording
+   */
+  protected trackedRoute(id: unknown): string | undefined {
+    return this.routeMatchers.get(String(id));
+  }
+
+  /**
+   * Page object member name for a recorded selector, using the shared locator optimisation
+   */
+  protected locatorName(selector: string): string {
+    return this.locatorMemberName(deriveLocatorName(optimizeLocator(selector)));
+  }
+
+  /**
+   * Identifier-safe fragment of the session ID
+   */
+  protected shortSessionId(session: CodegenSession): string {
+    if (!session.id) {
+      throw new Error('Session ID is required');
+    }
+    return session.id.replace(/[^a-zA-Z0-9]/g, '').slice(0, 8);
+  }
+}
@@ -5,7 +5,10 @@
 
 import * as path from 'path';
 import { CodegenAction, CodegenOptions, CodegenResult, CodegenSession, PlaywrightTestCase } from './types.js';
-import { optimizeLocator, deriveLocatorName, getSelectorPriority, OptimizedLocator } from '../../utils/locatorOptimizer.js';
+import { optimizeLocator, deriveLocatorName, buildLocatorMap } from '../../utils/locatorOptimizer.js';
+import { getRecordedSelectors, escapeRegExp, textExpectation, ELEMENT_STATE_ASSERTIONS } from './emitterBase.js';
+import { PythonEmitter } from './pythonEmitter.js';
+import { JavaEmitter } from './javaEmitter.js';
 
 export class PlaywrightGenerator {
   private static readonly DEFAULT_OPTIONS: Required<CodegenOptions> = {
@@ -18,6 +21,11 @@ export class PlaywrightGenerator {
 
   private options: Required<CodegenOptions>;
 
+  // Route IDs recorded so far mapped to their URL matcher literal, for playwright_remove_route
+  private routeMatchers = new Map<string, string>();
+  private nextRouteNumber = 1;
+  private nextRouteHitsNumber = 1;
+
   constructor(options: CodegenOptions = {}) {
     this.validateOptions(options);
     this.options = { ...PlaywrightGenerator.DEFAULT_OPTIONS, ...options };
@@ -33,8 +41,8 @@ export class PlaywrightGenerator {
     if (options.includeComments !== undefined && typeof options.includeComments !== 'boolean') {
       throw new Error('includeComments must be a boolean');
     }
-    if (options.language !== undefined && options.language !== 'typescript' && options.language !== 'javascript') {
-      throw new Error("language must be 'typescript' or 'javascript'");
+    if (options.language !== undefined && !['typescript', 'javascript', 'python', 'java'].includes(options.language)) {
+      throw new Error("language must be 'typescript', 'javascript', 'python' or 'java'");
     }
     if (options.template !== undefined && options.template !== 'plain' && options.template !== 'pom') {
       throw new Error("template must be 'plain' or 'pom'");
@@ -46,6 +54,14 @@ export class PlaywrightGenerator {
       throw new Error('Invalid session data');
     }
 
+    // Python and Java have their own emitters
+    if (this.options.language === 'python') {
+      return new PythonEmitter(this.options).generateTest(session);
+    }
+    if (this.options.language === 'java') {
+      return new JavaEmitter(this.options).generateTest(session);
+    }
+
     const testCase = this.createTestCase(session);
     const isPom = this.options.template === 'pom';
     const files: { path: string; content: string }[] = [];
@@ -91,6 +107,10 @@ export class PlaywrightGenerator {
     // Store whether API fixtures are needed for later use in test generation
     (testCase as any).hasApiActions = hasApiActions;
 
+    this.routeMatchers.clear();
+    this.nextRouteNumber = 1;
+    this.nextRouteHitsNumber = 1;
+
     for (const action of session.actions) {
       const step = this.convertActionToStep(action, isPom);
       if (step) {
@@ -187,6 +207,31 @@ export class PlaywrightGenerator {
         return this.generateEmulateDeviceStep(parameters, isPom);
       case 'playwright_list_devices':
         return this.generateListDevicesStep(parameters, isPom);
+      case 'playwright_assert_element_state':
+        return this.generateAssertElementStateStep(parameters, isPom);
+      case 'playwright_assert_text_content':
+        return this.generateAssertTextContentStep(parameters, isPom);
+      case 'playwright_assert_element_count':
+        return this.generateAssertElementCountStep(parameters, isPom);
+      case 'playwright_assert_attribute':
+        return this.generateAssertAttributeStep(parameters, isPom);
+      case 'playwright_assert_css_property':
+        return this.generateAssertCssPropertyStep(parameters, isPom);
+      case 'playwright_wait_url':
+        return this.generateWaitUrlStep(parameters, isPom);
+      case 'playwright_mock_route':
+        return this.generateMockRouteStep(parameters, isPom);
+      case 'playwright_abort_route':
+        return this.generateAbortRouteStep(parameters, isPom);
+      case 'playwright_modify_route':
+        return this.generateModifyRouteStep(parameters, isPom);
+      case 'playwright_route_from_har':
+        return this.generateRouteFromHarStep(parameters, isPom);
+      case 'playwright_remove_route':
+        return this.generateRemoveRouteStep(parameters, isPom);
+      case 'playwright_list_routes':
+        // Inspection only, nothing to emit
+        return null;
       default:
         console.warn(`Unsupported tool: ${toolName}`);
         return null;
@@ -662,22 +707,7 @@ export class AppPage {
 `;
 
     // Build optimized locator map from recorded selectors
-    const locatorMap = new Map<string, OptimizedLocator>();
-
-    for (const action of session.actions) {
-      const params = action.parameters as Record<string, unknown>;
-      const selector = typeof params.selector === 'string' ? params.selector : undefined;
-      if (selector) {
-        const optimized = optimizeLocator(selector);
-        const key = deriveLocatorName(optimized);
-
-        // Only keep the highest priority selector for each key
-        if (!locatorMap.has(key) ||
-            getSelectorPriority(optimized) > getSelectorPriority(locatorMap.get(key)!)) {
-          locatorMap.set(key, optimized);
-        }
-      }
-    }
+    const locatorMap = buildLocatorMap(getRecordedSelectors(session));
 
     // Generate getter methods for locators using best practices
     const locatorGetters = Array.from(locatorMap.entries())
@@ -780,9 +810,23 @@ export default defineConfig({
   }
 
   private generateVisualCompareStep(parameters: Record<string, unknown>, isPom: boolean): string {
-    const { baseline, threshold = 0.1, outputDiff = true, fullPage = false } = parameters;
+    const { baseline, testName, threshold = 0.1, outputDiff = true, fullPage = false, regions = [], mask = [] } = parameters;
     const pageRef = isPom ? 'app.page' : 'page';
 
+    if (testName && !baseline) {
+      const components = regions as Array<{ selector: string; name?: string }>;
+      if (components.length > 1) {
+        // One named snapshot per component, as the tool compares them
+        return components.map(region => this.screenshotAssertionStep(
+          `${testName}-${region.name || region.selector.replace(/[^a-zA-Z0-9_-]+/g, '-').replace(/^-+|-+$/g, '')}`,
+          Number(threshold), false, isPom, region.selector, mask as string[]
+        )).join('');
+      }
+      return this.screenshotAssertionStep(
+        String(testName), Number(threshold), Boolean(fullPage), isPom, components[0]?.selector, mask as string[]
+      );
+    }
+
     return `
     // Visual comparison
     await ${pageRef}.screenshot({ path: 'current-screenshot.png', fullPage: ${fullPage} });
@@ -790,9 +834,14 @@ export default defineConfig({
   }
 
   private generateCreateBaselineStep(parameters: Record<string, unknown>, isPom: boolean): string {
-    const { outputPath, selector, fullPage = false } = parameters;
+    const { outputPath, testName, selector, fullPage = false } = parameters;
     const pageRef = isPom ? 'app.page' : 'page';
 
+    if (testName && !outputPath && !selector) {
+      // toHaveScreenshot writes the baseline on the first run (or with --update-snapshots)
+      return this.screenshotAssertionStep(String(testName), 0, Boolean(fullPage), isPom);
+    }
+
     if (selector) {
       return `
     // Create baseline screenshot for element
@@ -804,6 +853,32 @@ export default defineConfig({
     await ${pageRef}.screenshot({ path: '${outputPath}', fullPage: ${fullPage} });`;
   }
 
+  /**
+   * Playwright Test's own named, per-project screenshot baseline, the closest match to the baseline store
+   */
+  private screenshotAssertionStep(
+    testName: string,
+    threshold: number,
+    fullPage: boolean,
+    isPom: boolean,
+    selector?: string,
+    mask: string[] = []
+  ): string {
+    const pageRef = isPom ? 'app.page' : 'page';
+    const options = [
+      fullPage ? 'fullPage: true' : '',
+      threshold > 0 ? `maxDiffPixelRatio: ${threshold}` : '',
+      mask.length > 0 ? `mask: [${mask.map(maskSelector => `${pageRef}.locator(${this.stringLiteral(maskSelector)})`).join(', ')}]` : '',
+    ].filter(Boolean);
+    const target = selector ? `${pageRef}.locator(${this.stringLiteral(selector)})` : pageRef;
+
+    return this.step(
+      `Visual comparison against baseline '${testName}'`,
+      `await expect(${target}).toHaveScreenshot(${this.stringLiteral(`${testName}.png`)}${options.length ? `, { ${options.join(', ')} }` : ''});`,
+      isPom
+    );
+  }
+
   private generateBatchVisualCompareStep(parameters: Record<string, unknown>, isPom: boolean): string {
     return `
     // Batch visual comparison
@@ -845,6 +920,201 @@ export default defineConfig({
     // This is a utility tool - no code generation needed`;
   }
 
+  /**
+   * Locator expression for assertions: page object getter or inline page.locator()
+   */
+  private locatorRef(selector: unknown, isPom: boolean): string {
+    if (isPom && typeof selector === 'string') {
+      return `app.${deriveLocatorName(optimizeLocator(selector))}`;
+    }
+    return `page.locator('${String(selector).replace(/'/g, "\\'")}')`;
+  }
+
+  /**
+   * Commented statement for plain tests, bare statement for POM tests
+   */
+  private step(comment: string, statement: string, isPom: boolean): string {
+    return isPom ? statement : `
+    // ${comment}
+    ${statement}`;
+  }
+
+  private timeoutOption(timeout: unknown): string {
+    return timeout ? `{ timeout: ${timeout} }` : '';
+  }
+
+  private generateAssertElementStateStep(parameters: Record<string, unknown>, isPom: boolean): string {
+    const { selector, state, timeout } = parameters;
+    const [stem, negated] = ELEMENT_STATE_ASSERTIONS[String(state)] ?? ELEMENT_STATE_ASSERTIONS.visible;
+    return this.step(`Assert element is ${state}`, `await expect(${this.locatorRef(selector, isPom)}).${negated ? 'not.' : ''}toBe${stem}(${this.timeoutOption(timeout)});`, isPom);
+  }
+
+  private generateAssertTextContentStep(parameters: Record<string, unknown>, isPom: boolean): string {
+    const { selector, timeout } = parameters;
+    const expected = textExpectation(parameters);
+    const value = expected.isRegex
+      ? `/${expected.value.replace(/\//g, '\\/')}/${expected.ignoreCase ? 'i' : ''}`
+      : `'${expected.value.replace(/'/g, "\\'")}'`;
+    const options = this.timeoutOption(timeout);
+    return this.step('Assert text content', `await expect(${this.locatorRef(selector, isPom)}).${expected.contains ? 'toContainText' : 'toHaveText'}(${value}${options ? `, ${options}` : ''});`, isPom);
+  }
+
+  private generateAssertElementCountStep(parameters: Record<string, unknown>, isPom: boolean): string {
+    const { selector, count, comparison = 'equal', timeout } = parameters;
+    const locator = this.locatorRef(selector, isPom);
+    if (comparison === 'equal') {
+      const options = this.timeoutOption(timeout);
+      return this.step('Assert element count', `await expect(${locator}).toHaveCount(${count}${options ? `, ${options}` : ''});`, isPom);
+    }
+    const matchers: Record<string, string> = {
+      greaterThan: 'toBeGreaterThan',
+      lessThan: 'toBeLessThan',
+      atLeast: 'toBeGreaterThanOrEqual',
+      atMost: 'toBeLessThanOrEqual',
+    };
+    return this.step(`Assert element count (${comparison})`, `expect(await ${locator}.count()).${matchers[String(comparison)] ?? 'toBe'}(${count});`, isPom);
+  }
+
+  private generateAssertAttributeStep(parameters: Record<string, unknown>, isPom: boolean): string {
+    const { selector, attribute, expectedValue, matchType = 'exact', timeout } = parameters;
+    const locator = this.locatorRef(selector, isPom);
+    const options = this.timeoutOption(timeout);
+    const optionsArg = options ? `, ${options}` : '';
+    let assertion: string;
+    switch (matchType) {
+      case 'exists':
+        assertion = `toHaveAttribute('${attribute}', /.*/${optionsArg})`;
+        break;
+      case 'notExists':
+        assertion = `not.toHaveAttribute('${attribute}', /.*/${optionsArg})`;
+        break;
+      case 'contains':
+        assertion = `toHaveAttribute('${attribute}', /${escapeRegExp(String(expectedValue))}/${optionsArg})`;
+        break;
+      default:
+        assertion = `toHaveAttribute('${attribute}', '${String(expectedValue).replace(/'/g, "\\'")}'${optionsArg})`;
+    }
+    return this.step(`Assert attribute ${attribute}`, `await expect(${locator}).${assertion};`, isPom);
+  }
+
+  private generateAssertCssPropertyStep(parameters: Record<string, unknown>, isPom: boolean): string {
+    const { selector, property, expectedValue, timeout } = parameters;
+    const options = this.timeoutOption(timeout);
+    return this.step(`Assert CSS property ${property}`, `await expect(${this.locatorRef(selector, isPom)}).toHaveCSS('${property}', '${String(expectedValue).replace(/'/g, "\\'")}'${options ? `, ${options}` : ''});`, isPom);
+  }
+
+  private generateWaitUrlStep(parameters: Record<string, unknown>, isPom: boolean): string {
+    const { urlPattern, regex, timeout } = parameters;
+    const pageRef = isPom ? 'app.page' : 'page';
+    const options = this.timeoutOption(timeout);
+    return this.step('Wait for URL', `await ${pageRef}.waitForURL(${this.routeMatcher(urlPattern, regex)}${options ? `, ${options}` : ''});`, isPom);
+  }
+
+  /**
+   * Single-quoted string literal
+   */
+  private stringLiteral(value: unknown): string {
+    return `'${String(value).replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  }
+
+  /**
+   * URL matcher literal for a recorded route pattern
+   */
+  private routeMatcher(url: unknown, regex: unknown): string {
+    return regex ? `new RegExp(${this.stringLiteral(url)})` : this.stringLiteral(url);
+  }
+
+  /**
+   * Remember which matcher a route ID stands for, numbering unnamed routes like the route tools do
+   */
+  private trackRoute(id: unknown, matcher: string): void {
+    this.routeMatchers.set(id ? String(id) : `route-${this.nextRouteNumber++}`, matcher);
+  }
+
+  /**
+   * page.route call applying the recorded method filter, delay and times limit around a handler body
+   */
+  private routeStep(comment: string, parameters: Record<string, unknown>, handlerBody: string[], isPom: boolean): string {
+    const { url, regex, method, times, delay, id } = parameters;
+    const pageRef = isPom ? 'app.page' : 'page';
+    const matcher = this.routeMatcher(url, regex);
+    this.trackRoute(id, matcher);
+
+    // page.route's times would also count requests passed on for another method, so count them here
+    const hits = method && times ? `routeHits${this.nextRouteHitsNumber++}` : undefined;
+    const lines = [
+      ...(method ? [`if (route.request().method() !== '${String(method).toUpperCase()}'${hits ? ` || ${hits} >= ${times}` : ''}) return route.fallback();`] : []),
+      ...(hits ? [`${hits}++;`] : []),
+      ...(delay ? [`await new Promise(resolve => setTimeout(resolve, ${delay}));`] : []),
+      ...handlerBody,
+    ];
+    const options = times && !hits ? `, { times: ${times} }` : '';
+    return this.step(comment, `${hits ? `let ${hits} = 0;\n    ` : ''}await ${pageRef}.route(${matcher}, async route => {
+${lines.map(line => `      ${line}`).join('\n')}
+    }${options});`, isPom);
+  }
+
+  private generateMockRouteStep(parameters: Record<string, unknown>, isPom: boolean): string {
+    const { status = 200, headers, json, body, filePath, contentType } = parameters;
+    const options = [`status: ${status}`];
+    if (headers) options.push(`headers: ${JSON.stringify(headers)}`);
+    if (contentType) options.push(`contentType: ${this.stringLiteral(contentType)}`);
+    if (json !== undefined) options.push(`json: ${JSON.stringify(json)}`);
+    if (body !== undefined) options.push(`body: ${this.stringLiteral(body)}`);
+    if (filePath) options.push(`path: ${this.stringLiteral(filePath)}`);
+    return this.routeStep('Mock route', parameters, [`await route.fulfill({ ${options.join(', ')} });`], isPom);
+  }
+
+  private generateAbortRouteStep(parameters: Record<string, unknown>, isPom: boolean): string {
+    const { errorCode = 'failed' } = parameters;
+    return this.routeStep('Abort route', parameters, [`await route.abort(${this.stringLiteral(errorCode)});`], isPom);
+  }
+
+  private generateModifyRouteStep(parameters: Record<string, unknown>, isPom: boolean): string {
+    const { requestHeaders, removeRequestHeaders, responseHeaders } = parameters;
+    const body = [`const headers = { ...route.request().headers()${requestHeaders ? `, ...${JSON.stringify(requestHeaders)}` : ''} };`];
+    for (const name of (removeRequestHeaders as string[] | undefined) || []) {
+      body.push(`delete headers[${this.stringLiteral(name.toLowerCase())}];`);
+    }
+    if (responseHeaders) {
+      body.push(
+        `const response = await route.fetch({ headers });`,
+        `await route.fulfill({ response, headers: { ...response.headers(), ...${JSON.stringify(responseHeaders)} } });`
+      );
+    } else {
+      body.push(`await route.continue({ headers });`);
+    }
+    return this.routeStep('Modify route', parameters, body, isPom);
+  }
+
+  private generateRouteFromHarStep(parameters: Record<string, unknown>, isPom: boolean): string {
+    const { harPath, url, regex, notFound, update, id } = parameters;
+    const pageRef = isPom ? 'app.page' : 'page';
+    const matcher = url ? this.routeMatcher(url, regex) : undefined;
+    this.trackRoute(id, matcher ?? `'**/*'`);
+
+    const options = [];
+    if (matcher) options.push(`url: ${matcher}`);
+    if (notFound) options.push(`notFound: '${notFound}'`);
+    if (update) options.push('update: true');
+    const optionsStr = options.length > 0 ? `, { ${options.join(', ')} }` : '';
+    return this.step('Serve requests from HAR', `await ${pageRef}.routeFromHAR(${this.stringLiteral(harPath)}${optionsStr});`, isPom);
+  }
+
+  private generateRemoveRouteStep(parameters: Record<string, unknown>, isPom: boolean): string {
+    const { id, url, all } = parameters;
+    const pageRef = isPom ? 'app.page' : 'page';
+
+    if (all) {
+      return this.step('Remove all routes', `await ${pageRef}.unrouteAll({ behavior: 'ignoreErrors' });`, isPom);
+    }
+    const matcher = url ? this.stringLiteral(url) : this.routeMatchers.get(String(id));
+    if (!matcher) {
+      return this.step('Remove route', `// Route '${id}' was not created in this recording`, isPom);
+    }
+    return this.step('Remove route', `await ${pageRef}.unroute(${matcher});`, isPom);
+  }
+
   private getOutputFilePath(session: CodegenSession): string {
     if (!session.id) {
       throw new Error('Session ID is required');
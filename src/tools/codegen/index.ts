@@ -7,6 +7,8 @@ import { Tool } from '../../types.js';
 import { ActionRecorder } from './recorder.js';
 import { PlaywrightGenerator } from './generator.js';
 import { CodegenOptions } from './types.js';
+import { SpecImporter } from './specImporter.js';
+import { artifactStore } from '../../utils/artifactStore.js';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import type { Browser, Page } from 'playwright';
@@ -42,7 +44,7 @@ export const startCodegenSession: Tool = {
           outputPath: { type: 'string' },
           testNamePrefix: { type: 'string' },
           includeComments: { type: 'boolean' },
-          language: { type: 'string', enum: ['typescript', 'javascript'] },
+          language: { type: 'string', enum: ['typescript', 'javascript', 'python', 'java'] },
           template: { type: 'string', enum: ['plain', 'pom'] }
         }
       }
@@ -124,11 +126,13 @@ export const endCodegenSession: Tool = {
       // Write test file and any additional generated files (POM/config)
       try {
         await fs.writeFile(result.filePath, result.testCode, 'utf-8');
+        artifactStore.register({ scheme: 'codegen', filePath: result.filePath, description: `Test generated from session ${sessionId}` });
         if (result.files && result.files.length) {
           for (const f of result.files) {
             const dir = path.dirname(f.path);
             await fs.mkdir(dir, { recursive: true });
             await fs.writeFile(f.path, f.content, 'utf-8');
+            artifactStore.register({ scheme: 'codegen', filePath: f.path, description: `Support file for session ${sessionId}` });
           }
         }
       } catch (writeError: any) {
@@ -153,7 +157,9 @@ export const endCodegenSession: Tool = {
         filePath: absolutePath,
         outputDirectory: outputDir,
         testCode: result.testCode,
-        message: `Generated test file at: ${absolutePath}\nOutput directory: ${outputDir}`
+        ...(result.skippedSteps ? { skippedSteps: result.skippedSteps } : {}),
+        message: `Generated test file at: ${absolutePath}\nOutput directory: ${outputDir}` +
+          (result.skippedSteps ? `\nNot generated (no ${session.options.language} equivalent): ${result.skippedSteps.join(', ')}` : '')
       };
     } catch (error: any) {
       // Ensure browser cleanup even on error
@@ -217,9 +223,76 @@ export const clearCodegenSession: Tool = {
   }
 };
 
+export const importSpecFile: Tool = {
+  name: 'import_spec_file',
+  description: 'Import an existing Playwright spec file into a new code generation session',
+  parameters: {
+    type: 'object',
+    properties: {
+      filePath: {
+        type: 'string',
+        description: 'Path to the .spec.ts/.spec.js file to import'
+      },
+      testName: {
+        type: 'string',
+        description: 'Name of the test() block to import (defaults to the first test in the file)'
+      },
+      options: {
+        type: 'object',
+        description: 'Code generation options for the new session (outputPath defaults to the spec file directory)',
+        properties: {
+          outputPath: { type: 'string' },
+          testNamePrefix: { type: 'string' },
+          includeComments: { type: 'boolean' },
+          language: { type: 'string', enum: ['typescript', 'javascript', 'python', 'java'] },
+          template: { type: 'string', enum: ['plain', 'pom'] }
+        }
+      },
+      activate: {
+        type: 'boolean',
+        description: 'Make the imported session the active recording session (default: true)'
+      }
+    },
+    required: ['filePath']
+  },
+  handler: async ({ filePath, testName, options = {}, activate = true }: { filePath: string; testName?: string; options?: CodegenOptions; activate?: boolean }) => {
+    try {
+      const specPath = path.isAbsolute(filePath) ? filePath : path.join(getWorkspaceRoot(), filePath);
+      const source = await fs.readFile(specPath, 'utf-8');
+      const result = new SpecImporter(source).parse(testName);
+
+      const mergedOptions = {
+        ...DEFAULT_OPTIONS,
+        outputPath: path.dirname(specPath),
+        language: path.extname(specPath) === '.js' ? 'javascript' as const : 'typescript' as const,
+        ...options
+      };
+      if (!path.isAbsolute(mergedOptions.outputPath)) {
+        mergedOptions.outputPath = path.join(getWorkspaceRoot(), mergedOptions.outputPath);
+      }
+
+      const sessionId = ActionRecorder.getInstance().importSession(result.actions, mergedOptions, activate);
+
+      return {
+        sessionId,
+        testName: result.testName,
+        availableTests: result.tests,
+        importedActions: result.actions.length,
+        skippedStatements: result.skipped,
+        options: mergedOptions,
+        message: `Imported ${result.actions.length} action(s) from "${result.testName}" into session ${sessionId}` +
+          (result.skipped.length ? ` (${result.skipped.length} statement(s) skipped)` : '')
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to import spec file: ${error.message}`);
+    }
+  }
+};
+
 export const codegenTools = [
   startCodegenSession,
   endCodegenSession,
   getCodegenSession,
-  clearCodegenSession
+  clearCodegenSession,
+  importSpecFile
 ]; 
\ No newline at end of file
@@ -0,0 +1,540 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+/**
+ * Java Emitter - Generates Playwright for Java tests with JUnit 5
+ */
+
+import * as path from 'path';
+import { CodegenAction, CodegenResult, CodegenSession } from './types.js';
+import { OptimizedLocator } from '../../utils/locatorOptimizer.js';
+import { CodeEmitter, quote, escapeRegExp, textExpectation, ELEMENT_STATE_ASSERTIONS, COUNT_OPERATORS } from './emitterBase.js';
+
+const WAIT_UNTIL_STATES: Record<string, string> = {
+  load: 'LOAD',
+  domcontentloaded: 'DOMCONTENTLOADED',
+  networkidle: 'NETWORKIDLE',
+  commit: 'COMMIT',
+};
+
+/**
+ * Java expression for an optimized locator on the given page reference
+ */
+function locatorExpression(optimized: OptimizedLocator, pageRef: string): string {
+  if (optimized.method === 'getByRole') {
+    return `${pageRef}.getByRole(AriaRole.${optimized.value.toUpperCase().replace(/-/g, '_')})`;
+  }
+  return `${pageRef}.${optimized.method}(${quote(optimized.value)})`;
+}
+
+function pascalCase(value: string): string {
+  return value
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1).toLowerCase())
+    .join('');
+}
+
+export class JavaEmitter extends CodeEmitter {
+  private declaredNames = new Map<string, number>();
+
+  protected emptyBlockBody(): string[] {
+    return [];
+  }
+
+  protected locatorMemberName(camelName: string): string {
+    return camelName;
+  }
+
+  /**
+   * Local variable name that is unique within the test method
+   */
+  private declare(name: string): string {
+    const count = (this.declaredNames.get(name) ?? 0) + 1;
+    this.declaredNames.set(name, count);
+    return count === 1 ? name : `${name}${count}`;
+  }
+
+  protected emitAction(action: CodegenAction): void {
+    const params = action.parameters as Record<string, any>;
+    const page = this.isPom ? 'app.page()' : 'page';
+    const usePom = this.isPom && typeof params.selector === 'string';
+
+    switch (action.toolName) {
+      case 'playwright_navigate': {
+        if (this.isPom) {
+          this.emit(`app.navigate(${quote(params.url)});`);
+          break;
+        }
+        const state = WAIT_UNTIL_STATES[String(params.waitUntil)];
+        this.emit(`page.navigate(${quote(params.url)}${state ? `, new Page.NavigateOptions().setWaitUntil(WaitUntilState.${state})` : ''});`);
+        break;
+      }
+      case 'playwright_fill':
+        this.emit(usePom
+          ? `app.fillElement(app.${this.locatorName(params.selector)}(), ${quote(params.value)});`
+          : `page.fill(${quote(params.selector)}, ${quote(params.value)});`);
+        break;
+      case 'playwright_click':
+        this.emit(usePom
+          ? `app.clickElement(app.${this.locatorName(params.selector)}());`
+          : `page.click(${quote(params.selector)});`);
+        break;
+      case 'playwright_hover':
+        this.emit(usePom
+          ? `app.hoverElement(app.${this.locatorName(params.selector)}());`
+          : `page.hover(${quote(params.selector)});`);
+        break;
+      case 'playwright_select':
+        this.emit(usePom
+          ? `app.selectOption(app.${this.locatorName(params.selector)}(), ${quote(params.value)});`
+          : `page.selectOption(${quote(params.selector)}, ${quote(params.value)});`);
+        break;
+      case 'playwright_upload_file':
+        this.emit(usePom
+          ? `app.uploadFile(app.${this.locatorName(params.selector)}(), ${quote(params.filePath)});`
+          : `page.setInputFiles(${quote(params.selector)}, Paths.get(${quote(params.filePath)}));`);
+        break;
+      case 'playwright_press_key':
+        if (params.selector) {
+          this.emit(usePom
+            ? `app.${this.locatorName(params.selector)}().press(${quote(params.key)});`
+            : `${page}.press(${quote(params.selector)}, ${quote(params.key)});`);
+        } else {
+          this.emit(`${page}.keyboard().press(${quote(params.key)});`);
+        }
+        break;
+      case 'playwright_screenshot':
+        this.emit(`${page}.screenshot(new Page.ScreenshotOptions().setPath(Paths.get(${quote(params.path || `${params.name || 'screenshot'}.png`)}))${params.fullPage ? '.setFullPage(true)' : ''});`);
+        break;
+      case 'playwright_expect_response':
+        this.openBlock(`response:${params.id}`,
+          [`Response ${params.id}Response = ${page}.waitForResponse(${quote(params.url)}, () -> {`],
+          [`});`]);
+        break;
+      case 'playwright_assert_response':
+        this.closeBlock(`response:${params.id}`);
+        this.emit(params.value
+          ? `assertTrue(${params.id}Response.text().contains(${quote(params.value)}));`
+          : `assertTrue(${params.id}Response.ok());`);
+        break;
+      case 'playwright_custom_user_agent':
+        this.emit(`${page}.setExtraHTTPHeaders(Map.of("User-Agent", ${quote(params.userAgent)}));`);
+        break;
+      case 'playwright_drag':
+        this.emit(`${page}.dragAndDrop(${quote(params.sourceSelector)}, ${quote(params.targetSelector)});`);
+        break;
+      case 'playwright_evaluate':
+        this.emit(`Object ${this.declare('result')} = ${page}.evaluate(${quote(params.script)});`);
+        break;
+      case 'playwright_go_back':
+        this.emit(`${page}.goBack();`);
+        break;
+      case 'playwright_go_forward':
+        this.emit(`${page}.goForward();`);
+        break;
+      case 'playwright_iframe_click':
+        this.emit(`${page}.frameLocator(${quote(params.iframeSelector)}).locator(${quote(params.selector)}).click();`);
+        break;
+      case 'playwright_iframe_fill':
+        this.emit(`${page}.frameLocator(${quote(params.iframeSelector)}).locator(${quote(params.selector)}).fill(${quote(params.value)});`);
+        break;
+      case 'playwright_get_visible_text':
+        this.emit(`String ${this.declare('visibleText')} = ${page}.innerText("body");`);
+        break;
+      case 'playwright_get_visible_html':
+        this.emit(params.selector
+          ? `String ${this.declare('htmlContent')} = ${page}.locator(${quote(params.selector)}).innerHTML();`
+          : `String ${this.declare('htmlContent')} = ${page}.content();`);
+        break;
+      case 'playwright_click_and_switch_tab': {
+        const newPage = this.declare('newPage');
+        this.emit(
+          `Page ${newPage} = ${page}.context().waitForPage(() -> ${page}.click(${quote(params.selector)}));`,
+          `${newPage}.waitForLoadState(LoadState.DOMCONTENTLOADED);`,
+          `// Note: You may need to use ${newPage} for the following steps`,
+        );
+        break;
+      }
+      case 'playwright_console_logs':
+        this.emit(`${page}.onConsoleMessage(msg -> System.out.println("Browser console: " + msg.text()));`);
+        break;
+      case 'playwright_save_as_pdf': {
+        const pdfPath = path.posix.join(params.outputPath || '.', params.filename || 'page.pdf');
+        let options = `new Page.PdfOptions().setPath(Paths.get(${quote(pdfPath)}))`;
+        if (params.format) options += `.setFormat(${quote(params.format)})`;
+        if (params.printBackground) options += '.setPrintBackground(true)';
+        this.emit(`${page}.pdf(${options});`);
+        break;
+      }
+      case 'playwright_get':
+      case 'playwright_post':
+      case 'playwright_put':
+      case 'playwright_patch':
+      case 'playwright_delete':
+        this.emitApiRequest(action.toolName.replace('playwright_', ''), params, page);
+        break;
+      case 'playwright_download_file': {
+        const download = this.declare('download');
+        const options = params.timeout ? `new Page.WaitForDownloadOptions().setTimeout(${params.timeout}), ` : '';
+        this.emit(
+          `Download ${download} = ${page}.waitForDownload(${options}() -> ${page}.click(${quote(params.triggerSelector)}));`,
+          params.savePath
+            ? `${download}.saveAs(Paths.get(${quote(params.savePath)}));`
+            : `${download}.saveAs(Paths.get("downloads", ${download}.suggestedFilename()));`,
+        );
+        break;
+      }
+      case 'playwright_copy_to_clipboard':
+        this.emit(`${page}.evaluate("text => navigator.clipboard.writeText(text)", ${quote(params.text)});`);
+        break;
+      case 'playwright_read_clipboard':
+        this.emit(`Object ${this.declare('clipboardText')} = ${page}.evaluate("() => navigator.clipboard.readText()");`);
+        break;
+      case 'playwright_handle_dialog':
+        this.emit(`${page}.onceDialog(dialog -> dialog.${params.action === 'dismiss' ? 'dismiss()' : `accept(${params.promptText ? quote(params.promptText) : ''})`});`);
+        break;
+      case 'playwright_expect_dialog':
+        this.emit(
+          `${page}.onceDialog(dialog -> {`,
+          `    assertTrue(dialog.message().contains(${quote(params.expectedMessage)}));`,
+          `    dialog.${params.action === 'dismiss' ? 'dismiss()' : `accept(${params.promptText ? quote(params.promptText) : ''})`};`,
+          `});`,
+        );
+        break;
+      case 'playwright_drag_to_position': {
+        const box = this.declare('box');
+        this.emit(
+          `BoundingBox ${box} = ${page}.locator(${quote(params.sourceSelector)}).boundingBox();`,
+          `${page}.mouse().move(${box}.x + ${box}.width / 2, ${box}.y + ${box}.height / 2);`,
+          `${page}.mouse().down();`,
+          `${page}.mouse().move(${params.targetX}, ${params.targetY}, new Mouse.MoveOptions().setSteps(${params.steps ?? 10}));`,
+          `${page}.mouse().up();`,
+        );
+        break;
+      }
+      case 'playwright_get_element_position':
+        this.emit(`BoundingBox ${this.declare('elementBox')} = ${page}.locator(${quote(params.selector)}).boundingBox();`);
+        break;
+      case 'playwright_create_baseline':
+        this.emit(params.selector
+          ? `${page}.locator(${quote(params.selector)}).screenshot(new Locator.ScreenshotOptions().setPath(Paths.get(${quote(params.outputPath ?? `${params.testName}.png`)})));`
+          : `${page}.screenshot(new Page.ScreenshotOptions().setPath(Paths.get(${quote(params.outputPath ?? `${params.testName}.png`)}))${params.fullPage ? '.setFullPage(true)' : ''});`);
+        break;
+      case 'playwright_visual_compare':
+        this.emit(
+          `${page}.screenshot(new Page.ScreenshotOptions().setPath(Paths.get("current-screenshot.png"))${params.fullPage ? '.setFullPage(true)' : ''});`,
+          `// Compare with baseline: ${params.baseline ?? params.testName} (threshold: ${params.threshold ?? 0.1})`,
+        );
+        break;
+      case 'playwright_emulate_device':
+        this.emit(`// Emulate device: ${params.device} (set its viewport and user agent in Browser.NewContextOptions)`);
+        break;
+      case 'playwright_assert_element_state':
+      case 'playwright_assert_text_content':
+      case 'playwright_assert_element_count':
+      case 'playwright_assert_attribute':
+      case 'playwright_assert_css_property':
+        this.emitAssertion(action.toolName, params, usePom ? `app.${this.locatorName(params.selector)}()` : `${page}.locator(${quote(params.selector)})`);
+        break;
+      case 'playwright_wait_url':
+        this.emit(`${page}.waitForURL(${params.regex ? `Pattern.compile(${quote(params.urlPattern)})` : quote(params.urlPattern)}${params.timeout ? `, new Page.WaitForURLOptions().setTimeout(${params.timeout})` : ''});`);
+        break;
+      case 'playwright_mock_route':
+      case 'playwright_abort_route':
+      case 'playwright_modify_route':
+        this.emitRoute(action.toolName, params, page);
+        break;
+      case 'playwright_route_from_har': {
+        const matcher = params.url ? this.routeMatcher(params.url, params.regex) : undefined;
+        this.trackRoute(params.id, matcher ?? quote('**/*'));
+        let options = '';
+        if (matcher) options += `.setUrl(${matcher})`;
+        if (params.notFound) options += `.setNotFound(HarNotFound.${String(params.notFound).toUpperCase()})`;
+        if (params.update) options += '.setUpdate(true)';
+        this.emit(`${page}.routeFromHAR(Paths.get(${quote(params.harPath)})${options ? `, new Page.RouteFromHAROptions()${options}` : ''});`);
+        break;
+      }
+      case 'playwright_remove_route': {
+        if (params.all) {
+          this.emit(`${page}.unrouteAll();`);
+          break;
+        }
+        const matcher = params.url ? quote(params.url) : this.trackedRoute(params.id);
+        this.emit(matcher ? `${page}.unroute(${matcher});` : `// Route '${params.id}' was not created in this recording`);
+        break;
+      }
+      case 'playwright_list_routes':
+        // Inspection only, nothing to emit
+        break;
+      default:
+        this.skipStep(action, `// Not generated: ${action.toolName} has no Java equivalent`);
+    }
+  }
+
+  /**
+   * URL matcher for a recorded route pattern
+   */
+  private routeMatcher(url: unknown, regex: unknown): string {
+    return regex ? `Pattern.compile(${quote(url)})` : quote(url);
+  }
+
+  /**
+   * Map literal for recorded headers
+   */
+  private mapLiteral(headers: Record<string, unknown>): string {
+    return `Map.ofEntries(${Object.entries(headers).map(([name, value]) => `Map.entry(${quote(name)}, ${quote(value)})`).join(', ')})`;
+  }
+
+  /**
+   * page.route lambda applying the recorded method filter, delay and action
+   */
+  private emitRoute(toolName: string, params: Record<string, any>, page: string): void {
+    const matcher = this.routeMatcher(params.url, params.regex);
+    this.trackRoute(params.id, matcher);
+
+    // RouteOptions.setTimes would also count requests passed on for another method, so count them here
+    const hits = params.method && params.times ? this.declare('routeHits') : undefined;
+
+    const body: string[] = [];
+    if (params.method) {
+      const condition = `!route.request().method().equals(${quote(String(params.method).toUpperCase())})${hits ? ` || ${hits}[0] >= ${params.times}` : ''}`;
+      body.push(`if (${condition}) {`, `    route.fallback();`, `    return;`, `}`);
+    }
+    if (hits) {
+      body.push(`${hits}[0]++;`);
+    }
+    if (params.delay) {
+      body.push(`${page}.waitForTimeout(${params.delay});`);
+    }
+
+    if (toolName === 'playwright_mock_route') {
+      let options = `.setStatus(${params.status ?? 200})`;
+      if (params.headers) options += `.setHeaders(${this.mapLiteral(params.headers)})`;
+      if (params.json !== undefined) {
+        options += `.setContentType(${quote(params.contentType ?? 'application/json')}).setBody(${quote(JSON.stringify(params.json))})`;
+      } else if (params.contentType) {
+        options += `.setContentType(${quote(params.contentType)})`;
+      }
+      if (params.body !== undefined) options += `.setBody(${quote(params.body)})`;
+      if (params.filePath) options += `.setPath(Paths.get(${quote(params.filePath)}))`;
+      body.push(`route.fulfill(new Route.FulfillOptions()${options});`);
+    } else if (toolName === 'playwright_abort_route') {
+      body.push(`route.abort(${quote(params.errorCode ?? 'failed')});`);
+    } else {
+      body.push(`Map<String, String> headers = new HashMap<>(route.request().headers());`);
+      if (params.requestHeaders) {
+        body.push(`headers.putAll(${this.mapLiteral(params.requestHeaders)});`);
+      }
+      for (const name of params.removeRequestHeaders || []) {
+        body.push(`headers.remove(${quote(String(name).toLowerCase())});`);
+      }
+      if (params.responseHeaders) {
+        body.push(
+          `APIResponse response = route.fetch(new Route.FetchOptions().setHeaders(headers));`,
+          `Map<String, String> responseHeaders = new HashMap<>(response.headers());`,
+          `responseHeaders.putAll(${this.mapLiteral(params.responseHeaders)});`,
+          `route.fulfill(new Route.FulfillOptions().setResponse(response).setHeaders(responseHeaders));`,
+        );
+      } else {
+        body.push(`route.resume(new Route.ResumeOptions().setHeaders(headers));`);
+      }
+    }
+
+    this.emit(
+      ...(hits ? [`int[] ${hits} = {0};`] : []),
+      `${page}.route(${matcher}, route -> {`,
+      ...body.map(line => `    ${line}`),
+      `}${params.times && !hits ? `, new Page.RouteOptions().setTimes(${params.times})` : ''});`,
+    );
+  }
+
+  private emitAssertion(toolName: string, params: Record<string, any>, locator: string): void {
+    const pattern = (source: string, ignoreCase = false) =>
+      `Pattern.compile(${quote(source)}${ignoreCase ? ', Pattern.CASE_INSENSITIVE' : ''})`;
+
+    switch (toolName) {
+      case 'playwright_assert_element_state': {
+        const [stem, negated] = ELEMENT_STATE_ASSERTIONS[params.state] ?? ELEMENT_STATE_ASSERTIONS.visible;
+        this.emit(`assertThat(${locator}).${negated ? 'not().' : ''}is${stem}();`);
+        break;
+      }
+      case 'playwright_assert_text_content': {
+        const expected = textExpectation(params);
+        const value = expected.isRegex ? pattern(expected.value, expected.ignoreCase) : quote(expected.value);
+        this.emit(`assertThat(${locator}).${expected.contains ? 'containsText' : 'hasText'}(${value});`);
+        break;
+      }
+      case 'playwright_assert_element_count': {
+        const operator = COUNT_OPERATORS[params.comparison];
+        this.emit(operator
+          ? `assertTrue(${locator}.count() ${operator} ${params.count});`
+          : `assertThat(${locator}).hasCount(${params.count});`);
+        break;
+      }
+      case 'playwright_assert_attribute': {
+        const matchType = params.matchType ?? 'exact';
+        const value = matchType === 'exact'
+          ? quote(params.expectedValue)
+          : pattern(matchType === 'contains' ? escapeRegExp(String(params.expectedValue)) : '.*');
+        this.emit(`assertThat(${locator}).${matchType === 'notExists' ? 'not().' : ''}hasAttribute(${quote(params.attribute)}, ${value});`);
+        break;
+      }
+      case 'playwright_assert_css_property':
+        this.emit(`assertThat(${locator}).hasCSS(${quote(params.property)}, ${quote(params.expectedValue)});`);
+        break;
+    }
+  }
+
+  private emitApiRequest(method: string, params: Record<string, any>, page: string): void {
+    let options = '';
+    if (params.value !== undefined && method !== 'get' && method !== 'delete') {
+      const data = typeof params.value === 'string' ? params.value : JSON.stringify(params.value);
+      options += `.setData(${quote(data)}).setHeader("Content-Type", "application/json")`;
+    }
+    if (params.token) {
+      options += `.setHeader("Authorization", ${quote(`Bearer ${params.token}`)})`;
+    }
+
+    const response = this.declare(`${method}Response`);
+    this.emit(
+      `APIResponse ${response} = ${page}.request().${method}(${quote(params.url)}${options ? `, RequestOptions.create()${options}` : ''});`,
+      `assertThat(${response}).isOK();`,
+    );
+  }
+
+  protected render(session: CodegenSession, body: string[], locators: Map<string, OptimizedLocator>): CodegenResult {
+    const prefix = pascalCase(this.options.testNamePrefix) || 'Generated';
+    const className = `${prefix}${this.shortSessionId(session)}Test`;
+    const date = new Date(session.startTime).toISOString().split('T')[0].replace(/-/g, '');
+    const methodName = `${prefix.charAt(0).toLowerCase()}${prefix.slice(1)}${date}`;
+    const indentedBody = body.map(line => line ? `        ${line}` : line);
+
+    const pomImport = this.isPom ? ['import pages.AppPage;', ''] : [];
+    const setup = this.isPom ? ['        AppPage app = new AppPage(page);'] : [];
+
+    const testCode = `import com.microsoft.playwright.*;
+import com.microsoft.playwright.options.*;
+import org.junit.jupiter.api.*;
+${pomImport.length ? '\n' + pomImport.join('\n') : ''}
+import java.nio.file.Paths;
+import java.util.HashMap;
+import java.util.Map;
+import java.util.regex.Pattern;
+
+import static com.microsoft.playwright.assertions.PlaywrightAssertions.assertThat;
+import static org.junit.jupiter.api.Assertions.assertTrue;
+
+public class ${className} {
+    static Playwright playwright;
+    static Browser browser;
+
+    BrowserContext context;
+    Page page;
+
+    @BeforeAll
+    static void launchBrowser() {
+        playwright = Playwright.create();
+        browser = playwright.chromium().launch();
+    }
+
+    @AfterAll
+    static void closeBrowser() {
+        playwright.close();
+    }
+
+    @BeforeEach
+    void createContextAndPage() {
+        context = browser.newContext();
+        page = context.newPage();
+    }
+
+    @AfterEach
+    void closeContext() {
+        context.close();
+    }
+
+    @Test
+    void ${methodName}() {
+${[...setup, ...indentedBody].join('\n')}
+    }
+}
+`;
+
+    return {
+      testCode,
+      filePath: path.resolve(this.options.outputPath, `${className}.java`),
+      sessionId: session.id,
+      files: this.isPom ? [this.generatePageObject(locators)] : undefined,
+    };
+  }
+
+  private generatePageObject(locators: Map<string, OptimizedLocator>): { path: string; content: string } {
+    const getters = Array.from(locators.entries()).map(([key, optimized]) => {
+      const comment = optimized.original !== optimized.value
+        ? `    // Optimized from: ${optimized.original}\n`
+        : '';
+      return `${comment}    public Locator ${key}() {
+        return ${locatorExpression(optimized, 'page')};
+    }`;
+    });
+
+    const content = `package pages;
+
+import com.microsoft.playwright.Locator;
+import com.microsoft.playwright.Page;
+import com.microsoft.playwright.options.*;
+
+import java.nio.file.Paths;
+
+public class AppPage {
+    private final Page page;
+
+    public AppPage(Page page) {
+        this.page = page;
+    }
+
+    public Page page() {
+        return page;
+    }
+
+    // Locators using Playwright best practices
+    // Priority: data-testid > role > label > placeholder > text > CSS > XPath
+${getters.join('\n\n')}
+
+    // Page interaction methods
+    public void navigate(String url) {
+        page.navigate(url);
+    }
+
+    public void clickElement(Locator locator) {
+        locator.click(new Locator.ClickOptions().setTimeout(10000));
+    }
+
+    public void fillElement(Locator locator, String value) {
+        locator.fill(value);
+    }
+
+    public void expectVisible(Locator locator) {
+        locator.waitFor(new Locator.WaitForOptions().setState(WaitForSelectorState.VISIBLE).setTimeout(10000));
+    }
+
+    public void hoverElement(Locator locator) {
+        locator.hover(new Locator.HoverOptions().setTimeout(10000));
+    }
+
+    public void selectOption(Locator locator, String value) {
+        locator.selectOption(value);
+    }
+
+    public void uploadFile(Locator locator, String filePath) {
+        locator.setInputFiles(Paths.get(filePath));
+    }
+}
+`;
+
+    return { path: path.resolve(this.options.outputPath, 'pages', 'AppPage.java'), content };
+  }
+}
@@ -0,0 +1,466 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+/**
+ * Python Emitter - Generates pytest-playwright tests (sync API)
+ */
+
+import * as path from 'path';
+import { CodegenAction, CodegenResult, CodegenSession } from './types.js';
+import { OptimizedLocator } from '../../utils/locatorOptimizer.js';
+import { CodeEmitter, quote, snakeCase, escapeRegExp, textExpectation, ELEMENT_STATE_ASSERTIONS, COUNT_OPERATORS } from './emitterBase.js';
+
+const PYTHON_LOCATOR_METHODS: Record<OptimizedLocator['method'], string> = {
+  getByTestId: 'get_by_test_id',
+  getByRole: 'get_by_role',
+  getByLabel: 'get_by_label',
+  getByPlaceholder: 'get_by_placeholder',
+  getByText: 'get_by_text',
+  locator: 'locator',
+};
+
+export class PythonEmitter extends CodeEmitter {
+  private nextHandlerNumber = 1;
+
+  protected emptyBlockBody(): string[] {
+    return ['pass'];
+  }
+
+  protected locatorMemberName(camelName: string): string {
+    return snakeCase(camelName);
+  }
+
+  protected emitAction(action: CodegenAction): void {
+    const params = action.parameters as Record<string, any>;
+    const page = this.isPom ? 'app.page' : 'page';
+    const usePom = this.isPom && typeof params.selector === 'string';
+
+    switch (action.toolName) {
+      case 'playwright_navigate':
+        if (this.isPom) {
+          this.emit(`app.goto(${quote(params.url)})`);
+        } else {
+          this.emit(`page.goto(${quote(params.url)}${params.waitUntil ? `, wait_until=${quote(params.waitUntil)}` : ''})`);
+        }
+        break;
+      case 'playwright_fill':
+        this.emit(usePom
+          ? `app.fill_element(app.${this.locatorName(params.selector)}, ${quote(params.value)})`
+          : `page.fill(${quote(params.selector)}, ${quote(params.value)})`);
+        break;
+      case 'playwright_click':
+        this.emit(usePom
+          ? `app.click_element(app.${this.locatorName(params.selector)})`
+          : `page.click(${quote(params.selector)})`);
+        break;
+      case 'playwright_hover':
+        this.emit(usePom
+          ? `app.hover_element(app.${this.locatorName(params.selector)})`
+          : `page.hover(${quote(params.selector)})`);
+        break;
+      case 'playwright_select':
+        this.emit(usePom
+          ? `app.select_option(app.${this.locatorName(params.selector)}, ${quote(params.value)})`
+          : `page.select_option(${quote(params.selector)}, ${quote(params.value)})`);
+        break;
+      case 'playwright_upload_file':
+        this.emit(usePom
+          ? `app.upload_file(app.${this.locatorName(params.selector)}, ${quote(params.filePath)})`
+          : `page.set_input_files(${quote(params.selector)}, ${quote(params.filePath)})`);
+        break;
+      case 'playwright_press_key':
+        if (params.selector) {
+          this.emit(usePom
+            ? `app.${this.locatorName(params.selector)}.press(${quote(params.key)})`
+            : `${page}.press(${quote(params.selector)}, ${quote(params.key)})`);
+        } else {
+          this.emit(`${page}.keyboard.press(${quote(params.key)})`);
+        }
+        break;
+      case 'playwright_screenshot':
+        this.emit(`${page}.screenshot(path=${quote(params.path || `${params.name || 'screenshot'}.png`)}${params.fullPage ? ', full_page=True' : ''})`);
+        break;
+      case 'playwright_expect_response': {
+        const id = snakeCase(String(params.id));
+        this.openBlock(`response:${params.id}`,
+          [`with ${page}.expect_response(${quote(params.url)}) as ${id}_info:`],
+          [`${id}_response = ${id}_info.value`]);
+        break;
+      }
+      case 'playwright_assert_response': {
+        const id = snakeCase(String(params.id));
+        this.closeBlock(`response:${params.id}`);
+        this.emit(params.value
+          ? `assert ${quote(params.value)} in ${id}_response.text()`
+          : `assert ${id}_response.ok`);
+        break;
+      }
+      case 'playwright_custom_user_agent':
+        this.emit(`${page}.set_extra_http_headers({"User-Agent": ${quote(params.userAgent)}})`);
+        break;
+      case 'playwright_drag':
+        this.emit(`${page}.drag_and_drop(${quote(params.sourceSelector)}, ${quote(params.targetSelector)})`);
+        break;
+      case 'playwright_evaluate':
+        this.emit(`result = ${page}.evaluate(${quote(params.script)})`);
+        break;
+      case 'playwright_go_back':
+        this.emit(`${page}.go_back()`);
+        break;
+      case 'playwright_go_forward':
+        this.emit(`${page}.go_forward()`);
+        break;
+      case 'playwright_iframe_click':
+        this.emit(`${page}.frame_locator(${quote(params.iframeSelector)}).locator(${quote(params.selector)}).click()`);
+        break;
+      case 'playwright_iframe_fill':
+        this.emit(`${page}.frame_locator(${quote(params.iframeSelector)}).locator(${quote(params.selector)}).fill(${quote(params.value)})`);
+        break;
+      case 'playwright_get_visible_text':
+        this.emit(`visible_text = ${page}.inner_text("body")`);
+        break;
+      case 'playwright_get_visible_html':
+        this.emit(params.selector
+          ? `html_content = ${page}.locator(${quote(params.selector)}).inner_html()`
+          : `html_content = ${page}.content()`);
+        break;
+      case 'playwright_click_and_switch_tab':
+        this.emit(
+          `with ${page}.context.expect_page() as new_page_info:`,
+          `    ${page}.click(${quote(params.selector)})`,
+          `new_page = new_page_info.value`,
+          `new_page.wait_for_load_state("domcontentloaded")`,
+          `# Note: You may need to use new_page for the following steps`,
+        );
+        break;
+      case 'playwright_console_logs':
+        this.emit(`${page}.on("console", lambda msg: print("Browser console:", msg.text))`);
+        break;
+      case 'playwright_save_as_pdf': {
+        const pdfPath = path.posix.join(params.outputPath || '.', params.filename || 'page.pdf');
+        const options = [`path=${quote(pdfPath)}`];
+        if (params.format) options.push(`format=${quote(params.format)}`);
+        if (params.printBackground) options.push('print_background=True');
+        this.emit(`${page}.pdf(${options.join(', ')})`);
+        break;
+      }
+      case 'playwright_get':
+      case 'playwright_post':
+      case 'playwright_put':
+      case 'playwright_patch':
+      case 'playwright_delete':
+        this.emitApiRequest(action.toolName.replace('playwright_', ''), params, page);
+        break;
+      case 'playwright_download_file':
+        this.emit(
+          `with ${page}.expect_download(${params.timeout ? `timeout=${params.timeout}` : ''}) as download_info:`,
+          `    ${page}.click(${quote(params.triggerSelector)})`,
+          `download = download_info.value`,
+          params.savePath
+            ? `download.save_as(${quote(params.savePath)})`
+            : `download.save_as("downloads/" + download.suggested_filename)`,
+        );
+        break;
+      case 'playwright_copy_to_clipboard':
+        this.emit(`${page}.evaluate("text => navigator.clipboard.writeText(text)", ${quote(params.text)})`);
+        break;
+      case 'playwright_read_clipboard':
+        this.emit(`clipboard_text = ${page}.evaluate("() => navigator.clipboard.readText()")`);
+        break;
+      case 'playwright_handle_dialog':
+        this.emit(`${page}.once("dialog", lambda dialog: dialog.${params.action === 'dismiss' ? 'dismiss()' : `accept(${params.promptText ? quote(params.promptText) : ''})`})`);
+        break;
+      case 'playwright_expect_dialog':
+        this.emit(
+          `def handle_dialog(dialog):`,
+          `    assert ${quote(params.expectedMessage)} in dialog.message`,
+          `    dialog.${params.action === 'dismiss' ? 'dismiss()' : `accept(${params.promptText ? quote(params.promptText) : ''})`}`,
+          `${page}.once("dialog", handle_dialog)`,
+        );
+        break;
+      case 'playwright_drag_to_position':
+        this.emit(
+          `box = ${page}.locator(${quote(params.sourceSelector)}).bounding_box()`,
+          `${page}.mouse.move(box["x"] + box["width"] / 2, box["y"] + box["height"] / 2)`,
+          `${page}.mouse.down()`,
+          `${page}.mouse.move(${params.targetX}, ${params.targetY}, steps=${params.steps ?? 10})`,
+          `${page}.mouse.up()`,
+        );
+        break;
+      case 'playwright_get_element_position':
+        this.emit(`element_box = ${page}.locator(${quote(params.selector)}).bounding_box()`);
+        break;
+      case 'playwright_create_baseline':
+        this.emit(params.selector
+          ? `${page}.locator(${quote(params.selector)}).screenshot(path=${quote(params.outputPath ?? `${params.testName}.png`)})`
+          : `${page}.screenshot(path=${quote(params.outputPath ?? `${params.testName}.png`)}${params.fullPage ? ', full_page=True' : ''})`);
+        break;
+      case 'playwright_visual_compare':
+        this.emit(
+          `${page}.screenshot(path="current-screenshot.png"${params.fullPage ? ', full_page=True' : ''})`,
+          `# Compare with baseline: ${params.baseline ?? params.testName} (threshold: ${params.threshold ?? 0.1})`,
+        );
+        break;
+      case 'playwright_emulate_device':
+        this.emit(`# Emulate device: ${params.device} (run pytest with --device ${quote(params.device)})`);
+        break;
+      case 'playwright_assert_element_state':
+      case 'playwright_assert_text_content':
+      case 'playwright_assert_element_count':
+      case 'playwright_assert_attribute':
+      case 'playwright_assert_css_property':
+        this.emitAssertion(action.toolName, params, usePom ? `app.${this.locatorName(params.selector)}` : `${page}.locator(${quote(params.selector)})`);
+        break;
+      case 'playwright_wait_url':
+        this.emit(`${page}.wait_for_url(${params.regex ? `re.compile(${quote(params.urlPattern)})` : quote(params.urlPattern)}${params.timeout ? `, timeout=${params.timeout}` : ''})`);
+        break;
+      case 'playwright_mock_route':
+      case 'playwright_abort_route':
+      case 'playwright_modify_route':
+        this.emitRoute(action.toolName, params, page);
+        break;
+      case 'playwright_route_from_har': {
+        const matcher = params.url ? this.routeMatcher(params.url, params.regex) : undefined;
+        this.trackRoute(params.id, matcher ?? quote('**/*'));
+        const options = [quote(params.harPath)];
+        if (matcher) options.push(`url=${matcher}`);
+        if (params.notFound) options.push(`not_found=${quote(params.notFound)}`);
+        if (params.update) options.push('update=True');
+        this.emit(`${page}.route_from_har(${options.join(', ')})`);
+        break;
+      }
+      case 'playwright_remove_route': {
+        if (params.all) {
+          this.emit(`${page}.unroute_all(behavior="ignoreErrors")`);
+          break;
+        }
+        const matcher = params.url ? quote(params.url) : this.trackedRoute(params.id);
+        this.emit(matcher ? `${page}.unroute(${matcher})` : `# Route '${params.id}' was not created in this recording`);
+        break;
+      }
+      case 'playwright_list_routes':
+        // Inspection only, nothing to emit
+        break;
+      default:
+        this.skipStep(action, `# Not generated: ${action.toolName} has no Python equivalent`);
+    }
+  }
+
+  /**
+   * URL matcher for a recorded route pattern
+   */
+  private routeMatcher(url: unknown, regex: unknown): string {
+    return regex ? `re.compile(${quote(url)})` : quote(url);
+  }
+
+  /**
+   * Route handler function applying the recorded method filter, delay and action, registered with page.route
+   */
+  private emitRoute(toolName: string, params: Record<string, any>, page: string): void {
+    const matcher = this.routeMatcher(params.url, params.regex);
+    this.trackRoute(params.id, matcher);
+    const number = this.nextHandlerNumber++;
+    const handler = `handle_route_${number}`;
+    // page.route's times would also count requests passed on for another method, so count them here
+    const hits = params.method && params.times ? `route_hits_${number}` : undefined;
+
+    const body: string[] = [];
+    if (params.method) {
+      const condition = `route.request.method != ${quote(String(params.method).toUpperCase())}${hits ? ` or ${hits}[0] >= ${params.times}` : ''}`;
+      body.push(`if ${condition}:`, `    route.fallback()`, `    return`);
+    }
+    if (hits) {
+      body.push(`${hits}[0] += 1`);
+    }
+    if (params.delay) {
+      body.push(`${page}.wait_for_timeout(${params.delay})`);
+    }
+
+    if (toolName === 'playwright_mock_route') {
+      const options = [`status=${params.status ?? 200}`];
+      if (params.headers) options.push(`headers=${JSON.stringify(params.headers)}`);
+      if (params.json !== undefined) {
+        options.push(`content_type=${quote(params.contentType ?? 'application/json')}`, `body=${quote(JSON.stringify(params.json))}`);
+      } else if (params.contentType) {
+        options.push(`content_type=${quote(params.contentType)}`);
+      }
+      if (params.body !== undefined) options.push(`body=${quote(params.body)}`);
+      if (params.filePath) options.push(`path=${quote(params.filePath)}`);
+      body.push(`route.fulfill(${options.join(', ')})`);
+    } else if (toolName === 'playwright_abort_route') {
+      body.push(`route.abort(${quote(params.errorCode ?? 'failed')})`);
+    } else {
+      body.push(`headers = {**route.request.headers${params.requestHeaders ? `, **${JSON.stringify(params.requestHeaders)}` : ''}}`);
+      for (const name of params.removeRequestHeaders || []) {
+        body.push(`headers.pop(${quote(String(name).toLowerCase())}, None)`);
+      }
+      if (params.responseHeaders) {
+        body.push(
+          `response = route.fetch(headers=headers)`,
+          `route.fulfill(response=response, headers={**response.headers, **${JSON.stringify(params.responseHeaders)}})`,
+        );
+      } else {
+        body.push(`route.continue_(headers=headers)`);
+      }
+    }
+
+    this.emit(
+      ...(hits ? [`${hits} = [0]`] : []),
+      `def ${handler}(route):`,
+      ...body.map(line => `    ${line}`),
+      `${page}.route(${matcher}, ${handler}${params.times && !hits ? `, times=${params.times}` : ''})`,
+    );
+  }
+
+  private emitAssertion(toolName: string, params: Record<string, any>, locator: string): void {
+    const timeout = params.timeout ? `, timeout=${params.timeout}` : '';
+    const pattern = (source: string, ignoreCase = false) =>
+      `re.compile(${quote(source)}${ignoreCase ? ', re.IGNORECASE' : ''})`;
+
+    switch (toolName) {
+      case 'playwright_assert_element_state': {
+        const [stem, negated] = ELEMENT_STATE_ASSERTIONS[params.state] ?? ELEMENT_STATE_ASSERTIONS.visible;
+        this.emit(`expect(${locator}).${negated ? 'not_' : ''}to_be_${stem.toLowerCase()}(${timeout.slice(2)})`);
+        break;
+      }
+      case 'playwright_assert_text_content': {
+        const expected = textExpectation(params);
+        const value = expected.isRegex ? pattern(expected.value, expected.ignoreCase) : quote(expected.value);
+        this.emit(`expect(${locator}).${expected.contains ? 'to_contain_text' : 'to_have_text'}(${value}${timeout})`);
+        break;
+      }
+      case 'playwright_assert_element_count': {
+        const operator = COUNT_OPERATORS[params.comparison];
+        this.emit(operator
+          ? `assert ${locator}.count() ${operator} ${params.count}`
+          : `expect(${locator}).to_have_count(${params.count}${timeout})`);
+        break;
+      }
+      case 'playwright_assert_attribute': {
+        const matchType = params.matchType ?? 'exact';
+        const value = matchType === 'exact'
+          ? quote(params.expectedValue)
+          : pattern(matchType === 'contains' ? escapeRegExp(String(params.expectedValue)) : '.*');
+        this.emit(`expect(${locator}).${matchType === 'notExists' ? 'not_' : ''}to_have_attribute(${quote(params.attribute)}, ${value}${timeout})`);
+        break;
+      }
+      case 'playwright_assert_css_property':
+        this.emit(`expect(${locator}).to_have_css(${quote(params.property)}, ${quote(params.expectedValue)}${timeout})`);
+        break;
+    }
+  }
+
+  private emitApiRequest(method: string, params: Record<string, any>, page: string): void {
+    const args = [quote(params.url)];
+    if (params.value !== undefined && method !== 'get' && method !== 'delete') {
+      const data = typeof params.value === 'string' ? params.value : JSON.stringify(params.value);
+      args.push(`data=${quote(data)}`);
+    }
+    const headers: string[] = [];
+    if (args.length > 1) headers.push(`"Content-Type": "application/json"`);
+    if (params.token) headers.push(`"Authorization": ${quote(`Bearer ${params.token}`)}`);
+    if (headers.length > 0) args.push(`headers={${headers.join(', ')}}`);
+
+    this.emit(
+      `${method}_response = ${page}.request.${method}(${args.join(', ')})`,
+      `expect(${method}_response).to_be_ok()`,
+    );
+  }
+
+  protected render(session: CodegenSession, body: string[], locators: Map<string, OptimizedLocator>): CodegenResult {
+    const prefix = snakeCase(this.options.testNamePrefix).replace(/[^a-z0-9_]/g, '_');
+    const date = new Date(session.startTime).toISOString().split('T')[0].replace(/-/g, '_');
+    const testName = `test_${prefix}_${date}`;
+    const indentedBody = (body.length > 0 ? body : ['pass']).map(line => line ? `    ${line}` : line);
+
+    const imports = ['from playwright.sync_api import Page, expect'];
+    if (body.some(line => line.includes('re.compile('))) {
+      imports.unshift('import re', '');
+    }
+    if (this.isPom) {
+      imports.push('', 'from pages.app_page import AppPage');
+    }
+
+    const setup = this.isPom ? ['    app = AppPage(page)'] : [];
+    const testCode = [
+      ...imports,
+      '',
+      '',
+      `def ${testName}(page: Page) -> None:`,
+      ...setup,
+      ...indentedBody,
+      '',
+    ].join('\n');
+
+    const fileName = `test_${prefix}_${this.shortSessionId(session)}.py`;
+    const files = this.isPom
+      ? [this.generatePageObject(locators), this.generatePytestConfig()]
+      : undefined;
+
+    return {
+      testCode,
+      filePath: path.resolve(this.options.outputPath, fileName),
+      sessionId: session.id,
+      files,
+    };
+  }
+
+  private generatePageObject(locators: Map<string, OptimizedLocator>): { path: string; content: string } {
+    const getters = Array.from(locators.entries()).map(([key, optimized]) => {
+      const comment = optimized.original !== optimized.value
+        ? [`        # Optimized from: ${optimized.original}`]
+        : [];
+      return [
+        `    @property`,
+        `    def ${this.locatorMemberName(key)}(self) -> Locator:`,
+        ...comment,
+        `        return self.page.${PYTHON_LOCATOR_METHODS[optimized.method]}(${quote(optimized.value)})`,
+      ].join('\n');
+    });
+
+    const content = `from playwright.sync_api import Locator, Page
+
+
+class AppPage:
+    def __init__(self, page: Page) -> None:
+        self.page = page
+
+    # Locators using Playwright best practices
+    # Priority: data-testid > role > label > placeholder > text > CSS > XPath
+${getters.join('\n\n')}
+
+    # Page interaction methods
+    def goto(self, url: str) -> None:
+        self.page.goto(url)
+
+    def click_element(self, locator: Locator) -> None:
+        locator.click(timeout=10000)
+
+    def fill_element(self, locator: Locator, value: str) -> None:
+        locator.fill(value)
+
+    def expect_visible(self, locator: Locator) -> None:
+        locator.wait_for(state="visible", timeout=10000)
+
+    def hover_element(self, locator: Locator) -> None:
+        locator.hover(timeout=10000)
+
+    def select_option(self, locator: Locator, value: str) -> None:
+        locator.select_option(value)
+
+    def upload_file(self, locator: Locator, file_path: str) -> None:
+        locator.set_input_files(file_path)
+`;
+
+    return { path: path.resolve(this.options.outputPath, 'pages', 'app_page.py'), content };
+  }
+
+  private generatePytestConfig(): { path: string; content: string } {
+    const content = `[pytest]
+addopts = --screenshot only-on-failure --video retain-on-failure --tracing retain-on-failure
+`;
+    return { path: path.resolve(this.options.outputPath, 'pytest.ini'), content };
+  }
+}
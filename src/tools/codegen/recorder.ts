@@ -4,7 +4,7 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import { CodegenAction, CodegenSession } from './types';
+import { CodegenAction, CodegenOptions, CodegenSession } from './types';
 
 export class ActionRecorder {
   private static instance: ActionRecorder;
@@ -34,6 +34,24 @@ export class ActionRecorder {
     return sessionId;
   }
 
+  /**
+   * Create a session pre-filled with actions (e.g. imported from a spec file).
+   * When activated, further tool calls are appended to it.
+   */
+  importSession(actions: CodegenAction[], options?: CodegenOptions, activate: boolean = true): string {
+    const sessionId = uuidv4();
+    this.sessions.set(sessionId, {
+      id: sessionId,
+      actions: [...actions],
+      startTime: Date.now(),
+      options,
+    });
+    if (activate) {
+      this.activeSession = sessionId;
+    }
+    return sessionId;
+  }
+
   endSession(sessionId: string): CodegenSession | null {
     const session = this.sessions.get(sessionId);
     if (session) {
@@ -66,6 +84,21 @@ export class ActionRecorder {
     session.actions.push(action);
   }
 
+  /**
+   * Point the latest recorded call of a tool at a healed selector, so generated tests use it
+   * @returns Whether a recorded action was updated
+   */
+  replaceSelector(toolName: string, selector: string, healedSelector: string): boolean {
+    const session = this.getActiveSession();
+    const action = session?.actions.slice().reverse()
+      .find(item => item.toolName === toolName && item.parameters.selector === selector);
+    if (!action) {
+      return false;
+    }
+    action.parameters = { ...action.parameters, selector: healedSelector };
+    return true;
+  }
+
   getSession(sessionId: string): CodegenSession | null {
     return this.sessions.get(sessionId) || null;
   }
@@ -0,0 +1,240 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+/**
+ * Codegen Replay - Re-runs recorded codegen actions through the regular tool handlers
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { CallToolResult, TextContent } from '@modelcontextprotocol/sdk/types.js';
+import { ToolContext, ToolResponse, ToolHandler, createSuccessResponse, createErrorResponse } from '../common/types.js';
+import { ActionRecorder } from './recorder.js';
+import { CodegenAction } from './types.js';
+import { handleToolCall, ensureBrowser } from '../../toolHandler.js';
+import { sessionManager, BrowserSettings } from '../../sessionManager.js';
+import type { ToolErrorDetails } from '../common/errorResponse.js';
+
+export interface ReplayStepResult {
+  step: number;
+  toolName: string;
+  parameters: Record<string, unknown>;
+  passed: boolean;
+  durationMs: number;
+  output: string;
+  screenshot?: string;
+}
+
+interface ReplayState {
+  codegenSessionId: string;
+  browserSessionId?: string;
+  ownsBrowserSession: boolean;
+  keepSession: boolean;
+  actions: CodegenAction[];
+  nextStep: number;
+  results: ReplayStepResult[];
+}
+
+// Replays in step mode, keyed by codegen session ID
+const activeReplays = new Map<string, ReplayState>();
+
+function describeResult(result: CallToolResult): string {
+  return result.content
+    .filter((item): item is TextContent => item.type === 'text')
+    .map(item => item.text)
+    .join('\n');
+}
+
+/**
+ * Tool for replaying a recorded codegen session against a live browser
+ */
+export class ReplayCodegenSessionTool implements ToolHandler {
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const {
+      sessionId,
+      stepMode = false,
+      reset = false,
+    } = args;
+
+    try {
+      const recording = ActionRecorder.getInstance().getSession(sessionId);
+      if (!recording) {
+        return createErrorResponse(`Codegen session ${sessionId} not found`);
+      }
+
+      let state = activeReplays.get(sessionId);
+      if (state && reset) {
+        await this.finish(state);
+        state = undefined;
+      }
+
+      if (!state) {
+        state = await this.startReplay(sessionId, recording.actions, args, context);
+      }
+
+      if (state.actions.length === 0) {
+        await this.finish(state);
+        return createErrorResponse(`Codegen session ${sessionId} has no recorded actions to replay`);
+      }
+
+      const stopOnFailure = args.stopOnFailure ?? true;
+      const screenshotOnFailure = args.screenshotOnFailure ?? true;
+
+      while (state.nextStep < state.actions.length) {
+        const result = await this.runStep(state, context, screenshotOnFailure);
+        state.results.push(result);
+        state.nextStep++;
+
+        if (stepMode || (!result.passed && stopOnFailure)) {
+          break;
+        }
+      }
+
+      const lastResult = state.results[state.results.length - 1];
+      const stoppedOnFailure = !lastResult.passed && stopOnFailure;
+      const done = state.nextStep >= state.actions.length || stoppedOnFailure;
+
+      if (stepMode && !done) {
+        activeReplays.set(sessionId, state);
+      } else {
+        await this.finish(state);
+      }
+
+      const report = this.formatReport(state, done, stoppedOnFailure);
+      const failed = state.results.some(step => !step.passed);
+      const structured = {
+        passed: !failed,
+        done,
+        stoppedOnFailure,
+        totalSteps: state.actions.length,
+        steps: state.results,
+      };
+      return failed ? createErrorResponse(report.join('\n'), structured) : createSuccessResponse(report, structured);
+
+    } catch (error) {
+      return createErrorResponse(`Failed to replay codegen session: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Prepare the replay state and, if requested, a dedicated browser session
+   */
+  private async startReplay(codegenSessionId: string, actions: CodegenAction[], args: any, context: ToolContext): Promise<ReplayState> {
+    const freshSession = args.freshSession || !!args.browserType;
+    const state: ReplayState = {
+      codegenSessionId,
+      browserSessionId: args.browserSessionId,
+      ownsBrowserSession: false,
+      keepSession: args.keepSession ?? false,
+      // Copy so actions recorded meanwhile don't change the replay
+      actions: [...actions],
+      nextStep: 0,
+      results: [],
+    };
+
+    if (freshSession) {
+      const settings: BrowserSettings = {
+        browserType: args.browserType || 'chromium',
+        headless: args.headless ?? false,
+        viewport: { width: 1280, height: 720 },
+      };
+      state.browserSessionId = `replay-${uuidv4().slice(0, 8)}`;
+      state.ownsBrowserSession = true;
+      await ensureBrowser(state.browserSessionId, settings, context.admission);
+    }
+
+    return state;
+  }
+
+  /**
+   * Run a single recorded action through the registered tool handler
+   */
+  private async runStep(state: ReplayState, context: ToolContext, screenshotOnFailure: boolean): Promise<ReplayStepResult> {
+    const action = state.actions[state.nextStep];
+    const parameters = { ...action.parameters };
+    if (state.browserSessionId) {
+      parameters.sessionId = state.browserSessionId;
+    }
+
+    const startedAt = Date.now();
+    let passed: boolean;
+    let output: string;
+    let failure: ToolErrorDetails | undefined;
+    try {
+      const result = await handleToolCall(action.toolName, parameters, context.server, { record: false, admission: context.admission });
+      passed = !result.isError;
+      output = describeResult(result);
+      failure = result._meta?.error as ToolErrorDetails | undefined;
+    } catch (error) {
+      passed = false;
+      output = (error as Error).message;
+    }
+
+    const stepResult: ReplayStepResult = {
+      step: state.nextStep + 1,
+      toolName: action.toolName,
+      parameters: action.parameters,
+      passed,
+      durationMs: Date.now() - startedAt,
+      output,
+    };
+
+    // The failed call already captured the page as a failure:// resource
+    if (!passed && screenshotOnFailure && failure?.screenshot) {
+      stepResult.screenshot = failure.screenshot;
+    }
+
+    return stepResult;
+  }
+
+  /**
+   * Forget the replay and close its dedicated browser session unless asked to keep it
+   */
+  private async finish(state: ReplayState): Promise<void> {
+    activeReplays.delete(state.codegenSessionId);
+    if (state.ownsBrowserSession && !state.keepSession && sessionManager.hasSession(state.browserSessionId)) {
+      await sessionManager.closeSession(state.browserSessionId).catch(() => {});
+    }
+  }
+
+  private formatReport(state: ReplayState, done: boolean, stoppedOnFailure: boolean): string[] {
+    const passed = state.results.filter(step => step.passed).length;
+    const failed = state.results.length - passed;
+    const totalMs = state.results.reduce((sum, step) => sum + step.durationMs, 0);
+
+    const report = [
+      `=== Replay of codegen session ${state.codegenSessionId} ===`,
+      `Browser session: ${state.browserSessionId ?? sessionManager.getActiveSessionId()}${state.ownsBrowserSession ? ' (fresh)' : ''}`,
+      '',
+      ...state.results.map(step => {
+        const lines = [
+          `${step.passed ? '✓' : '✗'} Step ${step.step}/${state.actions.length}: ${step.toolName} (${step.durationMs}ms)`,
+        ];
+        if (!step.passed) {
+          lines.push(`    Error: ${step.output}`);
+        }
+        if (step.screenshot) {
+          lines.push(`    Screenshot: ${step.screenshot}`);
+        }
+        return lines.join('\n');
+      }),
+      '',
+      `=== Summary ===`,
+      `Executed: ${state.results.length}/${state.actions.length}`,
+      `Passed: ${passed}`,
+      `Failed: ${failed}`,
+      `Duration: ${totalMs}ms`,
+    ];
+
+    if (stoppedOnFailure && state.nextStep < state.actions.length) {
+      report.push(`Stopped on first failure; ${state.actions.length - state.nextStep} step(s) not run`);
+    } else if (!done) {
+      report.push(`Step mode: call again with the same sessionId to run step ${state.nextStep + 1}`);
+    } else if (state.ownsBrowserSession && state.keepSession) {
+      report.push(`Browser session ${state.browserSessionId} kept open`);
+    }
+
+    return report;
+  }
+}
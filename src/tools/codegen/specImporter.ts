@@ -0,0 +1,762 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+/**
+ * Spec Importer - Parses hand-written Playwright spec files back into codegen actions
+ * Uses a lightweight scanner (no TypeScript compiler at runtime) that understands the
+ * statement shapes PlaywrightGenerator emits plus common locator/expect/request calls.
+ */
+
+import { CodegenAction } from './types.js';
+
+export interface SkippedStatement {
+  line: number;
+  statement: string;
+  reason: string;
+}
+
+export interface SpecImportResult {
+  /** Names of all test() blocks found in the file */
+  tests: string[];
+  /** Name of the test that was imported */
+  testName: string;
+  actions: CodegenAction[];
+  skipped: SkippedStatement[];
+}
+
+interface ChainSegment {
+  name: string;
+  args?: string[];
+}
+
+interface Statement {
+  text: string;
+  offset: number;
+}
+
+const API_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+const LOCATOR_ACTIONS: Record<string, string> = {
+  click: 'playwright_click',
+  fill: 'playwright_fill',
+  hover: 'playwright_hover',
+  selectOption: 'playwright_select',
+  press: 'playwright_press_key',
+  setInputFiles: 'playwright_upload_file',
+};
+
+// Element state matchers, keyed by matcher name, as [state, negated state]
+const STATE_MATCHERS: Record<string, [string, string]> = {
+  toBeVisible: ['visible', 'hidden'],
+  toBeHidden: ['hidden', 'visible'],
+  toBeEnabled: ['enabled', 'disabled'],
+  toBeDisabled: ['disabled', 'enabled'],
+  toBeEditable: ['editable', 'readonly'],
+  toBeChecked: ['checked', 'unchecked'],
+};
+
+/**
+ * Returns the index just past a string literal or comment starting at i, or -1
+ */
+function skipLiteral(src: string, i: number): number {
+  const ch = src[i];
+  if (ch === '/' && src[i + 1] === '/') {
+    const end = src.indexOf('\n', i);
+    return end === -1 ? src.length : end;
+  }
+  if (ch === '/' && src[i + 1] === '*') {
+    const end = src.indexOf('*/', i + 2);
+    return end === -1 ? src.length : end + 2;
+  }
+  if (ch === '\'' || ch === '"' || ch === '`') {
+    let j = i + 1;
+    while (j < src.length && src[j] !== ch) {
+      j += src[j] === '\\' ? 2 : 1;
+    }
+    return j + 1;
+  }
+  return -1;
+}
+
+/**
+ * Index of the bracket closing the one at `open`, or -1
+ */
+function findClosing(src: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < src.length; i++) {
+    const skipped = skipLiteral(src, i);
+    if (skipped !== -1) {
+      i = skipped - 1;
+      continue;
+    }
+    const ch = src[i];
+    if (ch === '(' || ch === '{' || ch === '[') depth++;
+    if (ch === ')' || ch === '}' || ch === ']') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Splits a block body into top-level statements (semicolon or newline terminated)
+ */
+function splitStatements(body: string, baseOffset: number): Statement[] {
+  const statements: Statement[] = [];
+  let depth = 0;
+  let start = 0;
+  let current = '';
+
+  const flush = (end: number) => {
+    const text = current.trim();
+    if (text) {
+      statements.push({ text, offset: baseOffset + start + (current.length - current.trimStart().length) });
+    }
+    current = '';
+    start = end + 1;
+  };
+
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+
+    // Comments are dropped, strings are kept verbatim
+    if (ch === '/' && (body[i + 1] === '/' || body[i + 1] === '*')) {
+      const end = skipLiteral(body, i);
+      if (!current.trim()) start = end;
+      i = end - 1;
+      continue;
+    }
+    const skipped = skipLiteral(body, i);
+    if (skipped !== -1) {
+      current += body.slice(i, skipped);
+      i = skipped - 1;
+      continue;
+    }
+
+    if (ch === '(' || ch === '{' || ch === '[') depth++;
+    if (ch === ')' || ch === '}' || ch === ']') depth--;
+
+    if (depth === 0 && ch === ';') {
+      flush(i);
+      continue;
+    }
+    if (depth === 0 && ch === '\n') {
+      const rest = body.slice(i + 1).trimStart();
+      const continues = rest.startsWith('.') || /[,(=+\-*&|?:]$/.test(current.trimEnd());
+      if (!continues) {
+        flush(i);
+        continue;
+      }
+    }
+    current += ch;
+  }
+  flush(body.length);
+
+  return statements;
+}
+
+/**
+ * Splits call arguments at top-level commas
+ */
+function splitArgs(raw: string): string[] {
+  const args: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (let i = 0; i < raw.length; i++) {
+    const skipped = skipLiteral(raw, i);
+    if (skipped !== -1) {
+      current += raw.slice(i, skipped);
+      i = skipped - 1;
+      continue;
+    }
+    const ch = raw[i];
+    if (ch === '(' || ch === '{' || ch === '[') depth++;
+    if (ch === ')' || ch === '}' || ch === ']') depth--;
+    if (ch === ',' && depth === 0) {
+      args.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+  if (current.trim()) args.push(current.trim());
+  return args;
+}
+
+/**
+ * Parses `a.b(args).c` into call segments, or null if the expression is not a plain call chain
+ */
+function parseChain(expr: string): ChainSegment[] | null {
+  const segments: ChainSegment[] = [];
+  let i = 0;
+
+  while (i < expr.length) {
+    const ident = /^[A-Za-z_$][\w$]*/.exec(expr.slice(i));
+    if (!ident) return null;
+    const segment: ChainSegment = { name: ident[0] };
+    i += ident[0].length;
+
+    while (/\s/.test(expr[i] ?? '')) i++;
+    if (expr[i] === '(') {
+      const close = findClosing(expr, i);
+      if (close === -1) return null;
+      segment.args = splitArgs(expr.slice(i + 1, close));
+      i = close + 1;
+    }
+    segments.push(segment);
+
+    while (/\s/.test(expr[i] ?? '')) i++;
+    if (i >= expr.length) break;
+    if (expr[i] !== '.') return null;
+    i++;
+    while (/\s/.test(expr[i] ?? '')) i++;
+  }
+
+  return segments;
+}
+
+/**
+ * Value of a string literal (quotes or backticks without interpolation), else undefined
+ */
+function parseString(raw: string | undefined): string | undefined {
+  if (!raw) return undefined;
+  const match = /^(['"`])([\s\S]*)\1$/.exec(raw.trim());
+  if (!match || (match[1] === '`' && match[2].includes('${'))) {
+    return undefined;
+  }
+  return match[2].replace(/\\(.)/g, (_, ch) => ({ n: '\n', t: '\t', r: '\r' } as Record<string, string>)[ch] ?? ch);
+}
+
+/**
+ * Converts a JS literal (string, number, boolean, object/array with plain values) to a value
+ */
+function parseLiteral(raw: string | undefined): unknown {
+  if (raw === undefined) return undefined;
+  const text = raw.trim();
+  const str = parseString(text);
+  if (str !== undefined) return str;
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+  if (text === 'true' || text === 'false') return text === 'true';
+
+  if (text.startsWith('{') || text.startsWith('[')) {
+    const json = text
+      .replace(/'((?:\\.|[^'\\])*)'/g, (_, inner) => JSON.stringify(inner.replace(/\\'/g, '\'')))
+      .replace(/([{,]\s*)([A-Za-z_$][\w$]*)\s*:/g, '$1"$2":')
+      .replace(/,\s*([}\]])/g, '$1');
+    try {
+      return JSON.parse(json);
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parses an object literal argument into its raw property values
+ */
+function parseObject(raw: string | undefined): Record<string, string> {
+  const result: Record<string, string> = {};
+  const text = raw?.trim();
+  if (!text || !text.startsWith('{') || !text.endsWith('}')) {
+    return result;
+  }
+  for (const prop of splitArgs(text.slice(1, -1))) {
+    const match = /^(['"]?)([\w$-]+)\1\s*:\s*([\s\S]+)$/.exec(prop);
+    if (match) {
+      result[match[2]] = match[3].trim();
+    }
+  }
+  return result;
+}
+
+/**
+ * playwright_wait_url arguments for a URL string (glob) or a regex literal without flags
+ */
+function parseUrlPattern(raw: string | undefined): { urlPattern: string; regex?: true } | undefined {
+  const str = parseString(raw);
+  if (str !== undefined) return { urlPattern: str };
+  const regex = /^\/(.+)\/$/.exec(raw?.trim() ?? '');
+  return regex ? { urlPattern: regex[1], regex: true } : undefined;
+}
+
+/**
+ * Converts a locator chain (locator/getBy*, first/last/nth) into a selector string
+ */
+function locatorSelector(segments: ChainSegment[]): string | undefined {
+  const parts: string[] = [];
+
+  for (const segment of segments) {
+    const value = parseString(segment.args?.[0]);
+    switch (segment.name) {
+      case 'locator':
+        if (value === undefined) return undefined;
+        parts.push(value);
+        break;
+      case 'getByTestId':
+        if (value === undefined) return undefined;
+        parts.push(`[data-testid="${value}"]`);
+        break;
+      case 'getByPlaceholder':
+        if (value === undefined) return undefined;
+        parts.push(`[placeholder="${value}"]`);
+        break;
+      case 'getByLabel':
+        if (value === undefined) return undefined;
+        parts.push(`[aria-label="${value}"]`);
+        break;
+      case 'getByAltText':
+        if (value === undefined) return undefined;
+        parts.push(`[alt="${value}"]`);
+        break;
+      case 'getByTitle':
+        if (value === undefined) return undefined;
+        parts.push(`[title="${value}"]`);
+        break;
+      case 'getByText':
+        if (value === undefined) return undefined;
+        parts.push(`text="${value}"`);
+        break;
+      case 'getByRole': {
+        if (value === undefined) return undefined;
+        const name = parseString(parseObject(segment.args?.[1]).name);
+        parts.push(name !== undefined ? `role=${value}[name="${name}"]` : `role=${value}`);
+        break;
+      }
+      case 'first':
+        parts.push('nth=0');
+        break;
+      case 'last':
+        parts.push('nth=-1');
+        break;
+      case 'nth':
+        parts.push(`nth=${parseLiteral(segment.args?.[0])}`);
+        break;
+      default:
+        return undefined;
+    }
+  }
+
+  return parts.length > 0 ? parts.join(' >> ') : undefined;
+}
+
+/**
+ * Imports a Playwright spec file's test body as codegen actions
+ */
+export class SpecImporter {
+  private aliases = new Map<string, string>();
+  private actions: CodegenAction[] = [];
+  private skipped: SkippedStatement[] = [];
+
+  constructor(private source: string) {}
+
+  /**
+   * Parse the given test (default: the first one in the file)
+   */
+  parse(testName?: string): SpecImportResult {
+    const tests = this.findTests();
+    if (tests.length === 0) {
+      throw new Error('No test() blocks found in spec file');
+    }
+
+    const test = testName ? tests.find(t => t.name === testName) : tests[0];
+    if (!test) {
+      throw new Error(`Test "${testName}" not found. Available tests: ${tests.map(t => t.name).join(', ')}`);
+    }
+
+    this.aliases.clear();
+    this.actions = [];
+    this.skipped = [];
+    this.parseBlock(test.bodyStart, test.bodyEnd);
+
+    return {
+      tests: tests.map(t => t.name),
+      testName: test.name,
+      actions: this.actions,
+      skipped: this.skipped,
+    };
+  }
+
+  private findTests(): Array<{ name: string; bodyStart: number; bodyEnd: number }> {
+    const tests: Array<{ name: string; bodyStart: number; bodyEnd: number }> = [];
+    const pattern = /\btest(?:\.only)?\s*\(\s*(['"`])((?:\\.|(?!\1)[^\\])*)\1\s*,/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(this.source))) {
+      const body = this.findFunctionBody(match.index + match[0].length);
+      if (body) {
+        tests.push({ name: match[2], ...body });
+        pattern.lastIndex = body.bodyEnd;
+      }
+    }
+    return tests;
+  }
+
+  /**
+   * Finds the `{ ... }` body of the function expression starting at `from`
+   */
+  private findFunctionBody(from: number): { bodyStart: number; bodyEnd: number } | null {
+    const arrow = this.source.indexOf('=>', from);
+    const fn = this.source.indexOf('function', from);
+    const start = arrow !== -1 && (fn === -1 || arrow < fn) ? arrow : fn;
+    if (start === -1) return null;
+
+    const open = this.source.indexOf('{', start);
+    const close = open === -1 ? -1 : findClosing(this.source, open);
+    return close === -1 ? null : { bodyStart: open + 1, bodyEnd: close };
+  }
+
+  private parseBlock(start: number, end: number): void {
+    for (const statement of splitStatements(this.source.slice(start, end), start)) {
+      this.parseStatement(statement);
+    }
+  }
+
+  private lineOf(offset: number): number {
+    return this.source.slice(0, offset).split('\n').length;
+  }
+
+  private skip(statement: Statement, reason: string): void {
+    this.skipped.push({
+      line: this.lineOf(statement.offset),
+      statement: statement.text.length > 120 ? `${statement.text.slice(0, 117)}...` : statement.text,
+      reason,
+    });
+  }
+
+  private record(toolName: string, parameters: Record<string, unknown>): void {
+    // Drop unset optional parameters
+    for (const key of Object.keys(parameters)) {
+      if (parameters[key] === undefined) delete parameters[key];
+    }
+    this.actions.push({ toolName, parameters, timestamp: Date.now() });
+  }
+
+  private parseStatement(statement: Statement): void {
+    let expr = statement.text;
+
+    // const x = ... / let x = ...
+    const declaration = /^(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*=\s*([\s\S]+)$/.exec(expr);
+    let variable: string | undefined;
+    if (declaration) {
+      variable = declaration[1];
+      expr = declaration[2];
+    }
+
+    const awaited = expr.startsWith('await ');
+    expr = expr.replace(/^await\s+/, '');
+
+    const chain = parseChain(expr);
+    if (!chain) {
+      this.skip(statement, 'Not a supported Playwright call');
+      return;
+    }
+
+    // Locator alias: const button = page.getByRole('button')
+    if (variable && !awaited) {
+      const selector = this.resolveLocator(chain);
+      if (selector) {
+        this.aliases.set(variable, selector);
+        return;
+      }
+    }
+
+    const root = chain[0].name;
+    if (root === 'test' && chain[1]?.name === 'step') {
+      this.parseStep(chain[1], statement);
+    } else if (root === 'expect') {
+      this.parseExpect(chain, statement);
+    } else if (root === 'request' || (root === 'page' && chain[1]?.name === 'request')) {
+      this.parseApiRequest(root === 'request' ? chain.slice(1) : chain.slice(2), statement);
+    } else if (root === 'page' || this.aliases.has(root)) {
+      this.parsePageCall(chain, statement);
+    } else {
+      this.skip(statement, `Unsupported call target: ${root}`);
+    }
+  }
+
+  private parseStep(step: ChainSegment, statement: Statement): void {
+    const fnArg = step.args?.[1];
+    const fnOffset = fnArg ? this.source.indexOf(fnArg, statement.offset) : -1;
+    const body = fnOffset !== -1 ? this.findFunctionBody(fnOffset) : null;
+    if (!body) {
+      this.skip(statement, 'Could not read test.step body');
+      return;
+    }
+    this.parseBlock(body.bodyStart, body.bodyEnd);
+  }
+
+  /**
+   * Selector for a chain rooted at `page` or a locator alias, without the trailing action
+   */
+  private resolveLocator(chain: ChainSegment[]): string | undefined {
+    const [root, ...rest] = chain;
+    if (this.aliases.has(root.name)) {
+      if (rest.length === 0) return this.aliases.get(root.name);
+      const tail = locatorSelector(rest);
+      return tail ? `${this.aliases.get(root.name)} >> ${tail}` : undefined;
+    }
+    if (root.name === 'page' && rest.length > 0) {
+      return locatorSelector(rest);
+    }
+    return undefined;
+  }
+
+  private parsePageCall(chain: ChainSegment[], statement: Statement): void {
+    const last = chain[chain.length - 1];
+    const args = last.args ?? [];
+
+    // page.method(...) with no locator in between
+    if (chain.length === 2 && chain[0].name === 'page') {
+      switch (last.name) {
+        case 'goto': {
+          const url = parseString(args[0]);
+          if (url === undefined) {
+            this.skip(statement, 'goto() URL is not a string literal');
+            return;
+          }
+          const options = parseObject(args[1]);
+          this.record('playwright_navigate', {
+            url,
+            waitUntil: parseString(options.waitUntil),
+          });
+          return;
+        }
+        case 'goBack':
+          this.record('playwright_go_back', {});
+          return;
+        case 'goForward':
+          this.record('playwright_go_forward', {});
+          return;
+        case 'dragAndDrop': {
+          const sourceSelector = parseString(args[0]);
+          const targetSelector = parseString(args[1]);
+          if (sourceSelector === undefined || targetSelector === undefined) {
+            this.skip(statement, 'dragAndDrop() selectors are not string literals');
+            return;
+          }
+          this.record('playwright_drag', { sourceSelector, targetSelector });
+          return;
+        }
+        case 'waitForURL': {
+          const pattern = parseUrlPattern(args[0]);
+          if (!pattern) {
+            this.skip(statement, 'waitForURL() pattern is not a string or regex literal without flags');
+            return;
+          }
+          const timeout = parseLiteral(parseObject(args[1]).timeout) as number | undefined;
+          this.record('playwright_wait_url', { ...pattern, timeout });
+          return;
+        }
+        case 'evaluate': {
+          const script = parseString(args[0]);
+          if (script !== undefined) {
+            this.record('playwright_evaluate', { script });
+            return;
+          }
+          break;
+        }
+        case 'screenshot': {
+          const options = parseObject(args[0]);
+          const filePath = parseString(options.path) ?? 'screenshot.png';
+          this.record('playwright_screenshot', {
+            name: filePath.replace(/^.*[\\/]/, '').replace(/\.png$/i, ''),
+            fullPage: parseLiteral(options.fullPage) === true || undefined,
+          });
+          return;
+        }
+        default:
+          if (LOCATOR_ACTIONS[last.name] && parseString(args[0]) !== undefined) {
+            this.recordLocatorAction(last.name, parseString(args[0])!, args.slice(1), statement);
+            return;
+          }
+      }
+    }
+
+    // page.keyboard.press('Enter')
+    if (chain.length === 3 && chain[1].name === 'keyboard' && last.name === 'press') {
+      this.record('playwright_press_key', { key: parseString(args[0]) });
+      return;
+    }
+
+    // page.frameLocator('iframe').locator('button').click()
+    if (chain[1]?.name === 'frameLocator') {
+      const iframeSelector = parseString(chain[1].args?.[0]);
+      const selector = locatorSelector(chain.slice(2, -1));
+      if (iframeSelector && selector && (last.name === 'click' || last.name === 'fill')) {
+        this.record(last.name === 'click' ? 'playwright_iframe_click' : 'playwright_iframe_fill', {
+          iframeSelector,
+          selector,
+          value: last.name === 'fill' ? parseString(args[0]) : undefined,
+        });
+        return;
+      }
+    }
+
+    // page.locator(...).click() or alias.click()
+    const selector = this.resolveLocator(chain.slice(0, -1));
+    if (selector && LOCATOR_ACTIONS[last.name]) {
+      this.recordLocatorAction(last.name, selector, args, statement);
+      return;
+    }
+
+    this.skip(statement, 'Unsupported page or locator call');
+  }
+
+  private recordLocatorAction(method: string, selector: string, args: string[], statement: Statement): void {
+    const value = parseString(args[0]);
+    switch (method) {
+      case 'click':
+      case 'hover':
+        this.record(LOCATOR_ACTIONS[method], { selector });
+        return;
+      case 'fill':
+      case 'selectOption':
+        if (value === undefined) break;
+        this.record(LOCATOR_ACTIONS[method], { selector, value });
+        return;
+      case 'press':
+        if (value === undefined) break;
+        this.record('playwright_press_key', { selector, key: value });
+        return;
+      case 'setInputFiles':
+        if (value === undefined) break;
+        this.record('playwright_upload_file', { selector, filePath: value });
+        return;
+    }
+    this.skip(statement, `Unsupported arguments for ${method}()`);
+  }
+
+  private parseExpect(chain: ChainSegment[], statement: Statement): void {
+    const targetExpr = chain[0].args?.[0] ?? '';
+    let matchers = chain.slice(1);
+    const negated = matchers[0]?.name === 'not';
+    if (negated) matchers = matchers.slice(1);
+    const matcher = matchers[0];
+
+    if (!matcher || matchers.length !== 1) {
+      this.skip(statement, 'Unsupported expect() form');
+      return;
+    }
+
+    const args = matcher.args ?? [];
+    const timeout = parseLiteral(parseObject(args[args.length - 1]).timeout) as number | undefined;
+
+    // expect(page).toHaveURL(...)
+    if (targetExpr === 'page') {
+      if (matcher.name === 'toHaveURL' && !negated) {
+        const pattern = parseUrlPattern(args[0]);
+        if (!pattern) {
+          this.skip(statement, 'toHaveURL() pattern is not a string or regex literal without flags');
+          return;
+        }
+        this.record('playwright_wait_url', { ...pattern, timeout });
+        return;
+      }
+      this.skip(statement, `Unsupported page assertion: ${matcher.name}`);
+      return;
+    }
+
+    const targetChain = parseChain(targetExpr);
+    const selector = targetChain ? this.resolveLocator(targetChain) : undefined;
+    if (!selector) {
+      this.skip(statement, 'Assertion target is not a page locator');
+      return;
+    }
+
+    if (STATE_MATCHERS[matcher.name]) {
+      const [state, negatedState] = STATE_MATCHERS[matcher.name];
+      this.record('playwright_assert_element_state', { selector, state: negated ? negatedState : state, timeout });
+      return;
+    }
+
+    switch (matcher.name) {
+      case 'toHaveText':
+      case 'toContainText': {
+        if (negated) break;
+        const text = parseString(args[0]);
+        const regex = /^\/(.+)\/([a-z]*)$/.exec(args[0] ?? '');
+        if (text === undefined && !regex) break;
+        this.record('playwright_assert_text_content', {
+          selector,
+          expectedText: text ?? regex![1],
+          matchType: regex ? 'regex' : matcher.name === 'toHaveText' ? 'exact' : 'contains',
+          caseSensitive: regex?.[2].includes('i') ? false : undefined,
+          timeout,
+        });
+        return;
+      }
+      case 'toHaveCount': {
+        const count = parseLiteral(args[0]);
+        if (negated || typeof count !== 'number') break;
+        this.record('playwright_assert_element_count', { selector, count, timeout });
+        return;
+      }
+      case 'toHaveAttribute': {
+        const attribute = parseString(args[0]);
+        if (attribute === undefined) break;
+        const expectedValue = parseString(args[1]);
+        if (negated && expectedValue !== undefined) break;
+        this.record('playwright_assert_attribute', {
+          selector,
+          attribute,
+          expectedValue,
+          matchType: negated ? 'notExists' : expectedValue === undefined ? 'exists' : 'exact',
+          timeout,
+        });
+        return;
+      }
+      case 'toHaveCSS': {
+        const property = parseString(args[0]);
+        const expectedValue = parseString(args[1]);
+        if (negated || property === undefined || expectedValue === undefined) break;
+        this.record('playwright_assert_css_property', { selector, property, expectedValue, timeout });
+        return;
+      }
+    }
+
+    this.skip(statement, `Unsupported assertion: ${negated ? 'not.' : ''}${matcher.name}`);
+  }
+
+  private parseApiRequest(chain: ChainSegment[], statement: Statement): void {
+    const call = chain[0];
+    if (chain.length !== 1 || !API_METHODS.includes(call?.name)) {
+      this.skip(statement, 'Unsupported request call');
+      return;
+    }
+
+    const url = parseString(call.args?.[0]);
+    if (url === undefined) {
+      this.skip(statement, 'Request URL is not a string literal');
+      return;
+    }
+
+    const options = parseObject(call.args?.[1]);
+    const parameters: Record<string, unknown> = { url };
+
+    if (call.name !== 'get' && call.name !== 'delete') {
+      const data = parseLiteral(options.data);
+      parameters.value = data === undefined
+        ? options.data ?? ''
+        : typeof data === 'string' ? data : JSON.stringify(data);
+    }
+
+    const headers = parseLiteral(options.headers) as Record<string, string> | undefined;
+    if (headers && typeof headers === 'object') {
+      const auth = Object.entries(headers).find(([key]) => key.toLowerCase() === 'authorization');
+      const bearer = auth && /^Bearer\s+(.+)$/i.exec(auth[1]);
+      if (bearer && call.name === 'post') {
+        parameters.token = bearer[1];
+      }
+      const otherHeaders = Object.fromEntries(Object.entries(headers).filter(([key]) => !bearer || key !== auth![0]));
+      if (Object.keys(otherHeaders).length > 0) {
+        parameters.headers = otherHeaders;
+      }
+    }
+
+    this.record(`playwright_${call.name}`, parameters);
+  }
+}
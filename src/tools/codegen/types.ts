@@ -30,7 +30,7 @@ export interface CodegenOptions {
   outputPath?: string;
   testNamePrefix?: string;
   includeComments?: boolean;
-  language?: 'typescript' | 'javascript';
+  language?: 'typescript' | 'javascript' | 'python' | 'java';
   template?: 'plain' | 'pom';
 }
 
@@ -40,4 +40,6 @@ export interface CodegenResult {
   sessionId: string;
   // Optional additional files to generate (e.g., Page Object, config)
   files?: { path: string; content: string }[];
+  // Tools of recorded steps the target language has no translation for
+  skippedSteps?: string[];
 } 
\ No newline at end of file
@@ -0,0 +1,193 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Page } from 'playwright';
+import { ToolContext, ToolResponse } from './types.js';
+import { ErrorCode, ErrorContext, EnhancedError, classifyPlaywrightError, formatEnhancedError } from '../../utils/errorContext.js';
+import { artifactStore } from '../../utils/artifactStore.js';
+
+// Failures that say nothing about the page, so no screenshot or DOM excerpt is taken
+const PAGELESS_CODES = new Set<ErrorCode>([
+  ErrorCode.MISSING_PARAMETER,
+  ErrorCode.INVALID_CONFIGURATION,
+  ErrorCode.SESSION_NOT_FOUND,
+  ErrorCode.SESSION_LIMIT_REACHED,
+  ErrorCode.RESOURCE_LIMIT_EXCEEDED,
+  ErrorCode.MEMORY_LIMIT_EXCEEDED,
+  ErrorCode.CONCURRENT_LIMIT_REACHED,
+  ErrorCode.BROWSER_LAUNCH_FAILED,
+  ErrorCode.BROWSER_DISCONNECTED,
+  ErrorCode.BROWSER_CRASHED,
+  ErrorCode.PAGE_CLOSED,
+  ErrorCode.PAGE_CRASHED,
+]);
+
+const CAPTURE_TIMEOUT_MS = 3000;
+const DOM_EXCERPT_LENGTH = 2000;
+
+/**
+ * Failure details of a tool call, returned as _meta.error
+ */
+export interface ToolErrorDetails {
+  code: ErrorCode;
+  message: string;
+  retryable: boolean;
+  suggestions: string[];
+  context: ErrorContext;
+  /** Resource URI of the page screenshot taken at failure */
+  screenshot?: string;
+  screenshotPath?: string;
+  /** HTML around the target element, or the start of the body when it was not found */
+  domExcerpt?: string;
+}
+
+/**
+ * Directory failure screenshots are written to
+ */
+function failureDir(): string {
+  return process.env.PLAYWRIGHT_FAILURE_DIR || './test-results/failures';
+}
+
+function captureEnabled(): boolean {
+  return process.env.PLAYWRIGHT_FAILURE_CAPTURE !== 'false';
+}
+
+/**
+ * Current page of the call; tools may have switched the session to another tab
+ */
+function currentPage(context: ToolContext): Page | undefined {
+  const page = context.session?.page ?? context.page;
+  return page && !page.isClosed() ? page : undefined;
+}
+
+/**
+ * Selector, URL, session and timeout a failed call was working with
+ */
+function buildErrorContext(toolName: string, args: any, context: ToolContext): ErrorContext {
+  const page = currentPage(context);
+  const errorContext: ErrorContext = {
+    tool: toolName,
+    sessionId: context.session?.id ?? args?.sessionId,
+    browserType: context.session?.browserType,
+    url: page?.url(),
+    selector: typeof args?.selector === 'string' ? args.selector : undefined,
+    requestUrl: typeof args?.url === 'string' ? args.url : undefined,
+    timeout: typeof args?.timeout === 'number' ? args.timeout : undefined,
+    filePath: typeof args?.filePath === 'string' ? args.filePath : undefined,
+  };
+
+  // Leave out what does not apply, so the context only lists what the call used
+  return Object.fromEntries(Object.entries(errorContext).filter(([, value]) => value !== undefined));
+}
+
+async function captureScreenshot(page: Page, toolName: string): Promise<{ uri: string; filePath: string } | undefined> {
+  try {
+    const dir = failureDir();
+    fs.mkdirSync(dir, { recursive: true });
+    const filePath = path.join(dir, `${toolName}-${new Date().toISOString().replace(/[:.]/g, '-')}.png`);
+    await page.screenshot({ path: filePath, timeout: CAPTURE_TIMEOUT_MS });
+    const artifact = artifactStore.register({ scheme: 'failure', filePath, description: `Page when ${toolName} failed` });
+    return { uri: artifact.uri, filePath: artifact.filePath };
+  } catch {
+    // The page may be navigating or unresponsive; the error itself matters more
+    return undefined;
+  }
+}
+
+async function captureDomExcerpt(page: Page, selector?: string): Promise<string | undefined> {
+  try {
+    if (selector) {
+      const target = page.locator(selector).first();
+      if (await target.count() > 0) {
+        // The parent shows the element along with its siblings and labels
+        const html = await target.evaluate(element => (element.parentElement ?? element).outerHTML, undefined, { timeout: CAPTURE_TIMEOUT_MS });
+        return html.substring(0, DOM_EXCERPT_LENGTH);
+      }
+    }
+
+    const html = await page.evaluate(() => {
+      const body = document.body?.cloneNode(true) as HTMLElement | undefined;
+      body?.querySelectorAll('script, style, svg, noscript').forEach(element => element.remove());
+      return body?.outerHTML ?? '';
+    });
+    return html.replace(/\s+/g, ' ').substring(0, DOM_EXCERPT_LENGTH);
+  } catch {
+    return undefined;
+  }
+}
+
+function responseText(response: ToolResponse): string {
+  return response.content
+    .filter(item => item.type === 'text')
+    .map(item => (item as { text: string }).text)
+    .join('\n');
+}
+
+/**
+ * Classify a failed tool call and build its error response: the error code, the selector, URL and
+ * session involved, a screenshot and DOM excerpt of the page, and suggestions, as text and as
+ * _meta.error. structuredContent is left as the tool returned it, since it has to match the
+ * tool's outputSchema
+ * @param toolName Tool that failed
+ * @param args Arguments of the call
+ * @param context Context the tool ran with
+ * @param failure Thrown error, or the error response the tool returned
+ */
+export async function createToolErrorResponse(
+  toolName: string,
+  args: any,
+  context: ToolContext,
+  failure: unknown
+): Promise<ToolResponse> {
+  const response = isToolResponse(failure) ? failure : undefined;
+  // Already classified, e.g. by a nested tool call
+  if (response?._meta?.error) {
+    return response;
+  }
+
+  const error = response
+    ? new Error(responseText(response))
+    : failure instanceof Error ? failure : new Error(String(failure));
+  const enhanced: EnhancedError = classifyPlaywrightError(error, buildErrorContext(toolName, args, context));
+
+  const details: ToolErrorDetails = {
+    code: enhanced.code,
+    message: enhanced.message,
+    retryable: enhanced.retryable,
+    suggestions: enhanced.suggestions,
+    context: enhanced.context,
+  };
+
+  const page = currentPage(context);
+  if (page && captureEnabled() && !PAGELESS_CODES.has(enhanced.code)) {
+    const screenshot = await captureScreenshot(page, toolName);
+    details.screenshot = screenshot?.uri;
+    details.screenshotPath = screenshot?.filePath;
+    details.domExcerpt = await captureDomExcerpt(page, enhanced.context.selector);
+  }
+
+  const text = [
+    formatEnhancedError(enhanced),
+    ...(details.screenshot ? ['', `📸 Screenshot: ${details.screenshot} (${details.screenshotPath})`] : []),
+    ...(details.domExcerpt ? ['', '🧩 DOM excerpt:', details.domExcerpt] : []),
+  ].join('\n');
+
+  return {
+    content: [
+      { type: 'text', text },
+      // Keep images the tool returned alongside its error
+      ...(response?.content.filter(item => item.type === 'image') ?? []),
+    ],
+    isError: true,
+    ...(response?.structuredContent ? { structuredContent: response.structuredContent } : {}),
+    _meta: { ...response?._meta, error: details },
+  };
+}
+
+function isToolResponse(value: unknown): value is ToolResponse {
+  return typeof value === 'object' && value !== null && Array.isArray((value as ToolResponse).content) && 'isError' in value;
+}
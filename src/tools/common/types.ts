@@ -5,19 +5,25 @@
 
 import type { CallToolResult, TextContent, ImageContent } from '@modelcontextprotocol/sdk/types.js';
 import type { Page, Browser, APIRequestContext } from 'playwright';
+import type { BrowserSession, SessionAdmission } from '../../sessionManager.js';
 
 // Context for tool execution
 export interface ToolContext {
   page?: Page;
   browser?: Browser;
   apiContext?: APIRequestContext;
+  session?: BrowserSession;
   server?: any;
+  /** MCP client identity and queue callbacks for sessions the tool creates */
+  admission?: SessionAdmission;
 }
 
 // Standard response format for all tools
 export interface ToolResponse extends CallToolResult {
   content: (TextContent | ImageContent)[];
   isError: boolean;
+  /** Machine-readable result matching the tool's declared outputSchema */
+  structuredContent?: Record<string, unknown>;
 }
 
 // Interface that all tool implementations must follow
@@ -26,23 +32,29 @@ export interface ToolHandler {
 }
 
 // Helper functions for creating responses
-export function createErrorResponse(message: string): ToolResponse {
+export function createErrorResponse(message: string, structuredContent?: Record<string, unknown>): ToolResponse {
   return {
     content: [{
       type: "text",
       text: message
     }],
-    isError: true
+    isError: true,
+    ...(structuredContent ? { structuredContent } : {})
   };
 }
 
-export function createSuccessResponse(message: string | string[]): ToolResponse {
+/**
+ * Success result. Tools without a result of their own report `{ message }`,
+ * which is what the shared MESSAGE_OUTPUT_SCHEMA in tools.ts declares
+ */
+export function createSuccessResponse(message: string | string[], structuredContent?: Record<string, unknown>): ToolResponse {
   const messages = Array.isArray(message) ? message : [message];
   return {
     content: messages.map(msg => ({
       type: "text",
       text: msg
     })),
-    isError: false
+    isError: false,
+    structuredContent: structuredContent ?? { message: messages.join('\n') }
   };
 } 
\ No newline at end of file
@@ -8,13 +8,19 @@
  * Execute multiple test scenarios concurrently across browser sessions
  */
 
-import { Browser, chromium, firefox, webkit } from 'playwright';
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
 import { ToolHandler, ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
 import { resourceManager } from '../../utils/resourceManager.js';
-import { sessionManager } from '../../sessionManager.js';
+import { artifactStore } from '../../utils/artifactStore.js';
+import { sessionManager, SessionAdmission } from '../../sessionManager.js';
+import { FlakeRun, flakeRate, flakeStore, QuarantinePolicy } from '../../utils/flakeStore.js';
+import { handleToolCall } from '../../toolHandler.js';
+import { ReporterPaths, validateReporters, writeReports } from './reporters.js';
 
 /**
- * Test action definition
+ * Test action definition: any registered tool name and its arguments
  */
 export interface TestAction {
   tool: string;
@@ -29,6 +35,21 @@ export interface TestScenario {
   browserType?: 'chromium' | 'firefox' | 'webkit';
   actions: TestAction[];
   timeout?: number;
+  /** Retries after a failed attempt, overriding the run's retries */
+  retries?: number;
+}
+
+/**
+ * Outcome of one action of a scenario
+ */
+export interface TestStepResult {
+  step: number;
+  tool: string;
+  passed: boolean;
+  duration: number;
+  output: string;
+  /** Error code of a failed step, e.g. SELECTOR_NOT_FOUND */
+  errorCode?: string;
 }
 
 /**
@@ -36,11 +57,68 @@ export interface TestScenario {
  */
 export interface TestResult {
   name: string;
-  status: 'passed' | 'failed' | 'skipped' | 'timeout';
+  browserType?: 'chromium' | 'firefox' | 'webkit';
+  /** 'flaky' when the scenario failed and then passed on retry */
+  status: 'passed' | 'failed' | 'skipped' | 'timeout' | 'flaky';
   duration: number;
   error?: string;
+  /** Attempts run, including retries */
+  attempts?: number;
+  /** Errors of the failed attempts before the last one */
+  attemptErrors?: string[];
+  /** Quarantined scenarios still run, but their failures do not fail the suite */
+  quarantined?: boolean;
+  /** Share of recorded runs that passed only on retry or flipped between pass and fail */
+  flakeRate?: number;
   sessionId?: string;
+  /** Path of the screenshot taken when the test failed */
   screenshot?: string;
+  /** Path of the Playwright trace archive */
+  trace?: string;
+  steps?: TestStepResult[];
+}
+
+/**
+ * When to keep a scenario's Playwright trace
+ */
+export type TraceMode = 'on' | 'off' | 'retain-on-failure';
+
+/**
+ * Settings shared by every scenario of a run
+ */
+interface RunOptions {
+  runId: string;
+  outputDir: string;
+  trace: TraceMode;
+  headless: boolean;
+  server: any;
+  retries: number;
+  /** Delay before the first retry; doubles for each further retry */
+  retryDelay: number;
+  /** Client identity the scenario sessions are charged to */
+  admission?: SessionAdmission;
+}
+
+/**
+ * Whether a result fails the suite: a failure or timeout that is not quarantined
+ */
+export function isSuiteFailure(result: TestResult): boolean {
+  return (result.status === 'failed' || result.status === 'timeout') && !result.quarantined;
+}
+
+// Short names accepted before actions were dispatched to the tool handlers
+const ACTION_ALIASES: Record<string, string> = {
+  navigate: 'playwright_navigate',
+  click: 'playwright_click',
+  fill: 'playwright_fill',
+  waitForSelector: 'playwright_wait_smart',
+};
+
+function describeResult(result: { content?: Array<{ type: string; text?: string }> }): string {
+  return (result.content ?? [])
+    .filter(item => item.type === 'text')
+    .map(item => item.text)
+    .join('\n');
 }
 
 /**
@@ -52,6 +130,10 @@ export interface ParallelTestResults {
   failed: number;
   skipped: number;
   timeout: number;
+  /** Passed only on retry */
+  flaky: number;
+  /** Failed or timed out while quarantined */
+  quarantined: number;
   duration: number;
   results: TestResult[];
 }
@@ -68,6 +150,16 @@ export class ParallelTestExecutor implements ToolHandler {
       shardIndex,
       shardTotal,
       timeout = 60000,
+      trace = 'retain-on-failure',
+      outputDir = './test-results/parallel',
+      headless = true,
+      reporters,
+      title = 'Parallel tests',
+      retries = 0,
+      retryDelay = 1000,
+      trackFlakes = true,
+      flakeThreshold = 0.2,
+      flakeMinRuns = 5,
     } = args;
 
     if (!tests || !Array.isArray(tests)) {
@@ -75,7 +167,35 @@ export class ParallelTestExecutor implements ToolHandler {
     }
 
     try {
+      if (reporters) {
+        validateReporters(reporters);
+      }
+
       const startTime = Date.now();
+      const runId = `run-${uuidv4().slice(0, 8)}`;
+      const options: RunOptions = {
+        runId,
+        outputDir: path.join(outputDir, runId),
+        trace,
+        headless,
+        server: context.server,
+        retries,
+        retryDelay,
+        admission: context.admission,
+      };
+      const policy: QuarantinePolicy = { threshold: flakeThreshold, minRuns: flakeMinRuns };
+
+      // Never hold more browsers at once than the resource limits allow, for the server and for this client
+      const limits = resourceManager.getConfig();
+      const clientId = context.admission?.clientId;
+      const clientSlots = clientId ? limits.maxSessionsPerUser - resourceManager.getUserSessionCount(clientId) : Infinity;
+      if (clientSlots <= 0) {
+        return createErrorResponse(
+          `Client '${clientId}' already holds ${resourceManager.getUserSessionCount(clientId as string)} of its ${limits.maxSessionsPerUser} browser sessions; ` +
+          `close one with close_browser_session before running parallel tests`
+        );
+      }
+      const concurrency = Math.max(1, Math.min(maxConcurrency, limits.maxConcurrentBrowsers, limits.maxTotalSessions, clientSlots));
 
       // Apply sharding if specified
       let testsToRun = tests;
@@ -85,7 +205,9 @@ export class ParallelTestExecutor implements ToolHandler {
 
       const results: TestResult[] = [];
       const testQueue = [...testsToRun];
-      const activeTests = new Map<string, Promise<TestResult>>();
+      // Keyed by queue position: scenario names need not be unique
+      const activeTests = new Map<number, Promise<TestResult>>();
+      let started = 0;
 
       let shouldStop = false;
 
@@ -97,6 +219,7 @@ export class ParallelTestExecutor implements ToolHandler {
           testQueue.forEach(test => {
             results.push({
               name: test.name,
+              browserType: test.browserType || 'chromium',
               status: 'skipped',
               duration: 0,
             });
@@ -105,18 +228,27 @@ export class ParallelTestExecutor implements ToolHandler {
         }
 
         // Start new tests up to concurrency limit
-        while (testQueue.length > 0 && activeTests.size < maxConcurrency && !shouldStop) {
+        while (testQueue.length > 0 && activeTests.size < concurrency && !shouldStop) {
           const test = testQueue.shift()!;
-          const testPromise = this.executeTest(test, timeout);
+          const slot = started++;
+          const testPromise = this.executeWithRetries(test, timeout, options).then(result => {
+            const history = trackFlakes ? flakeStore.get(test.name, result.browserType!) : undefined;
+            if (history) {
+              // Quarantine is decided by earlier runs, before this one is recorded
+              result.quarantined = history.quarantined;
+              result.flakeRate = flakeRate(history);
+            }
+            return result;
+          });
 
-          activeTests.set(test.name, testPromise);
+          activeTests.set(slot, testPromise);
 
           // Handle completion
           testPromise.then(result => {
-            activeTests.delete(test.name);
+            activeTests.delete(slot);
             results.push(result);
 
-            if (failFast && result.status === 'failed') {
+            if (failFast && isSuiteFailure(result)) {
               shouldStop = true;
             }
           });
@@ -140,118 +272,236 @@ export class ParallelTestExecutor implements ToolHandler {
         failed: results.filter(r => r.status === 'failed').length,
         skipped: results.filter(r => r.status === 'skipped').length,
         timeout: results.filter(r => r.status === 'timeout').length,
+        flaky: results.filter(r => r.status === 'flaky').length,
+        quarantined: results.filter(r => r.quarantined && (r.status === 'failed' || r.status === 'timeout')).length,
         duration: totalDuration,
         results,
       };
 
-      return this.formatResults(stats, shardIndex, shardTotal);
+      const newlyQuarantined = trackFlakes ? this.recordFlakes(results, runId, policy) : [];
+
+      return this.formatResults(stats, { shardIndex, shardTotal, reporters, title, newlyQuarantined });
     } catch (error: any) {
       return createErrorResponse(`Parallel execution failed: ${error.message}`);
     }
   }
 
   /**
-   * Execute a single test scenario
+   * Execute a scenario, retrying failed attempts with exponential backoff;
+   * a scenario that passes on retry is flaky
    */
-  private async executeTest(test: TestScenario, defaultTimeout: number): Promise<TestResult> {
-    const startTime = Date.now();
-    const timeout = test.timeout || defaultTimeout;
-    let sessionId: string | undefined;
-
-    try {
-      // Create a new session for this test
-      sessionId = await sessionManager.createSession(undefined, {
-        browserType: test.browserType || 'chromium',
-      });
-
-      const session = sessionManager.getSession(sessionId);
-      if (!session) {
-        throw new Error('Failed to create session');
+  private async executeWithRetries(test: TestScenario, defaultTimeout: number, options: RunOptions): Promise<TestResult> {
+    const retries = Math.max(0, test.retries ?? options.retries);
+    const attemptErrors: string[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+      const result = await this.executeTest(test, defaultTimeout, options, attempt);
+      result.attempts = attempt;
+
+      if (result.status === 'passed' || attempt > retries) {
+        if (attemptErrors.length > 0) {
+          result.attemptErrors = attemptErrors;
+          if (result.status === 'passed') {
+            result.status = 'flaky';
+          }
+        }
+        return result;
       }
 
-      // Execute test with timeout
-      await Promise.race([
-        this.executeActions(test.actions, session.page),
-        new Promise((_, reject) =>
-          setTimeout(() => reject(new Error('Test timeout')), timeout)
-        ),
-      ]);
+      attemptErrors.push(result.error ?? result.status);
+      await new Promise(resolve => setTimeout(resolve, options.retryDelay * 2 ** (attempt - 1)));
+    }
+  }
 
-      const duration = Date.now() - startTime;
+  /**
+   * Add this run's outcomes to the flake history
+   * @returns Names of scenarios this run pushed into quarantine
+   */
+  private recordFlakes(results: TestResult[], runId: string, policy: QuarantinePolicy): string[] {
+    const date = new Date().toISOString();
+    const outcomes = results
+      .filter(result => result.status !== 'skipped')
+      .map(result => ({
+        name: result.name,
+        browser: result.browserType || 'chromium',
+        run: { runId, date, status: result.status as FlakeRun['status'], attempts: result.attempts ?? 1 },
+      }));
 
-      // Close session
-      await sessionManager.closeSession(sessionId);
+    return flakeStore.record(outcomes, policy)
+      .filter(record => record.quarantined && record.quarantinedAt === date)
+      .map(record => record.key);
+  }
 
-      return {
-        name: test.name,
-        status: 'passed',
-        duration,
-        sessionId,
-      };
+  /**
+   * Execute a single attempt of a test scenario in its own browser session
+   */
+  private async executeTest(test: TestScenario, defaultTimeout: number, options: RunOptions, attempt = 1): Promise<TestResult> {
+    const startTime = Date.now();
+    const timeout = test.timeout || defaultTimeout;
+    const sessionId = `${options.runId}-${uuidv4().slice(0, 8)}`;
+    // Retries keep their own artifacts: <name>, <name>-retry1, <name>-retry2...
+    const artifactDir = path.join(
+      options.outputDir,
+      (test.name.replace(/[^a-zA-Z0-9._-]+/g, '-') || 'test') + (attempt > 1 ? `-retry${attempt - 1}` : '')
+    );
+    const steps: TestStepResult[] = [];
+    let timer: NodeJS.Timeout | undefined;
+    let done: (() => void) | undefined;
+
+    const result: TestResult = {
+      name: test.name,
+      browserType: test.browserType || 'chromium',
+      status: 'passed',
+      duration: 0,
+      sessionId,
+      steps,
+    };
+
+    // The timeout covers waiting for a browser as well as the steps; once it fires the scenario
+    // stops before its next step, so nothing relaunches the session after it is closed below
+    const controller = new AbortController();
+    try {
+      await Promise.race([
+        this.runScenario(test, sessionId, steps, options, controller.signal).then(release => { done = release; }),
+        new Promise((_, reject) => {
+          timer = setTimeout(() => {
+            controller.abort();
+            reject(new Error(`Test timeout after ${timeout}ms`));
+          }, timeout);
+        }),
+      ]);
     } catch (error: any) {
-      const duration = Date.now() - startTime;
-
-      // Capture screenshot on failure
-      let screenshot: string | undefined;
-      if (sessionId) {
-        try {
-          const session = sessionManager.getSession(sessionId);
-          if (session && session.page) {
-            const buffer = await session.page.screenshot();
-            screenshot = buffer.toString('base64');
-          }
-          await sessionManager.closeSession(sessionId);
-        } catch (e) {
-          // Ignore cleanup errors
-        }
+      result.status = error.message.startsWith('Test timeout') ? 'timeout' : 'failed';
+      result.error = error.message;
+    } finally {
+      clearTimeout(timer);
+      result.duration = Date.now() - startTime;
+
+      // Closing the session returns its browser slot to the resource manager
+      if (sessionManager.hasSession(sessionId)) {
+        await this.collectArtifacts(sessionId, result, artifactDir, options.trace);
+        await sessionManager.closeSession(sessionId).catch(() => {});
       }
+      done?.();
+    }
 
-      const isTimeout = error.message.includes('timeout');
+    return result;
+  }
 
-      return {
-        name: test.name,
-        status: isTimeout ? 'timeout' : 'failed',
-        duration,
-        error: error.message,
-        sessionId,
-        screenshot,
-      };
+  /**
+   * Launch the scenario's session and run its steps
+   * @returns Releases the session's busy mark
+   */
+  private async runScenario(
+    test: TestScenario,
+    sessionId: string,
+    steps: TestStepResult[],
+    options: RunOptions,
+    signal: AbortSignal
+  ): Promise<() => void> {
+    // Waits in the resource manager's queue while the browser limit is reached
+    await sessionManager.createSession(sessionId, {
+      browserType: test.browserType || 'chromium',
+      headless: options.headless,
+    }, options.admission);
+    const session = sessionManager.getSession(sessionId);
+    if (!session) {
+      throw new Error('Failed to create session');
+    }
+    if (signal.aborted) {
+      // The timeout fired while the launch was queued; executeTest has already cleaned up
+      await sessionManager.closeSession(sessionId).catch(() => {});
+      throw new Error('Test aborted');
+    }
+    // Keep the session from being evicted between steps
+    const done = sessionManager.markBusy(sessionId);
+
+    try {
+      if (options.trace !== 'off') {
+        await session.page.context().tracing.start({ screenshots: true, snapshots: true, sources: false });
+      }
+      await this.executeActions(test.actions, sessionId, steps, options, signal);
+    } catch (error) {
+      done();
+      throw error;
     }
+    if (signal.aborted) {
+      // The last step finished after the timeout, when executeTest no longer releases the mark
+      done();
+    }
+    return done;
   }
 
   /**
-   * Execute test actions sequentially
+   * Save a failure screenshot and the trace (per trace mode) before the session closes
    */
-  private async executeActions(actions: TestAction[], page: any): Promise<void> {
-    for (const action of actions) {
-      // This is a simplified execution - in a real implementation,
-      // you would map tool names to actual tool handlers
-      await this.executeAction(action, page);
+  private async collectArtifacts(sessionId: string, result: TestResult, artifactDir: string, trace: TraceMode): Promise<void> {
+    const session = sessionManager.getSession(sessionId);
+    if (!session) {
+      return;
+    }
+    const failed = result.status !== 'passed';
+    const keepTrace = trace === 'on' || (trace === 'retain-on-failure' && failed);
+
+    try {
+      if (failed || keepTrace) {
+        fs.mkdirSync(artifactDir, { recursive: true });
+      }
+
+      if (failed && !session.page.isClosed()) {
+        const screenshotPath = path.join(artifactDir, 'failure.png');
+        await session.page.screenshot({ path: screenshotPath });
+        artifactStore.register({ scheme: 'trace', filePath: screenshotPath, description: `Failure screenshot of ${result.name}` });
+        result.screenshot = screenshotPath;
+      }
+
+      if (keepTrace) {
+        const tracePath = path.join(artifactDir, 'trace.zip');
+        await session.page.context().tracing.stop({ path: tracePath });
+        artifactStore.register({ scheme: 'trace', filePath: tracePath, description: `Playwright trace of ${result.name}` });
+        result.trace = tracePath;
+      } else if (trace !== 'off') {
+        await session.page.context().tracing.stop();
+      }
+    } catch (error) {
+      console.error(`Failed to collect artifacts for ${result.name}: ${(error as Error).message}`);
     }
   }
 
   /**
-   * Execute a single action
+   * Execute test actions sequentially through the registered tool handlers, stopping at the first failure
    */
-  private async executeAction(action: TestAction, page: any): Promise<void> {
-    const { tool, args } = action;
-
-    // Map common tools to page methods
-    switch (tool) {
-      case 'navigate':
-        await page.goto(args.url);
-        break;
-      case 'click':
-        await page.click(args.selector);
-        break;
-      case 'fill':
-        await page.fill(args.selector, args.value);
-        break;
-      case 'waitForSelector':
-        await page.waitForSelector(args.selector);
-        break;
-      default:
-        throw new Error(`Unknown tool: ${tool}`);
+  private async executeActions(
+    actions: TestAction[],
+    sessionId: string,
+    steps: TestStepResult[],
+    options: RunOptions,
+    signal: AbortSignal
+  ): Promise<void> {
+    for (const [index, action] of actions.entries()) {
+      if (signal.aborted) {
+        throw new Error(`Test aborted before step ${index + 1}`);
+      }
+      const tool = ACTION_ALIASES[action.tool] ?? action.tool;
+      const startedAt = Date.now();
+
+      let passed: boolean;
+      let output: string;
+      let errorCode: string | undefined;
+      try {
+        const response = await handleToolCall(tool, { ...action.args, sessionId }, options.server, { record: false, admission: options.admission });
+        passed = !response.isError;
+        output = describeResult(response as any);
+        errorCode = (response._meta as { error?: { code?: string } } | undefined)?.error?.code;
+      } catch (error) {
+        passed = false;
+        output = (error as Error).message;
+      }
+
+      steps.push({ step: index + 1, tool, passed, duration: Date.now() - startedAt, output, ...(errorCode ? { errorCode } : {}) });
+      if (!passed) {
+        throw new Error(`Step ${index + 1} (${tool}) failed: ${output.split('\n')[0]}`);
+      }
     }
   }
 
@@ -278,9 +528,9 @@ export class ParallelTestExecutor implements ToolHandler {
    */
   private formatResults(
     stats: ParallelTestResults,
-    shardIndex?: number,
-    shardTotal?: number
+    options: { shardIndex?: number; shardTotal?: number; reporters?: ReporterPaths; title: string; newlyQuarantined: string[] }
   ): ToolResponse {
+    const { shardIndex, shardTotal, reporters, title, newlyQuarantined } = options;
     const output: string[] = [
       `🚀 Parallel Test Execution Results`,
       ``,
@@ -297,6 +547,8 @@ export class ParallelTestExecutor implements ToolHandler {
     output.push(`  ❌ Failed: ${stats.failed}`);
     output.push(`  ⏭️  Skipped: ${stats.skipped}`);
     output.push(`  ⏱️  Timeout: ${stats.timeout}`);
+    output.push(`  🔁 Flaky: ${stats.flaky}`);
+    output.push(`  🚧 Quarantined failures: ${stats.quarantined}`);
     output.push(`  Duration: ${(stats.duration / 1000).toFixed(2)}s`);
     output.push('');
 
@@ -304,17 +556,73 @@ export class ParallelTestExecutor implements ToolHandler {
     output.push('📋 Test Results:');
     stats.results.forEach((result, index) => {
       const icon = result.status === 'passed' ? '✅' :
+                   result.status === 'flaky' ? '🔁' :
                    result.status === 'failed' ? '❌' :
                    result.status === 'timeout' ? '⏱️' : '⏭️';
+      const notes = [
+        ...((result.attempts ?? 1) > 1 ? [`${result.attempts} attempts`] : []),
+        ...(result.quarantined ? ['quarantined'] : []),
+        ...(result.flakeRate ? [`flake rate ${(result.flakeRate * 100).toFixed(0)}%`] : []),
+      ];
 
-      output.push(`  ${index + 1}. ${icon} ${result.name} (${(result.duration / 1000).toFixed(2)}s)`);
+      output.push(`  ${index + 1}. ${icon} ${result.name} (${(result.duration / 1000).toFixed(2)}s)${notes.length > 0 ? ` [${notes.join(', ')}]` : ''}`);
+      result.attemptErrors?.forEach((error, attempt) => output.push(`     Attempt ${attempt + 1}: ${error}`));
 
+      result.steps?.forEach(step => {
+        output.push(`     ${step.passed ? '✓' : '✗'} ${step.step}. ${step.tool} (${step.duration}ms)`);
+        if (!step.passed && step.output) {
+          output.push(...step.output.split('\n').map(line => `         ${line}`));
+        }
+      });
       if (result.error) {
         output.push(`     Error: ${result.error}`);
       }
+      if (result.screenshot) {
+        output.push(`     Screenshot: ${result.screenshot}`);
+      }
+      if (result.trace) {
+        output.push(`     Trace: ${result.trace} (npx playwright show-trace ${result.trace})`);
+      }
     });
 
-    return createSuccessResponse(output.join('\n'));
+    if (newlyQuarantined.length > 0) {
+      output.push('');
+      output.push(`🚧 Quarantined by this run (flake rate over threshold, history in ${flakeStore.getFilePath()}):`);
+      newlyQuarantined.forEach(key => output.push(`  ${key}`));
+    }
+
+    const reports = reporters ? writeReports(stats, reporters, { title, shardIndex, shardTotal }) : [];
+    if (reports.length > 0) {
+      output.push('');
+      output.push('📝 Reports:');
+      reports.forEach(report => {
+        // A report that cannot be written is listed, not allowed to discard the run's results
+        if (report.error) {
+          output.push(`  ${report.format}: failed to write ${report.path}: ${report.error}`);
+          return;
+        }
+        artifactStore.register({ scheme: 'report', filePath: report.path, description: `${title} (${report.format})` });
+        output.push(`  ${report.format}: ${report.path}`);
+      });
+    }
+
+    const structured = {
+      total: stats.total,
+      passed: stats.passed,
+      failed: stats.failed,
+      skipped: stats.skipped,
+      timeout: stats.timeout,
+      flaky: stats.flaky,
+      quarantined: stats.quarantined,
+      duration: stats.duration,
+      success: !stats.results.some(isSuiteFailure),
+      results: stats.results.map(result => ({ ...result })),
+      newlyQuarantined,
+      reports,
+    };
+    return structured.success
+      ? createSuccessResponse(output.join('\n'), structured)
+      : createErrorResponse(output.join('\n'), structured);
   }
 }
 
@@ -327,6 +635,15 @@ export class CrossBrowserTestExecutor implements ToolHandler {
       test,
       browsers = ['chromium', 'firefox', 'webkit'],
       timeout = 60000,
+      trace,
+      outputDir,
+      headless,
+      reporters,
+      retries,
+      retryDelay,
+      trackFlakes,
+      flakeThreshold,
+      flakeMinRuns,
     } = args;
 
     if (!test) {
@@ -348,7 +665,20 @@ export class CrossBrowserTestExecutor implements ToolHandler {
       }));
 
       const parallelResult = await executor.execute(
-        { tests: browserTests, maxConcurrency: browsers.length },
+        {
+          tests: browserTests,
+          maxConcurrency: browsers.length,
+          trace,
+          outputDir,
+          headless,
+          reporters,
+          title: test.name,
+          retries,
+          retryDelay,
+          trackFlakes,
+          flakeThreshold,
+          flakeMinRuns,
+        },
         context
       );
 
@@ -362,9 +692,58 @@ export class CrossBrowserTestExecutor implements ToolHandler {
       // Parse results from parallel execution output
       output.push((parallelResult.content[0] as any).text);
 
-      return createSuccessResponse(output.join('\n'));
+      return parallelResult.isError
+        ? createErrorResponse(output.join('\n'), parallelResult.structuredContent)
+        : createSuccessResponse(output.join('\n'), parallelResult.structuredContent);
     } catch (error: any) {
       return createErrorResponse(`Cross-browser execution failed: ${error.message}`);
     }
   }
 }
+
+/**
+ * Show the flake history of parallel scenarios and release them from quarantine
+ */
+export class ListFlakyTestsTool implements ToolHandler {
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const { quarantinedOnly = false, reset } = args;
+
+    try {
+      const removed = reset ? flakeStore.clear(reset === 'all' ? undefined : reset) : [];
+      const records = flakeStore.list({ quarantinedOnly });
+
+      const output: string[] = [`🔁 Flaky Tests (${flakeStore.getFilePath()})`, ''];
+      if (removed.length > 0) {
+        output.push(`Reset history of ${removed.length} scenario(s): ${removed.join(', ')}`, '');
+      }
+      if (records.length === 0) {
+        output.push(quarantinedOnly ? 'No quarantined scenarios' : 'No flake history recorded');
+      }
+
+      for (const record of records) {
+        const counts = (status: FlakeRun['status']) => record.runs.filter(run => run.status === status).length;
+        output.push(`${record.quarantined ? '🚧' : '  '} ${record.key}: flake rate ${(flakeRate(record) * 100).toFixed(0)}% over ${record.runs.length} run(s)`);
+        output.push(`   passed ${counts('passed')}, flaky ${counts('flaky')}, failed ${counts('failed')}, timeout ${counts('timeout')}`);
+        output.push(`   history: ${record.runs.map(run => run.status === 'passed' ? '✓' : run.status === 'flaky' ? '~' : '✗').join('')}`);
+        if (record.quarantinedAt) {
+          output.push(`   quarantined since ${record.quarantinedAt}`);
+        }
+      }
+
+      return createSuccessResponse(output.join('\n'), {
+        tests: records.map(record => ({
+          key: record.key,
+          name: record.name,
+          browser: record.browser,
+          runs: record.runs.length,
+          flakeRate: flakeRate(record),
+          quarantined: record.quarantined,
+          quarantinedAt: record.quarantinedAt,
+        })),
+        reset: removed,
+      });
+    } catch (error: any) {
+      return createErrorResponse(`Failed to read flake history: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,302 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+/**
+ * Test Reporters - Serialise parallel and cross-browser results as JUnit XML, TAP, JSON and Markdown for CI
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { isSuiteFailure, ParallelTestResults, TestResult } from './executor.js';
+
+export type ReporterFormat = 'junit' | 'tap' | 'json' | 'markdown';
+
+/**
+ * Output path per reporter; only the formats given are written
+ */
+export type ReporterPaths = Partial<Record<ReporterFormat, string>>;
+
+/**
+ * Run details shown alongside the results
+ */
+export interface ReportMetadata {
+  /** Suite title, e.g. the cross-browser test name */
+  title: string;
+  shardIndex?: number;
+  shardTotal?: number;
+}
+
+export const REPORTER_FORMATS: ReporterFormat[] = ['junit', 'tap', 'json', 'markdown'];
+
+function escapeXml(value: string): string {
+  return value
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function browserOf(result: TestResult): string {
+  return result.browserType || 'chromium';
+}
+
+/**
+ * Retry details of a flaky or retried result
+ */
+function attemptLines(result: TestResult): string[] {
+  return (result.attemptErrors ?? []).map((error, index) => `Attempt ${index + 1} failed: ${error}`);
+}
+
+/**
+ * Steps of a result as plain text lines
+ */
+function stepLines(result: TestResult): string[] {
+  return (result.steps ?? []).flatMap(step => [
+    `${step.passed ? '✓' : '✗'} ${step.step}. ${step.tool} (${step.duration}ms)`,
+    ...(step.passed || !step.output ? [] : step.output.split('\n').map(line => `    ${line}`)),
+  ]);
+}
+
+/**
+ * JUnit XML: one testsuite per browser, one testcase per scenario; failure
+ * screenshots and traces are listed as [[ATTACHMENT|path]] for Jenkins and GitLab.
+ * Quarantined failures are reported as skipped so they do not fail the build
+ */
+export function toJUnitXml(stats: ParallelTestResults, metadata: ReportMetadata): string {
+  const byBrowser = new Map<string, TestResult[]>();
+  stats.results.forEach(result => byBrowser.set(browserOf(result), [...(byBrowser.get(browserOf(result)) ?? []), result]));
+
+  const failures = (results: TestResult[]) => results.filter(isSuiteFailure).length;
+  const skipped = (results: TestResult[]) => results.filter(r => r.status === 'skipped' || (r.quarantined && r.status !== 'passed' && r.status !== 'flaky')).length;
+  const timestamp = new Date(Date.now() - stats.duration).toISOString().replace(/\.\d+Z$/, '');
+
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="${escapeXml(metadata.title)}" tests="${stats.total}" failures="${failures(stats.results)}" errors="0" skipped="${skipped(stats.results)}" time="${seconds(stats.duration)}">`,
+  ];
+
+  for (const [browser, results] of byBrowser) {
+    const time = results.reduce((sum, r) => sum + r.duration, 0);
+    lines.push(`  <testsuite name="${escapeXml(browser)}" tests="${results.length}" failures="${failures(results)}" errors="0" skipped="${skipped(results)}" time="${seconds(time)}" timestamp="${timestamp}">`);
+
+    if (metadata.shardIndex !== undefined && metadata.shardTotal !== undefined) {
+      lines.push(`    <properties>`);
+      lines.push(`      <property name="shard" value="${metadata.shardIndex + 1}/${metadata.shardTotal}"/>`);
+      lines.push(`    </properties>`);
+    }
+
+    for (const result of results) {
+      lines.push(`    <testcase name="${escapeXml(result.name)}" classname="${escapeXml(`${metadata.title}.${browser}`)}" time="${seconds(result.duration)}">`);
+
+      if (result.status === 'skipped') {
+        lines.push(`      <skipped/>`);
+      } else if (isSuiteFailure(result)) {
+        lines.push(`      <failure message="${escapeXml(result.error || result.status)}" type="${result.status}">${escapeXml(stepLines(result).join('\n'))}</failure>`);
+      } else if (result.status === 'failed' || result.status === 'timeout') {
+        lines.push(`      <skipped message="${escapeXml(`Quarantined: ${result.error || result.status}`)}"/>`);
+      }
+
+      const out = [
+        ...(result.status === 'flaky' ? [`Flaky: passed on attempt ${result.attempts}`] : []),
+        ...attemptLines(result),
+        ...stepLines(result),
+        ...(result.screenshot ? [`[[ATTACHMENT|${path.resolve(result.screenshot)}]]`] : []),
+        ...(result.trace ? [`[[ATTACHMENT|${path.resolve(result.trace)}]]`] : []),
+      ];
+      if (out.length > 0) {
+        lines.push(`      <system-out>${escapeXml(out.join('\n'))}</system-out>`);
+      }
+      lines.push(`    </testcase>`);
+    }
+
+    lines.push(`  </testsuite>`);
+  }
+
+  lines.push(`</testsuites>`);
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * TAP version 13 with a YAML diagnostic block for failures
+ */
+export function toTap(stats: ParallelTestResults, metadata: ReportMetadata): string {
+  const yamlString = (value: string) => JSON.stringify(value);
+  const lines = [`TAP version 13`, `1..${stats.results.length}`, `# ${metadata.title}`];
+
+  stats.results.forEach((result, index) => {
+    const name = `${result.name} [${browserOf(result)}]`;
+    if (result.status === 'skipped') {
+      lines.push(`ok ${index + 1} - ${name} # SKIP`);
+      return;
+    }
+    if (result.status === 'passed') {
+      lines.push(`ok ${index + 1} - ${name} # time=${result.duration}ms`);
+      return;
+    }
+    if (result.status === 'flaky') {
+      lines.push(`ok ${index + 1} - ${name} # time=${result.duration}ms, flaky: passed on attempt ${result.attempts}`);
+      lines.push(`  ---`);
+      lines.push(`  attempts: ${result.attempts}`);
+      lines.push(`  errors:`);
+      (result.attemptErrors ?? []).forEach(error => lines.push(`    - ${yamlString(error)}`));
+      lines.push(`  ...`);
+      return;
+    }
+
+    // TODO tests do not count as failures, which is what quarantine means
+    lines.push(`not ok ${index + 1} - ${name} # ${result.quarantined ? 'TODO quarantined' : `time=${result.duration}ms`}`);
+    lines.push(`  ---`);
+    lines.push(`  message: ${yamlString(result.error || result.status)}`);
+    lines.push(`  severity: ${result.status === 'timeout' ? 'timeout' : 'fail'}`);
+    lines.push(`  browser: ${browserOf(result)}`);
+    lines.push(`  duration_ms: ${result.duration}`);
+    if ((result.attempts ?? 1) > 1) {
+      lines.push(`  attempts: ${result.attempts}`);
+    }
+    if (result.steps?.length) {
+      lines.push(`  steps:`);
+      result.steps.forEach(step => lines.push(`    - ${yamlString(`${step.passed ? 'ok' : 'not ok'} ${step.step}. ${step.tool} (${step.duration}ms)`)}`));
+    }
+    if (result.screenshot) {
+      lines.push(`  screenshot: ${yamlString(result.screenshot)}`);
+    }
+    if (result.trace) {
+      lines.push(`  trace: ${yamlString(result.trace)}`);
+    }
+    lines.push(`  ...`);
+  });
+
+  lines.push(
+    `# pass ${stats.passed + stats.flaky}`,
+    `# fail ${stats.results.filter(isSuiteFailure).length}`,
+    `# skip ${stats.skipped}`,
+    `# flaky ${stats.flaky}`,
+    `# quarantined ${stats.quarantined}`
+  );
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * The full results as JSON
+ */
+export function toJson(stats: ParallelTestResults, metadata: ReportMetadata): string {
+  return JSON.stringify({
+    title: metadata.title,
+    generatedAt: new Date().toISOString(),
+    ...(metadata.shardIndex !== undefined && metadata.shardTotal !== undefined
+      ? { shard: { index: metadata.shardIndex, total: metadata.shardTotal } }
+      : {}),
+    ...stats,
+  }, null, 2) + '\n';
+}
+
+/**
+ * Markdown summary table with failure details, e.g. for a CI job summary or MR comment
+ */
+export function toMarkdown(stats: ParallelTestResults, metadata: ReportMetadata): string {
+  const icon = (status: TestResult['status']) =>
+    status === 'passed' ? '✅' : status === 'flaky' ? '🔁' : status === 'failed' ? '❌' : status === 'timeout' ? '⏱️' : '⏭️';
+  const cell = (value: string) => value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+  const lines = [
+    `## ${metadata.title}`,
+    '',
+    ...(metadata.shardIndex !== undefined && metadata.shardTotal !== undefined ? [`Shard ${metadata.shardIndex + 1}/${metadata.shardTotal}`, ''] : []),
+    `**${stats.passed}/${stats.total} passed** · ${stats.failed} failed · ${stats.timeout} timed out · ${stats.skipped} skipped · ` +
+      `${stats.flaky} flaky · ${stats.quarantined} quarantined · ${(stats.duration / 1000).toFixed(2)}s`,
+    '',
+    '| | Test | Browser | Duration | Steps | Attempts |',
+    '|---|---|---|---|---|---|',
+    ...stats.results.map(result => {
+      const steps = result.steps ?? [];
+      const name = `${cell(result.name)}${result.quarantined ? ' 🚧 quarantined' : ''}`;
+      return `| ${icon(result.status)} | ${name} | ${browserOf(result)} | ${(result.duration / 1000).toFixed(2)}s | ${steps.filter(s => s.passed).length}/${steps.length} | ${result.attempts ?? 1} |`;
+    }),
+  ];
+
+  const flaky = stats.results.filter(result => result.status === 'flaky');
+  if (flaky.length > 0) {
+    lines.push('', '### Flaky');
+    lines.push('', ...flaky.map(result => `- 🔁 ${result.name} (${browserOf(result)}): passed on attempt ${result.attempts}; ` +
+      (result.attemptErrors ?? []).map(error => `\`${error.split('\n')[0]}\``).join(', ')));
+  }
+
+  const failures = stats.results.filter(result => result.status === 'failed' || result.status === 'timeout');
+  if (failures.length > 0) {
+    lines.push('', '### Failures');
+    for (const result of failures) {
+      lines.push('', `#### ${icon(result.status)} ${result.name} (${browserOf(result)})${result.quarantined ? ' 🚧 quarantined' : ''}`, '');
+      if (result.error) {
+        lines.push('```', result.error, '```');
+      }
+      if (result.steps?.length) {
+        lines.push('', ...result.steps.map(step => `- ${step.passed ? '✓' : '✗'} ${step.step}. \`${step.tool}\` (${step.duration}ms)`));
+      }
+      const attachments = [
+        ...(result.screenshot ? [`- Screenshot: \`${result.screenshot}\``] : []),
+        ...(result.trace ? [`- Trace: \`${result.trace}\``] : []),
+      ];
+      if (attachments.length > 0) {
+        lines.push('', ...attachments);
+      }
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+const SERIALIZERS: Record<ReporterFormat, (stats: ParallelTestResults, metadata: ReportMetadata) => string> = {
+  junit: toJUnitXml,
+  tap: toTap,
+  json: toJson,
+  markdown: toMarkdown,
+};
+
+/**
+ * Reject unknown reporter names before a run starts rather than after it
+ */
+export function validateReporters(reporters: ReporterPaths): void {
+  const unknown = Object.keys(reporters).filter(format => !REPORTER_FORMATS.includes(format as ReporterFormat));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown reporter: ${unknown.join(', ')}. Supported: ${REPORTER_FORMATS.join(', ')}`);
+  }
+}
+
+/**
+ * Outcome of writing one report
+ */
+export interface WrittenReport {
+  format: ReporterFormat;
+  path: string;
+  /** Why the report could not be written; the other reports are still written */
+  error?: string;
+}
+
+/**
+ * Write each requested report to its path
+ * @returns Written (or failed) files by format
+ */
+export function writeReports(stats: ParallelTestResults, reporters: ReporterPaths, metadata: ReportMetadata): WrittenReport[] {
+  validateReporters(reporters);
+
+  return REPORTER_FORMATS
+    .filter(format => reporters[format])
+    .map(format => {
+      const outputPath = reporters[format]!;
+      try {
+        fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+        fs.writeFileSync(outputPath, SERIALIZERS[format](stats, metadata), 'utf-8');
+        return { format, path: outputPath };
+      } catch (error) {
+        return { format, path: outputPath, error: (error as Error).message };
+      }
+    });
+}
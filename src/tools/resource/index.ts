@@ -0,0 +1,115 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse, ToolHandler } from '../common/types.js';
+import { resourceManager, ResourceConfig } from '../../utils/resourceManager.js';
+import { sessionMetrics, formatSessionMetrics } from '../../utils/sessionMetrics.js';
+
+const LIMIT_KEYS: Array<keyof ResourceConfig> = [
+  'maxConcurrentBrowsers',
+  'maxSessionsPerUser',
+  'maxTotalSessions',
+  'sessionIdleTimeout',
+  'queueTimeout',
+  'maxQueueSize',
+  'memoryLimitMB',
+  'evictionMinIdleMs',
+];
+
+/**
+ * Tool for reporting current resource usage and queue state
+ */
+export class GetResourceUsageTool implements ToolHandler {
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    try {
+      const { sessionId, history = false, includeClosed = false } = args;
+
+      // Fresh sample of every live session, added to their history
+      await sessionMetrics.sampleAll();
+      const usage = resourceManager.getResourceUsage();
+      const config = resourceManager.getConfig();
+      const queue = resourceManager.getQueueStatus();
+      const clients = Object.entries(resourceManager.getSessionsByUser());
+
+      let sessions = sessionMetrics.list({ includeClosed: includeClosed || !!sessionId });
+      if (sessionId) {
+        sessions = sessions.filter(metrics => metrics.sessionId === sessionId);
+        if (sessions.length === 0) {
+          return createErrorResponse(`No metrics recorded for session '${sessionId}'`);
+        }
+      }
+
+      return createSuccessResponse([
+        `=== Resource Usage ===`,
+        `Active browsers: ${usage.activeBrowsers}/${config.maxConcurrentBrowsers}`,
+        `Active sessions: ${usage.activeSessions}/${config.maxTotalSessions}`,
+        `Queued requests: ${usage.queuedRequests}/${config.maxQueueSize}`,
+        `Memory: ${usage.memoryUsageMB}MB${config.memoryLimitMB ? ` / ${config.memoryLimitMB}MB` : ''} (server ${usage.nodeMemoryMB}MB, browsers ${usage.browserMemoryMB}MB in ${usage.browserProcesses} processes)`,
+        `CPU: ${usage.cpuUsagePercent}%`,
+        ...(sessions.length > 0 ? [
+          '',
+          'Sessions:',
+          ...sessions.flatMap(metrics => [
+            `  ${metrics.sessionId} (${metrics.browserType}${metrics.closed ? ', closed' : ''})`,
+            ...formatSessionMetrics(metrics, { history, indent: '    ' }),
+          ]),
+        ] : []),
+        ...(clients.length > 0 ? [
+          '',
+          'Sessions per client:',
+          ...clients.map(([clientId, count]) => `  ${clientId}: ${count}/${config.maxSessionsPerUser}`),
+        ] : []),
+        ...(queue.length > 0 ? [
+          '',
+          'Queue:',
+          ...queue.map((op, index) =>
+            `  ${index + 1}. ${op.id} (${op.type}${op.userId ? `, user: ${op.userId}` : ''}, waiting ${op.waitTimeMs}ms)`
+          ),
+        ] : []),
+      ], {
+        usage,
+        sessions: sessions.map(metrics => history ? metrics : { ...metrics, history: undefined }),
+      });
+
+    } catch (error) {
+      return createErrorResponse(`Failed to get resource usage: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Tool for updating resource limits at runtime
+ */
+export class UpdateResourceLimitsTool implements ToolHandler {
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    try {
+      const updates: Partial<ResourceConfig> = {};
+
+      for (const key of LIMIT_KEYS) {
+        if (args[key] === undefined) {
+          continue;
+        }
+        if (typeof args[key] !== 'number' || args[key] < 0) {
+          return createErrorResponse(`${key} must be a non-negative number`);
+        }
+        (updates as any)[key] = args[key];
+      }
+
+      if (Object.keys(updates).length === 0) {
+        return createErrorResponse(`No limits provided. Supported limits: ${LIMIT_KEYS.join(', ')}`);
+      }
+
+      resourceManager.updateConfig(updates);
+
+      return createSuccessResponse([
+        `Resource limits updated`,
+        ...Object.entries(updates).map(([key, value]) => `  ${key}: ${value}`),
+      ], { updated: updates, limits: resourceManager.getConfig() });
+
+    } catch (error) {
+      return createErrorResponse(`Failed to update resource limits: ${(error as Error).message}`);
+    }
+  }
+}
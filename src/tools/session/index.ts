@@ -5,6 +5,7 @@
 
 import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse, ToolHandler } from '../common/types.js';
 import { sessionManager, BrowserSettings } from '../../sessionManager.js';
+import { sessionMetrics, formatSessionMetrics } from '../../utils/sessionMetrics.js';
 
 /**
  * Tool for creating a new browser session
@@ -38,7 +39,7 @@ export class CreateSessionTool implements ToolHandler {
         settings.permissions = permissions;
       }
 
-      const id = await sessionManager.createSession(sessionId, settings);
+      const id = await sessionManager.createSession(sessionId, settings, context.admission);
 
       return createSuccessResponse([
         `Browser session created successfully`,
@@ -46,7 +47,12 @@ export class CreateSessionTool implements ToolHandler {
         `Browser: ${settings.browserType}`,
         `Headless: ${settings.headless}`,
         viewport ? `Viewport: ${viewport.width}x${viewport.height}` : '',
-      ].filter(Boolean));
+      ].filter(Boolean), {
+        sessionId: id,
+        browserType: settings.browserType,
+        headless: settings.headless,
+        ...(viewport ? { viewport } : {}),
+      });
 
     } catch (error) {
       return createErrorResponse(`Failed to create session: ${(error as Error).message}`);
@@ -63,7 +69,7 @@ export class ListSessionsTool implements ToolHandler {
       const sessions = sessionManager.listSessions();
 
       if (sessions.length === 0) {
-        return createSuccessResponse('No active sessions');
+        return createSuccessResponse('No active sessions', { sessions: [] });
       }
 
       const output = [
@@ -72,8 +78,9 @@ export class ListSessionsTool implements ToolHandler {
         ...sessions.map(session => {
           const idle = new Date().getTime() - session.lastAccessedAt.getTime();
           const idleMinutes = Math.floor(idle / 60000);
+          const active = session.id === sessionManager.getActiveSessionId() ? ' (active)' : '';
           return [
-            `Session ID: ${session.id}`,
+            `Session ID: ${session.id}${active}`,
             `  Browser: ${session.browserType}`,
             `  Current URL: ${session.pageUrl}`,
             `  Created: ${session.createdAt.toLocaleString()}`,
@@ -83,7 +90,16 @@ export class ListSessionsTool implements ToolHandler {
         }),
       ];
 
-      return createSuccessResponse(output);
+      return createSuccessResponse(output, {
+        sessions: sessions.map(session => ({
+          id: session.id,
+          browserType: session.browserType,
+          url: session.pageUrl,
+          active: session.id === sessionManager.getActiveSessionId(),
+          createdAt: session.createdAt.toISOString(),
+          lastAccessedAt: session.lastAccessedAt.toISOString(),
+        })),
+      });
 
     } catch (error) {
       return createErrorResponse(`Failed to list sessions: ${(error as Error).message}`);
@@ -135,15 +151,14 @@ export class SwitchSessionTool implements ToolHandler {
         return createErrorResponse(`Session '${sessionId}' not found`);
       }
 
-      // Update context to use this session
-      context.page = session.page;
-      context.browser = session.browser;
+      // Tool calls without a sessionId now run against this session
+      sessionManager.setActiveSession(sessionId);
 
       return createSuccessResponse([
         `Switched to session: ${sessionId}`,
         `Browser: ${session.browserType}`,
         `Current URL: ${session.page.url()}`,
-      ]);
+      ], { sessionId, browserType: session.browserType, url: session.page.url() });
 
     } catch (error) {
       return createErrorResponse(`Failed to switch session: ${(error as Error).message}`);
@@ -157,7 +172,7 @@ export class SwitchSessionTool implements ToolHandler {
 export class GetSessionInfoTool implements ToolHandler {
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
     try {
-      const { sessionId } = args;
+      const { sessionId, history = false } = args;
 
       if (!sessionId) {
         return createErrorResponse('sessionId parameter is required');
@@ -169,23 +184,46 @@ export class GetSessionInfoTool implements ToolHandler {
         return createErrorResponse(`Session '${sessionId}' not found`);
       }
 
+      // Fresh sample, added to the session's history
+      await sessionMetrics.sampleSession(session);
+      const metrics = sessionMetrics.get(sessionId);
+
       const idle = new Date().getTime() - session.lastAccessedAt.getTime();
       const idleMinutes = Math.floor(idle / 60000);
       const uptime = new Date().getTime() - session.createdAt.getTime();
       const uptimeMinutes = Math.floor(uptime / 60000);
 
+      const title = await session.page.title();
       return createSuccessResponse([
         `Session Information: ${sessionId}`,
         `Browser: ${session.browserType}`,
         `Current URL: ${session.page.url()}`,
-        `Page Title: ${await session.page.title()}`,
+        `Page Title: ${title}`,
         `Created: ${session.createdAt.toLocaleString()}`,
         `Uptime: ${uptimeMinutes} minutes`,
         `Last accessed: ${idleMinutes} minutes ago`,
         `Console logs: ${session.consoleLog.length} entries`,
         `Screenshots: ${session.screenshots.size}`,
         `Browser connected: ${session.browser.isConnected() ? 'Yes' : 'No'}`,
-      ]);
+        ...(metrics ? ['', 'Resources:', ...formatSessionMetrics(metrics, { history, indent: '  ' })] : []),
+      ], {
+        sessionId,
+        browserType: session.browserType,
+        url: session.page.url(),
+        title,
+        createdAt: session.createdAt.toISOString(),
+        lastAccessedAt: session.lastAccessedAt.toISOString(),
+        consoleLogs: session.consoleLog.length,
+        screenshots: session.screenshots.size,
+        connected: session.browser.isConnected(),
+        ...(metrics ? {
+          metrics: {
+            latest: metrics.latest,
+            growthMBPerMinute: metrics.growthMBPerMinute,
+            ...(history ? { history: metrics.history } : {}),
+          },
+        } : {}),
+      });
 
     } catch (error) {
       return createErrorResponse(`Failed to get session info: ${(error as Error).message}`);
@@ -208,10 +246,89 @@ export class CleanupIdleSessionsTool implements ToolHandler {
         `Cleanup complete`,
         `Sessions closed: ${cleanedCount}`,
         `Active sessions remaining: ${sessionManager.getSessionCount()}`,
-      ]);
+      ], { closed: cleanedCount, remaining: sessionManager.getSessionCount() });
 
     } catch (error) {
       return createErrorResponse(`Failed to cleanup sessions: ${(error as Error).message}`);
     }
   }
 }
+
+/**
+ * Tool for recovering a persisted session from disk
+ */
+export class RecoverSessionTool implements ToolHandler {
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    try {
+      const { sessionId } = args;
+
+      if (!sessionId) {
+        return createErrorResponse('sessionId parameter is required');
+      }
+
+      if (sessionManager.hasSession(sessionId)) {
+        return createErrorResponse(`Session '${sessionId}' is already active`);
+      }
+
+      const recoveredId = await sessionManager.recoverSession(sessionId, context.admission);
+
+      if (!recoveredId) {
+        return createErrorResponse(`Session '${sessionId}' could not be recovered`);
+      }
+
+      const session = sessionManager.getSession(recoveredId);
+
+      return createSuccessResponse([
+        `Session '${recoveredId}' recovered successfully`,
+        `Browser: ${session?.browserType}`,
+        `Current URL: ${session?.page.url()}`,
+      ], { sessionId: recoveredId, browserType: session?.browserType, url: session?.page.url() });
+
+    } catch (error) {
+      return createErrorResponse(`Failed to recover session: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Tool for recovering every persisted session from disk
+ */
+export class RecoverAllSessionsTool implements ToolHandler {
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    try {
+      const { recovered, failed } = await sessionManager.recoverAllSessions(context.admission);
+
+      return createSuccessResponse([
+        `Recovery complete`,
+        `Recovered: ${recovered.length}${recovered.length > 0 ? ` (${recovered.join(', ')})` : ''}`,
+        `Failed: ${failed.length}`,
+        ...failed.map(f => `  ${f.id}: ${f.error}`),
+      ], { recovered, failed });
+
+    } catch (error) {
+      return createErrorResponse(`Failed to recover sessions: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Tool for getting statistics about persisted sessions
+ */
+export class GetPersistenceStatsTool implements ToolHandler {
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    try {
+      const stats = await sessionManager.getPersistenceStatistics();
+
+      return createSuccessResponse([
+        `Persisted sessions: ${stats.total}`,
+        ...Object.entries(stats.byBrowserType).map(([type, count]) => `  ${type}: ${count}`),
+        `Oldest session: ${stats.oldestSession || 'N/A'}`,
+        `Newest session: ${stats.newestSession || 'N/A'}`,
+        `Total size: ${(stats.totalSizeBytes / 1024).toFixed(1)}KB`,
+      ], stats);
+
+    } catch (error) {
+      return createErrorResponse(`Failed to get persistence stats: ${(error as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+/**
+ * Artifact Store - Tracks files produced by tools so they can be served as MCP resources
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type ArtifactScheme = 'video' | 'baseline' | 'diff' | 'coverage' | 'codegen' | 'pdf' | 'download' | 'report' | 'trace' | 'failure';
+
+export interface Artifact {
+  uri: string;
+  scheme: ArtifactScheme;
+  name: string;
+  filePath: string;
+  mimeType: string;
+  description?: string;
+  createdAt: Date;
+}
+
+export interface RegisterArtifactOptions {
+  scheme: ArtifactScheme;
+  filePath: string;
+  /** Resource name, defaults to the file name */
+  name?: string;
+  mimeType?: string;
+  description?: string;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webm': 'video/webm',
+  '.mp4': 'video/mp4',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.json': 'application/json',
+  '.html': 'text/html',
+  '.xml': 'application/xml',
+  '.txt': 'text/plain',
+  '.info': 'text/plain',
+  '.lcov': 'text/plain',
+  '.md': 'text/markdown',
+  '.ts': 'text/x-typescript',
+  '.js': 'text/javascript',
+  '.py': 'text/x-python',
+  '.java': 'text/x-java',
+  '.css': 'text/css',
+};
+
+/**
+ * Guess the MIME type of a file from its extension
+ */
+export function getMimeType(filePath: string): string {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream';
+}
+
+function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith('text/') || mimeType === 'application/json' || mimeType === 'application/xml';
+}
+
+/**
+ * Artifact Store - Registry of tool output files exposed as `<scheme>://<name>` resources
+ */
+export class ArtifactStore {
+  private artifacts = new Map<string, Artifact>();
+  private listeners = new Set<() => void>();
+
+  /**
+   * Register a file as an artifact and notify listeners
+   * Registering the same file again refreshes its entry instead of adding a new one
+   */
+  register(options: RegisterArtifactOptions): Artifact {
+    const filePath = path.resolve(options.filePath);
+    const baseName = options.name ?? path.basename(filePath);
+
+    // Keep distinct files with the same name apart
+    let name = baseName;
+    for (let suffix = 2; ; suffix++) {
+      const existing = this.artifacts.get(`${options.scheme}://${name}`);
+      if (!existing || existing.filePath === filePath) {
+        break;
+      }
+      const ext = path.extname(baseName);
+      name = `${baseName.slice(0, baseName.length - ext.length)}-${suffix}${ext}`;
+    }
+
+    const artifact: Artifact = {
+      uri: `${options.scheme}://${name}`,
+      scheme: options.scheme,
+      name,
+      filePath,
+      mimeType: options.mimeType ?? getMimeType(filePath),
+      description: options.description,
+      createdAt: new Date(),
+    };
+
+    this.artifacts.set(artifact.uri, artifact);
+    this.notifyListeners();
+    return artifact;
+  }
+
+  /**
+   * Get an artifact by URI
+   */
+  get(uri: string): Artifact | undefined {
+    return this.artifacts.get(uri);
+  }
+
+  /**
+   * List artifacts, optionally limited to one scheme, oldest first
+   */
+  list(scheme?: ArtifactScheme): Artifact[] {
+    return Array.from(this.artifacts.values()).filter(artifact => !scheme || artifact.scheme === scheme);
+  }
+
+  /**
+   * Remove an artifact from the store (the file is left on disk)
+   */
+  remove(uri: string): boolean {
+    const removed = this.artifacts.delete(uri);
+    if (removed) {
+      this.notifyListeners();
+    }
+    return removed;
+  }
+
+  /**
+   * Read an artifact's file as MCP resource contents (text or base64 blob)
+   */
+  async read(uri: string): Promise<{ uri: string; mimeType: string; text?: string; blob?: string } | undefined> {
+    const artifact = this.artifacts.get(uri);
+    if (!artifact) {
+      return undefined;
+    }
+
+    let data: Buffer;
+    try {
+      data = await fs.promises.readFile(artifact.filePath);
+    } catch (error) {
+      throw new Error(`Artifact file is no longer available: ${artifact.filePath}`);
+    }
+
+    return isTextMimeType(artifact.mimeType)
+      ? { uri, mimeType: artifact.mimeType, text: data.toString('utf-8') }
+      : { uri, mimeType: artifact.mimeType, blob: data.toString('base64') };
+  }
+
+  /**
+   * Subscribe to artifact list changes
+   * @returns Function that removes the listener
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notifyListeners(): void {
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Artifact listener failed:', error);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const artifactStore = new ArtifactStore();
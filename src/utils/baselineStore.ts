@@ -0,0 +1,362 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+/**
+ * Baseline Store - Versioned visual baselines keyed by test name, browser, viewport and device
+ * Keeps an index of versions (git SHA, date, approver) and pending diffs awaiting review
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { createHash } from 'crypto';
+import { layoutSidecarPath } from './comparisonModes.js';
+
+const INDEX_FILE = 'baselines.json';
+const CURRENT_FILE = 'current.png';
+const DIFF_FILE = 'diff.png';
+
+/**
+ * What a baseline is captured for
+ */
+export interface BaselineTarget {
+  testName: string;
+  browser: string;
+  viewport: { width: number; height: number };
+  /** Emulated device name, or 'desktop' */
+  device: string;
+}
+
+/**
+ * One accepted version of a baseline
+ */
+export interface BaselineVersion {
+  version: number;
+  /** Image path relative to the store root */
+  file: string;
+  createdAt: string;
+  source: 'created' | 'first-run' | 'approved';
+  gitSha?: string;
+  approver?: string;
+  note?: string;
+}
+
+/**
+ * A failed comparison whose current image awaits approval or rejection
+ */
+export interface PendingBaselineDiff {
+  /** Paths relative to the store root */
+  currentFile: string;
+  diffFile?: string;
+  diffPercentage: number;
+  threshold: number;
+  url?: string;
+  gitSha?: string;
+  capturedAt: string;
+}
+
+/**
+ * Everything the store knows about one baseline
+ */
+export interface BaselineRecord extends BaselineTarget {
+  key: string;
+  activeVersion: number;
+  versions: BaselineVersion[];
+  pending?: PendingBaselineDiff;
+}
+
+/**
+ * Filter for finding baselines; unset fields match everything
+ */
+export interface BaselineFilter {
+  key?: string;
+  testName?: string;
+  browser?: string;
+  device?: string;
+  pendingOnly?: boolean;
+}
+
+interface BaselineIndex {
+  baselines: Record<string, BaselineRecord>;
+}
+
+/**
+ * Make a name safe to use as a directory name
+ */
+function slug(name: string): string {
+  return name.replace(/[^a-zA-Z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'unnamed';
+}
+
+/**
+ * Commit SHA of the working directory, if it is a git checkout
+ */
+export function currentGitSha(): string | undefined {
+  try {
+    return execFileSync('git', ['rev-parse', 'HEAD'], { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'], timeout: 5000 }).trim();
+  } catch {
+    return undefined;
+  }
+}
+
+export class BaselineStore {
+  private rootDir: string;
+
+  constructor(rootDir: string = process.env.PLAYWRIGHT_BASELINE_DIR || './baselines') {
+    this.rootDir = rootDir;
+  }
+
+  /**
+   * Directory holding the store
+   */
+  getRootDir(): string {
+    return this.rootDir;
+  }
+
+  /**
+   * Key identifying a baseline, e.g. "checkout@chromium-1280x720-desktop"
+   */
+  static keyFor(target: BaselineTarget): string {
+    return `${target.testName}@${target.browser}-${target.viewport.width}x${target.viewport.height}-${target.device}`;
+  }
+
+  /**
+   * Get the record for a target, if a baseline has been stored for it
+   */
+  getRecord(target: BaselineTarget): BaselineRecord | undefined {
+    return this.readIndex().baselines[BaselineStore.keyFor(target)];
+  }
+
+  /**
+   * Find records matching a filter
+   */
+  find(filter: BaselineFilter = {}): BaselineRecord[] {
+    return Object.values(this.readIndex().baselines).filter(record =>
+      (!filter.key || record.key === filter.key) &&
+      (!filter.testName || record.testName === filter.testName) &&
+      (!filter.browser || record.browser === filter.browser) &&
+      (!filter.device || record.device === filter.device) &&
+      (!filter.pendingOnly || !!record.pending)
+    );
+  }
+
+  /**
+   * Absolute path of a path stored relative to the root
+   */
+  resolve(relativePath: string): string {
+    return path.join(this.rootDir, relativePath);
+  }
+
+  /**
+   * Absolute path of the active baseline image
+   */
+  activeBaselinePath(record: BaselineRecord): string {
+    const version = record.versions.find(v => v.version === record.activeVersion);
+    if (!version) {
+      throw new Error(`Baseline '${record.key}' has no version ${record.activeVersion}`);
+    }
+    return this.resolve(version.file);
+  }
+
+  /**
+   * Absolute paths where a comparison writes its current and diff images
+   */
+  workingPaths(target: BaselineTarget): { currentPath: string; diffPath: string } {
+    const dir = this.resolve(this.targetDir(target));
+    fs.mkdirSync(dir, { recursive: true });
+    return {
+      currentPath: path.join(dir, CURRENT_FILE),
+      diffPath: path.join(dir, DIFF_FILE),
+    };
+  }
+
+  /**
+   * Store an image as the next version of a baseline and make it active
+   * @param target Baseline to add to
+   * @param imagePath Image to copy into the store
+   * @param meta How the version came about and who accepted it
+   */
+  addVersion(
+    target: BaselineTarget,
+    imagePath: string,
+    meta: Pick<BaselineVersion, 'source' | 'approver' | 'note'>
+  ): { record: BaselineRecord; version: BaselineVersion } {
+    const index = this.readIndex();
+    const key = BaselineStore.keyFor(target);
+    const record: BaselineRecord = index.baselines[key] ?? {
+      key,
+      testName: target.testName,
+      browser: target.browser,
+      viewport: target.viewport,
+      device: target.device,
+      activeVersion: 0,
+      versions: [],
+    };
+
+    const number = record.versions.reduce((max, v) => Math.max(max, v.version), 0) + 1;
+    const file = path.join(this.targetDir(target), `v${number}.png`);
+    fs.mkdirSync(path.dirname(this.resolve(file)), { recursive: true });
+    fs.copyFileSync(imagePath, this.resolve(file));
+    if (fs.existsSync(layoutSidecarPath(imagePath))) {
+      fs.copyFileSync(layoutSidecarPath(imagePath), layoutSidecarPath(this.resolve(file)));
+    }
+
+    const version: BaselineVersion = {
+      version: number,
+      file,
+      createdAt: new Date().toISOString(),
+      source: meta.source,
+      gitSha: currentGitSha(),
+      ...(meta.approver ? { approver: meta.approver } : {}),
+      ...(meta.note ? { note: meta.note } : {}),
+    };
+    record.versions.push(version);
+    record.activeVersion = number;
+    this.removePendingFiles(record);
+    delete record.pending;
+
+    index.baselines[key] = record;
+    this.writeIndex(index);
+    return { record, version };
+  }
+
+  /**
+   * Record a failed comparison for later review
+   */
+  setPending(target: BaselineTarget, pending: Omit<PendingBaselineDiff, 'capturedAt' | 'gitSha'>): void {
+    const index = this.readIndex();
+    const record = index.baselines[BaselineStore.keyFor(target)];
+    if (!record) {
+      throw new Error(`No baseline stored for '${BaselineStore.keyFor(target)}'`);
+    }
+
+    record.pending = { ...pending, gitSha: currentGitSha(), capturedAt: new Date().toISOString() };
+    this.writeIndex(index);
+  }
+
+  /**
+   * Drop the pending diff of a baseline and delete its current/diff images
+   * @returns Whether there was anything pending
+   */
+  clearPending(key: string): boolean {
+    const index = this.readIndex();
+    const record = index.baselines[key];
+    if (!record) {
+      throw new Error(`Baseline '${key}' not found`);
+    }
+
+    const hadPending = !!record.pending;
+    this.removePendingFiles(record);
+    delete record.pending;
+    this.writeIndex(index);
+    return hadPending;
+  }
+
+  /**
+   * Accept the pending current image of a baseline as its new version
+   */
+  approve(key: string, approver?: string, note?: string): BaselineVersion {
+    const record = this.readIndex().baselines[key];
+    if (!record) {
+      throw new Error(`Baseline '${key}' not found`);
+    }
+    if (!record.pending) {
+      throw new Error(`Baseline '${key}' has no pending diff to approve`);
+    }
+
+    const currentPath = this.resolve(record.pending.currentFile);
+    if (!fs.existsSync(currentPath)) {
+      throw new Error(`Pending image of '${key}' is missing: ${currentPath}`);
+    }
+    return this.addVersion(record, currentPath, { source: 'approved', approver, note }).version;
+  }
+
+  /**
+   * Delete files in the store that no record references, and old versions beyond keepVersions
+   * @param keepVersions Versions to keep per baseline, counting the active one (default: all)
+   * @param dryRun Report what would be removed without deleting
+   * @returns Absolute paths of removed files
+   */
+  prune(keepVersions?: number, dryRun = false): string[] {
+    const index = this.readIndex();
+    const referenced = new Set<string>([path.resolve(this.rootDir, INDEX_FILE)]);
+
+    for (const record of Object.values(index.baselines)) {
+      const older = record.versions
+        .filter(v => v.version !== record.activeVersion)
+        .sort((a, b) => b.version - a.version);
+      const dropped = keepVersions !== undefined && keepVersions > 0 ? older.slice(keepVersions - 1) : [];
+      const kept = record.versions.filter(v => !dropped.includes(v));
+
+      kept.forEach(v => {
+        referenced.add(path.resolve(this.resolve(v.file)));
+        referenced.add(path.resolve(layoutSidecarPath(this.resolve(v.file))));
+      });
+      if (record.pending) {
+        referenced.add(path.resolve(this.resolve(record.pending.currentFile)));
+        referenced.add(path.resolve(layoutSidecarPath(this.resolve(record.pending.currentFile))));
+        if (record.pending.diffFile) {
+          referenced.add(path.resolve(this.resolve(record.pending.diffFile)));
+        }
+      }
+      if (!dryRun) {
+        record.versions = kept;
+      }
+    }
+
+    const removed = this.listFiles(this.rootDir).filter(file => !referenced.has(path.resolve(file)));
+    if (!dryRun) {
+      removed.forEach(file => fs.unlinkSync(file));
+      this.writeIndex(index);
+    }
+    return removed;
+  }
+
+  /**
+   * Store-relative directory of a target's images
+   * The hash of the key keeps targets apart whose names only differ in characters slug() replaces
+   */
+  private targetDir(target: BaselineTarget): string {
+    const hash = createHash('sha1').update(BaselineStore.keyFor(target)).digest('hex').slice(0, 8);
+    return path.join(
+      slug(target.testName),
+      `${slug(target.browser)}-${target.viewport.width}x${target.viewport.height}-${slug(target.device)}-${hash}`
+    );
+  }
+
+  private removePendingFiles(record: BaselineRecord): void {
+    const { currentPath, diffPath } = this.workingPaths(record);
+    for (const file of [currentPath, layoutSidecarPath(currentPath), diffPath]) {
+      if (fs.existsSync(file)) {
+        fs.unlinkSync(file);
+      }
+    }
+  }
+
+  private listFiles(dir: string): string[] {
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+    return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+      const fullPath = path.join(dir, entry.name);
+      return entry.isDirectory() ? this.listFiles(fullPath) : [fullPath];
+    });
+  }
+
+  private readIndex(): BaselineIndex {
+    const indexPath = path.join(this.rootDir, INDEX_FILE);
+    if (!fs.existsSync(indexPath)) {
+      return { baselines: {} };
+    }
+    return JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
+  }
+
+  private writeIndex(index: BaselineIndex): void {
+    fs.mkdirSync(this.rootDir, { recursive: true });
+    fs.writeFileSync(path.join(this.rootDir, INDEX_FILE), JSON.stringify(index, null, 2));
+  }
+}
+
+// Export singleton instance
+export const baselineStore = new BaselineStore();
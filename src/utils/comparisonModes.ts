@@ -0,0 +1,578 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+/**
+ * Comparison Modes - Image and layout comparison algorithms for visual regression
+ * pixel (pixelmatch), ssim (structural similarity), phash (perceptual hash),
+ * tolerance (per-channel tolerance with anti-alias detection) and layout (element bounding boxes)
+ */
+
+import * as fs from 'fs';
+import type { Page } from 'playwright';
+import { PNG } from 'pngjs';
+import pixelmatch from 'pixelmatch';
+
+export type ComparisonMode = 'pixel' | 'ssim' | 'phash' | 'tolerance' | 'layout';
+
+export const COMPARISON_MODES: ComparisonMode[] = ['pixel', 'ssim', 'phash', 'tolerance', 'layout'];
+
+// Minimum score to pass for the score-based modes
+const DEFAULT_MIN_SCORE: Record<'ssim' | 'phash' | 'layout', number> = {
+  ssim: 0.98,
+  phash: 0.95,
+  layout: 1,
+};
+
+const SSIM_WINDOW = 8;
+const SSIM_STEP = 4;
+const MAX_LAYOUT_ELEMENTS = 5000;
+
+/**
+ * Settings shared by the comparison modes; each mode reads the ones it needs
+ */
+export interface ComparisonOptions {
+  /** pixel/tolerance: maximum differing pixels as a 0-1 ratio (pixel also uses it as pixelmatch sensitivity) */
+  threshold?: number;
+  /** ssim/phash/layout: minimum similarity score (0-1) to pass */
+  minScore?: number;
+  /** tolerance: per-channel difference (0-255) that still counts as equal */
+  channelTolerance?: number;
+  /** tolerance: ignore differences caused by anti-aliasing */
+  detectAntialiasing?: boolean;
+  /** layout: pixels an element may move or resize before it counts as changed */
+  layoutTolerance?: number;
+  /** pixel: extra pixelmatch options */
+  pixelmatchOptions?: Record<string, unknown>;
+}
+
+/**
+ * Outcome of a comparison in any mode
+ */
+export interface ComparisonResult {
+  mode: ComparisonMode;
+  passed: boolean;
+  /** Similarity from 0 (different) to 1 (identical) */
+  score: number;
+  /** Name of the measure behind the score */
+  metric: string;
+  /** Score or percentage the comparison had to meet, for reporting */
+  requirement: string;
+  diffPixels?: number;
+  totalPixels?: number;
+  diffPercentage: number;
+  diffImage?: PNG;
+  details: string[];
+}
+
+/**
+ * Bounding box of an element captured for layout comparison
+ */
+export interface LayoutBox {
+  /** Structural path, e.g. "#main>div:nth-of-type(2)>span" */
+  path: string;
+  tag: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Path of the layout snapshot stored beside a screenshot
+ */
+export function layoutSidecarPath(imagePath: string): string {
+  return imagePath.replace(/\.png$/i, '') + '.layout.json';
+}
+
+/**
+ * Read a layout snapshot, or undefined if there is none
+ */
+export function readLayout(filePath: string): LayoutBox[] | undefined {
+  return fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf-8')) : undefined;
+}
+
+/**
+ * Write a layout snapshot
+ */
+export function writeLayout(filePath: string, layout: LayoutBox[]): void {
+  fs.writeFileSync(filePath, JSON.stringify(layout));
+}
+
+/**
+ * Capture the bounding boxes of the visible elements of a page (or of one element's subtree)
+ * @param page Page to capture
+ * @param selector Root element to capture instead of the body
+ */
+export async function captureLayout(page: Page, selector?: string): Promise<LayoutBox[]> {
+  return await page.evaluate(({ rootSelector, maxElements }) => {
+    const root = rootSelector ? document.querySelector(rootSelector) : document.body;
+    if (!root) {
+      throw new Error(`Element not found: ${rootSelector}`);
+    }
+
+    const pathOf = (element: Element): string => {
+      const parts: string[] = [];
+      let node: Element | null = element;
+      while (node && node !== document.body && node !== document.documentElement) {
+        if (node.id) {
+          parts.unshift(`#${node.id}`);
+          break;
+        }
+        const tag = node.tagName.toLowerCase();
+        const parent: Element | null = node.parentElement;
+        const sameTag = parent ? Array.from(parent.children).filter(child => child.tagName === node!.tagName) : [];
+        parts.unshift(sameTag.length > 1 ? `${tag}:nth-of-type(${sameTag.indexOf(node) + 1})` : tag);
+        node = parent;
+      }
+      return parts.join('>') || 'body';
+    };
+
+    const boxes: LayoutBox[] = [];
+    for (const element of [root, ...Array.from(root.querySelectorAll('*'))]) {
+      if (boxes.length >= maxElements) {
+        break;
+      }
+      const rect = element.getBoundingClientRect();
+      if (rect.width === 0 && rect.height === 0) {
+        continue;
+      }
+      const style = window.getComputedStyle(element);
+      if (style.visibility === 'hidden' || style.display === 'none') {
+        continue;
+      }
+      boxes.push({
+        path: pathOf(element),
+        tag: element.tagName.toLowerCase(),
+        x: Math.round(rect.left + window.scrollX),
+        y: Math.round(rect.top + window.scrollY),
+        width: Math.round(rect.width),
+        height: Math.round(rect.height),
+      });
+    }
+    return boxes;
+  }, { rootSelector: selector, maxElements: MAX_LAYOUT_ELEMENTS });
+}
+
+/**
+ * Grayscale luminance of every pixel
+ */
+function luminance(image: PNG): Float64Array {
+  const values = new Float64Array(image.width * image.height);
+  for (let i = 0; i < values.length; i++) {
+    values[i] = 0.299 * image.data[i * 4] + 0.587 * image.data[i * 4 + 1] + 0.114 * image.data[i * 4 + 2];
+  }
+  return values;
+}
+
+/**
+ * Copy of an image washed out to light gray, as a backdrop for highlighting differences
+ */
+function fadedCopy(image: PNG): PNG {
+  const faded = new PNG({ width: image.width, height: image.height });
+  const gray = luminance(image);
+  for (let i = 0; i < gray.length; i++) {
+    const value = 255 - (255 - gray[i]) * 0.2;
+    faded.data[i * 4] = faded.data[i * 4 + 1] = faded.data[i * 4 + 2] = value;
+    faded.data[i * 4 + 3] = 255;
+  }
+  return faded;
+}
+
+function paintPixel(image: PNG, index: number, [r, g, b]: [number, number, number]): void {
+  image.data[index * 4] = r;
+  image.data[index * 4 + 1] = g;
+  image.data[index * 4 + 2] = b;
+  image.data[index * 4 + 3] = 255;
+}
+
+function comparePixel(baseline: PNG, current: PNG, options: ComparisonOptions): ComparisonResult {
+  const { width, height } = baseline;
+  const threshold = options.threshold ?? 0.1;
+  const diffImage = new PNG({ width, height });
+  const diffPixels = pixelmatch(baseline.data, current.data, diffImage.data, width, height, {
+    threshold,
+    ...(options.pixelmatchOptions || {}),
+  });
+
+  const totalPixels = width * height;
+  const diffPercentage = (diffPixels / totalPixels) * 100;
+  return {
+    mode: 'pixel',
+    passed: diffPercentage <= threshold * 100,
+    score: 1 - diffPixels / totalPixels,
+    metric: 'matching pixels',
+    requirement: `≤${threshold * 100}% different`,
+    diffPixels,
+    totalPixels,
+    diffPercentage,
+    diffImage,
+    details: [],
+  };
+}
+
+/**
+ * Mean structural similarity over 8x8 windows of the luminance channel
+ */
+function compareSsim(baseline: PNG, current: PNG, options: ComparisonOptions): ComparisonResult {
+  const { width, height } = baseline;
+  const minScore = options.minScore ?? DEFAULT_MIN_SCORE.ssim;
+  const a = luminance(baseline);
+  const b = luminance(current);
+  const c1 = (0.01 * 255) ** 2;
+  const c2 = (0.03 * 255) ** 2;
+
+  const windowWidth = Math.min(SSIM_WINDOW, width);
+  const windowHeight = Math.min(SSIM_WINDOW, height);
+  const flagged = new Uint8Array(width * height);
+  let total = 0;
+  let windows = 0;
+  let failedWindows = 0;
+
+  for (let y0 = 0; y0 + windowHeight <= height; y0 += SSIM_STEP) {
+    for (let x0 = 0; x0 + windowWidth <= width; x0 += SSIM_STEP) {
+      let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+      for (let y = y0; y < y0 + windowHeight; y++) {
+        for (let x = x0; x < x0 + windowWidth; x++) {
+          const va = a[y * width + x];
+          const vb = b[y * width + x];
+          sumA += va;
+          sumB += vb;
+          sumAA += va * va;
+          sumBB += vb * vb;
+          sumAB += va * vb;
+        }
+      }
+
+      const n = windowWidth * windowHeight;
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varA = sumAA / n - meanA * meanA;
+      const varB = sumBB / n - meanB * meanB;
+      const covariance = sumAB / n - meanA * meanB;
+      const ssim = ((2 * meanA * meanB + c1) * (2 * covariance + c2)) /
+        ((meanA * meanA + meanB * meanB + c1) * (varA + varB + c2));
+
+      total += ssim;
+      windows++;
+      if (ssim < minScore) {
+        failedWindows++;
+        for (let y = y0; y < y0 + windowHeight; y++) {
+          flagged.fill(1, y * width + x0, y * width + x0 + windowWidth);
+        }
+      }
+    }
+  }
+
+  const score = windows > 0 ? total / windows : 1;
+  const diffImage = fadedCopy(current);
+  let diffPixels = 0;
+  flagged.forEach((isFlagged, index) => {
+    if (isFlagged) {
+      diffPixels++;
+      paintPixel(diffImage, index, [255, 0, 0]);
+    }
+  });
+
+  const totalPixels = width * height;
+  return {
+    mode: 'ssim',
+    passed: score >= minScore,
+    score,
+    metric: 'SSIM',
+    requirement: `≥${minScore}`,
+    diffPixels,
+    totalPixels,
+    diffPercentage: (diffPixels / totalPixels) * 100,
+    diffImage,
+    details: [`Windows below ${minScore}: ${failedWindows} of ${windows}`],
+  };
+}
+
+/**
+ * 64-bit DCT perceptual hash
+ */
+function perceptualHash(image: PNG): bigint {
+  const size = 32;
+  const gray = luminance(image);
+  const small = new Float64Array(size * size);
+
+  // Box-average down to 32x32
+  for (let cy = 0; cy < size; cy++) {
+    for (let cx = 0; cx < size; cx++) {
+      const x0 = Math.floor((cx * image.width) / size);
+      const x1 = Math.max(x0 + 1, Math.floor(((cx + 1) * image.width) / size));
+      const y0 = Math.floor((cy * image.height) / size);
+      const y1 = Math.max(y0 + 1, Math.floor(((cy + 1) * image.height) / size));
+      let sum = 0;
+      let count = 0;
+      for (let y = y0; y < Math.min(y1, image.height); y++) {
+        for (let x = x0; x < Math.min(x1, image.width); x++) {
+          sum += gray[y * image.width + x];
+          count++;
+        }
+      }
+      small[cy * size + cx] = count > 0 ? sum / count : 0;
+    }
+  }
+
+  // Lowest 8x8 DCT frequencies
+  const coefficients: number[] = [];
+  for (let v = 0; v < 8; v++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+          sum += small[y * size + x] *
+            Math.cos(((2 * x + 1) * u * Math.PI) / (2 * size)) *
+            Math.cos(((2 * y + 1) * v * Math.PI) / (2 * size));
+        }
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  // The DC term is left out of the median: it only carries overall brightness. Symmetric layouts
+  // zero some coefficients, so values within rounding error of the median don't count as above it
+  const frequencies = coefficients.slice(1);
+  const median = [...frequencies].sort((p, q) => p - q)[31];
+  const epsilon = 1e-9 * Math.max(1, ...frequencies.map(Math.abs));
+  return coefficients.reduce((hash, value, index) => value > median + epsilon ? hash | (1n << BigInt(index)) : hash, 0n);
+}
+
+function comparePhash(baseline: PNG, current: PNG, options: ComparisonOptions): ComparisonResult {
+  const minScore = options.minScore ?? DEFAULT_MIN_SCORE.phash;
+  const baselineHash = perceptualHash(baseline);
+  const currentHash = perceptualHash(current);
+
+  let distance = 0;
+  for (let bits = baselineHash ^ currentHash; bits > 0n; bits >>= 1n) {
+    distance += Number(bits & 1n);
+  }
+  const score = 1 - distance / 64;
+
+  return {
+    mode: 'phash',
+    passed: score >= minScore,
+    score,
+    metric: 'pHash similarity',
+    requirement: `≥${minScore}`,
+    diffPercentage: (distance / 64) * 100,
+    details: [
+      `Hamming distance: ${distance} of 64 bits`,
+      `Hashes: ${baselineHash.toString(16).padStart(16, '0')} / ${currentHash.toString(16).padStart(16, '0')}`,
+    ],
+  };
+}
+
+/**
+ * Whether a differing pixel lies on an edge and its value is explained by the other image's
+ * neighbourhood, as happens when anti-aliasing or subpixel text rendering shifts an edge
+ */
+function isAntialiased(a: PNG, b: PNG, x: number, y: number, tolerance: number): boolean {
+  const within = (source: PNG, target: PNG) => {
+    const index = (y * source.width + x) * 4;
+    let hasContrast = false;
+    for (let channel = 0; channel < 3; channel++) {
+      let min = 255;
+      let max = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= source.width || ny >= source.height) {
+            continue;
+          }
+          const value = source.data[(ny * source.width + nx) * 4 + channel];
+          min = Math.min(min, value);
+          max = Math.max(max, value);
+        }
+      }
+      if (max - min > 32) {
+        hasContrast = true;
+      }
+      const value = target.data[index + channel];
+      if (value < min - tolerance || value > max + tolerance) {
+        return false;
+      }
+    }
+    return hasContrast;
+  };
+  return within(a, b) && within(b, a);
+}
+
+function compareTolerance(baseline: PNG, current: PNG, options: ComparisonOptions): ComparisonResult {
+  const { width, height } = baseline;
+  const threshold = options.threshold ?? 0.1;
+  const tolerance = options.channelTolerance ?? 8;
+  const detectAntialiasing = options.detectAntialiasing ?? true;
+  const diffImage = fadedCopy(current);
+  let diffPixels = 0;
+  let antialiasedPixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      const offset = index * 4;
+      const delta = Math.max(
+        Math.abs(baseline.data[offset] - current.data[offset]),
+        Math.abs(baseline.data[offset + 1] - current.data[offset + 1]),
+        Math.abs(baseline.data[offset + 2] - current.data[offset + 2]),
+        Math.abs(baseline.data[offset + 3] - current.data[offset + 3])
+      );
+      if (delta <= tolerance) {
+        continue;
+      }
+
+      if (detectAntialiasing && isAntialiased(baseline, current, x, y, tolerance)) {
+        antialiasedPixels++;
+        paintPixel(diffImage, index, [255, 200, 0]);
+      } else {
+        diffPixels++;
+        paintPixel(diffImage, index, [255, 0, 0]);
+      }
+    }
+  }
+
+  const totalPixels = width * height;
+  const diffPercentage = (diffPixels / totalPixels) * 100;
+  return {
+    mode: 'tolerance',
+    passed: diffPercentage <= threshold * 100,
+    score: 1 - diffPixels / totalPixels,
+    metric: 'matching pixels',
+    requirement: `≤${threshold * 100}% different`,
+    diffPixels,
+    totalPixels,
+    diffPercentage,
+    diffImage,
+    details: [
+      `Channel tolerance: ${tolerance}`,
+      ...(detectAntialiasing ? [`Anti-aliased pixels ignored: ${antialiasedPixels}`] : []),
+    ],
+  };
+}
+
+/**
+ * Compare two screenshots with an image-based mode
+ * @param baseline Baseline image
+ * @param current Current image
+ * @param mode Algorithm to use
+ * @param options Mode settings
+ * @throws Error if the mode needs equal dimensions and they differ
+ */
+export function compareImages(
+  baseline: PNG,
+  current: PNG,
+  mode: Exclude<ComparisonMode, 'layout'>,
+  options: ComparisonOptions = {}
+): ComparisonResult {
+  if (mode === 'phash') {
+    return comparePhash(baseline, current, options);
+  }
+
+  if (baseline.width !== current.width || baseline.height !== current.height) {
+    throw new Error(
+      `Image dimensions don't match\n` +
+      `Baseline: ${baseline.width}x${baseline.height}\n` +
+      `Current: ${current.width}x${current.height}`
+    );
+  }
+
+  switch (mode) {
+    case 'pixel':
+      return comparePixel(baseline, current, options);
+    case 'ssim':
+      return compareSsim(baseline, current, options);
+    case 'tolerance':
+      return compareTolerance(baseline, current, options);
+    default:
+      throw new Error(`Unknown comparison mode: ${mode}. Supported: ${COMPARISON_MODES.join(', ')}`);
+  }
+}
+
+function drawBox(image: PNG, box: { x: number; y: number; width: number; height: number }, color: [number, number, number]): void {
+  const x0 = Math.max(0, box.x);
+  const y0 = Math.max(0, box.y);
+  const x1 = Math.min(image.width - 1, box.x + box.width - 1);
+  const y1 = Math.min(image.height - 1, box.y + box.height - 1);
+  for (let x = x0; x <= x1; x++) {
+    for (const y of [y0, y0 + 1, y1 - 1, y1]) {
+      if (y >= 0 && y < image.height) paintPixel(image, y * image.width + x, color);
+    }
+  }
+  for (let y = y0; y <= y1; y++) {
+    for (const x of [x0, x0 + 1, x1 - 1, x1]) {
+      if (x >= 0 && x < image.width) paintPixel(image, y * image.width + x, color);
+    }
+  }
+}
+
+/**
+ * Compare element bounding boxes instead of pixels, so rendering differences don't matter
+ * @param baseline Baseline layout
+ * @param current Current layout
+ * @param options layoutTolerance and minScore
+ * @param screenshot Current screenshot to draw changed boxes on
+ */
+export function compareLayouts(
+  baseline: LayoutBox[],
+  current: LayoutBox[],
+  options: ComparisonOptions = {},
+  screenshot?: PNG
+): ComparisonResult {
+  const tolerance = options.layoutTolerance ?? 2;
+  const minScore = options.minScore ?? DEFAULT_MIN_SCORE.layout;
+  const currentByPath = new Map(current.map(box => [box.path, box]));
+  const baselinePaths = new Set(baseline.map(box => box.path));
+  const changes: string[] = [];
+  const diffImage = screenshot ? fadedCopy(screenshot) : undefined;
+  let unchanged = 0;
+
+  for (const before of baseline) {
+    const after = currentByPath.get(before.path);
+    if (!after) {
+      changes.push(`missing ${before.path}`);
+      diffImage && drawBox(diffImage, before, [255, 140, 0]);
+      continue;
+    }
+
+    const moved = Math.abs(after.x - before.x) > tolerance || Math.abs(after.y - before.y) > tolerance;
+    const resized = Math.abs(after.width - before.width) > tolerance || Math.abs(after.height - before.height) > tolerance;
+    if (!moved && !resized) {
+      unchanged++;
+      continue;
+    }
+
+    changes.push(
+      `${moved && resized ? 'moved and resized' : moved ? 'moved' : 'resized'} ${before.path}: ` +
+      `${before.x},${before.y} ${before.width}x${before.height} → ${after.x},${after.y} ${after.width}x${after.height}`
+    );
+    diffImage && drawBox(diffImage, after, [255, 0, 0]);
+  }
+
+  for (const after of current) {
+    if (!baselinePaths.has(after.path)) {
+      changes.push(`added ${after.path}`);
+      diffImage && drawBox(diffImage, after, [0, 112, 243]);
+    }
+  }
+
+  const compared = baseline.length + current.filter(box => !baselinePaths.has(box.path)).length;
+  const score = compared > 0 ? unchanged / compared : 1;
+  return {
+    mode: 'layout',
+    passed: score >= minScore,
+    score,
+    metric: 'unchanged elements',
+    requirement: `≥${minScore}`,
+    diffPercentage: (1 - score) * 100,
+    diffImage,
+    details: [
+      `Elements: ${baseline.length} baseline, ${current.length} current, ${changes.length} changed (tolerance ${tolerance}px)`,
+      ...changes.slice(0, 20).map(change => `  ${change}`),
+      ...(changes.length > 20 ? [`  ... and ${changes.length - 20} more`] : []),
+    ],
+  };
+}
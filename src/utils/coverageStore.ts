@@ -0,0 +1,619 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+/**
+ * Coverage Store - Merges V8 JS/CSS coverage across pages, sessions and runs into
+ * per-source line/function/branch hit counts, mapped through source maps, with
+ * Istanbul/LCOV output and per-glob threshold checks
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { findSourceMapUrl, loadSourceMap, normalizeSourcePath, RawSourceMap, SourceMap } from './sourceMap.js';
+
+/**
+ * V8 block coverage as returned by page.coverage.stopJSCoverage()
+ */
+export interface V8CoverageRange {
+  startOffset: number;
+  endOffset: number;
+  count: number;
+}
+
+export interface V8FunctionCoverage {
+  functionName: string;
+  isBlockCoverage: boolean;
+  ranges: V8CoverageRange[];
+}
+
+export interface JSCoverageEntry {
+  url: string;
+  source?: string;
+  functions: V8FunctionCoverage[];
+}
+
+/**
+ * Used byte ranges as returned by page.coverage.stopCSSCoverage()
+ */
+export interface CSSCoverageEntry {
+  url: string;
+  text?: string;
+  ranges: Array<{ start: number; end: number }>;
+}
+
+/**
+ * Hit counts for one source file
+ */
+export interface FileCoverage {
+  path: string;
+  kind: 'js' | 'css';
+  /** Hit count per 1-based line */
+  lines: Record<string, number>;
+  /** Keyed by "<name>:<line>" */
+  functions: Record<string, { name: string; line: number; hits: number }>;
+  /** Keyed by "<line>:<column>"; hits of the arm that ran the block and the arm that skipped it */
+  branches: Record<string, { line: number; hits: number[] }>;
+}
+
+export interface CoverageMetric {
+  total: number;
+  covered: number;
+  /** Percent covered; 100 when there is nothing to cover */
+  pct: number;
+}
+
+export interface CoverageTotals {
+  lines: CoverageMetric;
+  functions: CoverageMetric;
+  branches: CoverageMetric;
+}
+
+/**
+ * One test run in the store
+ */
+export interface CoverageRun {
+  runId: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Page URLs coverage was collected on */
+  pages: string[];
+  sessions: string[];
+  totals: CoverageTotals;
+}
+
+/**
+ * Minimum percentages; unset metrics are not checked
+ */
+export interface CoverageThreshold {
+  lines?: number;
+  functions?: number;
+  branches?: number;
+}
+
+export interface ThresholdViolation {
+  /** Threshold key: 'global' or a file glob */
+  pattern: string;
+  /** File that missed the threshold; absent for 'global' and unmatched globs */
+  file?: string;
+  metric: keyof CoverageThreshold | 'files';
+  actual: number;
+  required: number;
+}
+
+export interface IngestOptions {
+  runId?: string;
+  pageUrl?: string;
+  sessionId?: string;
+  /** Map generated code back to original sources (default: true) */
+  sourceMaps?: boolean;
+}
+
+interface CoverageIndex {
+  runs: CoverageRun[];
+}
+
+interface RunData {
+  runId: string;
+  files: Record<string, FileCoverage>;
+}
+
+const INDEX_FILE = 'index.json';
+const RUNS_DIR = 'runs';
+
+/**
+ * Offsets where each line of a text starts
+ */
+function lineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) === 10) {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+/**
+ * 0-based line and column of an offset
+ */
+function positionAt(starts: number[], offset: number): { line: number; column: number } {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (starts[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return { line: low, column: offset - starts[low] };
+}
+
+/**
+ * Path a script or stylesheet URL is reported under
+ */
+function fileKey(url: string): string {
+  return normalizeSourcePath(url.replace(/[?#].*$/, ''), url);
+}
+
+/**
+ * Per-byte execution counts of a script, plus every block range with the count of its enclosing range
+ */
+export function analyzeV8(text: string, functions: V8FunctionCoverage[]): {
+  counts: Int32Array;
+  blocks: Array<{ startOffset: number; count: number; parentCount: number }>;
+} {
+  const counts = new Int32Array(text.length);
+  const blocks: Array<{ startOffset: number; count: number; parentCount: number }> = [];
+
+  const ranges = functions.flatMap(fn => fn.ranges.map((range, index) => ({
+    ...range,
+    isBlock: fn.isBlockCoverage && index > 0,
+  })));
+  // Outer ranges first so nested ranges overwrite them
+  ranges.sort((a, b) => a.startOffset - b.startOffset || b.endOffset - a.endOffset);
+
+  const open: V8CoverageRange[] = [];
+  for (const range of ranges) {
+    while (open.length > 0 && open[open.length - 1].endOffset <= range.startOffset) {
+      open.pop();
+    }
+    if (range.isBlock) {
+      blocks.push({
+        startOffset: range.startOffset,
+        count: range.count,
+        parentCount: open.length > 0 ? open[open.length - 1].count : range.count,
+      });
+    }
+    open.push(range);
+    counts.fill(range.count, range.startOffset, Math.min(range.endOffset, text.length));
+  }
+
+  return { counts, blocks };
+}
+
+function emptyFile(filePath: string, kind: FileCoverage['kind']): FileCoverage {
+  return { path: filePath, kind, lines: {}, functions: {}, branches: {} };
+}
+
+/**
+ * Convert one script or stylesheet into per-file hit counts, following its source map when possible
+ */
+async function convertEntry(
+  url: string,
+  text: string,
+  kind: FileCoverage['kind'],
+  counts: Int32Array,
+  functions: V8FunctionCoverage[],
+  blocks: Array<{ startOffset: number; count: number; parentCount: number }>,
+  useSourceMaps: boolean
+): Promise<FileCoverage[]> {
+  const starts = lineStarts(text);
+  const mapUrl = useSourceMaps ? findSourceMapUrl(text, url) : undefined;
+  const raw: RawSourceMap | undefined = mapUrl ? await loadSourceMap(mapUrl) : undefined;
+  const map = raw && mapUrl ? new SourceMap(raw, mapUrl.startsWith('data:') ? url : mapUrl) : undefined;
+
+  const files = new Map<string, FileCoverage>();
+  const fileFor = (filePath: string) => {
+    if (!files.has(filePath)) {
+      files.set(filePath, emptyFile(filePath, kind));
+    }
+    return files.get(filePath)!;
+  };
+  const locate = (offset: number): { file: FileCoverage; line: number; column: number } | undefined => {
+    const { line, column } = positionAt(starts, offset);
+    if (!map) {
+      return { file: fileFor(fileKey(url)), line: line + 1, column };
+    }
+    const original = map.originalPositionFor(line, column);
+    return original ? { file: fileFor(original.source), line: original.line, column: original.column } : undefined;
+  };
+  const hit = (file: FileCoverage, line: number, count: number) => {
+    file.lines[line] = Math.max(file.lines[line] ?? 0, count);
+  };
+
+  // Lines: the highest count of any code on the line, as Istanbul derives line hits from statements
+  if (map) {
+    for (const { generatedLine, generatedColumn, original } of map.mappings()) {
+      const offset = generatedLine < starts.length ? starts[generatedLine] + generatedColumn : text.length;
+      if (offset < text.length) {
+        hit(fileFor(original.source), original.line, counts[offset]);
+      }
+    }
+  } else {
+    const file = fileFor(fileKey(url));
+    starts.forEach((start, line) => {
+      const end = line + 1 < starts.length ? starts[line + 1] : text.length;
+      let max = -1;
+      for (let i = start; i < end; i++) {
+        if (text.charCodeAt(i) > 32) {
+          max = Math.max(max, counts[i]);
+        }
+      }
+      if (max >= 0) {
+        hit(file, line + 1, max);
+      }
+    });
+  }
+
+  for (const fn of functions) {
+    const [outer] = fn.ranges;
+    // The script's own top-level "function" is not a function of the source
+    if (!outer || (!fn.functionName && outer.startOffset === 0 && outer.endOffset >= text.length)) {
+      continue;
+    }
+    const location = locate(outer.startOffset);
+    if (location) {
+      const name = fn.functionName || '(anonymous)';
+      const key = `${name}:${location.line}`;
+      const existing = location.file.functions[key];
+      location.file.functions[key] = { name, line: location.line, hits: Math.max(existing?.hits ?? 0, outer.count) };
+    }
+  }
+
+  for (const block of blocks) {
+    const location = locate(block.startOffset);
+    if (location) {
+      location.file.branches[`${location.line}:${location.column}`] = {
+        line: location.line,
+        hits: [block.count, Math.max(block.parentCount - block.count, 0)],
+      };
+    }
+  }
+
+  return [...files.values()];
+}
+
+/**
+ * Add the hits of some files to a file map, summing counts
+ */
+export function mergeFiles(into: Record<string, FileCoverage>, files: Iterable<FileCoverage>): Record<string, FileCoverage> {
+  for (const file of files) {
+    const target = into[file.path] ??= emptyFile(file.path, file.kind);
+    for (const [line, hits] of Object.entries(file.lines)) {
+      target.lines[line] = (target.lines[line] ?? 0) + hits;
+    }
+    for (const [key, fn] of Object.entries(file.functions)) {
+      target.functions[key] = { ...fn, hits: (target.functions[key]?.hits ?? 0) + fn.hits };
+    }
+    for (const [key, branch] of Object.entries(file.branches)) {
+      const existing = target.branches[key]?.hits ?? [];
+      target.branches[key] = { line: branch.line, hits: branch.hits.map((hits, i) => hits + (existing[i] ?? 0)) };
+    }
+  }
+  return into;
+}
+
+/**
+ * Convert Playwright JS and CSS coverage into per-source hit counts
+ */
+export async function convertCoverage(
+  js: JSCoverageEntry[] = [],
+  css: CSSCoverageEntry[] = [],
+  useSourceMaps = true
+): Promise<FileCoverage[]> {
+  const merged: Record<string, FileCoverage> = {};
+
+  for (const entry of js) {
+    if (!entry.url || entry.source === undefined) {
+      continue;
+    }
+    const { counts, blocks } = analyzeV8(entry.source, entry.functions);
+    mergeFiles(merged, await convertEntry(entry.url, entry.source, 'js', counts, entry.functions, blocks, useSourceMaps));
+  }
+
+  for (const entry of css) {
+    if (!entry.url || entry.text === undefined) {
+      continue;
+    }
+    const counts = new Int32Array(entry.text.length);
+    entry.ranges.forEach(range => counts.fill(1, range.start, range.end));
+    mergeFiles(merged, await convertEntry(entry.url, entry.text, 'css', counts, [], [], useSourceMaps));
+  }
+
+  return Object.values(merged);
+}
+
+/**
+ * Total and used bytes of a raw JS or CSS coverage entry
+ */
+export function byteUsage(entry: JSCoverageEntry | CSSCoverageEntry): { totalBytes: number; usedBytes: number } {
+  if ('functions' in entry) {
+    const text = entry.source ?? '';
+    const { counts } = analyzeV8(text, entry.functions);
+    return { totalBytes: text.length, usedBytes: counts.reduce((used, count) => used + (count > 0 ? 1 : 0), 0) };
+  }
+  return {
+    totalBytes: (entry.text ?? '').length,
+    usedBytes: entry.ranges.reduce((used, range) => used + range.end - range.start, 0),
+  };
+}
+
+function metric(total: number, covered: number): CoverageMetric {
+  return { total, covered, pct: total > 0 ? Math.round((covered / total) * 10000) / 100 : 100 };
+}
+
+/**
+ * Line, function and branch totals of some files
+ */
+export function summarize(files: Iterable<FileCoverage>): CoverageTotals {
+  let lines = 0, linesHit = 0, fns = 0, fnsHit = 0, branches = 0, branchesHit = 0;
+  for (const file of files) {
+    const lineHits = Object.values(file.lines);
+    lines += lineHits.length;
+    linesHit += lineHits.filter(hits => hits > 0).length;
+    const fnHits = Object.values(file.functions);
+    fns += fnHits.length;
+    fnsHit += fnHits.filter(fn => fn.hits > 0).length;
+    for (const branch of Object.values(file.branches)) {
+      branches += branch.hits.length;
+      branchesHit += branch.hits.filter(hits => hits > 0).length;
+    }
+  }
+  return { lines: metric(lines, linesHit), functions: metric(fns, fnsHit), branches: metric(branches, branchesHit) };
+}
+
+/**
+ * Istanbul coverage-final.json data, one statement per covered line
+ */
+export function toIstanbul(files: Iterable<FileCoverage>): Record<string, unknown> {
+  const location = (line: number) => ({ start: { line, column: 0 }, end: { line, column: 0 } });
+  const result: Record<string, unknown> = {};
+
+  for (const file of files) {
+    const lines = Object.entries(file.lines).map(([line, hits]) => [Number(line), hits] as const).sort((a, b) => a[0] - b[0]);
+    const functions = Object.values(file.functions).sort((a, b) => a.line - b.line);
+    const branches = Object.values(file.branches).sort((a, b) => a.line - b.line);
+
+    result[file.path] = {
+      path: file.path,
+      statementMap: Object.fromEntries(lines.map(([line], i) => [i, location(line)])),
+      s: Object.fromEntries(lines.map(([, hits], i) => [i, hits])),
+      fnMap: Object.fromEntries(functions.map((fn, i) => [i, { name: fn.name, decl: location(fn.line), loc: location(fn.line), line: fn.line }])),
+      f: Object.fromEntries(functions.map((fn, i) => [i, fn.hits])),
+      branchMap: Object.fromEntries(branches.map((branch, i) => [i, {
+        loc: location(branch.line),
+        type: 'block',
+        locations: branch.hits.map(() => location(branch.line)),
+        line: branch.line,
+      }])),
+      b: Object.fromEntries(branches.map((branch, i) => [i, branch.hits])),
+    };
+  }
+  return result;
+}
+
+/**
+ * LCOV tracefile with line, function and branch records
+ */
+export function toLcov(files: Iterable<FileCoverage>): string {
+  const out: string[] = [];
+
+  for (const file of files) {
+    out.push('TN:', `SF:${file.path}`);
+
+    // LCOV matches FNDA to FN by name, so names must be unique per file
+    const functions = Object.values(file.functions).sort((a, b) => a.line - b.line);
+    const nameCount = new Map<string, number>();
+    functions.forEach(fn => nameCount.set(fn.name, (nameCount.get(fn.name) ?? 0) + 1));
+    const named = functions.map(fn => ({ ...fn, name: nameCount.get(fn.name)! > 1 ? `${fn.name}@${fn.line}` : fn.name }));
+    named.forEach(fn => out.push(`FN:${fn.line},${fn.name}`));
+    named.forEach(fn => out.push(`FNDA:${fn.hits},${fn.name}`));
+    out.push(`FNF:${named.length}`, `FNH:${named.filter(fn => fn.hits > 0).length}`);
+
+    const branches = Object.values(file.branches).sort((a, b) => a.line - b.line);
+    let branchTotal = 0;
+    let branchHit = 0;
+    branches.forEach((branch, block) => branch.hits.forEach((hits, arm) => {
+      out.push(`BRDA:${branch.line},${block},${arm},${hits}`);
+      branchTotal++;
+      branchHit += hits > 0 ? 1 : 0;
+    }));
+    out.push(`BRF:${branchTotal}`, `BRH:${branchHit}`);
+
+    const lines = Object.entries(file.lines).map(([line, hits]) => [Number(line), hits] as const).sort((a, b) => a[0] - b[0]);
+    lines.forEach(([line, hits]) => out.push(`DA:${line},${hits}`));
+    out.push(`LF:${lines.length}`, `LH:${lines.filter(([, hits]) => hits > 0).length}`, 'end_of_record');
+  }
+
+  return out.join('\n') + '\n';
+}
+
+/**
+ * Regular expression for a file glob: ** spans directories, * and ? stay within one
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/';
+      pattern += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^(?:.*/)?${pattern}$`);
+}
+
+/**
+ * Check coverage against thresholds: 'global' applies to the totals, any other key is a
+ * glob every matching file must meet on its own
+ */
+export function checkThresholds(
+  files: Record<string, FileCoverage>,
+  thresholds: Record<string, CoverageThreshold>
+): ThresholdViolation[] {
+  const violations: ThresholdViolation[] = [];
+  const check = (pattern: string, threshold: CoverageThreshold, totals: CoverageTotals, file?: string) => {
+    for (const key of ['lines', 'functions', 'branches'] as const) {
+      const required = threshold[key];
+      if (required !== undefined && totals[key].pct < required) {
+        violations.push({ pattern, ...(file ? { file } : {}), metric: key, actual: totals[key].pct, required });
+      }
+    }
+  };
+
+  for (const [pattern, threshold] of Object.entries(thresholds)) {
+    if (pattern === 'global') {
+      check(pattern, threshold, summarize(Object.values(files)));
+      continue;
+    }
+
+    const regex = globToRegExp(pattern);
+    const matching = Object.values(files).filter(file => regex.test(file.path));
+    if (matching.length === 0) {
+      violations.push({ pattern, metric: 'files', actual: 0, required: 1 });
+    }
+    matching.forEach(file => check(pattern, threshold, summarize([file]), file.path));
+  }
+
+  return violations;
+}
+
+export class CoverageStore {
+  private rootDir: string;
+  private defaultRunId: string;
+
+  constructor(rootDir: string = process.env.PLAYWRIGHT_COVERAGE_DIR || './coverage-store') {
+    this.rootDir = rootDir;
+    this.defaultRunId = process.env.PLAYWRIGHT_COVERAGE_RUN || `run-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+  }
+
+  /**
+   * Directory holding the store
+   */
+  getRootDir(): string {
+    return this.rootDir;
+  }
+
+  /**
+   * Run new coverage is merged into unless a runId is given: one per server process
+   */
+  getDefaultRunId(): string {
+    return this.defaultRunId;
+  }
+
+  /**
+   * Merge converted coverage into a run
+   * @returns The updated run
+   */
+  ingest(files: FileCoverage[], options: Omit<IngestOptions, 'sourceMaps'> = {}): CoverageRun {
+    const runId = options.runId || this.defaultRunId;
+    const data = this.readRun(runId) ?? { runId, files: {} };
+    mergeFiles(data.files, files);
+
+    const runPath = this.runPath(runId);
+    fs.mkdirSync(path.dirname(runPath), { recursive: true });
+    fs.writeFileSync(runPath, JSON.stringify(data));
+
+    const index = this.readIndex();
+    const now = new Date().toISOString();
+    let run = index.runs.find(r => r.runId === runId);
+    if (!run) {
+      run = { runId, createdAt: now, updatedAt: now, pages: [], sessions: [], totals: summarize([]) };
+      index.runs.push(run);
+    }
+    run.updatedAt = now;
+    if (options.pageUrl && !run.pages.includes(options.pageUrl)) {
+      run.pages.push(options.pageUrl);
+    }
+    if (options.sessionId && !run.sessions.includes(options.sessionId)) {
+      run.sessions.push(options.sessionId);
+    }
+    run.totals = summarize(Object.values(data.files));
+    this.writeIndex(index);
+    return run;
+  }
+
+  /**
+   * Runs in the order they were created
+   */
+  listRuns(): CoverageRun[] {
+    return this.readIndex().runs.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Coverage of the given runs (default: all) merged into one file map
+   */
+  merged(runIds?: string[]): Record<string, FileCoverage> {
+    const ids = runIds && runIds.length > 0 ? runIds : this.listRuns().map(run => run.runId);
+    const merged: Record<string, FileCoverage> = {};
+    for (const runId of ids) {
+      const data = this.readRun(runId);
+      if (!data) {
+        throw new Error(`Coverage run '${runId}' not found in ${this.rootDir}`);
+      }
+      mergeFiles(merged, Object.values(data.files));
+    }
+    return merged;
+  }
+
+  /**
+   * Delete runs (default: all)
+   * @returns Deleted run IDs
+   */
+  clear(runIds?: string[]): string[] {
+    const index = this.readIndex();
+    const removed = index.runs.filter(run => !runIds || runIds.includes(run.runId));
+    for (const run of removed) {
+      fs.rmSync(this.runPath(run.runId), { force: true });
+    }
+    index.runs = index.runs.filter(run => !removed.includes(run));
+    this.writeIndex(index);
+    return removed.map(run => run.runId);
+  }
+
+  private runPath(runId: string): string {
+    return path.join(this.rootDir, RUNS_DIR, `${runId.replace(/[^a-zA-Z0-9._-]+/g, '-')}.json`);
+  }
+
+  private readRun(runId: string): RunData | undefined {
+    const runPath = this.runPath(runId);
+    return fs.existsSync(runPath) ? JSON.parse(fs.readFileSync(runPath, 'utf-8')) : undefined;
+  }
+
+  private readIndex(): CoverageIndex {
+    const indexPath = path.join(this.rootDir, INDEX_FILE);
+    if (!fs.existsSync(indexPath)) {
+      return { runs: [] };
+    }
+    return JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
+  }
+
+  private writeIndex(index: CoverageIndex): void {
+    fs.mkdirSync(this.rootDir, { recursive: true });
+    fs.writeFileSync(path.join(this.rootDir, INDEX_FILE), JSON.stringify(index, null, 2));
+  }
+}
+
+// Export singleton instance
+export const coverageStore = new CoverageStore();
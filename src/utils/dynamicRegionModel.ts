@@ -0,0 +1,670 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+/**
+ * Dynamic Region Model - Lightweight CPU-only model that learns which page regions are dynamic
+ * Logistic regression over hashed DOM tokens and pixel-change statistics, trained from
+ * labelled baseline/current screenshot pairs and DOM snapshots
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { Page } from 'playwright';
+import { PNG } from 'pngjs';
+
+// Size of the hashed token space; numeric features are appended after it
+const HASH_DIMENSIONS = 4096;
+const NUMERIC_FEATURES = ['changeRate', 'meanDiff', 'texture', 'logArea'];
+
+// Pixel statistics are aggregated over CELL_SIZE x CELL_SIZE cells
+const CELL_SIZE = 4;
+
+// Candidates covered by labelled regions at least this much are positive examples
+const LABEL_OVERLAP = 0.5;
+
+const MAX_DOM_ELEMENTS = 5000;
+
+/**
+ * Axis-aligned region in full-page screenshot coordinates
+ */
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * An element captured from the page for feature extraction
+ */
+export interface DomElementSnapshot {
+  tag: string;
+  id?: string;
+  classes: string[];
+  role?: string;
+  /** Names of data-* attributes, plus aria-live=<value> */
+  attributes: string[];
+  /** The element's own text (not its descendants'), truncated */
+  text: string;
+  rect: Rect;
+}
+
+/**
+ * One labelled training example
+ */
+export interface TrainingSample {
+  baseline: string;
+  current: string;
+  /** DOM snapshot JSON (array of DomElementSnapshot) */
+  dom?: string;
+  /** Regions a human marked as dynamic */
+  dynamicRegions: Rect[];
+}
+
+/**
+ * Training hyperparameters
+ */
+export interface TrainingOptions {
+  epochs?: number;
+  learningRate?: number;
+  blockSize?: number;
+  l2?: number;
+}
+
+/**
+ * Serialized model, as stored at modelOutputPath
+ */
+export interface DynamicRegionModel {
+  version: 1;
+  modelType: 'dynamic_content_detection';
+  dimensions: number;
+  weights: number[];
+  bias: number;
+  blockSize: number;
+  decisionThreshold: number;
+  trainedAt: string;
+  training: {
+    samples: number;
+    candidates: number;
+    positives: number;
+    epochs: number;
+    accuracy: number;
+    precision: number;
+    recall: number;
+  };
+  /** Highest-weighted features, for explaining what the model learned */
+  topFeatures: Array<{ feature: string; weight: number }>;
+}
+
+/**
+ * A region the model considers dynamic
+ */
+export interface RegionPrediction {
+  region: Rect;
+  probability: number;
+  /** Short description of the candidate, e.g. "div#price-ticker" or "block 3,7" */
+  label: string;
+}
+
+interface Candidate {
+  rect: Rect;
+  label: string;
+  tokens: string[];
+  numeric: number[];
+}
+
+interface PixelStats {
+  columns: number;
+  rows: number;
+  changed: Float64Array;
+  diff: Float64Array;
+  texture: Float64Array;
+}
+
+/**
+ * 32-bit FNV-1a hash of a feature token
+ */
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % HASH_DIMENSIONS;
+}
+
+/**
+ * Builds summed-area tables of per-cell change rate, colour difference and texture,
+ * so the statistics of any rectangle cost O(1)
+ */
+function computePixelStats(baseline: PNG, current: PNG): PixelStats {
+  const columns = Math.ceil(baseline.width / CELL_SIZE);
+  const rows = Math.ceil(baseline.height / CELL_SIZE);
+  const stride = columns + 1;
+  const changed = new Float64Array(stride * (rows + 1));
+  const diff = new Float64Array(stride * (rows + 1));
+  const texture = new Float64Array(stride * (rows + 1));
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      let cellChanged = 0;
+      let cellDiff = 0;
+      let cellTexture = 0;
+      let pixels = 0;
+
+      for (let y = row * CELL_SIZE; y < Math.min((row + 1) * CELL_SIZE, baseline.height); y++) {
+        for (let x = column * CELL_SIZE; x < Math.min((column + 1) * CELL_SIZE, baseline.width); x++) {
+          const idx = (y * baseline.width + x) * 4;
+          const delta = Math.abs(baseline.data[idx] - current.data[idx]) +
+            Math.abs(baseline.data[idx + 1] - current.data[idx + 1]) +
+            Math.abs(baseline.data[idx + 2] - current.data[idx + 2]);
+          if (delta > 30) {
+            cellChanged++;
+          }
+          cellDiff += delta / 765;
+
+          if (x + 1 < baseline.width) {
+            const luminance = current.data[idx] + current.data[idx + 1] + current.data[idx + 2];
+            const next = current.data[idx + 4] + current.data[idx + 5] + current.data[idx + 6];
+            cellTexture += Math.abs(luminance - next) / 765;
+          }
+          pixels++;
+        }
+      }
+
+      const i = (row + 1) * stride + column + 1;
+      const above = row * stride + column + 1;
+      const left = (row + 1) * stride + column;
+      const diagonal = row * stride + column;
+      changed[i] = cellChanged / pixels + changed[above] + changed[left] - changed[diagonal];
+      diff[i] = cellDiff / pixels + diff[above] + diff[left] - diff[diagonal];
+      texture[i] = cellTexture / pixels + texture[above] + texture[left] - texture[diagonal];
+    }
+  }
+
+  return { columns, rows, changed, diff, texture };
+}
+
+/**
+ * Mean change rate, colour difference and texture inside a rectangle
+ */
+function rectStats(stats: PixelStats, rect: Rect): [number, number, number] {
+  const stride = stats.columns + 1;
+  const x0 = Math.max(0, Math.floor(rect.x / CELL_SIZE));
+  const y0 = Math.max(0, Math.floor(rect.y / CELL_SIZE));
+  const x1 = Math.min(stats.columns, Math.ceil((rect.x + rect.width) / CELL_SIZE));
+  const y1 = Math.min(stats.rows, Math.ceil((rect.y + rect.height) / CELL_SIZE));
+  const cells = (x1 - x0) * (y1 - y0);
+  if (cells <= 0) {
+    return [0, 0, 0];
+  }
+
+  const sum = (table: Float64Array) =>
+    table[y1 * stride + x1] - table[y0 * stride + x1] - table[y1 * stride + x0] + table[y0 * stride + x0];
+  return [sum(stats.changed) / cells, sum(stats.diff) / cells, sum(stats.texture) / cells];
+}
+
+/**
+ * Tokens describing an element's own text
+ */
+function textTokens(text: string): string[] {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return ['text:empty'];
+  }
+
+  const tokens: string[] = [];
+  const digits = (trimmed.match(/\d/g) || []).length;
+  if (digits / trimmed.length > 0.3) tokens.push('text:numeric');
+  if (/\d{1,2}:\d{2}/.test(trimmed)) tokens.push('text:time');
+  if (/\d{4}-\d{2}-\d{2}|\d{1,2}\/\d{1,2}\/\d{2,4}/.test(trimmed)) tokens.push('text:date');
+  if (/%/.test(trimmed)) tokens.push('text:percent');
+  if (/[$€£¥₹]/.test(trimmed)) tokens.push('text:currency');
+  if (/[+\-−]\s?\d/.test(trimmed)) tokens.push('text:signed');
+  if (/\bago\b|just now|today|yesterday/i.test(trimmed)) tokens.push('text:relative');
+  tokens.push(`text:length:${Math.min(5, Math.floor(Math.log2(trimmed.length + 1)))}`);
+  return tokens;
+}
+
+/**
+ * Split an id or class name into stable word tokens, dropping generated hashes and numbers
+ */
+function nameTokens(prefix: string, name: string): string[] {
+  return name
+    .split(/[-_\s]+|(?<=[a-z])(?=[A-Z])/)
+    .map(part => part.toLowerCase().replace(/\d+/g, ''))
+    .filter(part => part.length > 1 && part.length < 30)
+    .map(part => `${prefix}:${part}`);
+}
+
+/**
+ * Clip a rectangle to the image, or return null if nothing is left
+ */
+function clipRect(rect: Rect, width: number, height: number): Rect | null {
+  const x = Math.max(0, Math.floor(rect.x));
+  const y = Math.max(0, Math.floor(rect.y));
+  const right = Math.min(width, Math.ceil(rect.x + rect.width));
+  const bottom = Math.min(height, Math.ceil(rect.y + rect.height));
+  if (right <= x || bottom <= y) {
+    return null;
+  }
+  return { x, y, width: right - x, height: bottom - y };
+}
+
+/**
+ * Candidate regions (DOM elements and a grid of blocks) with their features
+ */
+function buildCandidates(
+  baseline: PNG,
+  current: PNG,
+  dom: DomElementSnapshot[],
+  blockSize: number
+): Candidate[] {
+  const stats = computePixelStats(baseline, current);
+  const imageArea = baseline.width * baseline.height;
+  const candidates: Candidate[] = [];
+
+  const numeric = (rect: Rect) => {
+    const [changeRate, meanDiff, texture] = rectStats(stats, rect);
+    return [changeRate, meanDiff, texture, Math.log2(rect.width * rect.height) / Math.log2(imageArea)];
+  };
+
+  for (const element of dom) {
+    const rect = clipRect(element.rect, baseline.width, baseline.height);
+    if (!rect || rect.width * rect.height < 64 || rect.width * rect.height > imageArea / 2) {
+      continue;
+    }
+
+    const tag = element.tag.toLowerCase();
+    const tokens = [
+      'kind:element',
+      `tag:${tag}`,
+      ...(element.id ? nameTokens('id', element.id) : []),
+      ...element.classes.flatMap(className => nameTokens('class', className)),
+      ...(element.role ? [`role:${element.role}`] : []),
+      ...element.attributes.map(attribute => `attr:${attribute}`),
+      ...textTokens(element.text),
+      `pos:${Math.floor(rect.x / 128)}:${Math.floor(rect.y / 128)}`,
+    ];
+    candidates.push({
+      rect,
+      label: `${tag}${element.id ? `#${element.id}` : element.classes.length ? `.${element.classes[0]}` : ''}`,
+      tokens,
+      numeric: numeric(rect),
+    });
+  }
+
+  for (let y = 0; y < baseline.height; y += blockSize) {
+    for (let x = 0; x < baseline.width; x += blockSize) {
+      const rect = { x, y, width: Math.min(blockSize, baseline.width - x), height: Math.min(blockSize, baseline.height - y) };
+      const column = x / blockSize;
+      const row = y / blockSize;
+      candidates.push({
+        rect,
+        label: `block ${column},${row}`,
+        tokens: ['kind:block', `block:${column}:${row}`, `block-row:${row}`, `block-column:${column}`],
+        numeric: numeric(rect),
+      });
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Fraction of a rectangle covered by the labelled regions
+ */
+function coverage(rect: Rect, regions: Rect[]): number {
+  let covered = 0;
+  for (const region of regions) {
+    const width = Math.min(rect.x + rect.width, region.x + region.width) - Math.max(rect.x, region.x);
+    const height = Math.min(rect.y + rect.height, region.y + region.height) - Math.max(rect.y, region.y);
+    if (width > 0 && height > 0) {
+      covered += width * height;
+    }
+  }
+  return Math.min(1, covered / (rect.width * rect.height));
+}
+
+/**
+ * Sparse feature vector of a candidate as [index, value] pairs
+ */
+function featureVector(candidate: Candidate): Array<[number, number]> {
+  const features = new Map<number, number>();
+  for (const token of candidate.tokens) {
+    features.set(hashToken(token), 1);
+  }
+  candidate.numeric.forEach((value, index) => features.set(HASH_DIMENSIONS + index, value));
+  return Array.from(features.entries());
+}
+
+function sigmoid(value: number): number {
+  return 1 / (1 + Math.exp(-value));
+}
+
+function score(weights: ArrayLike<number>, bias: number, features: Array<[number, number]>): number {
+  let sum = bias;
+  for (const [index, value] of features) {
+    sum += weights[index] * value;
+  }
+  return sigmoid(sum);
+}
+
+/**
+ * Read two screenshots of the same size
+ */
+async function readScreenshotPair(baselinePath: string, currentPath: string): Promise<[PNG, PNG]> {
+  const baseline = PNG.sync.read(await fs.readFile(baselinePath));
+  const current = PNG.sync.read(await fs.readFile(currentPath));
+  if (baseline.width !== current.width || baseline.height !== current.height) {
+    throw new Error(`Screenshot sizes differ: ${baselinePath} is ${baseline.width}x${baseline.height}, ${currentPath} is ${current.width}x${current.height}`);
+  }
+  return [baseline, current];
+}
+
+/**
+ * Load training samples from a manifest file ({ samples: [...] }) or from a directory whose
+ * subdirectories each hold a sample.json. Paths are relative to the file that names them
+ */
+export async function loadTrainingSamples(trainingDataPath: string): Promise<TrainingSample[]> {
+  const resolveSample = (sample: TrainingSample, baseDir: string): TrainingSample => {
+    if (!sample.baseline || !sample.current || !Array.isArray(sample.dynamicRegions)) {
+      throw new Error(`Training sample in ${baseDir} needs baseline, current and dynamicRegions`);
+    }
+    return {
+      baseline: path.resolve(baseDir, sample.baseline),
+      current: path.resolve(baseDir, sample.current),
+      dom: sample.dom ? path.resolve(baseDir, sample.dom) : undefined,
+      dynamicRegions: sample.dynamicRegions,
+    };
+  };
+
+  const stat = await fs.stat(trainingDataPath);
+  if (stat.isFile()) {
+    const manifest = JSON.parse(await fs.readFile(trainingDataPath, 'utf-8'));
+    const samples: TrainingSample[] = Array.isArray(manifest) ? manifest : manifest.samples;
+    if (!Array.isArray(samples)) {
+      throw new Error(`${trainingDataPath} must contain a samples array`);
+    }
+    return samples.map(sample => resolveSample(sample, path.dirname(trainingDataPath)));
+  }
+
+  const samples: TrainingSample[] = [];
+  const directories = [trainingDataPath];
+  for (const entry of await fs.readdir(trainingDataPath, { withFileTypes: true })) {
+    if (entry.isDirectory()) {
+      directories.push(path.join(trainingDataPath, entry.name));
+    }
+  }
+  for (const directory of directories) {
+    const samplePath = path.join(directory, 'sample.json');
+    try {
+      samples.push(resolveSample(JSON.parse(await fs.readFile(samplePath, 'utf-8')), directory));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+  return samples;
+}
+
+/**
+ * Fit the model on labelled samples
+ * @param samples Labelled screenshot pairs with optional DOM snapshots
+ * @param options Training hyperparameters
+ */
+export async function trainDynamicRegionModel(
+  samples: TrainingSample[],
+  options: TrainingOptions = {}
+): Promise<DynamicRegionModel> {
+  const { epochs = 25, learningRate = 0.1, blockSize = 64, l2 = 0.0001 } = options;
+
+  if (samples.length === 0) {
+    throw new Error('No training samples found');
+  }
+
+  const examples: Array<{ features: Array<[number, number]>; label: number }> = [];
+  const featureNames = new Map<number, string>();
+  NUMERIC_FEATURES.forEach((name, index) => featureNames.set(HASH_DIMENSIONS + index, name));
+
+  for (const sample of samples) {
+    const [baseline, current] = await readScreenshotPair(sample.baseline, sample.current);
+    const dom: DomElementSnapshot[] = sample.dom ? JSON.parse(await fs.readFile(sample.dom, 'utf-8')) : [];
+
+    for (const candidate of buildCandidates(baseline, current, dom, blockSize)) {
+      for (const token of candidate.tokens) {
+        const index = hashToken(token);
+        if (!featureNames.has(index)) {
+          featureNames.set(index, token);
+        }
+      }
+      examples.push({
+        features: featureVector(candidate),
+        label: coverage(candidate.rect, sample.dynamicRegions) >= LABEL_OVERLAP ? 1 : 0,
+      });
+    }
+  }
+
+  const positives = examples.filter(example => example.label === 1).length;
+  if (positives === 0) {
+    throw new Error('Training samples contain no dynamic regions to learn from');
+  }
+
+  // Dynamic regions are rare: weight positives so both classes count equally (capped)
+  const positiveWeight = Math.min(20, (examples.length - positives) / positives);
+  const weights = new Float64Array(HASH_DIMENSIONS + NUMERIC_FEATURES.length);
+  let bias = 0;
+
+  // Deterministic shuffle so the same data always gives the same model
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 0x100000000;
+  };
+  const order = examples.map((_, index) => index);
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+
+    const rate = learningRate / (1 + epoch * 0.1);
+    for (const index of order) {
+      const { features, label } = examples[index];
+      const error = (score(weights, bias, features) - label) * (label === 1 ? positiveWeight : 1);
+      for (const [featureIndex, value] of features) {
+        weights[featureIndex] -= rate * (error * value + l2 * weights[featureIndex]);
+      }
+      bias -= rate * error;
+    }
+  }
+
+  // Pick the decision threshold with the best F1 on the training data, preferring the
+  // highest on ties so fewer pixels are ignored
+  const probabilities = examples.map(example => score(weights, bias, example.features));
+  let best = { threshold: 0.5, f1: -1, accuracy: 0, precision: 0, recall: 0 };
+  for (let threshold = 0.1; threshold < 0.95; threshold += 0.05) {
+    let truePositives = 0;
+    let falsePositives = 0;
+    let correct = 0;
+    probabilities.forEach((probability, index) => {
+      const predicted = probability >= threshold ? 1 : 0;
+      const label = examples[index].label;
+      if (predicted === label) correct++;
+      if (predicted === 1 && label === 1) truePositives++;
+      if (predicted === 1 && label === 0) falsePositives++;
+    });
+    const precision = truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 0;
+    const recall = truePositives / positives;
+    const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+    if (f1 >= best.f1) {
+      best = { threshold: Number(threshold.toFixed(2)), f1, accuracy: correct / examples.length, precision, recall };
+    }
+  }
+
+  const topFeatures = Array.from(weights.entries())
+    .filter(([index, weight]) => weight !== 0 && featureNames.has(index))
+    .sort((a, b) => Math.abs(b[1]) - Math.abs(a[1]))
+    .slice(0, 15)
+    .map(([index, weight]) => ({ feature: featureNames.get(index)!, weight: Number(weight.toFixed(4)) }));
+
+  return {
+    version: 1,
+    modelType: 'dynamic_content_detection',
+    dimensions: weights.length,
+    weights: Array.from(weights, weight => Number(weight.toFixed(6))),
+    bias: Number(bias.toFixed(6)),
+    blockSize,
+    decisionThreshold: best.threshold,
+    trainedAt: new Date().toISOString(),
+    training: {
+      samples: samples.length,
+      candidates: examples.length,
+      positives,
+      epochs,
+      accuracy: Number(best.accuracy.toFixed(4)),
+      precision: Number(best.precision.toFixed(4)),
+      recall: Number(best.recall.toFixed(4)),
+    },
+    topFeatures,
+  };
+}
+
+/**
+ * Write a trained model as JSON
+ */
+export async function saveDynamicRegionModel(model: DynamicRegionModel, modelPath: string): Promise<void> {
+  await fs.mkdir(path.dirname(path.resolve(modelPath)), { recursive: true });
+  await fs.writeFile(modelPath, JSON.stringify(model));
+  modelCache.delete(path.resolve(modelPath));
+}
+
+// Loaded models by absolute path, reloaded when the file changes
+const modelCache = new Map<string, { mtimeMs: number; model: DynamicRegionModel }>();
+
+/**
+ * Load a model saved by saveDynamicRegionModel
+ * @throws Error if the file is not a compatible model
+ */
+export async function loadDynamicRegionModel(modelPath: string): Promise<DynamicRegionModel> {
+  const absolutePath = path.resolve(modelPath);
+  const { mtimeMs } = await fs.stat(absolutePath);
+  const cached = modelCache.get(absolutePath);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.model;
+  }
+
+  const model: DynamicRegionModel = JSON.parse(await fs.readFile(absolutePath, 'utf-8'));
+  if (model.version !== 1 || model.modelType !== 'dynamic_content_detection' ||
+      model.dimensions !== HASH_DIMENSIONS + NUMERIC_FEATURES.length || model.weights?.length !== model.dimensions) {
+    throw new Error(`${modelPath} is not a compatible dynamic region model`);
+  }
+
+  modelCache.set(absolutePath, { mtimeMs, model });
+  return model;
+}
+
+/**
+ * Predict dynamic regions for a screenshot pair, merging overlapping hits
+ * @param model Trained model
+ * @param baseline Baseline screenshot
+ * @param current Current screenshot
+ * @param dom DOM snapshot of the current page
+ */
+export function predictDynamicRegions(
+  model: DynamicRegionModel,
+  baseline: PNG,
+  current: PNG,
+  dom: DomElementSnapshot[]
+): RegionPrediction[] {
+  const hits = buildCandidates(baseline, current, dom, model.blockSize)
+    .map(candidate => ({
+      region: candidate.rect,
+      label: candidate.label,
+      probability: score(model.weights, model.bias, featureVector(candidate)),
+    }))
+    .filter(prediction => prediction.probability >= model.decisionThreshold)
+    .sort((a, b) => b.probability - a.probability);
+
+  const merged: RegionPrediction[] = [];
+  for (const hit of hits) {
+    const overlapping = merged.find(existing =>
+      hit.region.x <= existing.region.x + existing.region.width &&
+      existing.region.x <= hit.region.x + hit.region.width &&
+      hit.region.y <= existing.region.y + existing.region.height &&
+      existing.region.y <= hit.region.y + hit.region.height
+    );
+    if (!overlapping) {
+      merged.push({ ...hit, region: { ...hit.region } });
+      continue;
+    }
+
+    const right = Math.max(overlapping.region.x + overlapping.region.width, hit.region.x + hit.region.width);
+    const bottom = Math.max(overlapping.region.y + overlapping.region.height, hit.region.y + hit.region.height);
+    overlapping.region.x = Math.min(overlapping.region.x, hit.region.x);
+    overlapping.region.y = Math.min(overlapping.region.y, hit.region.y);
+    overlapping.region.width = right - overlapping.region.x;
+    overlapping.region.height = bottom - overlapping.region.y;
+  }
+  return merged;
+}
+
+/**
+ * Capture the visible elements of a page with their full-page coordinates
+ */
+export async function captureDomSnapshot(page: Page): Promise<DomElementSnapshot[]> {
+  return await page.evaluate((maxElements) => {
+    const elements: DomElementSnapshot[] = [];
+
+    for (const element of Array.from(document.body.querySelectorAll('*'))) {
+      if (elements.length >= maxElements) {
+        break;
+      }
+
+      const rect = element.getBoundingClientRect();
+      if (rect.width === 0 || rect.height === 0) {
+        continue;
+      }
+      const style = window.getComputedStyle(element);
+      if (style.visibility === 'hidden' || style.display === 'none') {
+        continue;
+      }
+
+      const ownText = Array.from(element.childNodes)
+        .filter(child => child.nodeType === Node.TEXT_NODE)
+        .map(child => child.textContent || '')
+        .join(' ')
+        .trim()
+        .slice(0, 100);
+
+      const attributes = Array.from(element.attributes)
+        .filter(attribute => attribute.name.startsWith('data-'))
+        .map(attribute => attribute.name);
+      const ariaLive = element.getAttribute('aria-live');
+      if (ariaLive) {
+        attributes.push(`aria-live=${ariaLive}`);
+      }
+
+      elements.push({
+        tag: element.tagName.toLowerCase(),
+        id: element.id || undefined,
+        classes: Array.from(element.classList),
+        role: element.getAttribute('role') || undefined,
+        attributes,
+        text: ownText,
+        rect: {
+          x: rect.left + window.scrollX,
+          y: rect.top + window.scrollY,
+          width: rect.width,
+          height: rect.height,
+        },
+      });
+    }
+
+    return elements;
+  }, MAX_DOM_ELEMENTS);
+}
@@ -21,6 +21,7 @@ export enum ErrorCode {
 
   // Element errors
   SELECTOR_NOT_FOUND = 'SELECTOR_NOT_FOUND',
+  SELECTOR_AMBIGUOUS = 'SELECTOR_AMBIGUOUS',
   ELEMENT_NOT_VISIBLE = 'ELEMENT_NOT_VISIBLE',
   ELEMENT_NOT_INTERACTABLE = 'ELEMENT_NOT_INTERACTABLE',
   ELEMENT_DETACHED = 'ELEMENT_DETACHED',
@@ -60,6 +61,7 @@ export enum ErrorCode {
 }
 
 export interface ErrorContext {
+  tool?: string;
   url?: string;
   selector?: string;
   sessionId?: string;
@@ -107,7 +109,7 @@ export function createEnhancedError(
 /**
  * Generate contextual suggestions based on error code and context
  */
-function generateSuggestions(code: ErrorCode, context: ErrorContext): string[] {
+export function generateSuggestions(code: ErrorCode, context: ErrorContext): string[] {
   const suggestions: string[] = [];
 
   switch (code) {
@@ -126,7 +128,9 @@ function generateSuggestions(code: ErrorCode, context: ErrorContext): string[] {
 
     case ErrorCode.SELECTOR_NOT_FOUND:
       suggestions.push(`Wait for the page to fully load before interacting`);
-      suggestions.push('Verify the selector is correct: ${context.selector}');
+      if (context.selector) {
+        suggestions.push(`Verify the selector is correct: ${context.selector}`);
+      }
       suggestions.push('Use more specific selectors (data-testid, role, text)');
       suggestions.push('Increase timeout value if the element loads slowly');
       if (context.url) {
@@ -134,6 +138,12 @@ function generateSuggestions(code: ErrorCode, context: ErrorContext): string[] {
       }
       break;
 
+    case ErrorCode.SELECTOR_AMBIGUOUS:
+      suggestions.push(`The selector matches several elements${context.selector ? `: ${context.selector}` : ''}`);
+      suggestions.push('Narrow it down with a more specific selector (data-testid, role with name, :has-text())');
+      suggestions.push('Use playwright_collect_locators to list unique locators for the page');
+      break;
+
     case ErrorCode.ELEMENT_NOT_VISIBLE:
       suggestions.push('Wait for the element to become visible');
       suggestions.push('Check if the element is hidden by CSS (display: none, visibility: hidden)');
@@ -193,6 +203,37 @@ function generateSuggestions(code: ErrorCode, context: ErrorContext): string[] {
       suggestions.push('Increase the concurrent operation limit in configuration');
       break;
 
+    case ErrorCode.PAGE_CLOSED:
+    case ErrorCode.PAGE_CRASHED:
+      suggestions.push('Retry the operation - a new page is opened in the same session');
+      suggestions.push('Check whether the previous action closed the page or opened a popup');
+      break;
+
+    case ErrorCode.NAVIGATION_FAILED:
+      suggestions.push(`Verify the URL is reachable${context.requestUrl ? `: ${context.requestUrl}` : ''}`);
+      suggestions.push('Check for DNS, certificate or proxy problems');
+      break;
+
+    case ErrorCode.ELEMENT_DETACHED:
+      suggestions.push('The element was re-rendered; retry so the selector is resolved again');
+      suggestions.push('Wait for the page to settle before interacting (playwright_wait_smart)');
+      break;
+
+    case ErrorCode.ASSERTION_FAILED:
+      suggestions.push('Compare the expected and actual values in the message');
+      suggestions.push('Check the failure screenshot and DOM excerpt for the state of the page');
+      suggestions.push('Wait for the expected state before asserting if the page updates asynchronously');
+      break;
+
+    case ErrorCode.MISSING_PARAMETER:
+    case ErrorCode.INVALID_CONFIGURATION:
+      suggestions.push(`Check the arguments against the input schema${context.tool ? ` of ${context.tool}` : ''}`);
+      break;
+
+    case ErrorCode.FILE_ACCESS_DENIED:
+      suggestions.push(`Check the permissions of ${context.filePath || 'the file or directory'}`);
+      break;
+
     case ErrorCode.FILE_NOT_FOUND:
       suggestions.push(`Verify the file exists: ${context.filePath}`);
       suggestions.push('Check the file path is absolute and correct');
@@ -208,123 +249,67 @@ function generateSuggestions(code: ErrorCode, context: ErrorContext): string[] {
   return suggestions;
 }
 
+const ERROR_CODES = new Set<string>(Object.values(ErrorCode));
+
 /**
- * Classify an error from Playwright and create enhanced error
+ * Code and retryability of an error message, most specific match first
  */
-export function classifyPlaywrightError(error: Error, context: ErrorContext = {}): EnhancedError {
-  const message = error.message.toLowerCase();
+const CLASSIFIERS: Array<{ code: ErrorCode; retryable: boolean; matches: (message: string) => boolean }> = [
+  // Assertion reports ("... Assertion FAILED" headings) mention selectors and states of their own
+  { code: ErrorCode.ASSERTION_FAILED, retryable: false, matches: m => /assertion failed$/m.test(m) },
 
   // Browser connection errors
-  if (message.includes('browser has been closed') || message.includes('browser disconnected')) {
-    return createEnhancedError(
-      ErrorCode.BROWSER_DISCONNECTED,
-      error.message,
-      context,
-      true, // retryable
-      error
-    );
-  }
-
-  if (message.includes('browser crashed')) {
-    return createEnhancedError(
-      ErrorCode.BROWSER_CRASHED,
-      error.message,
-      context,
-      true,
-      error
-    );
-  }
+  { code: ErrorCode.BROWSER_LAUNCH_FAILED, retryable: false, matches: m => m.includes("executable doesn't exist") || m.includes('failed to launch') },
+  { code: ErrorCode.BROWSER_DISCONNECTED, retryable: true, matches: m => m.includes('browser has been closed') || m.includes('browser disconnected') || m.includes('browser is disconnected') || m.includes('browser connection error') || m.includes('target closed') },
+  { code: ErrorCode.BROWSER_CRASHED, retryable: true, matches: m => m.includes('browser crashed') },
 
   // Page errors
-  if (message.includes('target page') || message.includes('page has been closed')) {
-    return createEnhancedError(
-      ErrorCode.PAGE_CLOSED,
-      error.message,
-      context,
-      true,
-      error
-    );
-  }
-
-  // Element errors
-  if (message.includes('waiting for selector') || message.includes('element not found')) {
-    return createEnhancedError(
-      ErrorCode.SELECTOR_NOT_FOUND,
-      error.message,
-      context,
-      false,
-      error
-    );
-  }
+  { code: ErrorCode.PAGE_CRASHED, retryable: true, matches: m => m.includes('page crashed') },
+  { code: ErrorCode.PAGE_CLOSED, retryable: true, matches: m => m.includes('target page') || m.includes('page has been closed') || m.includes('page is closed') },
 
-  if (message.includes('not visible') || message.includes('hidden')) {
-    return createEnhancedError(
-      ErrorCode.ELEMENT_NOT_VISIBLE,
-      error.message,
-      context,
-      false,
-      error
-    );
-  }
-
-  if (message.includes('not enabled') || message.includes('not editable') || message.includes('intercepts pointer events')) {
-    return createEnhancedError(
-      ErrorCode.ELEMENT_NOT_INTERACTABLE,
-      error.message,
-      context,
-      false,
-      error
-    );
-  }
-
-  if (message.includes('detached')) {
-    return createEnhancedError(
-      ErrorCode.ELEMENT_DETACHED,
-      error.message,
-      context,
-      true,
-      error
-    );
-  }
+  // Element errors; the call log shows whether the locator resolved before the action failed
+  { code: ErrorCode.SELECTOR_AMBIGUOUS, retryable: false, matches: m => m.includes('strict mode violation') },
+  { code: ErrorCode.ELEMENT_DETACHED, retryable: true, matches: m => m.includes('detached') },
+  { code: ErrorCode.ELEMENT_NOT_INTERACTABLE, retryable: false, matches: m => m.includes('not enabled') || m.includes('not editable') || m.includes('intercepts pointer events') },
+  { code: ErrorCode.ELEMENT_NOT_VISIBLE, retryable: false, matches: m => m.includes('not visible') || (m.includes('hidden') && !m.includes('waiting for locator')) },
+  { code: ErrorCode.SELECTOR_NOT_FOUND, retryable: false, matches: m => m.includes('waiting for selector') || m.includes('waiting for locator') || m.includes('element not found') || m.includes('no element matches') },
 
   // Timeout errors
-  if (message.includes('timeout') && message.includes('navigation')) {
-    return createEnhancedError(
-      ErrorCode.NAVIGATION_TIMEOUT,
-      error.message,
-      context,
-      false,
-      error
-    );
-  }
-
-  if (message.includes('timeout')) {
-    return createEnhancedError(
-      ErrorCode.TIMEOUT,
-      error.message,
-      context,
-      false,
-      error
-    );
-  }
+  { code: ErrorCode.NAVIGATION_TIMEOUT, retryable: false, matches: m => m.includes('timeout') && (m.includes('navigation') || m.includes('page.goto') || m.includes('waitforurl') || m.includes('waitforloadstate')) },
+  { code: ErrorCode.TIMEOUT, retryable: false, matches: m => m.includes('timeout') },
 
   // Network errors
-  if (message.includes('net::') || message.includes('network')) {
-    return createEnhancedError(
-      ErrorCode.NETWORK_ERROR,
-      error.message,
-      context,
-      true,
-      error
-    );
+  { code: ErrorCode.NAVIGATION_FAILED, retryable: true, matches: m => m.includes('page.goto') && m.includes('net::') },
+  { code: ErrorCode.NETWORK_ERROR, retryable: true, matches: m => m.includes('net::') || m.includes('network') || /econnrefused|econnreset|enotfound|eai_again/.test(m) },
+
+  // Session, file and argument errors
+  { code: ErrorCode.SESSION_NOT_FOUND, retryable: false, matches: m => /session '[^']*' not found/.test(m) },
+  { code: ErrorCode.FILE_ACCESS_DENIED, retryable: false, matches: m => m.includes('eacces') || m.includes('eperm') },
+  { code: ErrorCode.FILE_NOT_FOUND, retryable: false, matches: m => m.includes('enoent') || m.includes('file not found') },
+  { code: ErrorCode.ASSERTION_FAILED, retryable: false, matches: m => m.includes('assertion failed') },
+  { code: ErrorCode.MISSING_PARAMETER, retryable: false, matches: m => /\bis required\b|\bare required\b|\bmissing required\b/.test(m) },
+  { code: ErrorCode.INVALID_CONFIGURATION, retryable: false, matches: m => /^(invalid|unknown|unsupported) |\bmust be\b/.test(m) },
+];
+
+/**
+ * Classify an error from Playwright and create enhanced error
+ * Errors that already carry an ErrorCode (e.g. resource limit errors) keep it
+ */
+export function classifyPlaywrightError(error: Error, context: ErrorContext = {}): EnhancedError {
+  const { code, retryable } = error as Partial<{ code: unknown; retryable: unknown }>;
+  if (typeof code === 'string' && ERROR_CODES.has(code)) {
+    return createEnhancedError(code as ErrorCode, error.message, context, retryable === true, error);
   }
 
+  const message = error.message.toLowerCase();
+  const match = CLASSIFIERS.find(classifier => classifier.matches(message));
+
   // Default to unknown error
   return createEnhancedError(
-    ErrorCode.UNKNOWN_ERROR,
+    match?.code ?? ErrorCode.UNKNOWN_ERROR,
     error.message,
     context,
-    false,
+    match?.retryable ?? false,
     error
   );
 }
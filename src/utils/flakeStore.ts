@@ -0,0 +1,158 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+/**
+ * Flake Store - Outcome history of test scenarios across runs, used to measure flakiness
+ * and quarantine scenarios whose flake rate crosses a threshold
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Outcome of a scenario in one run
+ */
+export interface FlakeRun {
+  runId: string;
+  date: string;
+  status: 'passed' | 'failed' | 'flaky' | 'timeout';
+  attempts: number;
+}
+
+/**
+ * History of one scenario in one browser
+ */
+export interface FlakeRecord {
+  key: string;
+  name: string;
+  browser: string;
+  /** Most recent runs, oldest first */
+  runs: FlakeRun[];
+  quarantined: boolean;
+  quarantinedAt?: string;
+}
+
+/**
+ * When a scenario is quarantined
+ */
+export interface QuarantinePolicy {
+  /** Flake rate (see flakeRate) at or above which a scenario is quarantined */
+  threshold: number;
+  /** Runs needed before the flake rate is trusted */
+  minRuns: number;
+}
+
+interface FlakeIndex {
+  tests: Record<string, FlakeRecord>;
+}
+
+// Runs kept per scenario; the flake rate is measured over this window
+const HISTORY_SIZE = 30;
+
+function passedRun(run: FlakeRun): boolean {
+  return run.status === 'passed' || run.status === 'flaky';
+}
+
+/**
+ * Share of recorded runs that were flaky: passed only on retry, or passed where the run before
+ * failed or the other way round. The flips catch flakiness in suites run without retries
+ */
+export function flakeRate(record: FlakeRecord): number {
+  const flaky = record.runs.filter((run, index) =>
+    run.status === 'flaky' || (index > 0 && passedRun(run) !== passedRun(record.runs[index - 1]))
+  );
+  return record.runs.length > 0 ? flaky.length / record.runs.length : 0;
+}
+
+export class FlakeStore {
+  private filePath: string;
+
+  constructor(filePath: string = process.env.PLAYWRIGHT_FLAKE_STORE || './test-results/flaky-tests.json') {
+    this.filePath = filePath;
+  }
+
+  /**
+   * JSON file holding the store
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Key identifying a scenario, e.g. "checkout@firefox"
+   */
+  static keyFor(name: string, browser: string): string {
+    return `${name}@${browser}`;
+  }
+
+  get(name: string, browser: string): FlakeRecord | undefined {
+    return this.readIndex().tests[FlakeStore.keyFor(name, browser)];
+  }
+
+  /**
+   * Append run outcomes and re-evaluate quarantine; a quarantined scenario is released
+   * once its flake rate drops back below the threshold
+   * @returns Updated records of the given outcomes
+   */
+  record(outcomes: Array<{ name: string; browser: string; run: FlakeRun }>, policy: QuarantinePolicy): FlakeRecord[] {
+    const index = this.readIndex();
+
+    const updated = outcomes.map(({ name, browser, run }) => {
+      const key = FlakeStore.keyFor(name, browser);
+      const record = index.tests[key] ?? { key, name, browser, runs: [], quarantined: false };
+      record.runs = [...record.runs, run].slice(-HISTORY_SIZE);
+
+      const shouldQuarantine = record.runs.length >= policy.minRuns && flakeRate(record) >= policy.threshold;
+      if (shouldQuarantine && !record.quarantined) {
+        record.quarantinedAt = run.date;
+      } else if (!shouldQuarantine) {
+        delete record.quarantinedAt;
+      }
+      record.quarantined = shouldQuarantine;
+
+      index.tests[key] = record;
+      return record;
+    });
+
+    this.writeIndex(index);
+    return updated;
+  }
+
+  /**
+   * Records sorted by flake rate, highest first
+   */
+  list(options: { quarantinedOnly?: boolean } = {}): FlakeRecord[] {
+    return Object.values(this.readIndex().tests)
+      .filter(record => !options.quarantinedOnly || record.quarantined)
+      .sort((a, b) => flakeRate(b) - flakeRate(a) || a.key.localeCompare(b.key));
+  }
+
+  /**
+   * Forget the history of the given scenario keys (default: all), releasing them from quarantine
+   * @returns Removed keys
+   */
+  clear(keys?: string[]): string[] {
+    const index = this.readIndex();
+    const removed = Object.keys(index.tests).filter(key => !keys || keys.includes(key));
+    removed.forEach(key => delete index.tests[key]);
+    this.writeIndex(index);
+    return removed;
+  }
+
+  private readIndex(): FlakeIndex {
+    if (!fs.existsSync(this.filePath)) {
+      return { tests: {} };
+    }
+    return JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+  }
+
+  private writeIndex(index: FlakeIndex): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(index, null, 2));
+  }
+}
+
+// Export singleton instance
+export const flakeStore = new FlakeStore();
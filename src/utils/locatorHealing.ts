@@ -0,0 +1,310 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+/**
+ * Locator Healing - Remembers the fingerprint (test IDs, role, text, attributes, position) of the
+ * element each selector matched, and finds the best-scoring element in the current DOM once the
+ * selector stops matching
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Page } from 'playwright';
+import { ElementFingerprint, LocatorHelpers, withLocatorHelpers } from './locatorHeuristics.js';
+
+/**
+ * An element of the current DOM scored against a fingerprint
+ */
+export interface HealingCandidate {
+  selector: string;
+  /** Share of the fingerprint's weighted features the element matches, 0-1 */
+  confidence: number;
+  matchedOn: string[];
+}
+
+/**
+ * A selector substitution made in self-healing mode
+ */
+export interface HealingEvent {
+  timestamp: string;
+  tool: string;
+  sessionId?: string;
+  url: string;
+  originalSelector: string;
+  healedSelector: string;
+  confidence: number;
+  matchedOn: string[];
+  /** Replacement for page objects */
+  locatorCode: string;
+}
+
+export interface HealingConfig {
+  enabled: boolean;
+  /** Minimum confidence a candidate needs to be acted on */
+  threshold: number;
+  /** How long a selector may take to match before it is healed, in milliseconds */
+  waitTimeout: number;
+  /** Test ID attributes besides data-testid, data-test-id, data-id, data-qa and data-test */
+  customAttributes: string[];
+}
+
+interface StoredFingerprint {
+  selector: string;
+  host: string;
+  fingerprint: ElementFingerprint;
+  updatedAt: string;
+}
+
+interface HealingIndex {
+  fingerprints: Record<string, StoredFingerprint>;
+  events: HealingEvent[];
+}
+
+// Substitutions kept in the log, most recent last
+const EVENT_LOG_SIZE = 200;
+// Changes are batched into one write of the store per interval
+const WRITE_DELAY_MS = 1000;
+
+/**
+ * Score every visible element of the page against a fingerprint (runs in the browser)
+ */
+function scoreElements(
+  helpers: LocatorHelpers,
+  input: { fingerprint: ElementFingerprint; limit: number; customAttributes: string[] }
+): HealingCandidate[] {
+  const { fingerprint: expected, limit } = input;
+
+  const normalize = (value?: string) => (value ?? '').toLowerCase().replace(/\s+/g, ' ').trim();
+  const similarity = (a?: string, b?: string): number => {
+    const left = normalize(a);
+    const right = normalize(b);
+    if (!left || !right) return 0;
+    if (left === right) return 1;
+    if (left.includes(right) || right.includes(left)) return 0.7;
+    const leftWords = new Set(left.split(' '));
+    const rightWords = new Set(right.split(' '));
+    const shared = Array.from(leftWords).filter(word => rightWords.has(word)).length;
+    return shared / new Set([...leftWords, ...rightWords]).size * 0.6;
+  };
+
+  const scored: Array<{ element: Element; confidence: number; matchedOn: string[] }> = [];
+  for (const element of Array.from(document.body.querySelectorAll('*'))) {
+    if (/^(script|style|noscript|template|head|meta|link|svg|path)$/i.test(element.tagName)) continue;
+    const rect = element.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) continue;
+
+    const actual = helpers.fingerprint(element);
+    let score = 0;
+    let total = 0;
+    const matchedOn: string[] = [];
+    const weigh = (feature: string, weight: number, match: number) => {
+      total += weight;
+      score += weight * match;
+      if (match >= 0.7) matchedOn.push(feature);
+    };
+
+    for (const [name, value] of Object.entries(expected.testIds)) {
+      weigh(name, 5, actual.testIds[name] === value ? 1 : 0);
+    }
+    if (expected.id) weigh('id', 3, actual.id === expected.id ? 1 : 0);
+    if (expected.role) weigh('role', 1, actual.role === expected.role ? 1 : 0);
+    if (expected.accessibleName) weigh('name', 2, similarity(actual.accessibleName, expected.accessibleName));
+    if (expected.text) weigh('text', 2.5, similarity(actual.text, expected.text));
+    for (const [name, value] of Object.entries(expected.attributes)) {
+      weigh(name, name === 'name' ? 2 : 1, actual.attributes[name] === value ? 1 : similarity(actual.attributes[name], value) * 0.5);
+    }
+    weigh('tag', 1, actual.tag === expected.tag ? 1 : 0);
+    if (expected.classes.length > 0) {
+      const shared = expected.classes.filter(cls => actual.classes.includes(cls)).length;
+      weigh('classes', 1, shared / new Set([...expected.classes, ...actual.classes]).size);
+    }
+    const distance = Math.hypot(actual.position.x - expected.position.x, actual.position.y - expected.position.y);
+    weigh('position', 1, Math.max(0, 1 - distance / 300));
+
+    const confidence = total > 0 ? score / total : 0;
+    if (confidence > 0.3) {
+      scored.push({ element, confidence: Math.round(confidence * 100) / 100, matchedOn });
+    }
+  }
+
+  // Prefer the innermost element when a wrapper scores the same as its child
+  return scored
+    .sort((a, b) => b.confidence - a.confidence || Number(a.element.contains(b.element)) - Number(b.element.contains(a.element)))
+    .slice(0, limit)
+    .map(({ element, confidence, matchedOn }) => ({ selector: helpers.uniqueSelector(element), confidence, matchedOn }));
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return '';
+  }
+}
+
+export class LocatorHealer {
+  private filePath: string;
+  private config: HealingConfig;
+  /** Store contents, read on first use and written back after changes settle */
+  private index?: HealingIndex;
+  private writeTimer?: NodeJS.Timeout;
+
+  constructor(filePath: string = process.env.PLAYWRIGHT_HEALING_STORE || './test-results/locator-healing.json') {
+    this.filePath = filePath;
+    this.config = {
+      enabled: process.env.PLAYWRIGHT_SELF_HEALING === 'true',
+      threshold: Number(process.env.PLAYWRIGHT_HEALING_THRESHOLD) || 0.5,
+      waitTimeout: 5000,
+      customAttributes: [],
+    };
+  }
+
+  getConfig(): HealingConfig {
+    return { ...this.config };
+  }
+
+  configure(updates: Partial<HealingConfig>): HealingConfig {
+    this.config = { ...this.config, ...updates };
+    return this.getConfig();
+  }
+
+  /**
+   * Whether a call heals its selectors
+   * @param override Per-call selfHeal argument, which wins over the global mode
+   */
+  isEnabled(override?: boolean): boolean {
+    return override ?? this.config.enabled;
+  }
+
+  /**
+   * Fingerprint the first element a selector matches
+   * @returns undefined when nothing matches or the page is busy
+   */
+  async capture(page: Page, selector: string): Promise<ElementFingerprint | undefined> {
+    try {
+      return await page.locator(selector).first().evaluate(
+        withLocatorHelpers((helpers, element: Element) => helpers.fingerprint(element)),
+        { customAttributes: this.config.customAttributes },
+        { timeout: 1000 }
+      );
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Remember what a selector matched, for healing it later
+   */
+  remember(url: string, selector: string, fingerprint: ElementFingerprint): void {
+    const host = hostOf(url);
+    this.loadIndex().fingerprints[`${host}|${selector}`] = { selector, host, fingerprint, updatedAt: new Date().toISOString() };
+    this.scheduleWrite();
+  }
+
+  /**
+   * Last known fingerprint of a selector on the page's host
+   */
+  getFingerprint(url: string, selector: string): ElementFingerprint | undefined {
+    return this.loadIndex().fingerprints[`${hostOf(url)}|${selector}`]?.fingerprint;
+  }
+
+  /**
+   * Score the current DOM against the selector's last known fingerprint
+   * @returns Candidates, best first; empty when the selector was never seen on this host
+   */
+  async findCandidates(page: Page, selector: string, limit: number = 3): Promise<HealingCandidate[]> {
+    const fingerprint = this.getFingerprint(page.url(), selector);
+    if (!fingerprint) {
+      return [];
+    }
+    return page.evaluate(withLocatorHelpers(scoreElements), { fingerprint, limit, customAttributes: this.config.customAttributes });
+  }
+
+  /**
+   * Log a substitution
+   */
+  recordEvent(event: HealingEvent): void {
+    const index = this.loadIndex();
+    index.events = [...index.events, event].slice(-EVENT_LOG_SIZE);
+    this.scheduleWrite();
+  }
+
+  /**
+   * Logged substitutions, most recent first
+   */
+  listEvents(): HealingEvent[] {
+    return [...this.loadIndex().events].reverse();
+  }
+
+  /**
+   * Forget the substitution log and/or the remembered fingerprints
+   */
+  clear(options: { events?: boolean; fingerprints?: boolean }): void {
+    const index = this.loadIndex();
+    if (options.events) {
+      index.events = [];
+    }
+    if (options.fingerprints) {
+      index.fingerprints = {};
+    }
+    this.flush();
+  }
+
+  /**
+   * Number of remembered selectors
+   */
+  getFingerprintCount(): number {
+    return Object.keys(this.loadIndex().fingerprints).length;
+  }
+
+  /**
+   * Write pending changes to the store now
+   */
+  flush(): void {
+    clearTimeout(this.writeTimer);
+    this.writeTimer = undefined;
+    if (!this.index) {
+      return;
+    }
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, JSON.stringify(this.index, null, 2));
+    } catch (error) {
+      // Healing keeps working from memory; only persistence across restarts is lost
+      console.error(`[SelfHealing] Failed to write ${this.filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  private loadIndex(): HealingIndex {
+    if (!this.index) {
+      this.index = this.readIndex();
+    }
+    return this.index;
+  }
+
+  private readIndex(): HealingIndex {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const stored = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+        return { fingerprints: stored.fingerprints ?? {}, events: stored.events ?? [] };
+      }
+    } catch (error) {
+      console.error(`[SelfHealing] Ignoring unreadable store ${this.filePath}: ${(error as Error).message}`);
+    }
+    return { fingerprints: {}, events: [] };
+  }
+
+  private scheduleWrite(): void {
+    if (this.writeTimer) {
+      return;
+    }
+    this.writeTimer = setTimeout(() => this.flush(), WRITE_DELAY_MS);
+    // Pending changes are flushed on shutdown rather than holding the process open
+    this.writeTimer.unref();
+  }
+}
+
+// Export singleton instance
+export const locatorHealer = new LocatorHealer();
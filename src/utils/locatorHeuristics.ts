@@ -0,0 +1,274 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+/**
+ * Locator Heuristics - How an element is identified in the browser: test ID attributes, role,
+ * accessible name, stable selectors and its fingerprint. Shared by the locator collector and
+ * self-healing locators
+ */
+
+/**
+ * What an element looked like the last time a selector matched it
+ */
+export interface ElementFingerprint {
+  tag: string;
+  id?: string;
+  /** data-testid and the other test ID attributes, custom ones included */
+  testIds: Record<string, string>;
+  /** name, type, placeholder, aria-label, title, alt, href... */
+  attributes: Record<string, string>;
+  role?: string;
+  accessibleName?: string;
+  text?: string;
+  classes: string[];
+  position: { x: number; y: number; width: number; height: number };
+}
+
+/**
+ * Helpers available to page functions wrapped with withLocatorHelpers
+ */
+export interface LocatorHelpers {
+  /** data-testid, data-test-id, data-id, data-qa, data-test, then the custom attributes */
+  testIdAttributes: string[];
+  /** Whether an ID looks hand-written rather than generated by a framework */
+  isStableId(id: string): boolean;
+  isUnique(selector: string): boolean;
+  getRole(element: Element): string | null;
+  getAccessibleName(element: Element): string | null;
+  /** Unique-enough CSS selector from name, type or meaningful classes, if there is one */
+  generateCssSelector(element: Element): string | null;
+  /** Most stable unique selector: test ID, stable ID, CSS, else an nth-of-type path */
+  uniqueSelector(element: Element): string;
+  fingerprint(element: Element): ElementFingerprint;
+}
+
+/**
+ * Build the helpers (runs in the browser, so it must not reference anything outside itself)
+ */
+function createLocatorHelpers(customAttributes: string[]): LocatorHelpers {
+  const testIdAttributes = ['data-testid', 'data-test-id', 'data-id', 'data-qa', 'data-test', ...customAttributes];
+
+  function isStableId(id: string): boolean {
+    // Avoid IDs that look like: id_12345, guid-xxx-xxx, react_123, etc.
+    const unstablePatterns = [
+      /^[a-z]+_\d+$/i,           // prefix_numbers
+      /^[0-9a-f]{8}-[0-9a-f]{4}-/i, // GUID/UUID pattern
+      /^react[-_]\d+/i,          // React generated
+      /^ember\d+/i,              // Ember generated
+      /^mui-\d+/i,               // Material-UI generated
+      /^\d+$/,                   // Only numbers
+    ];
+    return !unstablePatterns.some(pattern => pattern.test(id));
+  }
+
+  function isUnique(selector: string): boolean {
+    try {
+      return document.querySelectorAll(selector).length === 1;
+    } catch {
+      return false;
+    }
+  }
+
+  function getRole(element: Element): string | null {
+    // Explicit role
+    const explicitRole = element.getAttribute('role');
+    if (explicitRole) return explicitRole;
+
+    // Implicit roles based on tag
+    const tagName = element.tagName.toLowerCase();
+    const type = element.getAttribute('type');
+    const implicitRoles: { [key: string]: string } = {
+      'button': 'button',
+      'a': 'link',
+      'input': type === 'button' || type === 'submit' ? 'button' : type === 'checkbox' ? 'checkbox' : type === 'radio' ? 'radio' : 'textbox',
+      'textarea': 'textbox',
+      'select': 'combobox',
+      'h1': 'heading',
+      'h2': 'heading',
+      'h3': 'heading',
+      'h4': 'heading',
+      'h5': 'heading',
+      'h6': 'heading',
+      'nav': 'navigation',
+      'main': 'main',
+      'header': 'banner',
+      'footer': 'contentinfo',
+      'aside': 'complementary',
+      'img': 'img',
+      'form': 'form',
+    };
+
+    return implicitRoles[tagName] || null;
+  }
+
+  function getAccessibleName(element: Element): string | null {
+    if (!(element instanceof HTMLElement)) return null;
+
+    // Check aria-label
+    const ariaLabel = element.getAttribute('aria-label');
+    if (ariaLabel) return ariaLabel;
+
+    // Check aria-labelledby
+    const labelledBy = element.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      const labelElement = document.getElementById(labelledBy);
+      if (labelElement) return labelElement.textContent?.trim() || null;
+    }
+
+    // For form inputs, check associated label
+    if (element instanceof HTMLInputElement ||
+        element instanceof HTMLTextAreaElement ||
+        element instanceof HTMLSelectElement) {
+      const label = element.id ? document.querySelector(`label[for="${CSS.escape(element.id)}"]`) : null;
+      if (label) return label.textContent?.trim() || null;
+
+      // Check if wrapped in label
+      const parentLabel = element.closest('label');
+      if (parentLabel) {
+        const text = parentLabel.textContent?.trim() || '';
+        return text.replace(element.value || '', '').trim() || null;
+      }
+    }
+
+    // For buttons and links, use text content
+    if (element instanceof HTMLButtonElement ||
+        element instanceof HTMLAnchorElement) {
+      return element.textContent?.trim() || null;
+    }
+
+    return null;
+  }
+
+  function generateCssSelector(element: Element): string | null {
+    // Try name attribute for inputs
+    if (element instanceof HTMLInputElement ||
+        element instanceof HTMLTextAreaElement ||
+        element instanceof HTMLSelectElement) {
+      const name = element.getAttribute('name');
+      if (name) {
+        const tagName = element.tagName.toLowerCase();
+        return `${tagName}[name="${name}"]`;
+      }
+    }
+
+    // Try type attribute for inputs/buttons
+    if (element instanceof HTMLInputElement || element instanceof HTMLButtonElement) {
+      const type = element.getAttribute('type');
+      if (type) {
+        const tagName = element.tagName.toLowerCase();
+        const selector = `${tagName}[type="${type}"]`;
+        // Check if unique
+        if (document.querySelectorAll(selector).length === 1) {
+          return selector;
+        }
+      }
+    }
+
+    // Try combining tag with meaningful class
+    const classes = Array.from(element.classList).filter(cls => {
+      // Filter out utility classes and dynamic classes
+      return !cls.match(/^(active|disabled|hidden|visible|show|hide|d-|p-|m-|text-|bg-|border-|w-|h-)/);
+    });
+
+    if (classes.length > 0) {
+      const tagName = element.tagName.toLowerCase();
+      const classSelector = classes.slice(0, 2).map(c => `.${c}`).join('');
+      const selector = `${tagName}${classSelector}`;
+      if (document.querySelectorAll(selector).length === 1) {
+        return selector;
+      }
+    }
+
+    return null;
+  }
+
+  function uniqueSelector(element: Element): string {
+    for (const name of testIdAttributes) {
+      const value = element.getAttribute(name);
+      const selector = `[${name}="${CSS.escape(value ?? '')}"]`;
+      if (value && isUnique(selector)) return selector;
+    }
+    if (element.id && isStableId(element.id) && isUnique(`#${CSS.escape(element.id)}`)) {
+      return `#${CSS.escape(element.id)}`;
+    }
+    const cssSelector = generateCssSelector(element);
+    if (cssSelector && isUnique(cssSelector)) return cssSelector;
+
+    // Path of nth-of-type steps up to the nearest ancestor with an ID
+    const steps: string[] = [];
+    let current: Element | null = element;
+    while (current && current !== document.body) {
+      if (current !== element && current.id && isUnique(`#${CSS.escape(current.id)}`)) {
+        steps.unshift(`#${CSS.escape(current.id)}`);
+        break;
+      }
+      const parent: Element | null = current.parentElement;
+      const currentTag = current.tagName.toLowerCase();
+      const siblings = parent ? Array.from(parent.children).filter(child => child.tagName === current!.tagName) : [];
+      steps.unshift(siblings.length > 1 ? `${currentTag}:nth-of-type(${siblings.indexOf(current) + 1})` : currentTag);
+      current = parent;
+    }
+    return (current === document.body ? ['body', ...steps] : steps).join(' > ');
+  }
+
+  function fingerprint(element: Element): ElementFingerprint {
+    const attr = (name: string) => element.getAttribute(name) ?? undefined;
+    const tag = element.tagName.toLowerCase();
+    const type = attr('type');
+    const isField = /^(input|textarea|select)$/.test(tag);
+    const accessibleName = getAccessibleName(element) ?? (isField ? attr('placeholder') : undefined);
+
+    const testIds: Record<string, string> = {};
+    for (const name of testIdAttributes) {
+      const value = attr(name);
+      if (value) {
+        testIds[name] = value;
+      }
+    }
+
+    const attributes: Record<string, string> = {};
+    for (const name of ['name', 'type', 'placeholder', 'aria-label', 'title', 'alt', 'href', 'for', 'value']) {
+      const value = attr(name);
+      // Typed input values change; only button-like values identify the element
+      if (value && (name !== 'value' || type === 'submit' || type === 'button')) {
+        attributes[name] = value;
+      }
+    }
+
+    const rect = element.getBoundingClientRect();
+    return {
+      tag,
+      id: element.id || undefined,
+      testIds,
+      attributes,
+      role: getRole(element) ?? undefined,
+      accessibleName: accessibleName?.replace(/\s+/g, ' ').slice(0, 100),
+      text: element.textContent?.replace(/\s+/g, ' ').trim().slice(0, 100) || undefined,
+      classes: Array.from(element.classList),
+      position: {
+        x: Math.round(rect.x + window.scrollX),
+        y: Math.round(rect.y + window.scrollY),
+        width: Math.round(rect.width),
+        height: Math.round(rect.height),
+      },
+    };
+  }
+
+  return { testIdAttributes, isStableId, isUnique, getRole, getAccessibleName, generateCssSelector, uniqueSelector, fingerprint };
+}
+
+/**
+ * Wrap a page function so it gets the locator helpers as its first argument, for page.evaluate
+ * (fn(helpers, arg)) or locator.evaluate (fn(helpers, element, arg)). Playwright sends page functions
+ * to the browser as source, so the helpers are inlined into the wrapper rather than referenced
+ * @param fn Page function; its last argument may carry customAttributes, the extra test ID attributes
+ */
+export function withLocatorHelpers<Args extends unknown[], R>(fn: (helpers: LocatorHelpers, ...args: Args) => R): (...args: Args) => R {
+  return new Function('...args', [
+    'const input = args[args.length - 1];',
+    `const helpers = (${createLocatorHelpers.toString()})((input && input.customAttributes) || []);`,
+    `return (${fn.toString()})(helpers, ...args);`,
+  ].join('\n')) as (...args: Args) => R;
+}
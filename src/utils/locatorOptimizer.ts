@@ -210,3 +210,22 @@ export function getSelectorPriority(optimized: OptimizedLocator): number {
     default: return 0;
   }
 }
+
+/**
+ * Optimizes each selector and keeps the highest priority locator per derived name
+ */
+export function buildLocatorMap(selectors: string[]): Map<string, OptimizedLocator> {
+  const locatorMap = new Map<string, OptimizedLocator>();
+
+  for (const selector of selectors) {
+    const optimized = optimizeLocator(selector);
+    const key = deriveLocatorName(optimized);
+
+    if (!locatorMap.has(key) ||
+        getSelectorPriority(optimized) > getSelectorPriority(locatorMap.get(key)!)) {
+      locatorMap.set(key, optimized);
+    }
+  }
+
+  return locatorMap;
+}
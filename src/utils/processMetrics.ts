@@ -0,0 +1,154 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+/**
+ * Process Metrics - Memory and CPU time of browser process trees, read from /proc on Linux
+ */
+
+import * as fs from 'fs';
+
+/**
+ * Environment variable set on each launched browser so its process tree can be found
+ */
+export const BROWSER_MARKER_ENV = 'PLAYWRIGHT_MCP_BROWSER';
+
+// Kernel clock ticks per second (USER_HZ); 100 on every mainstream Linux build
+const CLOCK_TICKS = 100;
+
+interface ProcessStat {
+  pid: number;
+  ppid: number;
+  /** utime + stime, in clock ticks */
+  cpuTicks: number;
+}
+
+/**
+ * Resource use of one process tree at a point in time
+ */
+export interface ProcessTreeUsage {
+  rootPid: number;
+  processes: number;
+  rssMB: number;
+  /** Total CPU time of the live processes, in seconds */
+  cpuSeconds: number;
+}
+
+/**
+ * Whether process trees can be read on this platform
+ */
+export function isProcfsAvailable(): boolean {
+  return process.platform === 'linux' && fs.existsSync('/proc/self/stat');
+}
+
+function readStat(pid: number): ProcessStat | undefined {
+  try {
+    const stat = fs.readFileSync(`/proc/${pid}/stat`, 'utf-8');
+    // The command name is in parentheses and may itself contain spaces or parentheses
+    const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+    return {
+      pid,
+      ppid: Number(fields[1]),
+      cpuTicks: Number(fields[11]) + Number(fields[12]),
+    };
+  } catch {
+    // Exited between listing and reading
+    return undefined;
+  }
+}
+
+function readRssKB(pid: number): number {
+  try {
+    const match = /^VmRSS:\s+(\d+)\s+kB/m.exec(fs.readFileSync(`/proc/${pid}/status`, 'utf-8'));
+    return match ? Number(match[1]) : 0;
+  } catch {
+    return 0;
+  }
+}
+
+function readMarker(pid: number): string | undefined {
+  try {
+    const prefix = `${BROWSER_MARKER_ENV}=`;
+    const entry = fs.readFileSync(`/proc/${pid}/environ`, 'utf-8').split('\0').find(item => item.startsWith(prefix));
+    return entry?.slice(prefix.length);
+  } catch {
+    // Processes of other users are not readable
+    return undefined;
+  }
+}
+
+/**
+ * Every process visible in /proc
+ */
+function listProcesses(): ProcessStat[] {
+  return fs.readdirSync('/proc')
+    .filter(name => /^\d+$/.test(name))
+    .map(name => readStat(Number(name)))
+    .filter((stat): stat is ProcessStat => stat !== undefined);
+}
+
+/**
+ * Usage of each marked browser's process tree, keyed by marker; browsers are looked up among
+ * the children of this process, as Playwright launches them directly
+ * @param markers Markers to look for
+ */
+export function readBrowserTrees(markers: string[]): Map<string, ProcessTreeUsage> {
+  const usage = new Map<string, ProcessTreeUsage>();
+  if (!isProcfsAvailable() || markers.length === 0) {
+    return usage;
+  }
+
+  const processes = listProcesses();
+  const children = new Map<number, ProcessStat[]>();
+  for (const stat of processes) {
+    children.set(stat.ppid, [...(children.get(stat.ppid) ?? []), stat]);
+  }
+
+  for (const root of children.get(process.pid) ?? []) {
+    const marker = readMarker(root.pid);
+    if (!marker || !markers.includes(marker)) {
+      continue;
+    }
+
+    // Walk the tree: renderers, GPU and utility processes, content processes...
+    const tree: ProcessStat[] = [];
+    const pending = [root];
+    while (pending.length > 0) {
+      const current = pending.pop()!;
+      tree.push(current);
+      pending.push(...(children.get(current.pid) ?? []));
+    }
+
+    usage.set(marker, {
+      rootPid: root.pid,
+      processes: tree.length,
+      rssMB: tree.reduce((sum, stat) => sum + readRssKB(stat.pid), 0) / 1024,
+      cpuSeconds: tree.reduce((sum, stat) => sum + stat.cpuTicks, 0) / CLOCK_TICKS,
+    });
+  }
+
+  return usage;
+}
+
+/**
+ * Memory and CPU time of this Node process
+ */
+export function readNodeUsage(): { rssMB: number; cpuSeconds: number } {
+  const cpu = process.cpuUsage();
+  return {
+    rssMB: process.memoryUsage().rss / 1024 / 1024,
+    cpuSeconds: (cpu.user + cpu.system) / 1e6,
+  };
+}
+
+/**
+ * CPU use between two samples, as a percentage of one core
+ */
+export function cpuPercent(previousSeconds: number, currentSeconds: number, elapsedMs: number): number {
+  if (elapsedMs <= 0) {
+    return 0;
+  }
+  // Exited child processes drop out of the tree, so the total can go down
+  return Math.max(0, ((currentSeconds - previousSeconds) * 1000 / elapsedMs) * 100);
+}
@@ -7,7 +7,8 @@
  * Resource Manager - Handles resource limits, throttling, and queue management
  */
 
-import { ErrorCode, createEnhancedError } from './errorContext.js';
+import { ErrorCode, EnhancedError, createEnhancedError } from './errorContext.js';
+import { sessionMetrics } from './sessionMetrics.js';
 
 export interface ResourceConfig {
   maxConcurrentBrowsers: number;
@@ -19,13 +20,19 @@ export interface ResourceConfig {
   memoryLimitMB?: number;
   enableAutoCleanup: boolean;
   cleanupInterval: number; // milliseconds
+  evictionMinIdleMs: number; // sessions idle for less are never evicted
 }
 
 export interface ResourceUsage {
   activeBrowsers: number;
   activeSessions: number;
   queuedRequests: number;
+  /** This process plus the process trees of every session's browser */
   memoryUsageMB: number;
+  nodeMemoryMB: number;
+  browserMemoryMB: number;
+  browserProcesses: number;
+  /** Between the two latest readings, in % of one core */
   cpuUsagePercent: number;
 }
 
@@ -38,6 +45,38 @@ export interface QueuedOperation {
   resolve: (value: any) => void;
   reject: (error: Error) => void;
   timeout?: NodeJS.Timeout;
+  onQueued?: (position: QueuePosition) => void;
+}
+
+/**
+ * Where a waiting operation stands in the queue, reported whenever it changes
+ */
+export interface QueuePosition {
+  operationId: string;
+  /** 1-based */
+  position: number;
+  queueLength: number;
+}
+
+/**
+ * Closes idle sessions, least recently used first, to free memory
+ * @returns Number of sessions closed
+ */
+export type SessionEvictor = (options: { minIdleMs: number; maxCount: number }) => Promise<number>;
+
+/**
+ * A request refused by a resource limit (session limit, full queue, queue timeout, memory)
+ */
+export class ResourceLimitError extends Error {
+  readonly code: ErrorCode;
+  readonly retryable: boolean;
+
+  constructor(error: EnhancedError) {
+    super(error.message);
+    this.name = 'ResourceLimitError';
+    this.code = error.code;
+    this.retryable = error.retryable;
+  }
 }
 
 /**
@@ -52,18 +91,22 @@ export class ResourceManager {
   private nextOperationId = 1;
   private cleanupInterval?: NodeJS.Timeout;
   private processing = false;
+  private evictor?: SessionEvictor;
 
   constructor(config?: Partial<ResourceConfig>) {
+    const maxTotalSessions = config?.maxTotalSessions ?? 10;
     this.config = {
       maxConcurrentBrowsers: config?.maxConcurrentBrowsers ?? 5,
-      maxSessionsPerUser: config?.maxSessionsPerUser ?? 3,
-      maxTotalSessions: config?.maxTotalSessions ?? 10,
+      // No separate per-client cap unless one is configured: a stdio server has a single client
+      maxSessionsPerUser: config?.maxSessionsPerUser ?? maxTotalSessions,
+      maxTotalSessions,
       sessionIdleTimeout: config?.sessionIdleTimeout ?? 3600000, // 1 hour
       queueTimeout: config?.queueTimeout ?? 300000, // 5 minutes
       maxQueueSize: config?.maxQueueSize ?? 50,
       memoryLimitMB: config?.memoryLimitMB,
       enableAutoCleanup: config?.enableAutoCleanup ?? true,
       cleanupInterval: config?.cleanupInterval ?? 300000, // 5 minutes
+      evictionMinIdleMs: config?.evictionMinIdleMs ?? 30000,
     };
 
     if (this.config.enableAutoCleanup) {
@@ -73,10 +116,105 @@ export class ResourceManager {
 
   /**
    * Request a browser launch with resource limits enforcement
+   * @param onQueued Called with the queue position while the request waits
    */
-  async requestBrowserLaunch(userId?: string, priority: number = 0): Promise<void> {
-    // Check if we've reached the limit
-    if (this.activeBrowsers >= this.config.maxConcurrentBrowsers) {
+  async requestBrowserLaunch(userId?: string, priority: number = 0, onQueued?: (position: QueuePosition) => void): Promise<void> {
+    return this.acquire('browser_launch', userId, priority, onQueued);
+  }
+
+  /**
+   * Release a browser resource
+   */
+  async releaseBrowser(userId?: string): Promise<void> {
+    this.activeBrowsers = Math.max(0, this.activeBrowsers - 1);
+    this.releaseUser(userId);
+
+    // Process next in queue
+    await this.processQueue();
+  }
+
+  /**
+   * Request a browser session: a browser launch that also counts against maxTotalSessions
+   * @param onQueued Called with the queue position while the request waits
+   */
+  async requestSession(userId?: string, priority: number = 0, onQueued?: (position: QueuePosition) => void): Promise<void> {
+    return this.acquire('session_create', userId, priority, onQueued);
+  }
+
+  /**
+   * Release a session granted by requestSession
+   */
+  async releaseSession(userId?: string): Promise<void> {
+    this.decrementSessions();
+    await this.releaseBrowser(userId);
+  }
+
+  /**
+   * Sessions held per user
+   */
+  getSessionsByUser(): Record<string, number> {
+    return Object.fromEntries(this.sessionsByUser);
+  }
+
+  /**
+   * Sessions currently held by a user
+   */
+  getUserSessionCount(userId: string): number {
+    return this.sessionsByUser.get(userId) || 0;
+  }
+
+  /**
+   * Register the callback that closes idle sessions when the memory limit is exceeded
+   */
+  setSessionEvictor(evictor: SessionEvictor): void {
+    this.evictor = evictor;
+  }
+
+  /**
+   * Close least-recently-used idle sessions until memory is back under the limit
+   * @returns Number of sessions closed
+   */
+  async evictForMemory(): Promise<number> {
+    let evicted = 0;
+    while (this.evictor && this.isMemoryLimitExceeded()) {
+      const closed = await this.evictor({ minIdleMs: this.config.evictionMinIdleMs, maxCount: 1 });
+      if (closed === 0) {
+        break;
+      }
+      evicted += closed;
+    }
+
+    if (evicted > 0) {
+      console.error(`[ResourceManager] Memory limit exceeded, evicted ${evicted} idle session(s)`);
+    }
+    return evicted;
+  }
+
+  /**
+   * Grant a browser (and, for sessions, a session slot) now or wait in the queue
+   */
+  private async acquire(
+    type: 'browser_launch' | 'session_create',
+    userId?: string,
+    priority: number = 0,
+    onQueued?: (position: QueuePosition) => void
+  ): Promise<void> {
+    if (this.isMemoryLimitExceeded()) {
+      await this.evictForMemory();
+      if (this.isMemoryLimitExceeded()) {
+        const usage = this.getResourceUsage();
+        const error = createEnhancedError(
+          ErrorCode.MEMORY_LIMIT_EXCEEDED,
+          `Memory limit exceeded (${usage.memoryUsageMB}MB / ${this.config.memoryLimitMB}MB) and no idle session can be closed`,
+          { memoryUsageMB: usage.memoryUsageMB, memoryLimitMB: this.config.memoryLimitMB },
+          true
+        );
+        throw new ResourceLimitError(error);
+      }
+    }
+
+    // Check if we've reached the browser, session or per-client limit
+    if (!this.hasCapacity(type, userId) || this.queue.length > 0) {
       // Check queue size
       if (this.queue.length >= this.config.maxQueueSize) {
         const error = createEnhancedError(
@@ -85,48 +223,47 @@ export class ResourceManager {
           { queueSize: this.queue.length, maxQueueSize: this.config.maxQueueSize },
           true
         );
-        throw new Error(error.message);
+        throw new ResourceLimitError(error);
       }
 
-      // Add to queue
-      return this.enqueue('browser_launch', userId, priority);
-    }
-
-    // Check user-specific limit
-    if (userId && this.sessionsByUser.get(userId)! >= this.config.maxSessionsPerUser) {
-      const error = createEnhancedError(
-        ErrorCode.SESSION_LIMIT_REACHED,
-        `User '${userId}' has reached the session limit (${this.config.maxSessionsPerUser})`,
-        { userId, currentSessions: this.sessionsByUser.get(userId), limit: this.config.maxSessionsPerUser },
-        false
-      );
-      throw new Error(error.message);
+      // Add to queue; capacity may already be free if limits were raised
+      const waiting = this.enqueue(type, userId, priority, onQueued);
+      await this.processQueue();
+      return waiting;
     }
 
     // Grant immediately
-    this.activeBrowsers++;
-    if (userId) {
-      this.sessionsByUser.set(userId, (this.sessionsByUser.get(userId) || 0) + 1);
-    }
+    this.grant(type, userId);
   }
 
   /**
-   * Release a browser resource
+   * Whether an operation of this type, for this client, can be granted without waiting
    */
-  async releaseBrowser(userId?: string): Promise<void> {
-    this.activeBrowsers = Math.max(0, this.activeBrowsers - 1);
+  private hasCapacity(type: 'browser_launch' | 'session_create', userId?: string): boolean {
+    return this.activeBrowsers < this.config.maxConcurrentBrowsers &&
+      (type !== 'session_create' || this.activeSessions < this.config.maxTotalSessions) &&
+      (!userId || this.getUserSessionCount(userId) < this.config.maxSessionsPerUser);
+  }
 
+  private grant(type: 'browser_launch' | 'session_create', userId?: string): void {
+    this.activeBrowsers++;
+    if (type === 'session_create') {
+      this.incrementSessions();
+    }
+    if (userId) {
+      this.sessionsByUser.set(userId, this.getUserSessionCount(userId) + 1);
+    }
+  }
+
+  private releaseUser(userId?: string): void {
     if (userId) {
-      const count = this.sessionsByUser.get(userId) || 0;
+      const count = this.getUserSessionCount(userId);
       if (count > 1) {
         this.sessionsByUser.set(userId, count - 1);
       } else {
         this.sessionsByUser.delete(userId);
       }
     }
-
-    // Process next in queue
-    await this.processQueue();
   }
 
   /**
@@ -135,7 +272,8 @@ export class ResourceManager {
   private async enqueue(
     type: 'browser_launch' | 'session_create',
     userId?: string,
-    priority: number = 0
+    priority: number = 0,
+    onQueued?: (position: QueuePosition) => void
   ): Promise<void> {
     return new Promise((resolve, reject) => {
       const id = `op-${this.nextOperationId++}`;
@@ -143,14 +281,16 @@ export class ResourceManager {
 
       // Set timeout
       const timeout = setTimeout(() => {
+        const position = this.queue.findIndex(op => op.id === id) + 1;
         this.removeFromQueue(id);
+        this.notifyPositions();
         const error = createEnhancedError(
           ErrorCode.TIMEOUT,
-          `Operation ${id} timed out after ${this.config.queueTimeout}ms in queue`,
-          { operationId: id, type, queueTimeout: this.config.queueTimeout },
+          `Operation ${id} timed out after ${this.config.queueTimeout}ms in queue (position ${position})`,
+          { operationId: id, type, queueTimeout: this.config.queueTimeout, position },
           true
         );
-        reject(new Error(error.message));
+        reject(new ResourceLimitError(error));
       }, this.config.queueTimeout);
 
       const operation: QueuedOperation = {
@@ -162,6 +302,7 @@ export class ResourceManager {
         resolve,
         reject,
         timeout,
+        onQueued,
       };
 
       this.queue.push(operation);
@@ -174,7 +315,21 @@ export class ResourceManager {
         return a.createdAt.getTime() - b.createdAt.getTime();
       });
 
-      console.log(`Operation ${id} queued (position: ${this.queue.findIndex(op => op.id === id) + 1}/${this.queue.length})`);
+      console.error(`Operation ${id} queued (position: ${this.queue.findIndex(op => op.id === id) + 1}/${this.queue.length})`);
+      this.notifyPositions();
+    });
+  }
+
+  /**
+   * Tell every waiting operation where it now stands
+   */
+  private notifyPositions(): void {
+    this.queue.forEach((operation, index) => {
+      try {
+        operation.onQueued?.({ operationId: operation.id, position: index + 1, queueLength: this.queue.length });
+      } catch (error) {
+        console.error(`Failed to report queue position of ${operation.id}:`, error);
+      }
     });
   }
 
@@ -187,43 +342,30 @@ export class ResourceManager {
     }
 
     this.processing = true;
+    const queueLength = this.queue.length;
 
     try {
-      while (this.queue.length > 0 && this.activeBrowsers < this.config.maxConcurrentBrowsers) {
-        const operation = this.queue.shift();
-        if (!operation) break;
+      // Grant in queue order, passing over clients that are at their own session limit
+      let index: number;
+      while ((index = this.queue.findIndex(op => this.hasCapacity(op.type, op.userId))) !== -1) {
+        const operation = this.queue.splice(index, 1)[0];
 
         // Clear timeout
         if (operation.timeout) {
           clearTimeout(operation.timeout);
         }
 
-        // Check user-specific limit
-        if (operation.userId) {
-          const userSessions = this.sessionsByUser.get(operation.userId) || 0;
-          if (userSessions >= this.config.maxSessionsPerUser) {
-            const error = createEnhancedError(
-              ErrorCode.SESSION_LIMIT_REACHED,
-              `User '${operation.userId}' has reached the session limit`,
-              { userId: operation.userId },
-              false
-            );
-            operation.reject(new Error(error.message));
-            continue;
-          }
-        }
-
         // Grant resource
-        this.activeBrowsers++;
-        if (operation.userId) {
-          this.sessionsByUser.set(operation.userId, (this.sessionsByUser.get(operation.userId) || 0) + 1);
-        }
+        this.grant(operation.type, operation.userId);
 
-        console.log(`Operation ${operation.id} granted (waited ${Date.now() - operation.createdAt.getTime()}ms)`);
+        console.error(`Operation ${operation.id} granted (waited ${Date.now() - operation.createdAt.getTime()}ms)`);
         operation.resolve(undefined);
       }
     } finally {
       this.processing = false;
+      if (this.queue.length !== queueLength) {
+        this.notifyPositions();
+      }
     }
   }
 
@@ -258,15 +400,18 @@ export class ResourceManager {
    * Get current resource usage
    */
   getResourceUsage(): ResourceUsage {
-    const memUsage = process.memoryUsage();
-    const memoryUsageMB = Math.round(memUsage.heapUsed / 1024 / 1024);
+    // Browser trees are only measurable through /proc; elsewhere they count as 0
+    const totals = sessionMetrics.totals();
 
     return {
       activeBrowsers: this.activeBrowsers,
       activeSessions: this.activeSessions,
       queuedRequests: this.queue.length,
-      memoryUsageMB,
-      cpuUsagePercent: 0, // Would need external library for accurate CPU usage
+      memoryUsageMB: totals.nodeMemoryMB + totals.browserMemoryMB,
+      nodeMemoryMB: totals.nodeMemoryMB,
+      browserMemoryMB: totals.browserMemoryMB,
+      browserProcesses: totals.browserProcesses,
+      cpuUsagePercent: totals.cpuPercent,
     };
   }
 
@@ -295,6 +440,9 @@ export class ResourceManager {
   updateConfig(updates: Partial<ResourceConfig>): void {
     this.config = { ...this.config, ...updates };
 
+    // Raised limits may let queued operations through
+    this.processQueue().catch(() => {});
+
     // Restart auto-cleanup if setting changed
     if (updates.enableAutoCleanup !== undefined || updates.cleanupInterval !== undefined) {
       this.stopAutoCleanup();
@@ -310,12 +458,15 @@ export class ResourceManager {
   private startAutoCleanup(): void {
     this.cleanupInterval = setInterval(() => {
       const usage = this.getResourceUsage();
-      console.log(`[ResourceManager] Periodic check - Active: ${usage.activeBrowsers} browsers, ${usage.activeSessions} sessions, Queue: ${usage.queuedRequests}, Memory: ${usage.memoryUsageMB}MB`);
+      console.error(`[ResourceManager] Periodic check - Active: ${usage.activeBrowsers} browsers, ${usage.activeSessions} sessions, Queue: ${usage.queuedRequests}, Memory: ${usage.memoryUsageMB}MB`);
 
       if (this.isMemoryLimitExceeded()) {
         console.warn(`[ResourceManager] Memory limit exceeded: ${usage.memoryUsageMB}MB / ${this.config.memoryLimitMB}MB`);
+        this.evictForMemory().catch(error => console.error('[ResourceManager] Eviction failed:', error));
       }
     }, this.config.cleanupInterval);
+    // The periodic check alone should not keep the process alive
+    this.cleanupInterval.unref();
   }
 
   /**
@@ -372,5 +523,18 @@ export class ResourceManager {
   }
 }
 
-// Export singleton instance with default configuration
-export const resourceManager = new ResourceManager();
+/**
+ * Numeric environment variable, if set
+ */
+function envNumber(name: string): number | undefined {
+  const value = process.env[name];
+  return value !== undefined && value !== '' && !isNaN(Number(value)) ? Number(value) : undefined;
+}
+
+// Export singleton instance, configured from the environment where set
+export const resourceManager = new ResourceManager({
+  maxConcurrentBrowsers: envNumber('MAX_CONCURRENT_BROWSERS'),
+  maxSessionsPerUser: envNumber('MAX_SESSIONS_PER_CLIENT'),
+  maxTotalSessions: envNumber('MAX_SESSIONS'),
+  memoryLimitMB: envNumber('MEMORY_LIMIT_MB'),
+});
@@ -0,0 +1,368 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+/**
+ * Session Metrics - Per-session browser memory and CPU sampled from the process tree (/proc)
+ * and Chromium's DevTools protocol, with a rolling history for spotting leaking flows
+ */
+
+import type { BrowserSession } from '../sessionManager.js';
+import { cpuPercent, isProcfsAvailable, readBrowserTrees, readNodeUsage } from './processMetrics.js';
+
+/**
+ * One measurement of a session's browser
+ */
+export interface SessionMetricsSample {
+  timestamp: string;
+  /** Page URL when sampled, to tie growth to a flow */
+  url: string;
+  /** Resident memory of the browser's whole process tree */
+  rssMB?: number;
+  processes?: number;
+  /** CPU use since the previous sample, in % of one core */
+  cpuPercent?: number;
+  jsHeapUsedMB?: number;
+  jsHeapTotalMB?: number;
+  domNodes?: number;
+  documents?: number;
+  eventListeners?: number;
+}
+
+/**
+ * Metrics of one session: latest sample, history and memory trend
+ */
+export interface SessionMetrics {
+  sessionId: string;
+  browserType: string;
+  closed: boolean;
+  latest?: SessionMetricsSample;
+  history: SessionMetricsSample[];
+  /** Slope of memory (RSS, or JS heap without /proc) over the history */
+  growthMBPerMinute?: number;
+}
+
+/**
+ * Memory and CPU of this process and every browser together
+ */
+export interface ResourceTotals {
+  nodeMemoryMB: number;
+  browserMemoryMB: number;
+  /** % of one core between the two latest readings */
+  cpuPercent: number;
+  browserProcesses: number;
+}
+
+interface SessionHistory {
+  sessionId: string;
+  browserType: string;
+  samples: SessionMetricsSample[];
+  cpu?: { seconds: number; at: number };
+}
+
+const MB = 1024 * 1024;
+const CDP_TIMEOUT_MS = 2000;
+// Closed sessions whose history is kept, most recent last
+const CLOSED_HISTORY_LIMIT = 20;
+// How long a totals reading is reused; reading /proc blocks the event loop
+const TOTALS_TTL_MS = 2000;
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T | undefined> {
+  let timer: NodeJS.Timeout | undefined;
+  return Promise.race([
+    promise,
+    new Promise<undefined>(resolve => { timer = setTimeout(() => resolve(undefined), timeoutMs); }),
+  ]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Chromium page metrics (JS heap, DOM nodes...) from Performance.getMetrics
+ */
+async function readPageMetrics(session: BrowserSession): Promise<Record<string, number> | undefined> {
+  if (session.browserType !== 'chromium' || session.page.isClosed()) {
+    return undefined;
+  }
+
+  const client = await session.page.context().newCDPSession(session.page);
+  try {
+    await client.send('Performance.enable');
+    const { metrics } = await client.send('Performance.getMetrics');
+    return Object.fromEntries(metrics.map(metric => [metric.name, metric.value]));
+  } finally {
+    await client.detach().catch(() => {});
+  }
+}
+
+/**
+ * Total CPU time of a Chromium browser's processes from SystemInfo.getProcessInfo, where /proc is unavailable
+ */
+async function readChromiumCpu(session: BrowserSession): Promise<{ cpuSeconds: number; processes: number } | undefined> {
+  if (session.browserType !== 'chromium') {
+    return undefined;
+  }
+
+  const client = await session.browser.newBrowserCDPSession();
+  try {
+    const { processInfo } = await client.send('SystemInfo.getProcessInfo');
+    return {
+      cpuSeconds: processInfo.reduce((sum, info) => sum + info.cpuTime, 0),
+      processes: processInfo.length,
+    };
+  } finally {
+    await client.detach().catch(() => {});
+  }
+}
+
+/**
+ * Least-squares slope of memory over time, in MB per minute
+ */
+function memoryGrowth(samples: SessionMetricsSample[]): number | undefined {
+  const points = samples
+    .map(sample => ({ x: Date.parse(sample.timestamp) / 60000, y: sample.rssMB ?? sample.jsHeapUsedMB }))
+    .filter((point): point is { x: number; y: number } => point.y !== undefined);
+  if (points.length < 3) {
+    return undefined;
+  }
+
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const variance = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+  if (variance === 0) {
+    return undefined;
+  }
+  return round(points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0) / variance);
+}
+
+export class SessionMetricsCollector {
+  private histories = new Map<string, SessionHistory>();
+  private closed: SessionHistory[] = [];
+  private getSessions: () => BrowserSession[] = () => [];
+  private timer?: NodeJS.Timeout;
+  private totalsCpu?: { seconds: number; at: number };
+  private totalsReading?: ResourceTotals;
+  private historySize: number;
+  private intervalMs: number;
+  private totalsTtlMs: number;
+
+  constructor(
+    intervalMs: number = Number(process.env.PLAYWRIGHT_METRICS_INTERVAL) || 15000,
+    historySize: number = 120,
+    totalsTtlMs: number = TOTALS_TTL_MS
+  ) {
+    this.intervalMs = intervalMs;
+    this.historySize = historySize;
+    this.totalsTtlMs = totalsTtlMs;
+  }
+
+  /**
+   * Tell the collector where to find the live sessions
+   */
+  attach(getSessions: () => BrowserSession[]): void {
+    this.getSessions = getSessions;
+  }
+
+  /**
+   * Sample every live session periodically while any exist
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      if (this.getSessions().length === 0) {
+        this.stop();
+        return;
+      }
+      this.sampleAll().catch(error => console.error('[SessionMetrics] Sampling failed:', error));
+    }, this.intervalMs);
+    // Never keep the server alive just to sample
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Take a sample of every live session now
+   * @returns Latest sample per session ID
+   */
+  async sampleAll(): Promise<Map<string, SessionMetricsSample>> {
+    const sessions = this.getSessions();
+    const trees = readBrowserTrees(sessions.map(session => session.processMarker).filter((marker): marker is string => !!marker));
+    const samples = new Map<string, SessionMetricsSample>();
+
+    await Promise.all(sessions.map(async session => {
+      samples.set(session.id, await this.sampleSession(session, trees));
+    }));
+
+    return samples;
+  }
+
+  /**
+   * Take a sample of one session and add it to its history
+   * @param trees Process trees already read for this round of sampling
+   */
+  async sampleSession(session: BrowserSession, trees = readBrowserTrees(session.processMarker ? [session.processMarker] : [])): Promise<SessionMetricsSample> {
+    const history = this.historyFor(session);
+    const now = Date.now();
+    const sample: SessionMetricsSample = {
+      timestamp: new Date(now).toISOString(),
+      url: session.page.isClosed() ? '' : session.page.url(),
+    };
+
+    let cpu: { cpuSeconds: number; processes: number } | undefined;
+    const tree = session.processMarker ? trees.get(session.processMarker) : undefined;
+    if (tree) {
+      sample.rssMB = round(tree.rssMB);
+      sample.processes = tree.processes;
+      cpu = tree;
+    } else if (!isProcfsAvailable()) {
+      cpu = await withTimeout(readChromiumCpu(session), CDP_TIMEOUT_MS).catch(() => undefined);
+      sample.processes = cpu?.processes;
+    }
+
+    if (cpu) {
+      if (history.cpu) {
+        sample.cpuPercent = round(cpuPercent(history.cpu.seconds, cpu.cpuSeconds, now - history.cpu.at));
+      }
+      history.cpu = { seconds: cpu.cpuSeconds, at: now };
+    }
+
+    const page = await withTimeout(readPageMetrics(session), CDP_TIMEOUT_MS).catch(() => undefined);
+    if (page) {
+      sample.jsHeapUsedMB = round(page.JSHeapUsedSize / MB);
+      sample.jsHeapTotalMB = round(page.JSHeapTotalSize / MB);
+      sample.domNodes = page.Nodes;
+      sample.documents = page.Documents;
+      sample.eventListeners = page.JSEventListeners;
+    }
+
+    history.samples.push(sample);
+    if (history.samples.length > this.historySize) {
+      history.samples.splice(0, history.samples.length - this.historySize);
+    }
+    return sample;
+  }
+
+  /**
+   * Move a session's history to the closed list
+   */
+  forget(sessionId: string): void {
+    const history = this.histories.get(sessionId);
+    if (!history) {
+      return;
+    }
+    this.histories.delete(sessionId);
+    if (history.samples.length > 0) {
+      this.closed = [...this.closed.filter(item => item.sessionId !== sessionId), history].slice(-CLOSED_HISTORY_LIMIT);
+    }
+  }
+
+  /**
+   * Metrics of a live or recently closed session
+   */
+  get(sessionId: string): SessionMetrics | undefined {
+    const live = this.histories.get(sessionId);
+    const history = live ?? [...this.closed].reverse().find(item => item.sessionId === sessionId);
+    return history ? this.toMetrics(history, !live) : undefined;
+  }
+
+  /**
+   * Metrics of every live session, then recently closed ones
+   */
+  list(options: { includeClosed?: boolean } = {}): SessionMetrics[] {
+    return [
+      ...Array.from(this.histories.values()).map(history => this.toMetrics(history, false)),
+      ...(options.includeClosed ? this.closed.map(history => this.toMetrics(history, true)) : []),
+    ];
+  }
+
+  /**
+   * Memory and CPU of this process plus every live browser's process tree. A reading is reused
+   * for a short while, so frequent admission checks neither rescan /proc nor shorten the CPU window
+   */
+  totals(): ResourceTotals {
+    const now = Date.now();
+    if (this.totalsReading && this.totalsCpu && now - this.totalsCpu.at < this.totalsTtlMs) {
+      return this.totalsReading;
+    }
+
+    const node = readNodeUsage();
+    const markers = this.getSessions().map(session => session.processMarker).filter((marker): marker is string => !!marker);
+    const trees = Array.from(readBrowserTrees(markers).values());
+    const cpuSeconds = node.cpuSeconds + trees.reduce((sum, tree) => sum + tree.cpuSeconds, 0);
+
+    const cpu = this.totalsCpu ? cpuPercent(this.totalsCpu.seconds, cpuSeconds, now - this.totalsCpu.at) : 0;
+    this.totalsCpu = { seconds: cpuSeconds, at: now };
+
+    this.totalsReading = {
+      nodeMemoryMB: Math.round(node.rssMB),
+      browserMemoryMB: Math.round(trees.reduce((sum, tree) => sum + tree.rssMB, 0)),
+      cpuPercent: Math.round(cpu),
+      browserProcesses: trees.reduce((sum, tree) => sum + tree.processes, 0),
+    };
+    return this.totalsReading;
+  }
+
+  private historyFor(session: BrowserSession): SessionHistory {
+    let history = this.histories.get(session.id);
+    if (!history) {
+      history = { sessionId: session.id, browserType: session.browserType, samples: [] };
+      this.histories.set(session.id, history);
+    }
+    return history;
+  }
+
+  private toMetrics(history: SessionHistory, closed: boolean): SessionMetrics {
+    return {
+      sessionId: history.sessionId,
+      browserType: history.browserType,
+      closed,
+      latest: history.samples[history.samples.length - 1],
+      history: [...history.samples],
+      growthMBPerMinute: memoryGrowth(history.samples),
+    };
+  }
+}
+
+/**
+ * One line summary of a sample
+ */
+export function formatSample(sample: SessionMetricsSample): string {
+  return [
+    sample.rssMB !== undefined ? `RSS ${sample.rssMB}MB in ${sample.processes} process(es)` : undefined,
+    sample.cpuPercent !== undefined ? `CPU ${sample.cpuPercent}%` : undefined,
+    sample.jsHeapUsedMB !== undefined ? `JS heap ${sample.jsHeapUsedMB}/${sample.jsHeapTotalMB}MB` : undefined,
+    sample.domNodes !== undefined ? `DOM nodes ${sample.domNodes}` : undefined,
+    sample.eventListeners !== undefined ? `listeners ${sample.eventListeners}` : undefined,
+  ].filter(Boolean).join(', ') || 'no metrics available';
+}
+
+/**
+ * Report lines of a session's metrics, optionally with every sample of its history
+ */
+export function formatSessionMetrics(metrics: SessionMetrics, options: { history?: boolean; indent?: string } = {}): string[] {
+  const indent = options.indent ?? '';
+  const lines = [
+    `${indent}Latest: ${metrics.latest ? formatSample(metrics.latest) : 'not sampled yet'}`,
+  ];
+  if (metrics.growthMBPerMinute !== undefined) {
+    lines.push(`${indent}Memory trend: ${metrics.growthMBPerMinute >= 0 ? '+' : ''}${metrics.growthMBPerMinute}MB/min over ${metrics.history.length} samples`);
+  }
+  if (options.history) {
+    lines.push(...metrics.history.map(sample => `${indent}  ${sample.timestamp} ${formatSample(sample)}${sample.url ? ` @ ${sample.url}` : ''}`));
+  }
+  return lines;
+}
+
+// Export singleton instance
+export const sessionMetrics = new SessionMetricsCollector();
@@ -63,7 +63,7 @@ export class SessionPersistence {
 
     try {
       await fs.writeFile(filePath, data, 'utf-8');
-      console.log(`Session ${sessionData.id} persisted to disk`);
+      console.error(`Session ${sessionData.id} persisted to disk`);
     } catch (error) {
       console.error(`Failed to persist session ${sessionData.id}:`, error);
       throw error;
@@ -97,7 +97,7 @@ export class SessionPersistence {
 
     try {
       await fs.unlink(filePath);
-      console.log(`Persisted session ${sessionId} deleted`);
+      console.error(`Persisted session ${sessionId} deleted`);
     } catch (error: any) {
       if (error.code !== 'ENOENT') {
         console.error(`Failed to delete session ${sessionId}:`, error);
@@ -161,7 +161,7 @@ export class SessionPersistence {
     }
 
     if (cleanedCount > 0) {
-      console.log(`Cleaned up ${cleanedCount} old persisted sessions`);
+      console.error(`Cleaned up ${cleanedCount} old persisted sessions`);
     }
 
     return cleanedCount;
@@ -176,7 +176,7 @@ export class SessionPersistence {
     }
 
     this.autoSaveEnabled = true;
-    console.log(`Auto-save enabled with interval: ${intervalMs}ms`);
+    console.error(`Auto-save enabled with interval: ${intervalMs}ms`);
   }
 
   /**
@@ -188,7 +188,7 @@ export class SessionPersistence {
       this.autoSaveInterval = null;
     }
     this.autoSaveEnabled = false;
-    console.log('Auto-save disabled');
+    console.error('Auto-save disabled');
   }
 
   /**
@@ -214,7 +214,7 @@ export class SessionPersistence {
 
     try {
       await fs.writeFile(exportPath, data, 'utf-8');
-      console.log(`Exported ${sessions.length} sessions to ${exportPath}`);
+      console.error(`Exported ${sessions.length} sessions to ${exportPath}`);
     } catch (error) {
       console.error('Failed to export sessions:', error);
       throw error;
@@ -241,7 +241,7 @@ export class SessionPersistence {
         }
       }
 
-      console.log(`Imported ${importedCount} sessions from ${importPath}`);
+      console.error(`Imported ${importedCount} sessions from ${importPath}`);
       return importedCount;
     } catch (error) {
       console.error('Failed to import sessions:', error);
@@ -0,0 +1,226 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+/**
+ * Source Map - Minimal source map v3 reader for mapping generated positions back to original files
+ */
+
+import * as fs from 'fs';
+import { fileURLToPath } from 'url';
+
+export interface RawSourceMap {
+  version: number;
+  sources: string[];
+  sourceRoot?: string;
+  mappings: string;
+}
+
+/**
+ * Position in an original source; line is 1-based, column 0-based
+ */
+export interface OriginalPosition {
+  source: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * One decoded mapping segment
+ */
+interface Segment {
+  generatedColumn: number;
+  source: number;
+  originalLine: number;
+  originalColumn: number;
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES = new Map([...BASE64].map((char, index) => [char, index]));
+
+/**
+ * Decode one base64 VLQ field, returning the value and the index after it
+ */
+export function decodeVlq(mappings: string, start: number): [number, number] {
+  let result = 0;
+  let shift = 0;
+  let index = start;
+
+  while (index < mappings.length) {
+    const digit = BASE64_VALUES.get(mappings[index++]);
+    if (digit === undefined) {
+      throw new Error(`Invalid source map mapping character at ${index - 1}`);
+    }
+    result += (digit & 31) << shift;
+    shift += 5;
+    if (!(digit & 32)) {
+      break;
+    }
+  }
+
+  const negative = result & 1;
+  result >>>= 1;
+  return [negative ? -result : result, index];
+}
+
+/**
+ * Source path as reported in coverage: bundler prefixes and origins stripped
+ */
+export function normalizeSourcePath(source: string, mapUrl: string, sourceRoot = ''): string {
+  // webpack://app/./src/index.ts, vite-plugin://... → src/index.ts
+  const bundlerPrefix = /^[a-z][a-z0-9+.-]*:\/\/[^/]*\//i;
+  if (bundlerPrefix.test(source) && !/^(https?|file):/i.test(source)) {
+    return source.replace(bundlerPrefix, '').replace(/^(\.\/)+/, '');
+  }
+
+  let resolved: URL;
+  try {
+    resolved = new URL(sourceRoot ? `${sourceRoot.replace(/\/?$/, '/')}${source}` : source, mapUrl);
+  } catch {
+    return source.replace(/^(\.\/)+/, '');
+  }
+
+  if (resolved.protocol === 'file:') {
+    return fileURLToPath(resolved);
+  }
+  return decodeURIComponent(resolved.pathname).replace(/^\/+/, '');
+}
+
+/**
+ * URL of the source map referenced by a script or stylesheet, resolved against its URL
+ */
+export function findSourceMapUrl(text: string, fileUrl: string): string | undefined {
+  const matches = [...text.matchAll(/(?:\/\/|\/\*)[#@]\s*sourceMappingURL=([^\s*'"]+)/g)];
+  const reference = matches[matches.length - 1]?.[1];
+  if (!reference) {
+    return undefined;
+  }
+
+  try {
+    return new URL(reference, fileUrl).href;
+  } catch {
+    return reference.startsWith('data:') ? reference : undefined;
+  }
+}
+
+/**
+ * Load a source map from a data:, file: or http(s): URL
+ * @returns The map, or undefined when it cannot be loaded
+ */
+export async function loadSourceMap(mapUrl: string, timeoutMs = 5000): Promise<RawSourceMap | undefined> {
+  try {
+    let text: string;
+    if (mapUrl.startsWith('data:')) {
+      const [header, payload] = mapUrl.split(',', 2);
+      text = header.endsWith(';base64')
+        ? Buffer.from(payload, 'base64').toString('utf-8')
+        : decodeURIComponent(payload);
+    } else if (mapUrl.startsWith('file:')) {
+      text = fs.readFileSync(fileURLToPath(mapUrl), 'utf-8');
+    } else {
+      const response = await fetch(mapUrl, { signal: AbortSignal.timeout(timeoutMs) });
+      if (!response.ok) {
+        return undefined;
+      }
+      text = await response.text();
+    }
+
+    const map = JSON.parse(text.replace(/^\)\]\}'[^\n]*\n/, ''));
+    return typeof map.mappings === 'string' && Array.isArray(map.sources) ? map : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Decoded source map answering generated → original position lookups
+ */
+export class SourceMap {
+  /** Normalized original source paths, by source index */
+  readonly sources: string[];
+  /** Segments per generated line (0-based), sorted by generated column */
+  private lines: Segment[][] = [];
+
+  constructor(raw: RawSourceMap, mapUrl: string) {
+    this.sources = raw.sources.map(source => normalizeSourcePath(source ?? '', mapUrl, raw.sourceRoot));
+
+    let source = 0;
+    let originalLine = 0;
+    let originalColumn = 0;
+
+    for (const lineMappings of raw.mappings.split(';')) {
+      const segments: Segment[] = [];
+      let generatedColumn = 0;
+
+      for (const field of lineMappings.split(',')) {
+        if (!field) {
+          continue;
+        }
+        const values: number[] = [];
+        let index = 0;
+        while (index < field.length) {
+          const [value, next] = decodeVlq(field, index);
+          values.push(value);
+          index = next;
+        }
+
+        generatedColumn += values[0];
+        if (values.length < 4) {
+          continue;
+        }
+        source += values[1];
+        originalLine += values[2];
+        originalColumn += values[3];
+        segments.push({ generatedColumn, source, originalLine, originalColumn });
+      }
+
+      this.lines.push(segments.sort((a, b) => a.generatedColumn - b.generatedColumn));
+    }
+  }
+
+  /**
+   * Original position of a generated line (0-based) and column, if mapped
+   */
+  originalPositionFor(generatedLine: number, generatedColumn: number): OriginalPosition | undefined {
+    const segments = this.lines[generatedLine];
+    if (!segments || segments.length === 0) {
+      return undefined;
+    }
+
+    // Last segment starting at or before the column
+    let low = 0;
+    let high = segments.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (segments[mid].generatedColumn <= generatedColumn) {
+        found = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    if (found < 0) {
+      return undefined;
+    }
+
+    const segment = segments[found];
+    return { source: this.sources[segment.source], line: segment.originalLine + 1, column: segment.originalColumn };
+  }
+
+  /**
+   * Every mapped segment as a generated line (0-based)/column with its original position
+   */
+  *mappings(): Generator<{ generatedLine: number; generatedColumn: number; original: OriginalPosition }> {
+    for (const [generatedLine, segments] of this.lines.entries()) {
+      for (const segment of segments) {
+        yield {
+          generatedLine,
+          generatedColumn: segment.generatedColumn,
+          original: { source: this.sources[segment.source], line: segment.originalLine + 1, column: segment.originalColumn },
+        };
+      }
+    }
+  }
+}
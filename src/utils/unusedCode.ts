@@ -0,0 +1,347 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+/**
+ * Unused Code - Finds CSS rules that never matched and top-level JS functions that never ran
+ * in raw coverage merged from several pages, with byte savings and a patch-style report
+ */
+
+import * as zlib from 'zlib';
+import { CSSCoverageEntry, JSCoverageEntry } from './coverageStore.js';
+import { findSourceMapUrl, loadSourceMap, normalizeSourcePath, SourceMap } from './sourceMap.js';
+
+/**
+ * A CSS rule or JS function that can be removed
+ */
+export interface UnusedItem {
+  kind: 'css-rule' | 'js-function';
+  /** Selector or function name */
+  name: string;
+  /** Byte range in the served file */
+  start: number;
+  end: number;
+  bytes: number;
+  /** 1-based line in the served file */
+  generatedLine: number;
+  /** 1-based line in the original source, when a source map was found */
+  originalLine?: number;
+  text: string;
+}
+
+/**
+ * Unused code of one source file
+ */
+export interface UnusedFile {
+  /** Original source path when source-mapped, otherwise the served file */
+  path: string;
+  /** Served script or stylesheet URL */
+  url: string;
+  kind: 'css' | 'js';
+  totalBytes: number;
+  unusedBytes: number;
+  /** Gzip size saved by removing every unused item from the served file */
+  gzipSavings: number;
+  items: UnusedItem[];
+}
+
+interface CssRule {
+  selector: string;
+  start: number;
+  end: number;
+}
+
+// At-rules whose blocks contain style rules rather than declarations
+const GROUPING_AT_RULES = /^@(media|supports|layer|container|document|scope|-moz-document)\b/i;
+
+/**
+ * Style rules of a stylesheet with their byte ranges; rules inside @media and similar are included
+ */
+export function parseCssRules(text: string): CssRule[] {
+  const rules: CssRule[] = [];
+  let preludeStart = 0;
+  let i = 0;
+
+  const skipBlock = (from: number): number => {
+    let depth = 0;
+    for (let j = from; j < text.length; j++) {
+      const char = text[j];
+      if (char === '/' && text[j + 1] === '*') {
+        j = text.indexOf('*/', j + 2);
+        if (j < 0) return text.length;
+        j++;
+      } else if (char === '"' || char === "'") {
+        j = skipString(text, j);
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}' && --depth === 0) {
+        return j + 1;
+      }
+    }
+    return text.length;
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '/' && text[i + 1] === '*') {
+      const close = text.indexOf('*/', i + 2);
+      i = close < 0 ? text.length : close + 2;
+      if (!text.slice(preludeStart, i).replace(/\/\*[\s\S]*?\*\//g, '').trim()) {
+        preludeStart = i;
+      }
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      i = skipString(text, i) + 1;
+      continue;
+    }
+    if (char === ';' || char === '}') {
+      // End of an @import/@charset statement or of a grouping block
+      i++;
+      preludeStart = i;
+      continue;
+    }
+    if (char === '{') {
+      const prelude = text.slice(preludeStart, i).replace(/\/\*[\s\S]*?\*\//g, '').trim();
+      const start = preludeStart + (text.slice(preludeStart, i).length - text.slice(preludeStart, i).trimStart().length);
+      if (GROUPING_AT_RULES.test(prelude)) {
+        i++;
+        preludeStart = i;
+        continue;
+      }
+      const end = skipBlock(i);
+      if (!prelude.startsWith('@')) {
+        rules.push({ selector: prelude.replace(/\s+/g, ' '), start, end });
+      }
+      i = end;
+      preludeStart = i;
+      continue;
+    }
+    i++;
+  }
+
+  return rules;
+}
+
+/**
+ * Index of the closing quote of the string starting at from
+ */
+function skipString(text: string, from: number): number {
+  const quote = text[from];
+  for (let j = from + 1; j < text.length; j++) {
+    if (text[j] === '\\') {
+      j++;
+    } else if (text[j] === quote || text[j] === '\n') {
+      return j;
+    }
+  }
+  return text.length;
+}
+
+/**
+ * 1-based line of an offset
+ */
+function lineAt(text: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset && i < text.length; i++) {
+    if (text.charCodeAt(i) === 10) line++;
+  }
+  return line;
+}
+
+/**
+ * Bytes gzip would save if the given ranges were cut from the text
+ */
+function gzipSavings(text: string, ranges: Array<{ start: number; end: number }>): number {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  let kept = '';
+  let position = 0;
+  for (const range of sorted) {
+    kept += text.slice(position, range.start);
+    position = Math.max(position, range.end);
+  }
+  kept += text.slice(position);
+  return Math.max(zlib.gzipSync(text).length - zlib.gzipSync(kept).length, 0);
+}
+
+/**
+ * Merge raw coverage of the same URL from several pages: used ranges are unioned, function counts summed
+ */
+function mergeEntries(js: JSCoverageEntry[], css: CSSCoverageEntry[]): {
+  scripts: Map<string, { source: string; functions: Map<string, { name: string; start: number; end: number; count: number }> }>;
+  styles: Map<string, { text: string; ranges: Array<{ start: number; end: number }> }>;
+} {
+  const scripts = new Map<string, { source: string; functions: Map<string, { name: string; start: number; end: number; count: number }> }>();
+  for (const entry of js) {
+    if (!entry.url || entry.source === undefined) continue;
+    const script = scripts.get(entry.url) ?? { source: entry.source, functions: new Map() };
+    scripts.set(entry.url, script);
+    // A changed file between pages cannot be merged by offset; keep the first version
+    if (script.source !== entry.source) continue;
+    for (const fn of entry.functions) {
+      const [outer] = fn.ranges;
+      if (!outer) continue;
+      const key = `${outer.startOffset}:${outer.endOffset}`;
+      const existing = script.functions.get(key);
+      script.functions.set(key, {
+        name: fn.functionName || '(anonymous)',
+        start: outer.startOffset,
+        end: outer.endOffset,
+        count: (existing?.count ?? 0) + outer.count,
+      });
+    }
+  }
+
+  const styles = new Map<string, { text: string; ranges: Array<{ start: number; end: number }> }>();
+  for (const entry of css) {
+    if (!entry.url || entry.text === undefined) continue;
+    const style = styles.get(entry.url) ?? { text: entry.text, ranges: [] };
+    styles.set(entry.url, style);
+    if (style.text === entry.text) {
+      style.ranges.push(...entry.ranges);
+    }
+  }
+
+  return { scripts, styles };
+}
+
+/**
+ * Load the source map of a served file, if it references one that can be read
+ */
+async function sourceMapFor(text: string, url: string): Promise<SourceMap | undefined> {
+  const mapUrl = findSourceMapUrl(text, url);
+  const raw = mapUrl ? await loadSourceMap(mapUrl) : undefined;
+  return raw && mapUrl ? new SourceMap(raw, mapUrl.startsWith('data:') ? url : mapUrl) : undefined;
+}
+
+/**
+ * Group unused items of one served file by original source (or the served file itself)
+ */
+function groupItems(url: string, kind: UnusedFile['kind'], text: string, items: UnusedItem[], map?: SourceMap): UnusedFile[] {
+  const servedPath = normalizeSourcePath(url.replace(/[?#].*$/, ''), url);
+  const groups = new Map<string, UnusedItem[]>();
+
+  for (const item of items) {
+    let filePath = servedPath;
+    if (map) {
+      const lineStart = text.lastIndexOf('\n', item.start - 1) + 1;
+      const original = map.originalPositionFor(item.generatedLine - 1, item.start - lineStart);
+      if (original) {
+        filePath = original.source;
+        item.originalLine = original.line;
+      }
+    }
+    groups.set(filePath, [...(groups.get(filePath) ?? []), item]);
+  }
+
+  const savings = gzipSavings(text, items);
+  const unusedBytes = items.reduce((sum, item) => sum + item.bytes, 0);
+  return [...groups.entries()].map(([filePath, fileItems]) => {
+    const bytes = fileItems.reduce((sum, item) => sum + item.bytes, 0);
+    return {
+      path: filePath,
+      url,
+      kind,
+      totalBytes: text.length,
+      unusedBytes: bytes,
+      // Split the served file's gzip savings across its sources by raw size
+      gzipSavings: unusedBytes > 0 ? Math.round(savings * (bytes / unusedBytes)) : 0,
+      items: fileItems.sort((a, b) => a.start - b.start),
+    };
+  });
+}
+
+/**
+ * Find CSS rules that never matched and top-level JS functions that never ran
+ * @param minBytes Ignore items smaller than this
+ */
+export async function findUnusedCode(
+  js: JSCoverageEntry[],
+  css: CSSCoverageEntry[],
+  options: { sourceMaps?: boolean; minBytes?: number } = {}
+): Promise<UnusedFile[]> {
+  const { sourceMaps = true, minBytes = 0 } = options;
+  const { scripts, styles } = mergeEntries(js, css);
+  const files: UnusedFile[] = [];
+
+  for (const [url, style] of styles) {
+    const used = style.ranges.sort((a, b) => a.start - b.start);
+    const items: UnusedItem[] = parseCssRules(style.text)
+      .filter(rule => !used.some(range => range.start < rule.end && range.end > rule.start))
+      .filter(rule => rule.end - rule.start >= minBytes)
+      .map(rule => ({
+        kind: 'css-rule',
+        name: rule.selector,
+        start: rule.start,
+        end: rule.end,
+        bytes: rule.end - rule.start,
+        generatedLine: lineAt(style.text, rule.start),
+        text: style.text.slice(rule.start, rule.end),
+      }));
+    if (items.length > 0) {
+      files.push(...groupItems(url, 'css', style.text, items, sourceMaps ? await sourceMapFor(style.text, url) : undefined));
+    }
+  }
+
+  for (const [url, script] of scripts) {
+    // Outer ranges first; the script's own top-level range is not a function
+    const functions = [...script.functions.values()]
+      .filter(fn => !(fn.name === '(anonymous)' && fn.start === 0 && fn.end >= script.source.length))
+      .sort((a, b) => a.start - b.start || b.end - a.end);
+
+    const topLevel: typeof functions = [];
+    for (const fn of functions) {
+      const parent = topLevel[topLevel.length - 1];
+      if (!parent || fn.start >= parent.end) {
+        topLevel.push(fn);
+      }
+    }
+
+    const items: UnusedItem[] = topLevel
+      .filter(fn => fn.count === 0 && fn.end - fn.start >= minBytes)
+      .map(fn => ({
+        kind: 'js-function',
+        name: fn.name,
+        start: fn.start,
+        end: fn.end,
+        bytes: fn.end - fn.start,
+        generatedLine: lineAt(script.source, fn.start),
+        text: script.source.slice(fn.start, fn.end),
+      }));
+    if (items.length > 0) {
+      files.push(...groupItems(url, 'js', script.source, items, sourceMaps ? await sourceMapFor(script.source, url) : undefined));
+    }
+  }
+
+  return files.sort((a, b) => b.unusedBytes - a.unusedBytes);
+}
+
+/**
+ * Patch-style report: one diff section per source file, removing each unused item
+ * @param maxLines Lines of each item's code to show
+ */
+export function formatUnusedPatch(files: UnusedFile[], maxLines = 8): string {
+  const out: string[] = [];
+
+  for (const file of files) {
+    const label = file.kind === 'css' ? 'rule(s)' : 'function(s)';
+    out.push(`--- a/${file.path}`);
+    out.push(`+++ b/${file.path}`);
+    out.push(`# ${file.items.length} unused ${label}, ${file.unusedBytes} B of ${file.totalBytes} B, ~${file.gzipSavings} B gzipped` +
+      (file.path !== normalizeSourcePath(file.url.replace(/[?#].*$/, ''), file.url) ? ` (served as ${file.url})` : ''));
+
+    for (const item of file.items) {
+      const lines = item.text.split('\n');
+      const line = item.originalLine ?? item.generatedLine;
+      out.push(`@@ -${line},${lines.length} +${line},0 @@ ${item.name} (${item.bytes} B)`);
+      out.push(...lines.slice(0, maxLines).map(text => `-${text}`));
+      if (lines.length > maxLines) {
+        out.push(`-... ${lines.length - maxLines} more line(s)`);
+      }
+    }
+    out.push('');
+  }
+
+  return out.join('\n');
+}
@@ -0,0 +1,400 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+/**
+ * Visual Report - Collects visual comparison results and renders them into one offline HTML file
+ * with side-by-side, onion-skin and slider views and approve/reject buttons
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * A region ignored during comparison, as reported by the AI visual tools
+ */
+export interface ReportRegion {
+  type: string;
+  confidence?: number;
+  label?: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * One comparison shown in the report
+ */
+export interface VisualReportEntry {
+  name: string;
+  baselinePath: string;
+  currentPath?: string;
+  diffPath?: string;
+  passed: boolean;
+  diffPercentage?: number;
+  /** Maximum allowed difference in percent */
+  threshold?: number;
+  /** Comparison mode and its similarity score (0-1) */
+  mode?: string;
+  score?: number;
+  dynamicRegions?: ReportRegion[];
+  /** Baseline store key, when the comparison used testName */
+  key?: string;
+  url?: string;
+  error?: string;
+  tool: string;
+  comparedAt: string;
+}
+
+/**
+ * A reviewer decision in a downloaded approval manifest
+ */
+export interface VisualApproval {
+  name: string;
+  decision: 'approved' | 'rejected';
+  key?: string;
+  baselinePath: string;
+  currentPath?: string;
+  decidedAt: string;
+}
+
+/**
+ * Approval manifest downloaded from a report
+ */
+export interface VisualApprovalManifest {
+  report: string;
+  generatedAt: string;
+  approver?: string;
+  approvals: VisualApproval[];
+}
+
+export interface VisualReportOptions {
+  title?: string;
+  /** Leave passing comparisons out of the report */
+  onlyFailures?: boolean;
+}
+
+/**
+ * Collects the comparisons made during a run so they can be reported together
+ */
+export class VisualReportCollector {
+  private entries: VisualReportEntry[] = [];
+
+  /**
+   * Record a comparison result
+   */
+  record(entry: Omit<VisualReportEntry, 'comparedAt'>): void {
+    this.entries.push({ ...entry, comparedAt: new Date().toISOString() });
+  }
+
+  /**
+   * All comparisons recorded since the last reset
+   */
+  getEntries(): VisualReportEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Forget the recorded comparisons
+   */
+  reset(): void {
+    this.entries = [];
+  }
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Inline an image as a data URI with its dimensions (read from the PNG header)
+ */
+function inlineImage(filePath?: string): { src: string; width: number; height: number } | undefined {
+  if (!filePath || !fs.existsSync(filePath)) {
+    return undefined;
+  }
+
+  const data = fs.readFileSync(filePath);
+  const isPng = data.length > 24 && data.toString('ascii', 1, 4) === 'PNG';
+  return {
+    src: `data:${isPng ? 'image/png' : 'image/jpeg'};base64,${data.toString('base64')}`,
+    width: isPng ? data.readUInt32BE(16) : 0,
+    height: isPng ? data.readUInt32BE(20) : 0,
+  };
+}
+
+/**
+ * Absolutely positioned boxes marking regions on an image of the given size
+ */
+function regionOverlays(regions: ReportRegion[], width: number, height: number): string {
+  if (!width || !height) {
+    return '';
+  }
+  return regions.map(region => {
+    const style = [
+      `left:${(region.x / width) * 100}%`,
+      `top:${(region.y / height) * 100}%`,
+      `width:${(region.width / width) * 100}%`,
+      `height:${(region.height / height) * 100}%`,
+    ].join(';');
+    return `<div class="region" style="${style}" title="${escapeHtml(`${region.type}${region.label ? ` ${region.label}` : ''}`)}"></div>`;
+  }).join('');
+}
+
+function renderFigure(caption: string, image: ReturnType<typeof inlineImage>, regions: ReportRegion[] = []): string {
+  if (!image) {
+    return `<figure><figcaption>${escapeHtml(caption)}</figcaption><div class="missing">Not available</div></figure>`;
+  }
+  return `<figure><figcaption>${escapeHtml(caption)}</figcaption>` +
+    `<div class="frame"><img src="${image.src}" alt="${escapeHtml(caption)}">${regionOverlays(regions, image.width, image.height)}</div></figure>`;
+}
+
+function renderEntry(entry: VisualReportEntry, index: number): string {
+  const baseline = inlineImage(entry.baselinePath);
+  const current = inlineImage(entry.currentPath);
+  const diff = inlineImage(entry.diffPath);
+  const regions = entry.dynamicRegions ?? [];
+  const status = entry.error ? 'error' : entry.passed ? 'passed' : 'failed';
+
+  const stack = baseline && current
+    ? `<div class="stack"><img src="${baseline.src}" alt="Baseline"><img class="top" src="${current.src}" alt="Current"></div>`
+    : '<div class="missing">Baseline and current images are both needed for this view</div>';
+
+  const regionRows = regions.map(region => `<tr><td>${escapeHtml(region.type)}</td><td>${escapeHtml(region.label ?? '')}</td>` +
+    `<td>${region.x},${region.y} ${region.width}×${region.height}</td>` +
+    `<td>${region.confidence !== undefined ? `${(region.confidence * 100).toFixed(1)}%` : ''}</td></tr>`).join('');
+
+  return `
+<section class="comparison ${status}" data-index="${index}">
+  <header>
+    <h2>${escapeHtml(entry.name)}</h2>
+    <span class="badge ${status}">${status.toUpperCase()}</span>
+    ${entry.diffPercentage !== undefined ? `<span class="metric">${entry.diffPercentage.toFixed(4)}% different${entry.threshold !== undefined ? ` (threshold ${entry.threshold}%)` : ''}</span>` : ''}
+    ${entry.score !== undefined ? `<span class="metric">${escapeHtml(entry.mode || 'pixel')} score ${entry.score.toFixed(4)}</span>` : ''}
+    <span class="decision">
+      <button class="approve" data-decision="approved">Approve</button>
+      <button class="reject" data-decision="rejected">Reject</button>
+    </span>
+  </header>
+  <dl class="meta">
+    ${entry.key ? `<dt>Key</dt><dd>${escapeHtml(entry.key)}</dd>` : ''}
+    ${entry.url ? `<dt>URL</dt><dd>${escapeHtml(entry.url)}</dd>` : ''}
+    <dt>Baseline</dt><dd>${escapeHtml(entry.baselinePath)}</dd>
+    ${entry.currentPath ? `<dt>Current</dt><dd>${escapeHtml(entry.currentPath)}</dd>` : ''}
+    ${entry.error ? `<dt>Error</dt><dd class="error-text">${escapeHtml(entry.error)}</dd>` : ''}
+  </dl>
+  <nav class="tabs">
+    <button data-view="side" class="active">Side by side</button>
+    <button data-view="onion">Onion skin</button>
+    <button data-view="slider">Slider</button>
+  </nav>
+  <div class="view side active">
+    ${renderFigure('Baseline', baseline)}
+    ${renderFigure('Current', current, regions)}
+    ${renderFigure('Diff', diff, regions)}
+  </div>
+  <div class="view onion">
+    ${stack}
+    <label>Current opacity <input type="range" class="onion-range" min="0" max="100" value="50"></label>
+  </div>
+  <div class="view slider">
+    ${stack}
+    <label>Reveal current <input type="range" class="slider-range" min="0" max="100" value="50"></label>
+  </div>
+  ${regions.length > 0 ? `<details class="regions"><summary>Ignored dynamic regions (${regions.length})</summary>
+    <table><thead><tr><th>Type</th><th>Element</th><th>Region</th><th>Confidence</th></tr></thead><tbody>${regionRows}</tbody></table></details>` : ''}
+</section>`;
+}
+
+const STYLES = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; margin: 0; background: #f4f5f7; color: #222; }
+.toolbar { position: sticky; top: 0; z-index: 10; background: #1f2933; color: #fff; padding: 12px 24px; display: flex; gap: 16px; align-items: center; flex-wrap: wrap; }
+.toolbar h1 { font-size: 18px; margin: 0 16px 0 0; }
+.toolbar input[type=text] { padding: 4px 8px; }
+.toolbar button { padding: 6px 12px; cursor: pointer; }
+main { padding: 24px; }
+.comparison { background: #fff; border-radius: 6px; margin-bottom: 24px; padding: 16px; border-left: 6px solid #9aa5b1; }
+.comparison.passed { border-left-color: #2f9e44; }
+.comparison.failed { border-left-color: #e03131; }
+.comparison.error { border-left-color: #f08c00; }
+.comparison.decided-approved { outline: 2px solid #2f9e44; }
+.comparison.decided-rejected { outline: 2px solid #e03131; }
+body.only-failures .comparison.passed { display: none; }
+header { display: flex; gap: 12px; align-items: center; flex-wrap: wrap; }
+header h2 { font-size: 16px; margin: 0; }
+.badge { font-size: 12px; font-weight: bold; padding: 2px 8px; border-radius: 10px; color: #fff; background: #9aa5b1; }
+.badge.passed { background: #2f9e44; }
+.badge.failed { background: #e03131; }
+.badge.error { background: #f08c00; }
+.decision { margin-left: auto; display: flex; gap: 8px; }
+.decision button { padding: 4px 12px; cursor: pointer; border: 1px solid #ccc; background: #fff; border-radius: 4px; }
+.decision button.selected.approve { background: #2f9e44; color: #fff; }
+.decision button.selected.reject { background: #e03131; color: #fff; }
+.meta { display: grid; grid-template-columns: max-content 1fr; gap: 2px 12px; font-size: 12px; color: #52606d; }
+.meta dd { margin: 0; word-break: break-all; }
+.error-text { color: #e03131; }
+.tabs { margin: 12px 0; display: flex; gap: 4px; }
+.tabs button { padding: 4px 12px; border: 1px solid #ccc; background: #f4f5f7; cursor: pointer; }
+.tabs button.active { background: #1f2933; color: #fff; }
+.view { display: none; }
+.view.active { display: block; }
+.view.side.active { display: grid; grid-template-columns: repeat(3, 1fr); gap: 12px; }
+figure { margin: 0; }
+figcaption { font-size: 12px; font-weight: bold; margin-bottom: 4px; }
+.frame, .stack { position: relative; display: inline-block; max-width: 100%; }
+.frame img, .stack img { display: block; max-width: 100%; }
+.stack img.top { position: absolute; top: 0; left: 0; opacity: 0.5; }
+.view.slider .stack img.top { opacity: 1; clip-path: inset(0 50% 0 0); }
+.region { position: absolute; border: 2px dashed #f08c00; background: rgba(240, 140, 0, 0.15); box-sizing: border-box; }
+.missing { padding: 24px; background: #f4f5f7; color: #9aa5b1; text-align: center; font-size: 12px; }
+.regions { margin-top: 12px; font-size: 12px; }
+.regions table { border-collapse: collapse; margin-top: 8px; }
+.regions th, .regions td { border: 1px solid #e4e7eb; padding: 4px 8px; text-align: left; }
+`;
+
+const SCRIPT = `
+(function () {
+  var data = JSON.parse(document.getElementById('report-data').textContent);
+  var storageKey = 'visual-report:' + data.id;
+  var state = {};
+  try { state = JSON.parse(localStorage.getItem(storageKey) || '{}'); } catch (e) {}
+  var approver = document.getElementById('approver');
+  approver.value = state.__approver || '';
+
+  function save() {
+    state.__approver = approver.value;
+    try { localStorage.setItem(storageKey, JSON.stringify(state)); } catch (e) {}
+    var decided = Object.keys(state).filter(function (k) { return k !== '__approver'; }).length;
+    document.getElementById('decided-count').textContent = decided + ' decided';
+  }
+
+  function show(section, index) {
+    var decision = state[index] && state[index].decision;
+    section.classList.remove('decided-approved', 'decided-rejected');
+    if (decision) section.classList.add('decided-' + decision);
+    section.querySelectorAll('.decision button').forEach(function (button) {
+      button.classList.toggle('selected', button.dataset.decision === decision);
+    });
+  }
+
+  document.querySelectorAll('.comparison').forEach(function (section) {
+    var index = section.dataset.index;
+    show(section, index);
+
+    section.querySelectorAll('.decision button').forEach(function (button) {
+      button.addEventListener('click', function () {
+        if (state[index] && state[index].decision === button.dataset.decision) {
+          delete state[index];
+        } else {
+          state[index] = { decision: button.dataset.decision, decidedAt: new Date().toISOString() };
+        }
+        show(section, index);
+        save();
+      });
+    });
+
+    section.querySelectorAll('.tabs button').forEach(function (tab) {
+      tab.addEventListener('click', function () {
+        section.querySelectorAll('.tabs button').forEach(function (t) { t.classList.toggle('active', t === tab); });
+        section.querySelectorAll('.view').forEach(function (v) { v.classList.toggle('active', v.classList.contains(tab.dataset.view)); });
+      });
+    });
+
+    var onion = section.querySelector('.onion-range');
+    var onionTop = section.querySelector('.view.onion img.top');
+    if (onion && onionTop) onion.addEventListener('input', function () { onionTop.style.opacity = onion.value / 100; });
+
+    var slider = section.querySelector('.slider-range');
+    var sliderTop = section.querySelector('.view.slider img.top');
+    if (slider && sliderTop) slider.addEventListener('input', function () { sliderTop.style.clipPath = 'inset(0 ' + (100 - slider.value) + '% 0 0)'; });
+  });
+
+  approver.addEventListener('input', save);
+  document.getElementById('only-failures').addEventListener('change', function (event) {
+    document.body.classList.toggle('only-failures', event.target.checked);
+  });
+
+  document.getElementById('download').addEventListener('click', function () {
+    var approvals = Object.keys(state).filter(function (k) { return k !== '__approver'; }).map(function (index) {
+      var entry = data.entries[index];
+      return {
+        name: entry.name,
+        decision: state[index].decision,
+        key: entry.key,
+        baselinePath: entry.baselinePath,
+        currentPath: entry.currentPath,
+        decidedAt: state[index].decidedAt
+      };
+    });
+    var manifest = { report: data.title, generatedAt: data.generatedAt, approver: approver.value || undefined, approvals: approvals };
+    var link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }));
+    link.download = 'visual-approvals.json';
+    link.click();
+  });
+
+  save();
+})();
+`;
+
+/**
+ * Render comparisons into a self-contained HTML report (images are inlined)
+ * @param entries Comparisons to include
+ * @param outputPath Where to write the HTML file
+ * @param options Title and filtering
+ * @returns Number of comparisons written
+ */
+export function generateVisualReport(entries: VisualReportEntry[], outputPath: string, options: VisualReportOptions = {}): number {
+  const { title = 'Visual Regression Report', onlyFailures = false } = options;
+  const included = onlyFailures ? entries.filter(entry => !entry.passed) : entries;
+  const failed = included.filter(entry => !entry.passed).length;
+  const generatedAt = new Date().toISOString();
+
+  // Paths and keys the page needs to build the approval manifest; '<' is escaped so the JSON can't close the script tag
+  const data = JSON.stringify({
+    id: `${title}:${generatedAt}`,
+    title,
+    generatedAt,
+    entries: included.map(({ name, key, baselinePath, currentPath }) => ({ name, key, baselinePath, currentPath })),
+  }).replace(/</g, '\\u003c');
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<div class="toolbar">
+  <h1>${escapeHtml(title)}</h1>
+  <span>${included.length} comparisons · ${included.length - failed} passed · ${failed} failed</span>
+  <span>Generated ${escapeHtml(generatedAt)}</span>
+  <label><input type="checkbox" id="only-failures"> Failures only</label>
+  <label>Approver <input type="text" id="approver" placeholder="your name"></label>
+  <span id="decided-count"></span>
+  <button id="download">Download approval manifest</button>
+</div>
+<main>
+${included.length > 0 ? included.map(renderEntry).join('\n') : '<p>No comparisons to report.</p>'}
+</main>
+<script type="application/json" id="report-data">${data}</script>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+
+  fs.mkdirSync(path.dirname(path.resolve(outputPath)), { recursive: true });
+  fs.writeFileSync(outputPath, html);
+  return included.length;
+}
+
+// Export singleton instance
+export const visualReportCollector = new VisualReportCollector();
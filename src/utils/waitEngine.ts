@@ -0,0 +1,424 @@
+/**
+ * Author: Tayyab Akmal
+ * Linkedin: https://www.linkedin.com/in/tayyab-sqa-engineer/
+ */
+
+/**
+ * Wait Engine - Polls composable page conditions (element state, text, attributes, counts, URL,
+ * network idle, custom predicates) combined with AND/OR, timing when each one was met
+ */
+
+import type { Page, Request } from 'playwright';
+import { ErrorCode } from './errorContext.js';
+
+export type CountComparison = 'equal' | 'greaterThan' | 'lessThan' | 'atLeast' | 'atMost';
+
+/**
+ * A condition to wait for; 'all' and 'any' combine others
+ */
+export type WaitCondition =
+  | { type: 'exists'; selector: string }
+  | { type: 'visible'; selector: string }
+  | { type: 'hidden'; selector: string }
+  | { type: 'stable'; selector: string }
+  | { type: 'interactive'; selector: string }
+  | { type: 'hasText'; selector: string; text: string }
+  | { type: 'attribute'; selector: string; attribute: string; value?: string }
+  | { type: 'count'; selector: string; count: number; comparison?: CountComparison }
+  | { type: 'url'; pattern: string; regex?: boolean }
+  | { type: 'networkIdle'; idleTime?: number }
+  | { type: 'predicate'; script: string; arg?: unknown }
+  | { type: 'all'; conditions: WaitCondition[] }
+  | { type: 'any'; conditions: WaitCondition[] };
+
+/**
+ * Outcome of one condition
+ */
+export interface ConditionResult {
+  label: string;
+  met: boolean;
+  /** Time from the start of the wait until the condition was met, in milliseconds */
+  elapsedMs?: number;
+  /** What was observed at the last check, e.g. the actual count or URL */
+  detail?: string;
+  children?: ConditionResult[];
+}
+
+/**
+ * Outcome of a whole wait
+ */
+export interface WaitResult {
+  met: boolean;
+  elapsedMs: number;
+  timeout: number;
+  condition: ConditionResult;
+  /** Labels of the leaf conditions still unmet when the wait ended */
+  unmet: string[];
+}
+
+export interface WaitOptions {
+  timeout?: number;
+  /** Time between checks, in milliseconds (default: 100) */
+  pollInterval?: number;
+}
+
+/**
+ * A wait that ran out of time; carries TIMEOUT for the error classifier
+ */
+export class WaitTimeoutError extends Error {
+  readonly code = ErrorCode.TIMEOUT;
+  readonly retryable = true;
+
+  constructor(message: string, readonly result: WaitResult) {
+    super(message);
+    this.name = 'WaitTimeoutError';
+  }
+}
+
+interface NodeState {
+  condition: WaitCondition;
+  label: string;
+  met: boolean;
+  metAt?: number;
+  detail?: string;
+  children: NodeState[];
+  /** Bounding box at the previous check, for 'stable' */
+  lastBox?: string;
+}
+
+const SELECTOR_TYPES = ['exists', 'visible', 'hidden', 'stable', 'interactive', 'hasText', 'attribute', 'count'];
+const COMPARISONS: CountComparison[] = ['equal', 'greaterThan', 'lessThan', 'atLeast', 'atMost'];
+
+/**
+ * Validate a condition from tool arguments
+ * @param path Where the condition sits in the arguments, for error messages
+ * @throws Error naming the first invalid field
+ */
+export function parseCondition(value: any, path: string = 'condition'): WaitCondition {
+  if (!value || typeof value !== 'object' || typeof value.type !== 'string') {
+    throw new Error(`${path}.type is required`);
+  }
+
+  if (value.type === 'all' || value.type === 'any') {
+    if (!Array.isArray(value.conditions) || value.conditions.length === 0) {
+      throw new Error(`${path}.conditions must be a non-empty array`);
+    }
+    return { type: value.type, conditions: value.conditions.map((child: any, index: number) => parseCondition(child, `${path}.conditions[${index}]`)) };
+  }
+
+  if (SELECTOR_TYPES.includes(value.type) && typeof value.selector !== 'string') {
+    throw new Error(`${path}.selector is required for '${value.type}'`);
+  }
+
+  switch (value.type) {
+    case 'hasText':
+      if (typeof value.text !== 'string') throw new Error(`${path}.text is required for 'hasText'`);
+      break;
+    case 'attribute':
+      if (typeof value.attribute !== 'string') throw new Error(`${path}.attribute is required for 'attribute'`);
+      break;
+    case 'count':
+      if (typeof value.count !== 'number') throw new Error(`${path}.count is required for 'count'`);
+      if (value.comparison !== undefined && !COMPARISONS.includes(value.comparison)) {
+        throw new Error(`${path}.comparison must be one of: ${COMPARISONS.join(', ')}`);
+      }
+      break;
+    case 'url':
+      if (typeof value.pattern !== 'string') throw new Error(`${path}.pattern is required for 'url'`);
+      break;
+    case 'predicate':
+      if (typeof value.script !== 'string') throw new Error(`${path}.script is required for 'predicate'`);
+      break;
+    case 'networkIdle':
+    case 'exists':
+    case 'visible':
+    case 'hidden':
+    case 'stable':
+    case 'interactive':
+      break;
+    default:
+      throw new Error(`Unknown condition type '${value.type}' at ${path}`);
+  }
+  return value as WaitCondition;
+}
+
+/**
+ * Short description of a condition, e.g. "visible(#submit)"
+ */
+export function describeCondition(condition: WaitCondition): string {
+  switch (condition.type) {
+    case 'all':
+    case 'any':
+      return condition.type === 'all' ? 'ALL of' : 'ANY of';
+    case 'hasText':
+      return `hasText(${condition.selector}, "${condition.text}")`;
+    case 'attribute':
+      return `attribute(${condition.selector}, ${condition.attribute}${condition.value !== undefined ? `="${condition.value}"` : ''})`;
+    case 'count':
+      return `count(${condition.selector}) ${condition.comparison ?? 'equal'} ${condition.count}`;
+    case 'url':
+      return `url ${condition.regex ? '~' : 'matches'} ${condition.pattern}`;
+    case 'networkIdle':
+      return `networkIdle(${condition.idleTime ?? 500}ms)`;
+    case 'predicate':
+      return `predicate(${condition.script.length > 60 ? `${condition.script.slice(0, 57)}...` : condition.script})`;
+    default:
+      return `${condition.type}(${condition.selector})`;
+  }
+}
+
+/**
+ * Playwright-style URL glob: ** crosses slashes, * does not
+ */
+export function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*/g, '\u0000')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\u0000/g, '.*')
+    .replace(/\?/g, '\\?');
+  return new RegExp(`^${source}$`);
+}
+
+function compareCount(actual: number, expected: number, comparison: CountComparison): boolean {
+  switch (comparison) {
+    case 'greaterThan': return actual > expected;
+    case 'lessThan': return actual < expected;
+    case 'atLeast': return actual >= expected;
+    case 'atMost': return actual <= expected;
+    default: return actual === expected;
+  }
+}
+
+/**
+ * Network requests in flight since the wait started
+ */
+class NetworkTracker {
+  private inflight = new Set<Request>();
+  private idleSince = Date.now();
+  private onRequest = (request: Request) => {
+    this.inflight.add(request);
+  };
+  private onDone = (request: Request) => {
+    this.inflight.delete(request);
+    if (this.inflight.size === 0) {
+      this.idleSince = Date.now();
+    }
+  };
+
+  constructor(private page: Page) {
+    page.on('request', this.onRequest);
+    page.on('requestfinished', this.onDone);
+    page.on('requestfailed', this.onDone);
+  }
+
+  idleFor(): number {
+    return this.inflight.size === 0 ? Date.now() - this.idleSince : 0;
+  }
+
+  pending(): number {
+    return this.inflight.size;
+  }
+
+  dispose(): void {
+    this.page.off('request', this.onRequest);
+    this.page.off('requestfinished', this.onDone);
+    this.page.off('requestfailed', this.onDone);
+  }
+}
+
+function buildState(condition: WaitCondition): NodeState {
+  return {
+    condition,
+    label: describeCondition(condition),
+    met: false,
+    children: condition.type === 'all' || condition.type === 'any' ? condition.conditions.map(buildState) : [],
+  };
+}
+
+function usesNetwork(condition: WaitCondition): boolean {
+  return condition.type === 'networkIdle' || ((condition.type === 'all' || condition.type === 'any') && condition.conditions.some(usesNetwork));
+}
+
+/**
+ * Whether an error means the page is between documents, so the check should just be retried
+ */
+function isTransient(error: Error): boolean {
+  return /context was destroyed|navigat|frame was detached|target closed/i.test(error.message);
+}
+
+/**
+ * Check a leaf condition once
+ */
+async function checkLeaf(page: Page, state: NodeState, network?: NetworkTracker): Promise<{ met: boolean; detail?: string }> {
+  const condition = state.condition;
+  switch (condition.type) {
+    case 'exists': {
+      const count = await page.locator(condition.selector).count();
+      return { met: count > 0, detail: `${count} matching` };
+    }
+    case 'visible':
+      return { met: await page.locator(condition.selector).first().isVisible() };
+    case 'hidden':
+      return { met: !(await page.locator(condition.selector).first().isVisible()) };
+    case 'stable': {
+      const element = page.locator(condition.selector).first();
+      const box = await element.count() > 0 ? await element.boundingBox({ timeout: 1000 }) : null;
+      const current = box ? JSON.stringify(box) : undefined;
+      const met = current !== undefined && current === state.lastBox;
+      state.lastBox = current;
+      return { met, detail: box ? `at ${Math.round(box.x)},${Math.round(box.y)} ${Math.round(box.width)}x${Math.round(box.height)}` : 'not rendered' };
+    }
+    case 'interactive': {
+      const element = page.locator(condition.selector).first();
+      if (await element.count() === 0) {
+        return { met: false, detail: 'not found' };
+      }
+      const blocked = await element.evaluate((el) => {
+        if ((el as HTMLInputElement).disabled || el.closest('fieldset:disabled')) return 'disabled';
+        if (el.getAttribute('aria-disabled') === 'true') return 'aria-disabled';
+        if ((el as HTMLInputElement).readOnly) return 'readonly';
+        return '';
+      }, undefined, { timeout: 1000 });
+      return { met: !blocked, detail: blocked || undefined };
+    }
+    case 'hasText': {
+      const count = await page.locator(condition.selector).filter({ hasText: condition.text }).count();
+      if (count > 0) {
+        return { met: true };
+      }
+      const element = page.locator(condition.selector).first();
+      const text = await element.count() > 0 ? await element.textContent({ timeout: 1000 }) : null;
+      return { met: false, detail: text === null ? 'not found' : `text is "${text.trim().slice(0, 80)}"` };
+    }
+    case 'attribute': {
+      const element = page.locator(condition.selector).first();
+      if (await element.count() === 0) {
+        return { met: false, detail: 'not found' };
+      }
+      const actual = await element.getAttribute(condition.attribute, { timeout: 1000 });
+      const met = condition.value === undefined ? actual !== null : actual === condition.value;
+      return { met, detail: actual === null ? 'attribute absent' : `value is "${actual}"` };
+    }
+    case 'count': {
+      const count = await page.locator(condition.selector).count();
+      return { met: compareCount(count, condition.count, condition.comparison ?? 'equal'), detail: `${count} matching` };
+    }
+    case 'url': {
+      const url = page.url();
+      const pattern = condition.regex ? new RegExp(condition.pattern) : globToRegExp(condition.pattern);
+      return { met: pattern.test(url), detail: url };
+    }
+    case 'networkIdle': {
+      const idleTime = condition.idleTime ?? 500;
+      return { met: network!.idleFor() >= idleTime, detail: `${network!.pending()} request(s) in flight` };
+    }
+    case 'predicate': {
+      // A function is called with arg; any other expression is used as is
+      const value = await page.evaluate(
+        `(async () => { const value = (${condition.script}); return typeof value === 'function' ? await value(${JSON.stringify(condition.arg ?? null)}) : await value; })()`
+      );
+      return { met: Boolean(value), detail: `returned ${JSON.stringify(value) ?? 'undefined'}` };
+    }
+    default:
+      return { met: false };
+  }
+}
+
+/**
+ * Check a condition tree once, recording when each node was first met
+ */
+async function evaluate(page: Page, state: NodeState, startedAt: number, network?: NetworkTracker): Promise<boolean> {
+  let met: boolean;
+  if (state.condition.type === 'all' || state.condition.type === 'any') {
+    // Every child is checked on each round so their timings and details stay current
+    const results: boolean[] = [];
+    for (const child of state.children) {
+      results.push(await evaluate(page, child, startedAt, network));
+    }
+    met = state.condition.type === 'all' ? results.every(Boolean) : results.some(Boolean);
+  } else {
+    try {
+      const result = await checkLeaf(page, state, network);
+      met = result.met;
+      state.detail = result.detail;
+    } catch (error) {
+      if (!isTransient(error as Error)) {
+        throw error;
+      }
+      met = false;
+      state.detail = 'page was navigating';
+    }
+  }
+
+  if (met && !state.met) {
+    state.metAt = Date.now() - startedAt;
+  } else if (!met) {
+    // A condition that stops holding is timed again when it holds next
+    state.metAt = undefined;
+  }
+  state.met = met;
+  return met;
+}
+
+function toResult(state: NodeState): ConditionResult {
+  return {
+    label: state.label,
+    met: state.met,
+    ...(state.metAt !== undefined ? { elapsedMs: state.metAt } : {}),
+    ...(state.detail !== undefined ? { detail: state.detail } : {}),
+    ...(state.children.length > 0 ? { children: state.children.map(toResult) } : {}),
+  };
+}
+
+function unmetLeaves(result: ConditionResult): string[] {
+  if (result.met) {
+    return [];
+  }
+  return result.children ? result.children.flatMap(unmetLeaves) : [result.label];
+}
+
+/**
+ * Poll a condition until it holds or the timeout passes
+ * @returns The outcome; a timeout is reported with met: false rather than thrown
+ * @throws Error when a check fails for a reason other than the page navigating (e.g. an invalid selector)
+ */
+export async function waitForCondition(page: Page, condition: WaitCondition, options: WaitOptions = {}): Promise<WaitResult> {
+  const timeout = options.timeout ?? 30000;
+  const pollInterval = options.pollInterval ?? 100;
+  const state = buildState(condition);
+  const network = usesNetwork(condition) ? new NetworkTracker(page) : undefined;
+  const startedAt = Date.now();
+
+  try {
+    let met = await evaluate(page, state, startedAt, network);
+    while (!met && Date.now() - startedAt < timeout) {
+      await new Promise(resolve => setTimeout(resolve, Math.min(pollInterval, Math.max(0, timeout - (Date.now() - startedAt)))));
+      met = await evaluate(page, state, startedAt, network);
+    }
+
+    const result = toResult(state);
+    return { met, elapsedMs: Date.now() - startedAt, timeout, condition: result, unmet: unmetLeaves(result) };
+  } finally {
+    network?.dispose();
+  }
+}
+
+/**
+ * Report lines of a wait: one per condition with its timing or last observation
+ */
+export function formatWaitResult(result: WaitResult): string[] {
+  const lines = (condition: ConditionResult, depth: number): string[] => [
+    `${'  '.repeat(depth + 1)}${condition.met ? '✓' : '✗'} ${condition.label}` +
+      (condition.met && condition.elapsedMs !== undefined ? ` (${condition.elapsedMs}ms)` : '') +
+      (!condition.met && condition.detail ? ` - ${condition.detail}` : ''),
+    ...(condition.children ?? []).flatMap(child => lines(child, depth + 1)),
+  ];
+
+  return [
+    result.met ? `✓ Wait completed in ${result.elapsedMs}ms` : `✗ Timeout ${result.timeout}ms exceeded after ${result.elapsedMs}ms of waiting`,
+    'Conditions:',
+    ...lines(result.condition, 0),
+    ...(result.met ? [] : [`Still unmet: ${result.unmet.join(', ')}`]),
+  ];
+}